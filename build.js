@@ -20,6 +20,9 @@ function kill(status, ...args) {
   process.exit(status);
 }
 
+/** Modules only built as CommonJS, like the executable which checks `require.main`. */
+const commonJsOnly = new Set(['cli']);
+
 function ignoreError(fn) {
   try {
     fn()
@@ -33,9 +36,11 @@ function prepareDir(path) {
 
 function processFile(tmpDir, outDir, filename, license) {
   return new Promise((resolve, reject) => {
-    const readStream = fs.createReadStream(join(tmpDir, filename), 'utf-8')
+    // Keeps the shebang of executables on the first line.
+    const shebang = /^#!.*\n/.exec(fs.readFileSync(join(tmpDir, filename), 'utf-8'))?.[0] ?? '';
+    const readStream = fs.createReadStream(join(tmpDir, filename), { encoding: 'utf-8', start: shebang.length })
     const writeStream = fs.createWriteStream(join(outDir, filename), 'utf-8')
-    writeStream.write(license);
+    writeStream.write(shebang + license);
     readStream.pipe(writeStream);
     writeStream.on('error', reject);
     writeStream.on('finish', resolve);
@@ -62,6 +67,23 @@ async function processFiles(tmpDir, outDir, license) {
   remove(tmpDir);
 }
 
+/** Renames ES modules `.mjs` and `.d.mts`, and adds the extension to their relative imports, as Node requires. */
+function processEsmFiles(esmDir, outDir, license) {
+  for (const entry of fs.readdirSync(esmDir, { withFileTypes: true })) {
+    const match = /^(.*)\.(js|d\.ts)$/.exec(entry.name);
+    if (entry.isFile() && match && !commonJsOnly.has(match[1])) {
+      const source = fs.readFileSync(join(esmDir, entry.name), 'utf-8');
+      const outFile = join(outDir, `${match[1]}.${match[2] === 'js' ? 'mjs' : 'd.mts'}`);
+      const esmSource = source.replace(
+        /(\bfrom\s*|\bimport\s*\(?\s*)(['"])(\.\.?\/[^'"]*)\2/g,
+        (_match, keyword, quote, specifier) => `${keyword}${quote}${specifier}.mjs${quote}`,
+      );
+      fs.writeFileSync(outFile, license + esmSource, 'utf-8');
+    }
+  }
+  remove(esmDir);
+}
+
 function readdirIfExists(path) {
   try {
     return fs.readdirSync(path);
@@ -91,9 +113,9 @@ function resolveOutDir() {
   }
 }
 
-function tsc(tmpDir) {
+function tsc(tmpDir, ...options) {
   const npx = /^win\d+$/.test(process.platform) ? 'npx.cmd' : 'npx';
-  const args = ['tsc', '--outDir', tmpDir];
+  const args = ['tsc', '--outDir', tmpDir, ...options];
   console.log('>', npx, ...args);
   console.log();
   const { error, status } = cp.spawnSync(npx, args, { shell: true, stdio: 'inherit' });
@@ -117,12 +139,16 @@ try {
   kill(500, 'Failure to get version from package.json\n ', String(cause));
 }
 const tmpDir = fs.mkdtempSync(join(os.tmpdir(), `${packageName}-`));
+const esmDir = fs.mkdtempSync(join(os.tmpdir(), `${packageName}-esm-`));
 prepareDir(tmpDir);
+prepareDir(esmDir);
 const outDir = resolveOutDir();
 prepareDir(outDir);
 tsc(tmpDir);
+tsc(esmDir, '--module', 'esnext');
 const license = `/*! *****************************************************************************
 ${fs.readFileSync(resolve('LICENSE.txt'), 'utf-8').replace(/\n$/, '')}
 ***************************************************************************** */
 `;
+processEsmFiles(esmDir, outDir, license);
 processFiles(tmpDir, outDir, license).catch((error) => kill(1, error));
@@ -0,0 +1,444 @@
+const fs = require('fs');
+const path = require('path');
+
+const resolve = (...args) => path.resolve(__dirname, ...args);
+const { join } = path;
+
+/** Globals declared by TypeScript's libs which are also defined on Node, and thus left as they are. */
+const nodeGlobals = new Set([
+  'AbortController',
+  'AbortSignal',
+  'Blob',
+  'BroadcastChannel',
+  'ByteLengthQueuingStrategy',
+  'CompressionStream',
+  'CountQueuingStrategy',
+  'Crypto',
+  'CryptoKey',
+  'CustomEvent',
+  'DOMException',
+  'DecompressionStream',
+  'Event',
+  'EventTarget',
+  'File',
+  'FormData',
+  'Headers',
+  'MessageChannel',
+  'MessageEvent',
+  'MessagePort',
+  'Performance',
+  'PerformanceEntry',
+  'PerformanceMark',
+  'PerformanceMeasure',
+  'PerformanceObserver',
+  'PerformanceObserverEntryList',
+  'PerformanceResourceTiming',
+  'ReadableByteStreamController',
+  'ReadableStream',
+  'ReadableStreamBYOBReader',
+  'ReadableStreamBYOBRequest',
+  'ReadableStreamDefaultController',
+  'ReadableStreamDefaultReader',
+  'Request',
+  'Response',
+  'SubtleCrypto',
+  'TextDecoder',
+  'TextDecoderStream',
+  'TextEncoder',
+  'TextEncoderStream',
+  'TransformStream',
+  'TransformStreamDefaultController',
+  'URL',
+  'URLSearchParams',
+  'WritableStream',
+  'WritableStreamDefaultController',
+  'WritableStreamDefaultWriter',
+  'atob',
+  'btoa',
+  'clearInterval',
+  'clearTimeout',
+  'console',
+  'crypto',
+  'fetch',
+  'performance',
+  'queueMicrotask',
+  'setInterval',
+  'setTimeout',
+  'structuredClone',
+  'toString',
+]);
+
+/** Libraries to generate, by name of the TypeScript lib. */
+const libs = {
+  'dom': {
+    name: 'browser',
+    keysType: 'BrowserGlobalKeys',
+    globalsType: 'BrowserGlobals',
+    scopeType: 'Window',
+    scopeGlobals: ['self', 'window'],
+    // Declares async iteration of `ReadableStream` and `FileSystemDirectoryHandle`, in a lib of its own.
+    asyncIterable: true,
+    // Interface configuring the lib through declaration merging, and the types reading it.
+    config: {
+      type: 'PartialLibDomConfig',
+      keysType: 'PartialLibDomConfigKeys',
+      globalType: 'PartialLibDomGlobal',
+      nodeGlobalType: 'PartialLibDomNodeGlobal',
+    },
+    runtime: { file: 'browserGlobals.ts', array: 'browserGlobals' },
+  },
+  'webworker': {
+    name: 'worker',
+    keysType: 'WorkerGlobalKeys',
+    globalsType: 'WorkerGlobals',
+    scopeType: 'WorkerGlobalScope',
+    scopeGlobals: ['self'],
+    // Members of the service worker global scope, which `lib.webworker.d.ts` does not declare as globals.
+    extraScope: 'ServiceWorkerGlobalScope',
+    runtime: { file: 'workerGlobals.ts', array: 'workerGlobals' },
+  },
+};
+
+const banner = `/******************************************************************************
+Modified version of the lib, setting browser globals as eventually undefined.
+******************************************************************************/
+`;
+
+function kill(status, ...args) {
+  if (args.length) {
+    console.error(...args);
+  }
+  process.exit(status);
+}
+
+function parseArgs(argv) {
+  const options = { typescript: null, variant: false };
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    if (arg === '--typescript') {
+      options.typescript = argv[(index += 1)];
+      if (!options.typescript) {
+        kill(1, 'Missing path after --typescript');
+      }
+    } else if (arg === '--variant') {
+      options.variant = true;
+    } else {
+      kill(1, `Unknown argument ${arg}\nUsage: node generate [--typescript <path>] [--variant]`);
+    }
+  }
+  return options;
+}
+
+function readTypeScriptVersion(dir) {
+  return JSON.parse(fs.readFileSync(join(dir, 'package.json'), 'utf-8')).version;
+}
+
+function readTypeScriptLib(dir, name) {
+  return fs.readFileSync(join(dir, 'lib', `lib.${name}.d.ts`), 'utf-8').replace(/\r\n/g, '\n');
+}
+
+/** Halves the indentation of TypeScript's libs, from 4 spaces to 2. */
+function reindent(source) {
+  return source.replace(/^( {4})+/gm, (indent) => ' '.repeat(indent.length / 2));
+}
+
+/** Returns the index of the parenthesis closing the one at `start`. */
+function closingParen(source, start) {
+  let depth = 0;
+  for (let index = start; index < source.length; index += 1) {
+    if (source[index] === '(') {
+      depth += 1;
+    } else if (source[index] === ')' && !(depth -= 1)) {
+      return index;
+    }
+  }
+  throw new Error(`Unbalanced parentheses in: ${source}`);
+}
+
+/** Turns `<T>(arg: T): T` into `<T>(arg: T) => T`. */
+function toArrowType(signature) {
+  const end = closingParen(signature, signature.indexOf('('));
+  return `${signature.slice(0, end + 1)} =>${signature.slice(end + 2)}`;
+}
+
+function isEventuallyUndefined(type) {
+  return /(^|\|)\s*undefined\s*(\||$)/.test(type);
+}
+
+/** Whether `type` has an arrow or an intersection outside of any parentheses, brackets or braces. */
+function needsParens(type) {
+  let depth = 0;
+  for (let index = 0; index < type.length; index += 1) {
+    if ('([{'.includes(type[index])) {
+      depth += 1;
+    } else if (')]}'.includes(type[index])) {
+      depth -= 1;
+    } else if (!depth && (type[index] === '&' || type.startsWith('=>', index))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function eventuallyUndefined(type) {
+  if (isEventuallyUndefined(type)) {
+    return type;
+  } else if (needsParens(type)) {
+    return `undefined | (${type})`;
+  } else {
+    return `undefined | ${type}`;
+  }
+}
+
+/** Declares the members of `interface <scopeType>` as global variables, skipping those already declared. */
+function declareScopeMembers(lines, scopeType, declared) {
+  const start = lines.findIndex((line) => line.startsWith(`interface ${scopeType} `));
+  const output = ['/////////////////////////////', `/// ${scopeType} APIs`, '/////////////////////////////', ''];
+  let comment = [];
+  for (let index = start + 1; index < lines.length && lines[index] !== '}'; index += 1) {
+    const line = lines[index].trim();
+    const propMatch = /^(?:readonly )?([\w$]+): (.*);$/.exec(line);
+    const methodMatch = /^([\w$]+)(\(.*);$/.exec(line);
+    if (/^(\/\*\*|\*)/.test(line)) {
+      comment.push(line.replace(/^\*/, ' *'));
+      continue;
+    } else if (propMatch && !declared.has(propMatch[1])) {
+      output.push(...comment, `declare var ${propMatch[1]}: ${propMatch[2]};`);
+    } else if (methodMatch && !declared.has(methodMatch[1])) {
+      output.push(...comment, `declare function ${methodMatch[1]}${methodMatch[2]};`);
+    }
+    comment = [];
+  }
+  return output;
+}
+
+/** Declares the interface configuring the lib, and the types reading it. */
+function declareConfig({ globalType, keysType, nodeGlobalType, type }) {
+  return `
+/**
+ * Configures the lib through declaration merging, with unions of global variable names:
+ * - \`alwaysDefined\`: globals never \`undefined\`, like polyfilled ones.
+ * - \`neverAssume\`: globals eventually \`undefined\` though defined on Node, like \`crypto\`. Functions are left as they are.
+ *
+ * @example
+ * declare global {
+ *   interface ${type} {
+ *     alwaysDefined: 'navigator';
+ *     neverAssume: 'crypto' | 'performance';
+ *   }
+ * }
+ */
+interface ${type} {}
+
+/** Names listed by the \`Option\` member of \`${type}\`, if any. */
+type ${keysType}<Option extends string> = ${type} extends { [Key in Option]: infer Keys } ? Keys : never;
+
+/** Type of the global \`Key\`, eventually \`undefined\` unless listed by \`${type}['alwaysDefined']\`. */
+type ${globalType}<Key extends string, Type> = Key extends ${keysType}<'alwaysDefined'> ? Type : undefined | Type;
+
+/** Type of the global \`Key\` defined on Node, eventually \`undefined\` if listed by \`${type}['neverAssume']\`. */
+type ${nodeGlobalType}<Key extends string, Type> = Key extends ${keysType}<'neverAssume'> ? undefined | Type : Type;
+`;
+}
+
+/**
+ * Rewrites a TypeScript lib so its globals are declared as eventually undefined, save for those defined on Node.
+ * With a config interface, the globals are declared through the types reading it instead.
+ * @returns The rewritten lib and the sorted names of the eventually undefined globals.
+ */
+function transformLib(source, lib, iterable) {
+  const { config, extraScope, globalsType, keysType, scopeGlobals, scopeType } = lib;
+  const configType = (name) => (nodeGlobals.has(name) ? config.nodeGlobalType : config.globalType);
+  const keys = new Set();
+  let lines = source.replace(/typeof globalThis/g, globalsType).split('\n');
+  if (extraScope) {
+    const declared = new Set([...source.matchAll(/^declare (?:var|function) ([\w$]+)/gm)].map(([, name]) => name));
+    lines = [...lines.join('\n').replace(/\n*$/, '').split('\n'), '', ...declareScopeMembers(lines, extraScope, declared)];
+  }
+  const output = [];
+  // Closing line of the multi-line type being wrapped, if any.
+  let closing = null;
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index];
+    const varMatch = /^declare var ([\w$]+): (.*);$/.exec(line) ?? /^declare var ([\w$]+): (\{)$/.exec(line);
+    const fnMatch = /^declare function ([\w$]+)(.*);$/.exec(line);
+    if (closing && line === '};') {
+      output.push(closing);
+      closing = null;
+    } else if (varMatch && (config || !nodeGlobals.has(varMatch[1]))) {
+      const [, name, type] = varMatch;
+      if (!nodeGlobals.has(name)) {
+        keys.add(name);
+      }
+      if (!config) {
+        output.push(`declare var ${name}: ${eventuallyUndefined(type)}${type === '{' ? '' : ';'}`);
+      } else if (type === '{') {
+        output.push(`declare var ${name}: ${configType(name)}<'${name}', {`);
+        closing = '}>;';
+      } else {
+        output.push(`declare var ${name}: ${configType(name)}<'${name}', ${type}>;`);
+      }
+    } else if (fnMatch && !nodeGlobals.has(fnMatch[1])) {
+      const [, name] = fnMatch;
+      const signatures = [fnMatch[2]];
+      let next;
+      while ((next = /^declare function ([\w$]+)(.*);$/.exec(lines[index + 1] ?? '')) && next[1] === name) {
+        signatures.push(next[2]);
+        index += 1;
+      }
+      keys.add(name);
+      const [open, close] = config ? [`${config.globalType}<'${name}', `, '>'] : ['undefined | ', ''];
+      if (signatures.length === 1) {
+        const type = toArrowType(signatures[0]);
+        output.push(`declare var ${name}: ${open}${config ? type : `(${type})`}${close};`);
+      } else {
+        output.push(`declare var ${name}: ${open}{`, ...signatures.map((sig) => `    ${sig};`), `}${close};`);
+      }
+    } else {
+      output.push(line);
+    }
+  }
+  const names = [...keys].sort();
+  const union = names.filter((name) => !scopeGlobals.includes(name)).map((name) => `  | '${name}'`);
+  const text = reindent(output.join('\n'))
+    // Static members of eventually undefined constructors, like `typeof FileReader.DONE`.
+    .replace(/typeof ([\w$]+)\.([\w$]+)/g, (match, name, member) =>
+      keys.has(name) ? `Exclude<typeof ${name}, undefined>['${member}']` : match,
+    )
+    .replace(/\n\n\/\/\/ <reference no-default-lib="true"\/>\n/, `${banner}\n/// <reference path="./${iterable}" />\n`)
+    .replace(/\n*$/, '\n');
+  return {
+    lib: `${text}
+type ${keysType} =
+${union.join('\n')};
+
+type ${globalsType} = {
+  [Key in keyof typeof globalThis]: Key extends ${scopeGlobals.map((name) => `'${name}'`).join(' | ')}
+    ? ${scopeType} & ${globalsType}
+    : Key extends ${keysType}${config ? ` | ${config.keysType}<'neverAssume'>` : ''}
+      ? Exclude<typeof globalThis[Key], undefined>
+      : typeof globalThis[Key];
+};
+${config ? declareConfig(config) : ''}`,
+    names,
+  };
+}
+
+function transformIterable(source) {
+  return reindent(source).replace(/\n\n\/\/\/ <reference no-default-lib="true"\/>\n/, '\n');
+}
+
+/** Reads the eventually undefined globals from a previously generated lib, if any. */
+function readPreviousNames(file, lib) {
+  let source;
+  try {
+    source = fs.readFileSync(file, 'utf-8');
+  } catch (error) {
+    if (error instanceof Error && error.code === 'ENOENT') {
+      return null;
+    } else {
+      throw error;
+    }
+  }
+  // Older libs were naming the browser globals union `BrowserGlobalsKeys`.
+  const keysPattern = lib.keysType === 'BrowserGlobalKeys' ? 'BrowserGlobals?Keys' : lib.keysType;
+  const union = new RegExp(`^type ${keysPattern} =\\n([^;]*);`, 'm').exec(source)?.[1] ?? '';
+  const names = new Set(union.match(/[\w$]+/g));
+  for (const [, name, type] of source.matchAll(/^declare var ([\w$]+): (.*)$/gm)) {
+    const isConfigurable = lib.config && type.startsWith(`${lib.config.globalType}<`);
+    if (lib.scopeGlobals.includes(name) && (isEventuallyUndefined(type) || isConfigurable)) {
+      names.add(name);
+    }
+  }
+  return names;
+}
+
+function report(previousNames, names, lib) {
+  if (!previousNames) {
+    console.log(`No previous lib, \x1b[33m${names.length}\x1b[0m ${lib.name} globals`);
+    return;
+  }
+  const added = names.filter((name) => !previousNames.has(name));
+  const removed = [...previousNames].filter((name) => !names.includes(name)).sort();
+  for (const name of added) {
+    console.log(`\x1b[32m+ ${name}\x1b[0m`);
+  }
+  for (const name of removed) {
+    console.log(`\x1b[31m- ${name}\x1b[0m`);
+  }
+  console.log(
+    `\x1b[33m${added.length}\x1b[0m added, \x1b[33m${removed.length}\x1b[0m removed, ` +
+      `\x1b[33m${names.length}\x1b[0m ${lib.name} globals`,
+  );
+}
+
+function writeRuntimeGlobals({ array, file }, names) {
+  const path = resolve('src', file);
+  const source = fs.readFileSync(path, 'utf-8');
+  const pattern = new RegExp(`^export const ${array} = \\[\\n[^\\]]*\\] as const;`, 'm');
+  if (!pattern.test(source)) {
+    kill(1, `Could not find the ${array} array in src/${file}`);
+  }
+  const literal = `export const ${array} = [\n${names.map((name) => `  '${name}',\n`).join('')}] as const;`;
+  fs.writeFileSync(path, source.replace(pattern, literal), 'utf-8');
+}
+
+/**
+ * Maps `<=major.minor` to the variant directory in `typesVersions`, right before the catch-all entry,
+ * and in the `types@<=major.minor` conditions of the exports of the libs, right before the `types` condition.
+ */
+function writeTypesVersions(range, dir) {
+  const file = resolve('package.json');
+  const pkg = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  const toVariant = (path) => path.replace(/^\.\/lib\//, `./${dir}/`);
+  const { '*': catchAll, ...variants } = pkg.typesVersions;
+  variants[range] = Object.fromEntries(Object.entries(catchAll).map(([key, paths]) => [key, paths.map(toVariant)]));
+  const ranges = Object.keys(variants).sort((a, b) => compareVersions(a.slice(2), b.slice(2)));
+  pkg.typesVersions = Object.fromEntries([...ranges.map((key) => [key, variants[key]]), ['*', catchAll]]);
+  for (const [key, conditions] of Object.entries(pkg.exports)) {
+    if (typeof conditions.types === 'string' && conditions.types.startsWith('./lib/')) {
+      const { types, ...variants } = conditions;
+      variants[`types@${range}`] = toVariant(types);
+      const ranges = Object.keys(variants).sort((a, b) => compareVersions(a.slice(8), b.slice(8)));
+      pkg.exports[key] = Object.fromEntries([...ranges.map((key) => [key, variants[key]]), ['types', types]]);
+    }
+  }
+  fs.writeFileSync(file, `${JSON.stringify(pkg, null, 2)}\n`, 'utf-8');
+}
+
+function compareVersions(a, b) {
+  const [aMajor, aMinor] = a.split('.').map(Number);
+  const [bMajor, bMinor] = b.split('.').map(Number);
+  return aMajor - bMajor || aMinor - bMinor;
+}
+
+const options = parseArgs(process.argv.slice(2));
+const tsDir = options.typescript
+  ? path.resolve(options.typescript)
+  : path.dirname(require.resolve('typescript/package.json'));
+const version = readTypeScriptVersion(tsDir);
+const [major, minor] = version.split('.');
+const outDir = options.variant ? join('lib', `ts${major}.${minor}`) : 'lib';
+fs.mkdirSync(resolve(outDir), { recursive: true });
+
+for (const [libName, lib] of Object.entries(libs)) {
+  console.log(`Generating ${join(outDir, `${libName}.d.ts`)} from TypeScript \x1b[33m${version}\x1b[0m`);
+  const iterable = `${libName}.iterable.d.ts`;
+  const { lib: text, names } = transformLib(readTypeScriptLib(tsDir, libName), lib, iterable);
+  report(readPreviousNames(resolve(outDir, `${libName}.d.ts`), lib), names, lib);
+  console.log();
+  fs.writeFileSync(resolve(outDir, `${libName}.d.ts`), text, 'utf-8');
+  fs.writeFileSync(resolve(outDir, iterable), transformIterable(readTypeScriptLib(tsDir, `${libName}.iterable`)), 'utf-8');
+  if (lib.asyncIterable) {
+    const asyncIterable = `${libName}.asynciterable.d.ts`;
+    const source = readTypeScriptLib(tsDir, `${libName}.asynciterable`);
+    fs.writeFileSync(resolve(outDir, asyncIterable), transformIterable(source), 'utf-8');
+  }
+  if (!options.variant) {
+    writeRuntimeGlobals(lib.runtime, names);
+  }
+}
+
+if (options.variant) {
+  writeTypesVersions(`<=${major}.${minor}`, outDir.split(path.sep).join('/'));
+}
@@ -2190,7 +2190,7 @@ interface WriteParams {
 
 type NodeFilter = ((node: Node) => number) | { acceptNode(node: Node): number; };
 
-declare var NodeFilter: undefined | { 
+declare var NodeFilter: PartialLibDomGlobal<'NodeFilter', {
   readonly FILTER_ACCEPT: 1;
   readonly FILTER_REJECT: 2;
   readonly FILTER_SKIP: 3;
@@ -2206,8 +2206,8 @@ declare var NodeFilter: undefined | {
   readonly SHOW_DOCUMENT: 0x100;
   readonly SHOW_DOCUMENT_TYPE: 0x200;
   readonly SHOW_DOCUMENT_FRAGMENT: 0x400;
-  readonly SHOW_NOTATION: 0x800; 
-};
+  readonly SHOW_NOTATION: 0x800;
+}>;
 
 type XPathNSResolver = ((prefix: string | null) => string | null) | { lookupNamespaceURI(prefix: string | null): string | null; };
 
@@ -2329,10 +2329,10 @@ interface AbortController {
   abort(reason?: any): void;
 }
 
-declare var AbortController: { 
+declare var AbortController: PartialLibDomNodeGlobal<'AbortController', {
   prototype: AbortController;
-  new(): AbortController; 
-};
+  new(): AbortController;
+}>;
 
 interface AbortSignalEventMap {
   "abort": Event;
@@ -2362,7 +2362,7 @@ interface AbortSignal extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var AbortSignal: { 
+declare var AbortSignal: PartialLibDomNodeGlobal<'AbortSignal', {
   prototype: AbortSignal;
   new(): AbortSignal;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/AbortSignal/abort_static) */
@@ -2370,8 +2370,8 @@ declare var AbortSignal: {
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/AbortSignal/any_static) */
   any(signals: AbortSignal[]): AbortSignal;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/AbortSignal/timeout_static) */
-  timeout(milliseconds: number): AbortSignal; 
-};
+  timeout(milliseconds: number): AbortSignal;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/AbstractRange) */
 interface AbstractRange {
@@ -2407,10 +2407,10 @@ interface AbstractRange {
   readonly startOffset: number;
 }
 
-declare var AbstractRange: undefined | { 
+declare var AbstractRange: PartialLibDomGlobal<'AbstractRange', {
   prototype: AbstractRange;
-  new(): AbstractRange; 
-};
+  new(): AbstractRange;
+}>;
 
 interface AbstractWorkerEventMap {
   "error": ErrorEvent;
@@ -2451,10 +2451,10 @@ interface AnalyserNode extends AudioNode {
   getFloatTimeDomainData(array: Float32Array): void;
 }
 
-declare var AnalyserNode: undefined | { 
+declare var AnalyserNode: PartialLibDomGlobal<'AnalyserNode', {
   prototype: AnalyserNode;
-  new(context: BaseAudioContext, options?: AnalyserOptions): AnalyserNode; 
-};
+  new(context: BaseAudioContext, options?: AnalyserOptions): AnalyserNode;
+}>;
 
 interface Animatable {
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/animate) */
@@ -2521,10 +2521,10 @@ interface Animation extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var Animation: undefined | { 
+declare var Animation: PartialLibDomGlobal<'Animation', {
   prototype: Animation;
-  new(effect?: AnimationEffect | null, timeline?: AnimationTimeline | null): Animation; 
-};
+  new(effect?: AnimationEffect | null, timeline?: AnimationTimeline | null): Animation;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/AnimationEffect) */
 interface AnimationEffect {
@@ -2536,10 +2536,10 @@ interface AnimationEffect {
   updateTiming(timing?: OptionalEffectTiming): void;
 }
 
-declare var AnimationEffect: undefined | { 
+declare var AnimationEffect: PartialLibDomGlobal<'AnimationEffect', {
   prototype: AnimationEffect;
-  new(): AnimationEffect; 
-};
+  new(): AnimationEffect;
+}>;
 
 /**
  * Events providing information related to animations.
@@ -2555,10 +2555,10 @@ interface AnimationEvent extends Event {
   readonly pseudoElement: string;
 }
 
-declare var AnimationEvent: undefined | { 
+declare var AnimationEvent: PartialLibDomGlobal<'AnimationEvent', {
   prototype: AnimationEvent;
-  new(type: string, animationEventInitDict?: AnimationEventInit): AnimationEvent; 
-};
+  new(type: string, animationEventInitDict?: AnimationEventInit): AnimationEvent;
+}>;
 
 interface AnimationFrameProvider {
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/DedicatedWorkerGlobalScope/cancelAnimationFrame) */
@@ -2575,10 +2575,10 @@ interface AnimationPlaybackEvent extends Event {
   readonly timelineTime: CSSNumberish | null;
 }
 
-declare var AnimationPlaybackEvent: undefined | { 
+declare var AnimationPlaybackEvent: PartialLibDomGlobal<'AnimationPlaybackEvent', {
   prototype: AnimationPlaybackEvent;
-  new(type: string, eventInitDict?: AnimationPlaybackEventInit): AnimationPlaybackEvent; 
-};
+  new(type: string, eventInitDict?: AnimationPlaybackEventInit): AnimationPlaybackEvent;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/AnimationTimeline) */
 interface AnimationTimeline {
@@ -2586,10 +2586,10 @@ interface AnimationTimeline {
   readonly currentTime: CSSNumberish | null;
 }
 
-declare var AnimationTimeline: undefined | { 
+declare var AnimationTimeline: PartialLibDomGlobal<'AnimationTimeline', {
   prototype: AnimationTimeline;
-  new(): AnimationTimeline; 
-};
+  new(): AnimationTimeline;
+}>;
 
 /**
  * A DOM element's attribute as an object. In most DOM methods, you will probably directly retrieve the attribute as a string (e.g., Element.getAttribute(), but certain functions (e.g., Element.getAttributeNode()) or means of iterating give Attr types.
@@ -2618,10 +2618,10 @@ interface Attr extends Node {
   value: string;
 }
 
-declare var Attr: undefined | { 
+declare var Attr: PartialLibDomGlobal<'Attr', {
   prototype: Attr;
-  new(): Attr; 
-};
+  new(): Attr;
+}>;
 
 /**
  * A short audio asset residing in memory, created from an audio file using the AudioContext.decodeAudioData() method, or from raw data using AudioContext.createBuffer(). Once put into an AudioBuffer, the audio can then be played by being passed into an AudioBufferSourceNode.
@@ -2645,10 +2645,10 @@ interface AudioBuffer {
   getChannelData(channel: number): Float32Array;
 }
 
-declare var AudioBuffer: undefined | { 
+declare var AudioBuffer: PartialLibDomGlobal<'AudioBuffer', {
   prototype: AudioBuffer;
-  new(options: AudioBufferOptions): AudioBuffer; 
-};
+  new(options: AudioBufferOptions): AudioBuffer;
+}>;
 
 /**
  * An AudioScheduledSourceNode which represents an audio source consisting of in-memory audio data, stored in an AudioBuffer. It's especially useful for playing back audio which has particularly stringent timing accuracy requirements, such as for sounds that must match a specific rhythm and can be kept in memory rather than being played from disk or the network.
@@ -2676,10 +2676,10 @@ interface AudioBufferSourceNode extends AudioScheduledSourceNode {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var AudioBufferSourceNode: undefined | { 
+declare var AudioBufferSourceNode: PartialLibDomGlobal<'AudioBufferSourceNode', {
   prototype: AudioBufferSourceNode;
-  new(context: BaseAudioContext, options?: AudioBufferSourceOptions): AudioBufferSourceNode; 
-};
+  new(context: BaseAudioContext, options?: AudioBufferSourceOptions): AudioBufferSourceNode;
+}>;
 
 /**
  * An audio-processing graph built from audio modules linked together, each represented by an AudioNode.
@@ -2711,10 +2711,10 @@ interface AudioContext extends BaseAudioContext {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var AudioContext: undefined | { 
+declare var AudioContext: PartialLibDomGlobal<'AudioContext', {
   prototype: AudioContext;
-  new(contextOptions?: AudioContextOptions): AudioContext; 
-};
+  new(contextOptions?: AudioContextOptions): AudioContext;
+}>;
 
 /**
  * AudioDestinationNode has no output (as it is the output, no more AudioNode can be linked after it in the audio graph) and one input. The number of channels in the input must be between 0 and the maxChannelCount value or an exception is raised.
@@ -2726,10 +2726,10 @@ interface AudioDestinationNode extends AudioNode {
   readonly maxChannelCount: number;
 }
 
-declare var AudioDestinationNode: undefined | { 
+declare var AudioDestinationNode: PartialLibDomGlobal<'AudioDestinationNode', {
   prototype: AudioDestinationNode;
-  new(): AudioDestinationNode; 
-};
+  new(): AudioDestinationNode;
+}>;
 
 /**
  * The position and orientation of the unique person listening to the audio scene, and is used in audio spatialization. All PannerNodes spatialize in relation to the AudioListener stored in the BaseAudioContext.listener attribute.
@@ -2769,10 +2769,10 @@ interface AudioListener {
   setPosition(x: number, y: number, z: number): void;
 }
 
-declare var AudioListener: undefined | { 
+declare var AudioListener: PartialLibDomGlobal<'AudioListener', {
   prototype: AudioListener;
-  new(): AudioListener; 
-};
+  new(): AudioListener;
+}>;
 
 /**
  * A generic interface for representing an audio processing module. Examples include:
@@ -2805,10 +2805,10 @@ interface AudioNode extends EventTarget {
   disconnect(destinationParam: AudioParam, output: number): void;
 }
 
-declare var AudioNode: undefined | { 
+declare var AudioNode: PartialLibDomGlobal<'AudioNode', {
   prototype: AudioNode;
-  new(): AudioNode; 
-};
+  new(): AudioNode;
+}>;
 
 /**
  * The Web Audio API's AudioParam interface represents an audio-related parameter, usually a parameter of an AudioNode (such as GainNode.gain).
@@ -2841,20 +2841,20 @@ interface AudioParam {
   setValueCurveAtTime(values: number[] | Float32Array, startTime: number, duration: number): AudioParam;
 }
 
-declare var AudioParam: undefined | { 
+declare var AudioParam: PartialLibDomGlobal<'AudioParam', {
   prototype: AudioParam;
-  new(): AudioParam; 
-};
+  new(): AudioParam;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/AudioParamMap) */
 interface AudioParamMap {
   forEach(callbackfn: (value: AudioParam, key: string, parent: AudioParamMap) => void, thisArg?: any): void;
 }
 
-declare var AudioParamMap: undefined | { 
+declare var AudioParamMap: PartialLibDomGlobal<'AudioParamMap', {
   prototype: AudioParamMap;
-  new(): AudioParamMap; 
-};
+  new(): AudioParamMap;
+}>;
 
 /**
  * The Web Audio API events that occur when a ScriptProcessorNode input buffer is ready to be processed.
@@ -2884,11 +2884,10 @@ interface AudioProcessingEvent extends Event {
 }
 
 /** @deprecated */
-
-declare var AudioProcessingEvent: undefined | { 
+declare var AudioProcessingEvent: PartialLibDomGlobal<'AudioProcessingEvent', {
   prototype: AudioProcessingEvent;
-  new(type: string, eventInitDict: AudioProcessingEventInit): AudioProcessingEvent; 
-};
+  new(type: string, eventInitDict: AudioProcessingEventInit): AudioProcessingEvent;
+}>;
 
 interface AudioScheduledSourceNodeEventMap {
   "ended": Event;
@@ -2908,10 +2907,10 @@ interface AudioScheduledSourceNode extends AudioNode {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var AudioScheduledSourceNode: undefined | { 
+declare var AudioScheduledSourceNode: PartialLibDomGlobal<'AudioScheduledSourceNode', {
   prototype: AudioScheduledSourceNode;
-  new(): AudioScheduledSourceNode; 
-};
+  new(): AudioScheduledSourceNode;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -2921,10 +2920,10 @@ declare var AudioScheduledSourceNode: undefined | {
 interface AudioWorklet extends Worklet {
 }
 
-declare var AudioWorklet: undefined | { 
+declare var AudioWorklet: PartialLibDomGlobal<'AudioWorklet', {
   prototype: AudioWorklet;
-  new(): AudioWorklet; 
-};
+  new(): AudioWorklet;
+}>;
 
 interface AudioWorkletNodeEventMap {
   "processorerror": Event;
@@ -2948,10 +2947,10 @@ interface AudioWorkletNode extends AudioNode {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var AudioWorkletNode: undefined | { 
+declare var AudioWorkletNode: PartialLibDomGlobal<'AudioWorkletNode', {
   prototype: AudioWorkletNode;
-  new(context: BaseAudioContext, name: string, options?: AudioWorkletNodeOptions): AudioWorkletNode; 
-};
+  new(context: BaseAudioContext, name: string, options?: AudioWorkletNodeOptions): AudioWorkletNode;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -2967,10 +2966,10 @@ interface AuthenticatorAssertionResponse extends AuthenticatorResponse {
   readonly userHandle: ArrayBuffer | null;
 }
 
-declare var AuthenticatorAssertionResponse: undefined | { 
+declare var AuthenticatorAssertionResponse: PartialLibDomGlobal<'AuthenticatorAssertionResponse', {
   prototype: AuthenticatorAssertionResponse;
-  new(): AuthenticatorAssertionResponse; 
-};
+  new(): AuthenticatorAssertionResponse;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -2990,10 +2989,10 @@ interface AuthenticatorAttestationResponse extends AuthenticatorResponse {
   getTransports(): string[];
 }
 
-declare var AuthenticatorAttestationResponse: undefined | { 
+declare var AuthenticatorAttestationResponse: PartialLibDomGlobal<'AuthenticatorAttestationResponse', {
   prototype: AuthenticatorAttestationResponse;
-  new(): AuthenticatorAttestationResponse; 
-};
+  new(): AuthenticatorAttestationResponse;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -3005,10 +3004,10 @@ interface AuthenticatorResponse {
   readonly clientDataJSON: ArrayBuffer;
 }
 
-declare var AuthenticatorResponse: undefined | { 
+declare var AuthenticatorResponse: PartialLibDomGlobal<'AuthenticatorResponse', {
   prototype: AuthenticatorResponse;
-  new(): AuthenticatorResponse; 
-};
+  new(): AuthenticatorResponse;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/BarProp) */
 interface BarProp {
@@ -3016,10 +3015,10 @@ interface BarProp {
   readonly visible: boolean;
 }
 
-declare var BarProp: undefined | { 
+declare var BarProp: PartialLibDomGlobal<'BarProp', {
   prototype: BarProp;
-  new(): BarProp; 
-};
+  new(): BarProp;
+}>;
 
 interface BaseAudioContextEventMap {
   "statechange": Event;
@@ -3093,10 +3092,10 @@ interface BaseAudioContext extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var BaseAudioContext: undefined | { 
+declare var BaseAudioContext: PartialLibDomGlobal<'BaseAudioContext', {
   prototype: BaseAudioContext;
-  new(): BaseAudioContext; 
-};
+  new(): BaseAudioContext;
+}>;
 
 /**
  * The beforeunload event is fired when the window, the document and its resources are about to be unloaded.
@@ -3112,10 +3111,10 @@ interface BeforeUnloadEvent extends Event {
   returnValue: any;
 }
 
-declare var BeforeUnloadEvent: undefined | { 
+declare var BeforeUnloadEvent: PartialLibDomGlobal<'BeforeUnloadEvent', {
   prototype: BeforeUnloadEvent;
-  new(): BeforeUnloadEvent; 
-};
+  new(): BeforeUnloadEvent;
+}>;
 
 /**
  * A simple low-order filter, and is created using the AudioContext.createBiquadFilter() method. It is an AudioNode that can represent different kinds of filters, tone control devices, and graphic equalizers.
@@ -3137,10 +3136,10 @@ interface BiquadFilterNode extends AudioNode {
   getFrequencyResponse(frequencyHz: Float32Array, magResponse: Float32Array, phaseResponse: Float32Array): void;
 }
 
-declare var BiquadFilterNode: undefined | { 
+declare var BiquadFilterNode: PartialLibDomGlobal<'BiquadFilterNode', {
   prototype: BiquadFilterNode;
-  new(context: BaseAudioContext, options?: BiquadFilterOptions): BiquadFilterNode; 
-};
+  new(context: BaseAudioContext, options?: BiquadFilterOptions): BiquadFilterNode;
+}>;
 
 /**
  * A file-like object of immutable, raw data. Blobs represent data that isn't necessarily in a JavaScript-native format. The File interface is based on Blob, inheriting blob functionality and expanding it to support files on the user's system.
@@ -3162,10 +3161,10 @@ interface Blob {
   text(): Promise<string>;
 }
 
-declare var Blob: { 
+declare var Blob: PartialLibDomNodeGlobal<'Blob', {
   prototype: Blob;
-  new(blobParts?: BlobPart[], options?: BlobPropertyBag): Blob; 
-};
+  new(blobParts?: BlobPart[], options?: BlobPropertyBag): Blob;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/BlobEvent) */
 interface BlobEvent extends Event {
@@ -3175,10 +3174,10 @@ interface BlobEvent extends Event {
   readonly timecode: DOMHighResTimeStamp;
 }
 
-declare var BlobEvent: undefined | { 
+declare var BlobEvent: PartialLibDomGlobal<'BlobEvent', {
   prototype: BlobEvent;
-  new(type: string, eventInitDict: BlobEventInit): BlobEvent; 
-};
+  new(type: string, eventInitDict: BlobEventInit): BlobEvent;
+}>;
 
 interface Body {
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Request/body) */
@@ -3232,10 +3231,10 @@ interface BroadcastChannel extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var BroadcastChannel: { 
+declare var BroadcastChannel: PartialLibDomNodeGlobal<'BroadcastChannel', {
   prototype: BroadcastChannel;
-  new(name: string): BroadcastChannel; 
-};
+  new(name: string): BroadcastChannel;
+}>;
 
 /**
  * This Streams API interface provides a built-in byte length queuing strategy that can be used when constructing streams.
@@ -3249,10 +3248,10 @@ interface ByteLengthQueuingStrategy extends QueuingStrategy<ArrayBufferView> {
   readonly size: QueuingStrategySize<ArrayBufferView>;
 }
 
-declare var ByteLengthQueuingStrategy: { 
+declare var ByteLengthQueuingStrategy: PartialLibDomNodeGlobal<'ByteLengthQueuingStrategy', {
   prototype: ByteLengthQueuingStrategy;
-  new(init: QueuingStrategyInit): ByteLengthQueuingStrategy; 
-};
+  new(init: QueuingStrategyInit): ByteLengthQueuingStrategy;
+}>;
 
 /**
  * A CDATA section that can be used within XML to include extended portions of unescaped text. The symbols < and & don’t need escaping as they normally do when inside a CDATA section.
@@ -3262,10 +3261,10 @@ declare var ByteLengthQueuingStrategy: {
 interface CDATASection extends Text {
 }
 
-declare var CDATASection: undefined | { 
+declare var CDATASection: PartialLibDomGlobal<'CDATASection', {
   prototype: CDATASection;
-  new(): CDATASection; 
-};
+  new(): CDATASection;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSAnimation) */
 interface CSSAnimation extends Animation {
@@ -3277,10 +3276,10 @@ interface CSSAnimation extends Animation {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var CSSAnimation: undefined | { 
+declare var CSSAnimation: PartialLibDomGlobal<'CSSAnimation', {
   prototype: CSSAnimation;
-  new(): CSSAnimation; 
-};
+  new(): CSSAnimation;
+}>;
 
 /**
  * A single condition CSS at-rule, which consists of a condition and a statement block. It is a child of CSSGroupingRule.
@@ -3292,10 +3291,10 @@ interface CSSConditionRule extends CSSGroupingRule {
   readonly conditionText: string;
 }
 
-declare var CSSConditionRule: undefined | { 
+declare var CSSConditionRule: PartialLibDomGlobal<'CSSConditionRule', {
   prototype: CSSConditionRule;
-  new(): CSSConditionRule; 
-};
+  new(): CSSConditionRule;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSContainerRule) */
 interface CSSContainerRule extends CSSConditionRule {
@@ -3305,10 +3304,10 @@ interface CSSContainerRule extends CSSConditionRule {
   readonly containerQuery: string;
 }
 
-declare var CSSContainerRule: undefined | { 
+declare var CSSContainerRule: PartialLibDomGlobal<'CSSContainerRule', {
   prototype: CSSContainerRule;
-  new(): CSSContainerRule; 
-};
+  new(): CSSContainerRule;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSCounterStyleRule) */
 interface CSSCounterStyleRule extends CSSRule {
@@ -3336,10 +3335,10 @@ interface CSSCounterStyleRule extends CSSRule {
   system: string;
 }
 
-declare var CSSCounterStyleRule: undefined | { 
+declare var CSSCounterStyleRule: PartialLibDomGlobal<'CSSCounterStyleRule', {
   prototype: CSSCounterStyleRule;
-  new(): CSSCounterStyleRule; 
-};
+  new(): CSSCounterStyleRule;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSFontFaceRule) */
 interface CSSFontFaceRule extends CSSRule {
@@ -3347,10 +3346,10 @@ interface CSSFontFaceRule extends CSSRule {
   readonly style: CSSStyleDeclaration;
 }
 
-declare var CSSFontFaceRule: undefined | { 
+declare var CSSFontFaceRule: PartialLibDomGlobal<'CSSFontFaceRule', {
   prototype: CSSFontFaceRule;
-  new(): CSSFontFaceRule; 
-};
+  new(): CSSFontFaceRule;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSFontFeatureValuesRule) */
 interface CSSFontFeatureValuesRule extends CSSRule {
@@ -3358,10 +3357,10 @@ interface CSSFontFeatureValuesRule extends CSSRule {
   fontFamily: string;
 }
 
-declare var CSSFontFeatureValuesRule: undefined | { 
+declare var CSSFontFeatureValuesRule: PartialLibDomGlobal<'CSSFontFeatureValuesRule', {
   prototype: CSSFontFeatureValuesRule;
-  new(): CSSFontFeatureValuesRule; 
-};
+  new(): CSSFontFeatureValuesRule;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSFontPaletteValuesRule) */
 interface CSSFontPaletteValuesRule extends CSSRule {
@@ -3375,10 +3374,10 @@ interface CSSFontPaletteValuesRule extends CSSRule {
   readonly overrideColors: string;
 }
 
-declare var CSSFontPaletteValuesRule: undefined | { 
+declare var CSSFontPaletteValuesRule: PartialLibDomGlobal<'CSSFontPaletteValuesRule', {
   prototype: CSSFontPaletteValuesRule;
-  new(): CSSFontPaletteValuesRule; 
-};
+  new(): CSSFontPaletteValuesRule;
+}>;
 
 /**
  * Any CSS at-rule that contains other rules nested within it.
@@ -3394,19 +3393,19 @@ interface CSSGroupingRule extends CSSRule {
   insertRule(rule: string, index?: number): number;
 }
 
-declare var CSSGroupingRule: undefined | { 
+declare var CSSGroupingRule: PartialLibDomGlobal<'CSSGroupingRule', {
   prototype: CSSGroupingRule;
-  new(): CSSGroupingRule; 
-};
+  new(): CSSGroupingRule;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSImageValue) */
 interface CSSImageValue extends CSSStyleValue {
 }
 
-declare var CSSImageValue: undefined | { 
+declare var CSSImageValue: PartialLibDomGlobal<'CSSImageValue', {
   prototype: CSSImageValue;
-  new(): CSSImageValue; 
-};
+  new(): CSSImageValue;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSImportRule) */
 interface CSSImportRule extends CSSRule {
@@ -3422,10 +3421,10 @@ interface CSSImportRule extends CSSRule {
   readonly supportsText: string | null;
 }
 
-declare var CSSImportRule: undefined | { 
+declare var CSSImportRule: PartialLibDomGlobal<'CSSImportRule', {
   prototype: CSSImportRule;
-  new(): CSSImportRule; 
-};
+  new(): CSSImportRule;
+}>;
 
 /**
  * An object representing a set of style for a given keyframe. It corresponds to the contains of a single keyframe of a @keyframes at-rule. It implements the CSSRule interface with a type value of 8 (CSSRule.KEYFRAME_RULE).
@@ -3439,10 +3438,10 @@ interface CSSKeyframeRule extends CSSRule {
   readonly style: CSSStyleDeclaration;
 }
 
-declare var CSSKeyframeRule: undefined | { 
+declare var CSSKeyframeRule: PartialLibDomGlobal<'CSSKeyframeRule', {
   prototype: CSSKeyframeRule;
-  new(): CSSKeyframeRule; 
-};
+  new(): CSSKeyframeRule;
+}>;
 
 /**
  * An object representing a complete set of keyframes for a CSS animation. It corresponds to the contains of a whole @keyframes at-rule. It implements the CSSRule interface with a type value of 7 (CSSRule.KEYFRAMES_RULE).
@@ -3464,10 +3463,10 @@ interface CSSKeyframesRule extends CSSRule {
   [index: number]: CSSKeyframeRule;
 }
 
-declare var CSSKeyframesRule: undefined | { 
+declare var CSSKeyframesRule: PartialLibDomGlobal<'CSSKeyframesRule', {
   prototype: CSSKeyframesRule;
-  new(): CSSKeyframesRule; 
-};
+  new(): CSSKeyframesRule;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSKeywordValue) */
 interface CSSKeywordValue extends CSSStyleValue {
@@ -3475,10 +3474,10 @@ interface CSSKeywordValue extends CSSStyleValue {
   value: string;
 }
 
-declare var CSSKeywordValue: undefined | { 
+declare var CSSKeywordValue: PartialLibDomGlobal<'CSSKeywordValue', {
   prototype: CSSKeywordValue;
-  new(value: string): CSSKeywordValue; 
-};
+  new(value: string): CSSKeywordValue;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSLayerBlockRule) */
 interface CSSLayerBlockRule extends CSSGroupingRule {
@@ -3486,10 +3485,10 @@ interface CSSLayerBlockRule extends CSSGroupingRule {
   readonly name: string;
 }
 
-declare var CSSLayerBlockRule: undefined | { 
+declare var CSSLayerBlockRule: PartialLibDomGlobal<'CSSLayerBlockRule', {
   prototype: CSSLayerBlockRule;
-  new(): CSSLayerBlockRule; 
-};
+  new(): CSSLayerBlockRule;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSLayerStatementRule) */
 interface CSSLayerStatementRule extends CSSRule {
@@ -3497,10 +3496,10 @@ interface CSSLayerStatementRule extends CSSRule {
   readonly nameList: ReadonlyArray<string>;
 }
 
-declare var CSSLayerStatementRule: undefined | { 
+declare var CSSLayerStatementRule: PartialLibDomGlobal<'CSSLayerStatementRule', {
   prototype: CSSLayerStatementRule;
-  new(): CSSLayerStatementRule; 
-};
+  new(): CSSLayerStatementRule;
+}>;
 
 interface CSSMathClamp extends CSSMathValue {
   readonly lower: CSSNumericValue;
@@ -3508,10 +3507,10 @@ interface CSSMathClamp extends CSSMathValue {
   readonly value: CSSNumericValue;
 }
 
-declare var CSSMathClamp: undefined | { 
+declare var CSSMathClamp: PartialLibDomGlobal<'CSSMathClamp', {
   prototype: CSSMathClamp;
-  new(lower: CSSNumberish, value: CSSNumberish, upper: CSSNumberish): CSSMathClamp; 
-};
+  new(lower: CSSNumberish, value: CSSNumberish, upper: CSSNumberish): CSSMathClamp;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSMathInvert) */
 interface CSSMathInvert extends CSSMathValue {
@@ -3519,10 +3518,10 @@ interface CSSMathInvert extends CSSMathValue {
   readonly value: CSSNumericValue;
 }
 
-declare var CSSMathInvert: undefined | { 
+declare var CSSMathInvert: PartialLibDomGlobal<'CSSMathInvert', {
   prototype: CSSMathInvert;
-  new(arg: CSSNumberish): CSSMathInvert; 
-};
+  new(arg: CSSNumberish): CSSMathInvert;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSMathMax) */
 interface CSSMathMax extends CSSMathValue {
@@ -3530,10 +3529,10 @@ interface CSSMathMax extends CSSMathValue {
   readonly values: CSSNumericArray;
 }
 
-declare var CSSMathMax: undefined | { 
+declare var CSSMathMax: PartialLibDomGlobal<'CSSMathMax', {
   prototype: CSSMathMax;
-  new(...args: CSSNumberish[]): CSSMathMax; 
-};
+  new(...args: CSSNumberish[]): CSSMathMax;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSMathMin) */
 interface CSSMathMin extends CSSMathValue {
@@ -3541,10 +3540,10 @@ interface CSSMathMin extends CSSMathValue {
   readonly values: CSSNumericArray;
 }
 
-declare var CSSMathMin: undefined | { 
+declare var CSSMathMin: PartialLibDomGlobal<'CSSMathMin', {
   prototype: CSSMathMin;
-  new(...args: CSSNumberish[]): CSSMathMin; 
-};
+  new(...args: CSSNumberish[]): CSSMathMin;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSMathNegate) */
 interface CSSMathNegate extends CSSMathValue {
@@ -3552,10 +3551,10 @@ interface CSSMathNegate extends CSSMathValue {
   readonly value: CSSNumericValue;
 }
 
-declare var CSSMathNegate: undefined | { 
+declare var CSSMathNegate: PartialLibDomGlobal<'CSSMathNegate', {
   prototype: CSSMathNegate;
-  new(arg: CSSNumberish): CSSMathNegate; 
-};
+  new(arg: CSSNumberish): CSSMathNegate;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSMathProduct) */
 interface CSSMathProduct extends CSSMathValue {
@@ -3563,10 +3562,10 @@ interface CSSMathProduct extends CSSMathValue {
   readonly values: CSSNumericArray;
 }
 
-declare var CSSMathProduct: undefined | { 
+declare var CSSMathProduct: PartialLibDomGlobal<'CSSMathProduct', {
   prototype: CSSMathProduct;
-  new(...args: CSSNumberish[]): CSSMathProduct; 
-};
+  new(...args: CSSNumberish[]): CSSMathProduct;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSMathSum) */
 interface CSSMathSum extends CSSMathValue {
@@ -3574,10 +3573,10 @@ interface CSSMathSum extends CSSMathValue {
   readonly values: CSSNumericArray;
 }
 
-declare var CSSMathSum: undefined | { 
+declare var CSSMathSum: PartialLibDomGlobal<'CSSMathSum', {
   prototype: CSSMathSum;
-  new(...args: CSSNumberish[]): CSSMathSum; 
-};
+  new(...args: CSSNumberish[]): CSSMathSum;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSMathValue) */
 interface CSSMathValue extends CSSNumericValue {
@@ -3585,10 +3584,10 @@ interface CSSMathValue extends CSSNumericValue {
   readonly operator: CSSMathOperator;
 }
 
-declare var CSSMathValue: undefined | { 
+declare var CSSMathValue: PartialLibDomGlobal<'CSSMathValue', {
   prototype: CSSMathValue;
-  new(): CSSMathValue; 
-};
+  new(): CSSMathValue;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSMatrixComponent) */
 interface CSSMatrixComponent extends CSSTransformComponent {
@@ -3596,10 +3595,10 @@ interface CSSMatrixComponent extends CSSTransformComponent {
   matrix: DOMMatrix;
 }
 
-declare var CSSMatrixComponent: undefined | { 
+declare var CSSMatrixComponent: PartialLibDomGlobal<'CSSMatrixComponent', {
   prototype: CSSMatrixComponent;
-  new(matrix: DOMMatrixReadOnly, options?: CSSMatrixComponentOptions): CSSMatrixComponent; 
-};
+  new(matrix: DOMMatrixReadOnly, options?: CSSMatrixComponentOptions): CSSMatrixComponent;
+}>;
 
 /**
  * A single CSS @media rule. It implements the CSSConditionRule interface, and therefore the CSSGroupingRule and the CSSRule interface with a type value of 4 (CSSRule.MEDIA_RULE).
@@ -3611,10 +3610,10 @@ interface CSSMediaRule extends CSSConditionRule {
   readonly media: MediaList;
 }
 
-declare var CSSMediaRule: undefined | { 
+declare var CSSMediaRule: PartialLibDomGlobal<'CSSMediaRule', {
   prototype: CSSMediaRule;
-  new(): CSSMediaRule; 
-};
+  new(): CSSMediaRule;
+}>;
 
 /**
  * An object representing a single CSS @namespace at-rule. It implements the CSSRule interface, with a type value of 10 (CSSRule.NAMESPACE_RULE).
@@ -3628,10 +3627,10 @@ interface CSSNamespaceRule extends CSSRule {
   readonly prefix: string;
 }
 
-declare var CSSNamespaceRule: undefined | { 
+declare var CSSNamespaceRule: PartialLibDomGlobal<'CSSNamespaceRule', {
   prototype: CSSNamespaceRule;
-  new(): CSSNamespaceRule; 
-};
+  new(): CSSNamespaceRule;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSNumericArray) */
 interface CSSNumericArray {
@@ -3641,10 +3640,10 @@ interface CSSNumericArray {
   [index: number]: CSSNumericValue;
 }
 
-declare var CSSNumericArray: undefined | { 
+declare var CSSNumericArray: PartialLibDomGlobal<'CSSNumericArray', {
   prototype: CSSNumericArray;
-  new(): CSSNumericArray; 
-};
+  new(): CSSNumericArray;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSNumericValue) */
 interface CSSNumericValue extends CSSStyleValue {
@@ -3670,12 +3669,12 @@ interface CSSNumericValue extends CSSStyleValue {
   type(): CSSNumericType;
 }
 
-declare var CSSNumericValue: undefined | { 
+declare var CSSNumericValue: PartialLibDomGlobal<'CSSNumericValue', {
   prototype: CSSNumericValue;
   new(): CSSNumericValue;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSNumericValue/parse_static) */
-  parse(cssText: string): CSSNumericValue; 
-};
+  parse(cssText: string): CSSNumericValue;
+}>;
 
 /**
  * CSSPageRule is an interface representing a single CSS @page rule. It implements the CSSRule interface with a type value of 6 (CSSRule.PAGE_RULE).
@@ -3689,10 +3688,10 @@ interface CSSPageRule extends CSSGroupingRule {
   readonly style: CSSStyleDeclaration;
 }
 
-declare var CSSPageRule: undefined | { 
+declare var CSSPageRule: PartialLibDomGlobal<'CSSPageRule', {
   prototype: CSSPageRule;
-  new(): CSSPageRule; 
-};
+  new(): CSSPageRule;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSPerspective) */
 interface CSSPerspective extends CSSTransformComponent {
@@ -3700,10 +3699,10 @@ interface CSSPerspective extends CSSTransformComponent {
   length: CSSPerspectiveValue;
 }
 
-declare var CSSPerspective: undefined | { 
+declare var CSSPerspective: PartialLibDomGlobal<'CSSPerspective', {
   prototype: CSSPerspective;
-  new(length: CSSPerspectiveValue): CSSPerspective; 
-};
+  new(length: CSSPerspectiveValue): CSSPerspective;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSPropertyRule) */
 interface CSSPropertyRule extends CSSRule {
@@ -3717,10 +3716,10 @@ interface CSSPropertyRule extends CSSRule {
   readonly syntax: string;
 }
 
-declare var CSSPropertyRule: undefined | { 
+declare var CSSPropertyRule: PartialLibDomGlobal<'CSSPropertyRule', {
   prototype: CSSPropertyRule;
-  new(): CSSPropertyRule; 
-};
+  new(): CSSPropertyRule;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSRotate) */
 interface CSSRotate extends CSSTransformComponent {
@@ -3734,11 +3733,11 @@ interface CSSRotate extends CSSTransformComponent {
   z: CSSNumberish;
 }
 
-declare var CSSRotate: undefined | { 
+declare var CSSRotate: PartialLibDomGlobal<'CSSRotate', {
   prototype: CSSRotate;
   new(angle: CSSNumericValue): CSSRotate;
-  new(x: CSSNumberish, y: CSSNumberish, z: CSSNumberish, angle: CSSNumericValue): CSSRotate; 
-};
+  new(x: CSSNumberish, y: CSSNumberish, z: CSSNumberish, angle: CSSNumericValue): CSSRotate;
+}>;
 
 /**
  * A single CSS rule. There are several types of rules, listed in the Type constants section below.
@@ -3772,7 +3771,7 @@ interface CSSRule {
   readonly FONT_FEATURE_VALUES_RULE: 14;
 }
 
-declare var CSSRule: undefined | { 
+declare var CSSRule: PartialLibDomGlobal<'CSSRule', {
   prototype: CSSRule;
   new(): CSSRule;
   readonly STYLE_RULE: 1;
@@ -3786,8 +3785,8 @@ declare var CSSRule: undefined | {
   readonly KEYFRAME_RULE: 8;
   readonly SUPPORTS_RULE: 12;
   readonly COUNTER_STYLE_RULE: 11;
-  readonly FONT_FEATURE_VALUES_RULE: 14; 
-};
+  readonly FONT_FEATURE_VALUES_RULE: 14;
+}>;
 
 /**
  * A CSSRuleList is an (indirect-modify only) array-like object containing an ordered collection of CSSRule objects.
@@ -3802,10 +3801,10 @@ interface CSSRuleList {
   [index: number]: CSSRule;
 }
 
-declare var CSSRuleList: undefined | { 
+declare var CSSRuleList: PartialLibDomGlobal<'CSSRuleList', {
   prototype: CSSRuleList;
-  new(): CSSRuleList; 
-};
+  new(): CSSRuleList;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSScale) */
 interface CSSScale extends CSSTransformComponent {
@@ -3817,10 +3816,10 @@ interface CSSScale extends CSSTransformComponent {
   z: CSSNumberish;
 }
 
-declare var CSSScale: undefined | { 
+declare var CSSScale: PartialLibDomGlobal<'CSSScale', {
   prototype: CSSScale;
-  new(x: CSSNumberish, y: CSSNumberish, z?: CSSNumberish): CSSScale; 
-};
+  new(x: CSSNumberish, y: CSSNumberish, z?: CSSNumberish): CSSScale;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSScopeRule) */
 interface CSSScopeRule extends CSSGroupingRule {
@@ -3830,10 +3829,10 @@ interface CSSScopeRule extends CSSGroupingRule {
   readonly start: string | null;
 }
 
-declare var CSSScopeRule: undefined | { 
+declare var CSSScopeRule: PartialLibDomGlobal<'CSSScopeRule', {
   prototype: CSSScopeRule;
-  new(): CSSScopeRule; 
-};
+  new(): CSSScopeRule;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSSkew) */
 interface CSSSkew extends CSSTransformComponent {
@@ -3843,10 +3842,10 @@ interface CSSSkew extends CSSTransformComponent {
   ay: CSSNumericValue;
 }
 
-declare var CSSSkew: undefined | { 
+declare var CSSSkew: PartialLibDomGlobal<'CSSSkew', {
   prototype: CSSSkew;
-  new(ax: CSSNumericValue, ay: CSSNumericValue): CSSSkew; 
-};
+  new(ax: CSSNumericValue, ay: CSSNumericValue): CSSSkew;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSSkewX) */
 interface CSSSkewX extends CSSTransformComponent {
@@ -3854,10 +3853,10 @@ interface CSSSkewX extends CSSTransformComponent {
   ax: CSSNumericValue;
 }
 
-declare var CSSSkewX: undefined | { 
+declare var CSSSkewX: PartialLibDomGlobal<'CSSSkewX', {
   prototype: CSSSkewX;
-  new(ax: CSSNumericValue): CSSSkewX; 
-};
+  new(ax: CSSNumericValue): CSSSkewX;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSSkewY) */
 interface CSSSkewY extends CSSTransformComponent {
@@ -3865,19 +3864,19 @@ interface CSSSkewY extends CSSTransformComponent {
   ay: CSSNumericValue;
 }
 
-declare var CSSSkewY: undefined | { 
+declare var CSSSkewY: PartialLibDomGlobal<'CSSSkewY', {
   prototype: CSSSkewY;
-  new(ay: CSSNumericValue): CSSSkewY; 
-};
+  new(ay: CSSNumericValue): CSSSkewY;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSStartingStyleRule) */
 interface CSSStartingStyleRule extends CSSGroupingRule {
 }
 
-declare var CSSStartingStyleRule: undefined | { 
+declare var CSSStartingStyleRule: PartialLibDomGlobal<'CSSStartingStyleRule', {
   prototype: CSSStartingStyleRule;
-  new(): CSSStartingStyleRule; 
-};
+  new(): CSSStartingStyleRule;
+}>;
 
 /**
  * An object that is a CSS declaration block, and exposes style information and various style-related methods and properties.
@@ -5131,10 +5130,10 @@ interface CSSStyleDeclaration {
   [index: number]: string;
 }
 
-declare var CSSStyleDeclaration: undefined | { 
+declare var CSSStyleDeclaration: PartialLibDomGlobal<'CSSStyleDeclaration', {
   prototype: CSSStyleDeclaration;
-  new(): CSSStyleDeclaration; 
-};
+  new(): CSSStyleDeclaration;
+}>;
 
 /**
  * CSSStyleRule represents a single CSS style rule. It implements the CSSRule interface with a type value of 1 (CSSRule.STYLE_RULE).
@@ -5150,10 +5149,10 @@ interface CSSStyleRule extends CSSGroupingRule {
   readonly styleMap: StylePropertyMap;
 }
 
-declare var CSSStyleRule: undefined | { 
+declare var CSSStyleRule: PartialLibDomGlobal<'CSSStyleRule', {
   prototype: CSSStyleRule;
-  new(): CSSStyleRule; 
-};
+  new(): CSSStyleRule;
+}>;
 
 /**
  * A single CSS style sheet. It inherits properties and methods from its parent, StyleSheet.
@@ -5193,24 +5192,24 @@ interface CSSStyleSheet extends StyleSheet {
   replaceSync(text: string): void;
 }
 
-declare var CSSStyleSheet: undefined | { 
+declare var CSSStyleSheet: PartialLibDomGlobal<'CSSStyleSheet', {
   prototype: CSSStyleSheet;
-  new(options?: CSSStyleSheetInit): CSSStyleSheet; 
-};
+  new(options?: CSSStyleSheetInit): CSSStyleSheet;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSStyleValue) */
 interface CSSStyleValue {
   toString(): string;
 }
 
-declare var CSSStyleValue: undefined | { 
+declare var CSSStyleValue: PartialLibDomGlobal<'CSSStyleValue', {
   prototype: CSSStyleValue;
   new(): CSSStyleValue;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSStyleValue/parse_static) */
   parse(property: string, cssText: string): CSSStyleValue;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSStyleValue/parseAll_static) */
-  parseAll(property: string, cssText: string): CSSStyleValue[]; 
-};
+  parseAll(property: string, cssText: string): CSSStyleValue[];
+}>;
 
 /**
  * An object representing a single CSS @supports at-rule. It implements the CSSConditionRule interface, and therefore the CSSRule and CSSGroupingRule interfaces with a type value of 12 (CSSRule.SUPPORTS_RULE).
@@ -5220,10 +5219,10 @@ declare var CSSStyleValue: undefined | {
 interface CSSSupportsRule extends CSSConditionRule {
 }
 
-declare var CSSSupportsRule: undefined | { 
+declare var CSSSupportsRule: PartialLibDomGlobal<'CSSSupportsRule', {
   prototype: CSSSupportsRule;
-  new(): CSSSupportsRule; 
-};
+  new(): CSSSupportsRule;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSTransformComponent) */
 interface CSSTransformComponent {
@@ -5234,10 +5233,10 @@ interface CSSTransformComponent {
   toString(): string;
 }
 
-declare var CSSTransformComponent: undefined | { 
+declare var CSSTransformComponent: PartialLibDomGlobal<'CSSTransformComponent', {
   prototype: CSSTransformComponent;
-  new(): CSSTransformComponent; 
-};
+  new(): CSSTransformComponent;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSTransformValue) */
 interface CSSTransformValue extends CSSStyleValue {
@@ -5251,10 +5250,10 @@ interface CSSTransformValue extends CSSStyleValue {
   [index: number]: CSSTransformComponent;
 }
 
-declare var CSSTransformValue: undefined | { 
+declare var CSSTransformValue: PartialLibDomGlobal<'CSSTransformValue', {
   prototype: CSSTransformValue;
-  new(transforms: CSSTransformComponent[]): CSSTransformValue; 
-};
+  new(transforms: CSSTransformComponent[]): CSSTransformValue;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSTransition) */
 interface CSSTransition extends Animation {
@@ -5266,10 +5265,10 @@ interface CSSTransition extends Animation {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var CSSTransition: undefined | { 
+declare var CSSTransition: PartialLibDomGlobal<'CSSTransition', {
   prototype: CSSTransition;
-  new(): CSSTransition; 
-};
+  new(): CSSTransition;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSTranslate) */
 interface CSSTranslate extends CSSTransformComponent {
@@ -5281,10 +5280,10 @@ interface CSSTranslate extends CSSTransformComponent {
   z: CSSNumericValue;
 }
 
-declare var CSSTranslate: undefined | { 
+declare var CSSTranslate: PartialLibDomGlobal<'CSSTranslate', {
   prototype: CSSTranslate;
-  new(x: CSSNumericValue, y: CSSNumericValue, z?: CSSNumericValue): CSSTranslate; 
-};
+  new(x: CSSNumericValue, y: CSSNumericValue, z?: CSSNumericValue): CSSTranslate;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSUnitValue) */
 interface CSSUnitValue extends CSSNumericValue {
@@ -5294,10 +5293,10 @@ interface CSSUnitValue extends CSSNumericValue {
   value: number;
 }
 
-declare var CSSUnitValue: undefined | { 
+declare var CSSUnitValue: PartialLibDomGlobal<'CSSUnitValue', {
   prototype: CSSUnitValue;
-  new(value: number, unit: string): CSSUnitValue; 
-};
+  new(value: number, unit: string): CSSUnitValue;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSUnparsedValue) */
 interface CSSUnparsedValue extends CSSStyleValue {
@@ -5307,10 +5306,10 @@ interface CSSUnparsedValue extends CSSStyleValue {
   [index: number]: CSSUnparsedSegment;
 }
 
-declare var CSSUnparsedValue: undefined | { 
+declare var CSSUnparsedValue: PartialLibDomGlobal<'CSSUnparsedValue', {
   prototype: CSSUnparsedValue;
-  new(members: CSSUnparsedSegment[]): CSSUnparsedValue; 
-};
+  new(members: CSSUnparsedSegment[]): CSSUnparsedValue;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CSSVariableReferenceValue) */
 interface CSSVariableReferenceValue {
@@ -5320,10 +5319,10 @@ interface CSSVariableReferenceValue {
   variable: string;
 }
 
-declare var CSSVariableReferenceValue: undefined | { 
+declare var CSSVariableReferenceValue: PartialLibDomGlobal<'CSSVariableReferenceValue', {
   prototype: CSSVariableReferenceValue;
-  new(variable: string, fallback?: CSSUnparsedValue | null): CSSVariableReferenceValue; 
-};
+  new(variable: string, fallback?: CSSUnparsedValue | null): CSSVariableReferenceValue;
+}>;
 
 /**
  * Provides a storage mechanism for Request / Response object pairs that are cached, for example as part of the ServiceWorker life cycle. Note that the Cache interface is exposed to windowed scopes as well as workers. You don't have to use it in conjunction with service workers, even though it is defined in the service worker spec.
@@ -5348,10 +5347,10 @@ interface Cache {
   put(request: RequestInfo | URL, response: Response): Promise<void>;
 }
 
-declare var Cache: undefined | { 
+declare var Cache: PartialLibDomGlobal<'Cache', {
   prototype: Cache;
-  new(): Cache; 
-};
+  new(): Cache;
+}>;
 
 /**
  * The storage for Cache objects.
@@ -5372,10 +5371,10 @@ interface CacheStorage {
   open(cacheName: string): Promise<Cache>;
 }
 
-declare var CacheStorage: undefined | { 
+declare var CacheStorage: PartialLibDomGlobal<'CacheStorage', {
   prototype: CacheStorage;
-  new(): CacheStorage; 
-};
+  new(): CacheStorage;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CanvasCaptureMediaStreamTrack) */
 interface CanvasCaptureMediaStreamTrack extends MediaStreamTrack {
@@ -5389,10 +5388,10 @@ interface CanvasCaptureMediaStreamTrack extends MediaStreamTrack {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var CanvasCaptureMediaStreamTrack: undefined | { 
+declare var CanvasCaptureMediaStreamTrack: PartialLibDomGlobal<'CanvasCaptureMediaStreamTrack', {
   prototype: CanvasCaptureMediaStreamTrack;
-  new(): CanvasCaptureMediaStreamTrack; 
-};
+  new(): CanvasCaptureMediaStreamTrack;
+}>;
 
 interface CanvasCompositing {
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CanvasRenderingContext2D/globalAlpha) */
@@ -5464,10 +5463,10 @@ interface CanvasGradient {
   addColorStop(offset: number, color: string): void;
 }
 
-declare var CanvasGradient: undefined | { 
+declare var CanvasGradient: PartialLibDomGlobal<'CanvasGradient', {
   prototype: CanvasGradient;
-  new(): CanvasGradient; 
-};
+  new(): CanvasGradient;
+}>;
 
 interface CanvasImageData {
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CanvasRenderingContext2D/createImageData) */
@@ -5541,10 +5540,10 @@ interface CanvasPattern {
   setTransform(transform?: DOMMatrix2DInit): void;
 }
 
-declare var CanvasPattern: undefined | { 
+declare var CanvasPattern: PartialLibDomGlobal<'CanvasPattern', {
   prototype: CanvasPattern;
-  new(): CanvasPattern; 
-};
+  new(): CanvasPattern;
+}>;
 
 interface CanvasRect {
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CanvasRenderingContext2D/clearRect) */
@@ -5567,10 +5566,10 @@ interface CanvasRenderingContext2D extends CanvasCompositing, CanvasDrawImage, C
   getContextAttributes(): CanvasRenderingContext2DSettings;
 }
 
-declare var CanvasRenderingContext2D: undefined | { 
+declare var CanvasRenderingContext2D: PartialLibDomGlobal<'CanvasRenderingContext2D', {
   prototype: CanvasRenderingContext2D;
-  new(): CanvasRenderingContext2D; 
-};
+  new(): CanvasRenderingContext2D;
+}>;
 
 interface CanvasShadowStyles {
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CanvasRenderingContext2D/shadowBlur) */
@@ -5658,10 +5657,10 @@ interface CanvasUserInterface {
 interface ChannelMergerNode extends AudioNode {
 }
 
-declare var ChannelMergerNode: undefined | { 
+declare var ChannelMergerNode: PartialLibDomGlobal<'ChannelMergerNode', {
   prototype: ChannelMergerNode;
-  new(context: BaseAudioContext, options?: ChannelMergerOptions): ChannelMergerNode; 
-};
+  new(context: BaseAudioContext, options?: ChannelMergerOptions): ChannelMergerNode;
+}>;
 
 /**
  * The ChannelSplitterNode interface, often used in conjunction with its opposite, ChannelMergerNode, separates the different channels of an audio source into a set of mono outputs. This is useful for accessing each channel separately, e.g. for performing channel mixing where gain must be separately controlled on each channel.
@@ -5671,10 +5670,10 @@ declare var ChannelMergerNode: undefined | {
 interface ChannelSplitterNode extends AudioNode {
 }
 
-declare var ChannelSplitterNode: undefined | { 
+declare var ChannelSplitterNode: PartialLibDomGlobal<'ChannelSplitterNode', {
   prototype: ChannelSplitterNode;
-  new(context: BaseAudioContext, options?: ChannelSplitterOptions): ChannelSplitterNode; 
-};
+  new(context: BaseAudioContext, options?: ChannelSplitterOptions): ChannelSplitterNode;
+}>;
 
 /**
  * The CharacterData abstract interface represents a Node object that contains characters. This is an abstract interface, meaning there aren't any object of type CharacterData: it is implemented by other interfaces, like Text, Comment, or ProcessingInstruction which aren't abstract.
@@ -5699,10 +5698,10 @@ interface CharacterData extends Node, ChildNode, NonDocumentTypeChildNode {
   substringData(offset: number, count: number): string;
 }
 
-declare var CharacterData: undefined | { 
+declare var CharacterData: PartialLibDomGlobal<'CharacterData', {
   prototype: CharacterData;
-  new(): CharacterData; 
-};
+  new(): CharacterData;
+}>;
 
 interface ChildNode extends Node {
   /**
@@ -5757,10 +5756,10 @@ interface Clipboard extends EventTarget {
   writeText(data: string): Promise<void>;
 }
 
-declare var Clipboard: undefined | { 
+declare var Clipboard: PartialLibDomGlobal<'Clipboard', {
   prototype: Clipboard;
-  new(): Clipboard; 
-};
+  new(): Clipboard;
+}>;
 
 /**
  * Events providing information related to modification of the clipboard, that is cut, copy, and paste events.
@@ -5772,10 +5771,10 @@ interface ClipboardEvent extends Event {
   readonly clipboardData: DataTransfer | null;
 }
 
-declare var ClipboardEvent: undefined | { 
+declare var ClipboardEvent: PartialLibDomGlobal<'ClipboardEvent', {
   prototype: ClipboardEvent;
-  new(type: string, eventInitDict?: ClipboardEventInit): ClipboardEvent; 
-};
+  new(type: string, eventInitDict?: ClipboardEventInit): ClipboardEvent;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -5791,12 +5790,12 @@ interface ClipboardItem {
   getType(type: string): Promise<Blob>;
 }
 
-declare var ClipboardItem: undefined | { 
+declare var ClipboardItem: PartialLibDomGlobal<'ClipboardItem', {
   prototype: ClipboardItem;
   new(items: Record<string, string | Blob | PromiseLike<string | Blob>>, options?: ClipboardItemOptions): ClipboardItem;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/ClipboardItem/supports_static) */
-  supports(type: string): boolean; 
-};
+  supports(type: string): boolean;
+}>;
 
 /**
  * A CloseEvent is sent to clients using WebSockets when the connection is closed. This is delivered to the listener indicated by the WebSocket object's onclose attribute.
@@ -5824,10 +5823,10 @@ interface CloseEvent extends Event {
   readonly wasClean: boolean;
 }
 
-declare var CloseEvent: undefined | { 
+declare var CloseEvent: PartialLibDomGlobal<'CloseEvent', {
   prototype: CloseEvent;
-  new(type: string, eventInitDict?: CloseEventInit): CloseEvent; 
-};
+  new(type: string, eventInitDict?: CloseEventInit): CloseEvent;
+}>;
 
 /**
  * Textual notations within markup; although it is generally not visually shown, such comments are available to be read in the source view.
@@ -5837,10 +5836,10 @@ declare var CloseEvent: undefined | {
 interface Comment extends CharacterData {
 }
 
-declare var Comment: undefined | { 
+declare var Comment: PartialLibDomGlobal<'Comment', {
   prototype: Comment;
-  new(data?: string): Comment; 
-};
+  new(data?: string): Comment;
+}>;
 
 /**
  * The DOM CompositionEvent represents events that occur due to the user indirectly entering text.
@@ -5858,19 +5857,19 @@ interface CompositionEvent extends UIEvent {
   initCompositionEvent(typeArg: string, bubblesArg?: boolean, cancelableArg?: boolean, viewArg?: WindowProxy | null, dataArg?: string): void;
 }
 
-declare var CompositionEvent: undefined | { 
+declare var CompositionEvent: PartialLibDomGlobal<'CompositionEvent', {
   prototype: CompositionEvent;
-  new(type: string, eventInitDict?: CompositionEventInit): CompositionEvent; 
-};
+  new(type: string, eventInitDict?: CompositionEventInit): CompositionEvent;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CompressionStream) */
 interface CompressionStream extends GenericTransformStream {
 }
 
-declare var CompressionStream: { 
+declare var CompressionStream: PartialLibDomNodeGlobal<'CompressionStream', {
   prototype: CompressionStream;
-  new(format: CompressionFormat): CompressionStream; 
-};
+  new(format: CompressionFormat): CompressionStream;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/ConstantSourceNode) */
 interface ConstantSourceNode extends AudioScheduledSourceNode {
@@ -5882,10 +5881,10 @@ interface ConstantSourceNode extends AudioScheduledSourceNode {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var ConstantSourceNode: undefined | { 
+declare var ConstantSourceNode: PartialLibDomGlobal<'ConstantSourceNode', {
   prototype: ConstantSourceNode;
-  new(context: BaseAudioContext, options?: ConstantSourceOptions): ConstantSourceNode; 
-};
+  new(context: BaseAudioContext, options?: ConstantSourceOptions): ConstantSourceNode;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/ContentVisibilityAutoStateChangeEvent) */
 interface ContentVisibilityAutoStateChangeEvent extends Event {
@@ -5893,10 +5892,10 @@ interface ContentVisibilityAutoStateChangeEvent extends Event {
   readonly skipped: boolean;
 }
 
-declare var ContentVisibilityAutoStateChangeEvent: undefined | { 
+declare var ContentVisibilityAutoStateChangeEvent: PartialLibDomGlobal<'ContentVisibilityAutoStateChangeEvent', {
   prototype: ContentVisibilityAutoStateChangeEvent;
-  new(type: string, eventInitDict?: ContentVisibilityAutoStateChangeEventInit): ContentVisibilityAutoStateChangeEvent; 
-};
+  new(type: string, eventInitDict?: ContentVisibilityAutoStateChangeEventInit): ContentVisibilityAutoStateChangeEvent;
+}>;
 
 /**
  * An AudioNode that performs a Linear Convolution on a given AudioBuffer, often used to achieve a reverb effect. A ConvolverNode always has exactly one input and one output.
@@ -5910,10 +5909,10 @@ interface ConvolverNode extends AudioNode {
   normalize: boolean;
 }
 
-declare var ConvolverNode: undefined | { 
+declare var ConvolverNode: PartialLibDomGlobal<'ConvolverNode', {
   prototype: ConvolverNode;
-  new(context: BaseAudioContext, options?: ConvolverOptions): ConvolverNode; 
-};
+  new(context: BaseAudioContext, options?: ConvolverOptions): ConvolverNode;
+}>;
 
 /**
  * This Streams API interface provides a built-in byte length queuing strategy that can be used when constructing streams.
@@ -5927,10 +5926,10 @@ interface CountQueuingStrategy extends QueuingStrategy {
   readonly size: QueuingStrategySize;
 }
 
-declare var CountQueuingStrategy: { 
+declare var CountQueuingStrategy: PartialLibDomNodeGlobal<'CountQueuingStrategy', {
   prototype: CountQueuingStrategy;
-  new(init: QueuingStrategyInit): CountQueuingStrategy; 
-};
+  new(init: QueuingStrategyInit): CountQueuingStrategy;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -5944,10 +5943,10 @@ interface Credential {
   readonly type: string;
 }
 
-declare var Credential: undefined | { 
+declare var Credential: PartialLibDomGlobal<'Credential', {
   prototype: Credential;
-  new(): Credential; 
-};
+  new(): Credential;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -5965,10 +5964,10 @@ interface CredentialsContainer {
   store(credential: Credential): Promise<void>;
 }
 
-declare var CredentialsContainer: undefined | { 
+declare var CredentialsContainer: PartialLibDomGlobal<'CredentialsContainer', {
   prototype: CredentialsContainer;
-  new(): CredentialsContainer; 
-};
+  new(): CredentialsContainer;
+}>;
 
 /**
  * Basic cryptography features available in the current context. It allows access to a cryptographically strong random number generator and to cryptographic primitives.
@@ -5992,10 +5991,10 @@ interface Crypto {
   randomUUID(): `${string}-${string}-${string}-${string}-${string}`;
 }
 
-declare var Crypto: { 
+declare var Crypto: PartialLibDomNodeGlobal<'Crypto', {
   prototype: Crypto;
-  new(): Crypto; 
-};
+  new(): Crypto;
+}>;
 
 /**
  * The CryptoKey dictionary of the Web Crypto API represents a cryptographic key.
@@ -6014,10 +6013,10 @@ interface CryptoKey {
   readonly usages: KeyUsage[];
 }
 
-declare var CryptoKey: { 
+declare var CryptoKey: PartialLibDomNodeGlobal<'CryptoKey', {
   prototype: CryptoKey;
-  new(): CryptoKey; 
-};
+  new(): CryptoKey;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CustomElementRegistry) */
 interface CustomElementRegistry {
@@ -6033,10 +6032,10 @@ interface CustomElementRegistry {
   whenDefined(name: string): Promise<CustomElementConstructor>;
 }
 
-declare var CustomElementRegistry: undefined | { 
+declare var CustomElementRegistry: PartialLibDomGlobal<'CustomElementRegistry', {
   prototype: CustomElementRegistry;
-  new(): CustomElementRegistry; 
-};
+  new(): CustomElementRegistry;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CustomEvent) */
 interface CustomEvent<T = any> extends Event {
@@ -6054,20 +6053,20 @@ interface CustomEvent<T = any> extends Event {
   initCustomEvent(type: string, bubbles?: boolean, cancelable?: boolean, detail?: T): void;
 }
 
-declare var CustomEvent: { 
+declare var CustomEvent: PartialLibDomNodeGlobal<'CustomEvent', {
   prototype: CustomEvent;
-  new<T>(type: string, eventInitDict?: CustomEventInit<T>): CustomEvent<T>; 
-};
+  new<T>(type: string, eventInitDict?: CustomEventInit<T>): CustomEvent<T>;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CustomStateSet) */
 interface CustomStateSet {
   forEach(callbackfn: (value: string, key: string, parent: CustomStateSet) => void, thisArg?: any): void;
 }
 
-declare var CustomStateSet: undefined | { 
+declare var CustomStateSet: PartialLibDomGlobal<'CustomStateSet', {
   prototype: CustomStateSet;
-  new(): CustomStateSet; 
-};
+  new(): CustomStateSet;
+}>;
 
 /**
  * An abnormal event (called an exception) which occurs as a result of calling a method or accessing a property of a web API.
@@ -6112,7 +6111,7 @@ interface DOMException extends Error {
   readonly DATA_CLONE_ERR: 25;
 }
 
-declare var DOMException: { 
+declare var DOMException: PartialLibDomNodeGlobal<'DOMException', {
   prototype: DOMException;
   new(message?: string, name?: string): DOMException;
   readonly INDEX_SIZE_ERR: 1;
@@ -6139,8 +6138,8 @@ declare var DOMException: {
   readonly QUOTA_EXCEEDED_ERR: 22;
   readonly TIMEOUT_ERR: 23;
   readonly INVALID_NODE_TYPE_ERR: 24;
-  readonly DATA_CLONE_ERR: 25; 
-};
+  readonly DATA_CLONE_ERR: 25;
+}>;
 
 /**
  * An object providing methods which are not dependent on any particular document. Such an object is returned by the Document.implementation property.
@@ -6162,10 +6161,10 @@ interface DOMImplementation {
   hasFeature(...args: any[]): true;
 }
 
-declare var DOMImplementation: undefined | { 
+declare var DOMImplementation: PartialLibDomGlobal<'DOMImplementation', {
   prototype: DOMImplementation;
-  new(): DOMImplementation; 
-};
+  new(): DOMImplementation;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/DOMMatrix) */
 interface DOMMatrix extends DOMMatrixReadOnly {
@@ -6205,19 +6204,19 @@ interface DOMMatrix extends DOMMatrixReadOnly {
   translateSelf(tx?: number, ty?: number, tz?: number): DOMMatrix;
 }
 
-declare var DOMMatrix: undefined | { 
+declare var DOMMatrix: PartialLibDomGlobal<'DOMMatrix', {
   prototype: DOMMatrix;
   new(init?: string | number[]): DOMMatrix;
   fromFloat32Array(array32: Float32Array): DOMMatrix;
   fromFloat64Array(array64: Float64Array): DOMMatrix;
-  fromMatrix(other?: DOMMatrixInit): DOMMatrix; 
-};
+  fromMatrix(other?: DOMMatrixInit): DOMMatrix;
+}>;
 
 type SVGMatrix = DOMMatrix;
-declare var SVGMatrix: undefined | typeof DOMMatrix;
+declare var SVGMatrix: PartialLibDomGlobal<'SVGMatrix', typeof DOMMatrix>;
 
 type WebKitCSSMatrix = DOMMatrix;
-declare var WebKitCSSMatrix: undefined | typeof DOMMatrix;
+declare var WebKitCSSMatrix: PartialLibDomGlobal<'WebKitCSSMatrix', typeof DOMMatrix>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/DOMMatrixReadOnly) */
 interface DOMMatrixReadOnly {
@@ -6269,13 +6268,13 @@ interface DOMMatrixReadOnly {
   toString(): string;
 }
 
-declare var DOMMatrixReadOnly: undefined | { 
+declare var DOMMatrixReadOnly: PartialLibDomGlobal<'DOMMatrixReadOnly', {
   prototype: DOMMatrixReadOnly;
   new(init?: string | number[]): DOMMatrixReadOnly;
   fromFloat32Array(array32: Float32Array): DOMMatrixReadOnly;
   fromFloat64Array(array64: Float64Array): DOMMatrixReadOnly;
-  fromMatrix(other?: DOMMatrixInit): DOMMatrixReadOnly; 
-};
+  fromMatrix(other?: DOMMatrixInit): DOMMatrixReadOnly;
+}>;
 
 /**
  * Provides the ability to parse XML or HTML source code from a string into a DOM Document.
@@ -6297,10 +6296,10 @@ interface DOMParser {
   parseFromString(string: string, type: DOMParserSupportedType): Document;
 }
 
-declare var DOMParser: undefined | { 
+declare var DOMParser: PartialLibDomGlobal<'DOMParser', {
   prototype: DOMParser;
-  new(): DOMParser; 
-};
+  new(): DOMParser;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/DOMPoint) */
 interface DOMPoint extends DOMPointReadOnly {
@@ -6314,15 +6313,15 @@ interface DOMPoint extends DOMPointReadOnly {
   z: number;
 }
 
-declare var DOMPoint: undefined | { 
+declare var DOMPoint: PartialLibDomGlobal<'DOMPoint', {
   prototype: DOMPoint;
   new(x?: number, y?: number, z?: number, w?: number): DOMPoint;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/DOMPoint/fromPoint_static) */
-  fromPoint(other?: DOMPointInit): DOMPoint; 
-};
+  fromPoint(other?: DOMPointInit): DOMPoint;
+}>;
 
 type SVGPoint = DOMPoint;
-declare var SVGPoint: undefined | typeof DOMPoint;
+declare var SVGPoint: PartialLibDomGlobal<'SVGPoint', typeof DOMPoint>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/DOMPointReadOnly) */
 interface DOMPointReadOnly {
@@ -6339,12 +6338,12 @@ interface DOMPointReadOnly {
   toJSON(): any;
 }
 
-declare var DOMPointReadOnly: undefined | { 
+declare var DOMPointReadOnly: PartialLibDomGlobal<'DOMPointReadOnly', {
   prototype: DOMPointReadOnly;
   new(x?: number, y?: number, z?: number, w?: number): DOMPointReadOnly;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/DOMPointReadOnly/fromPoint_static) */
-  fromPoint(other?: DOMPointInit): DOMPointReadOnly; 
-};
+  fromPoint(other?: DOMPointInit): DOMPointReadOnly;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/DOMQuad) */
 interface DOMQuad {
@@ -6356,12 +6355,12 @@ interface DOMQuad {
   toJSON(): any;
 }
 
-declare var DOMQuad: undefined | { 
+declare var DOMQuad: PartialLibDomGlobal<'DOMQuad', {
   prototype: DOMQuad;
   new(p1?: DOMPointInit, p2?: DOMPointInit, p3?: DOMPointInit, p4?: DOMPointInit): DOMQuad;
   fromQuad(other?: DOMQuadInit): DOMQuad;
-  fromRect(other?: DOMRectInit): DOMQuad; 
-};
+  fromRect(other?: DOMRectInit): DOMQuad;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/DOMRect) */
 interface DOMRect extends DOMRectReadOnly {
@@ -6371,15 +6370,15 @@ interface DOMRect extends DOMRectReadOnly {
   y: number;
 }
 
-declare var DOMRect: undefined | { 
+declare var DOMRect: PartialLibDomGlobal<'DOMRect', {
   prototype: DOMRect;
   new(x?: number, y?: number, width?: number, height?: number): DOMRect;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/DOMRect/fromRect_static) */
-  fromRect(other?: DOMRectInit): DOMRect; 
-};
+  fromRect(other?: DOMRectInit): DOMRect;
+}>;
 
 type SVGRect = DOMRect;
-declare var SVGRect: undefined | typeof DOMRect;
+declare var SVGRect: PartialLibDomGlobal<'SVGRect', typeof DOMRect>;
 
 interface DOMRectList {
   readonly length: number;
@@ -6387,10 +6386,10 @@ interface DOMRectList {
   [index: number]: DOMRect;
 }
 
-declare var DOMRectList: undefined | { 
+declare var DOMRectList: PartialLibDomGlobal<'DOMRectList', {
   prototype: DOMRectList;
-  new(): DOMRectList; 
-};
+  new(): DOMRectList;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/DOMRectReadOnly) */
 interface DOMRectReadOnly {
@@ -6413,12 +6412,12 @@ interface DOMRectReadOnly {
   toJSON(): any;
 }
 
-declare var DOMRectReadOnly: undefined | { 
+declare var DOMRectReadOnly: PartialLibDomGlobal<'DOMRectReadOnly', {
   prototype: DOMRectReadOnly;
   new(x?: number, y?: number, width?: number, height?: number): DOMRectReadOnly;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/DOMRectReadOnly/fromRect_static) */
-  fromRect(other?: DOMRectInit): DOMRectReadOnly; 
-};
+  fromRect(other?: DOMRectInit): DOMRectReadOnly;
+}>;
 
 /**
  * A type returned by some APIs which contains a list of DOMString (strings).
@@ -6447,10 +6446,10 @@ interface DOMStringList {
   [index: number]: string;
 }
 
-declare var DOMStringList: undefined | { 
+declare var DOMStringList: PartialLibDomGlobal<'DOMStringList', {
   prototype: DOMStringList;
-  new(): DOMStringList; 
-};
+  new(): DOMStringList;
+}>;
 
 /**
  * Used by the dataset HTML attribute to represent data for custom attributes added to elements.
@@ -6461,10 +6460,10 @@ interface DOMStringMap {
   [name: string]: string | undefined;
 }
 
-declare var DOMStringMap: undefined | { 
+declare var DOMStringMap: PartialLibDomGlobal<'DOMStringMap', {
   prototype: DOMStringMap;
-  new(): DOMStringMap; 
-};
+  new(): DOMStringMap;
+}>;
 
 /**
  * A set of space-separated tokens. Such a set is returned by Element.classList, HTMLLinkElement.relList, HTMLAnchorElement.relList, HTMLAreaElement.relList, HTMLIframeElement.sandbox, or HTMLOutputElement.htmlFor. It is indexed beginning with 0 as with JavaScript Array objects. DOMTokenList is always case-sensitive.
@@ -6555,10 +6554,10 @@ interface DOMTokenList {
   [index: number]: string;
 }
 
-declare var DOMTokenList: undefined | { 
+declare var DOMTokenList: PartialLibDomGlobal<'DOMTokenList', {
   prototype: DOMTokenList;
-  new(): DOMTokenList; 
-};
+  new(): DOMTokenList;
+}>;
 
 /**
  * Used to hold the data that is being dragged during a drag and drop operation. It may hold one or more data items, each of one or more data types. For more information about drag and drop, see HTML Drag and Drop API.
@@ -6630,10 +6629,10 @@ interface DataTransfer {
   setDragImage(image: Element, x: number, y: number): void;
 }
 
-declare var DataTransfer: undefined | { 
+declare var DataTransfer: PartialLibDomGlobal<'DataTransfer', {
   prototype: DataTransfer;
-  new(): DataTransfer; 
-};
+  new(): DataTransfer;
+}>;
 
 /**
  * One drag data item. During a drag operation, each drag event has a dataTransfer property which contains a list of drag data items. Each item in the list is a DataTransferItem object.
@@ -6669,10 +6668,10 @@ interface DataTransferItem {
   webkitGetAsEntry(): FileSystemEntry | null;
 }
 
-declare var DataTransferItem: undefined | { 
+declare var DataTransferItem: PartialLibDomGlobal<'DataTransferItem', {
   prototype: DataTransferItem;
-  new(): DataTransferItem; 
-};
+  new(): DataTransferItem;
+}>;
 
 /**
  * A list of DataTransferItem objects representing items being dragged. During a drag operation, each DragEvent has a dataTransfer property and that property is a DataTransferItemList.
@@ -6708,19 +6707,19 @@ interface DataTransferItemList {
   [index: number]: DataTransferItem;
 }
 
-declare var DataTransferItemList: undefined | { 
+declare var DataTransferItemList: PartialLibDomGlobal<'DataTransferItemList', {
   prototype: DataTransferItemList;
-  new(): DataTransferItemList; 
-};
+  new(): DataTransferItemList;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/DecompressionStream) */
 interface DecompressionStream extends GenericTransformStream {
 }
 
-declare var DecompressionStream: { 
+declare var DecompressionStream: PartialLibDomNodeGlobal<'DecompressionStream', {
   prototype: DecompressionStream;
-  new(format: CompressionFormat): DecompressionStream; 
-};
+  new(format: CompressionFormat): DecompressionStream;
+}>;
 
 /**
  * A delay-line; an AudioNode audio-processing module that causes a delay between the arrival of an input data and its propagation to the output.
@@ -6732,10 +6731,10 @@ interface DelayNode extends AudioNode {
   readonly delayTime: AudioParam;
 }
 
-declare var DelayNode: undefined | { 
+declare var DelayNode: PartialLibDomGlobal<'DelayNode', {
   prototype: DelayNode;
-  new(context: BaseAudioContext, options?: DelayOptions): DelayNode; 
-};
+  new(context: BaseAudioContext, options?: DelayOptions): DelayNode;
+}>;
 
 /**
  * The DeviceMotionEvent provides web developers with information about the speed of changes for the device's position and orientation.
@@ -6754,10 +6753,10 @@ interface DeviceMotionEvent extends Event {
   readonly rotationRate: DeviceMotionEventRotationRate | null;
 }
 
-declare var DeviceMotionEvent: undefined | { 
+declare var DeviceMotionEvent: PartialLibDomGlobal<'DeviceMotionEvent', {
   prototype: DeviceMotionEvent;
-  new(type: string, eventInitDict?: DeviceMotionEventInit): DeviceMotionEvent; 
-};
+  new(type: string, eventInitDict?: DeviceMotionEventInit): DeviceMotionEvent;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -6804,10 +6803,10 @@ interface DeviceOrientationEvent extends Event {
   readonly gamma: number | null;
 }
 
-declare var DeviceOrientationEvent: undefined | { 
+declare var DeviceOrientationEvent: PartialLibDomGlobal<'DeviceOrientationEvent', {
   prototype: DeviceOrientationEvent;
-  new(type: string, eventInitDict?: DeviceOrientationEventInit): DeviceOrientationEvent; 
-};
+  new(type: string, eventInitDict?: DeviceOrientationEventInit): DeviceOrientationEvent;
+}>;
 
 interface DocumentEventMap extends GlobalEventHandlersEventMap {
   "DOMContentLoaded": Event;
@@ -7460,12 +7459,12 @@ interface Document extends Node, DocumentOrShadowRoot, FontFaceSource, GlobalEve
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var Document: undefined | { 
+declare var Document: PartialLibDomGlobal<'Document', {
   prototype: Document;
   new(): Document;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Document/parseHTMLUnsafe_static) */
-  parseHTMLUnsafe(html: string): Document; 
-};
+  parseHTMLUnsafe(html: string): Document;
+}>;
 
 /**
  * A minimal document object that has no parent. It is used as a lightweight version of Document that stores a segment of a document structure comprised of nodes just like a standard document. The key difference is that because the document fragment isn't part of the active document tree structure, changes made to the fragment don't affect the document, cause reflow, or incur any performance impact that can occur when changes are made.
@@ -7477,10 +7476,10 @@ interface DocumentFragment extends Node, NonElementParentNode, ParentNode {
   getElementById(elementId: string): HTMLElement | null;
 }
 
-declare var DocumentFragment: undefined | { 
+declare var DocumentFragment: PartialLibDomGlobal<'DocumentFragment', {
   prototype: DocumentFragment;
-  new(): DocumentFragment; 
-};
+  new(): DocumentFragment;
+}>;
 
 interface DocumentOrShadowRoot {
   /**
@@ -7526,10 +7525,10 @@ interface DocumentOrShadowRoot {
 interface DocumentTimeline extends AnimationTimeline {
 }
 
-declare var DocumentTimeline: undefined | { 
+declare var DocumentTimeline: PartialLibDomGlobal<'DocumentTimeline', {
   prototype: DocumentTimeline;
-  new(options?: DocumentTimelineOptions): DocumentTimeline; 
-};
+  new(options?: DocumentTimelineOptions): DocumentTimeline;
+}>;
 
 /**
  * A Node containing a doctype.
@@ -7546,10 +7545,10 @@ interface DocumentType extends Node, ChildNode {
   readonly systemId: string;
 }
 
-declare var DocumentType: undefined | { 
+declare var DocumentType: PartialLibDomGlobal<'DocumentType', {
   prototype: DocumentType;
-  new(): DocumentType; 
-};
+  new(): DocumentType;
+}>;
 
 /**
  * A DOM event that represents a drag and drop interaction. The user initiates a drag by placing a pointer device (such as a mouse) on the touch surface and then dragging the pointer to a new location (such as another DOM element). Applications are free to interpret a drag and drop interaction in an application-specific way.
@@ -7565,10 +7564,10 @@ interface DragEvent extends MouseEvent {
   readonly dataTransfer: DataTransfer | null;
 }
 
-declare var DragEvent: undefined | { 
+declare var DragEvent: PartialLibDomGlobal<'DragEvent', {
   prototype: DragEvent;
-  new(type: string, eventInitDict?: DragEventInit): DragEvent; 
-};
+  new(type: string, eventInitDict?: DragEventInit): DragEvent;
+}>;
 
 /**
  * Inherits properties from its parent, AudioNode.
@@ -7590,10 +7589,10 @@ interface DynamicsCompressorNode extends AudioNode {
   readonly threshold: AudioParam;
 }
 
-declare var DynamicsCompressorNode: undefined | { 
+declare var DynamicsCompressorNode: PartialLibDomGlobal<'DynamicsCompressorNode', {
   prototype: DynamicsCompressorNode;
-  new(context: BaseAudioContext, options?: DynamicsCompressorOptions): DynamicsCompressorNode; 
-};
+  new(context: BaseAudioContext, options?: DynamicsCompressorOptions): DynamicsCompressorNode;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/EXT_blend_minmax) */
 interface EXT_blend_minmax {
@@ -7943,10 +7942,10 @@ interface Element extends Node, ARIAMixin, Animatable, ChildNode, NonDocumentTyp
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var Element: undefined | { 
+declare var Element: PartialLibDomGlobal<'Element', {
   prototype: Element;
-  new(): Element; 
-};
+  new(): Element;
+}>;
 
 interface ElementCSSInlineStyle {
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLElement/attributeStyleMap) */
@@ -8034,10 +8033,10 @@ interface ElementInternals extends ARIAMixin {
   setValidity(flags?: ValidityStateFlags, message?: string, anchor?: HTMLElement): void;
 }
 
-declare var ElementInternals: undefined | { 
+declare var ElementInternals: PartialLibDomGlobal<'ElementInternals', {
   prototype: ElementInternals;
-  new(): ElementInternals; 
-};
+  new(): ElementInternals;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/EncodedVideoChunk) */
 interface EncodedVideoChunk {
@@ -8053,10 +8052,10 @@ interface EncodedVideoChunk {
   copyTo(destination: AllowSharedBufferSource): void;
 }
 
-declare var EncodedVideoChunk: undefined | { 
+declare var EncodedVideoChunk: PartialLibDomGlobal<'EncodedVideoChunk', {
   prototype: EncodedVideoChunk;
-  new(init: EncodedVideoChunkInit): EncodedVideoChunk; 
-};
+  new(init: EncodedVideoChunkInit): EncodedVideoChunk;
+}>;
 
 /**
  * Events providing information related to errors in scripts or in files.
@@ -8071,10 +8070,10 @@ interface ErrorEvent extends Event {
   readonly message: string;
 }
 
-declare var ErrorEvent: undefined | { 
+declare var ErrorEvent: PartialLibDomGlobal<'ErrorEvent', {
   prototype: ErrorEvent;
-  new(type: string, eventInitDict?: ErrorEventInit): ErrorEvent; 
-};
+  new(type: string, eventInitDict?: ErrorEventInit): ErrorEvent;
+}>;
 
 /**
  * An event which takes place in the DOM.
@@ -8196,24 +8195,24 @@ interface Event {
   readonly BUBBLING_PHASE: 3;
 }
 
-declare var Event: { 
+declare var Event: PartialLibDomNodeGlobal<'Event', {
   prototype: Event;
   new(type: string, eventInitDict?: EventInit): Event;
   readonly NONE: 0;
   readonly CAPTURING_PHASE: 1;
   readonly AT_TARGET: 2;
-  readonly BUBBLING_PHASE: 3; 
-};
+  readonly BUBBLING_PHASE: 3;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/EventCounts) */
 interface EventCounts {
   forEach(callbackfn: (value: number, key: string, parent: EventCounts) => void, thisArg?: any): void;
 }
 
-declare var EventCounts: undefined | { 
+declare var EventCounts: PartialLibDomGlobal<'EventCounts', {
   prototype: EventCounts;
-  new(): EventCounts; 
-};
+  new(): EventCounts;
+}>;
 
 interface EventListener {
   (evt: Event): void;
@@ -8272,13 +8271,13 @@ interface EventSource extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var EventSource: undefined | { 
+declare var EventSource: PartialLibDomGlobal<'EventSource', {
   prototype: EventSource;
   new(url: string | URL, eventSourceInitDict?: EventSourceInit): EventSource;
   readonly CONNECTING: 0;
   readonly OPEN: 1;
-  readonly CLOSED: 2; 
-};
+  readonly CLOSED: 2;
+}>;
 
 /**
  * EventTarget is a DOM interface implemented by objects that can receive events and may have listeners for them.
@@ -8318,10 +8317,10 @@ interface EventTarget {
   removeEventListener(type: string, callback: EventListenerOrEventListenerObject | null, options?: EventListenerOptions | boolean): void;
 }
 
-declare var EventTarget: { 
+declare var EventTarget: PartialLibDomNodeGlobal<'EventTarget', {
   prototype: EventTarget;
-  new(): EventTarget; 
-};
+  new(): EventTarget;
+}>;
 
 /** @deprecated */
 interface External {
@@ -8332,11 +8331,10 @@ interface External {
 }
 
 /** @deprecated */
-
-declare var External: undefined | { 
+declare var External: PartialLibDomGlobal<'External', {
   prototype: External;
-  new(): External; 
-};
+  new(): External;
+}>;
 
 /**
  * Provides information about files and allows JavaScript in a web page to access their content.
@@ -8352,10 +8350,10 @@ interface File extends Blob {
   readonly webkitRelativePath: string;
 }
 
-declare var File: { 
+declare var File: PartialLibDomNodeGlobal<'File', {
   prototype: File;
-  new(fileBits: BlobPart[], fileName: string, options?: FilePropertyBag): File; 
-};
+  new(fileBits: BlobPart[], fileName: string, options?: FilePropertyBag): File;
+}>;
 
 /**
  * An object of this type is returned by the files property of the HTML <input> element; this lets you access the list of files selected with the <input type="file"> element. It's also used for a list of files dropped into web content when using the drag and drop API; see the DataTransfer object for details on this usage.
@@ -8370,10 +8368,10 @@ interface FileList {
   [index: number]: File;
 }
 
-declare var FileList: undefined | { 
+declare var FileList: PartialLibDomGlobal<'FileList', {
   prototype: FileList;
-  new(): FileList; 
-};
+  new(): FileList;
+}>;
 
 interface FileReaderEventMap {
   "abort": ProgressEvent<FileReader>;
@@ -8405,7 +8403,7 @@ interface FileReader extends EventTarget {
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/FileReader/progress_event) */
   onprogress: ((this: FileReader, ev: ProgressEvent<FileReader>) => any) | null;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/FileReader/readyState) */
-  readonly readyState: typeof FileReader.EMPTY | typeof FileReader.LOADING | typeof FileReader.DONE;
+  readonly readyState: Exclude<typeof FileReader, undefined>['EMPTY'] | Exclude<typeof FileReader, undefined>['LOADING'] | Exclude<typeof FileReader, undefined>['DONE'];
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/FileReader/result) */
   readonly result: string | ArrayBuffer | null;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/FileReader/abort) */
@@ -8431,13 +8429,13 @@ interface FileReader extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var FileReader: undefined | { 
+declare var FileReader: PartialLibDomGlobal<'FileReader', {
   prototype: FileReader;
   new(): FileReader;
   readonly EMPTY: 0;
   readonly LOADING: 1;
-  readonly DONE: 2; 
-};
+  readonly DONE: 2;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/FileSystem) */
 interface FileSystem {
@@ -8447,10 +8445,10 @@ interface FileSystem {
   readonly root: FileSystemDirectoryEntry;
 }
 
-declare var FileSystem: undefined | { 
+declare var FileSystem: PartialLibDomGlobal<'FileSystem', {
   prototype: FileSystem;
-  new(): FileSystem; 
-};
+  new(): FileSystem;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/FileSystemDirectoryEntry) */
 interface FileSystemDirectoryEntry extends FileSystemEntry {
@@ -8462,10 +8460,10 @@ interface FileSystemDirectoryEntry extends FileSystemEntry {
   getFile(path?: string | null, options?: FileSystemFlags, successCallback?: FileSystemEntryCallback, errorCallback?: ErrorCallback): void;
 }
 
-declare var FileSystemDirectoryEntry: undefined | { 
+declare var FileSystemDirectoryEntry: PartialLibDomGlobal<'FileSystemDirectoryEntry', {
   prototype: FileSystemDirectoryEntry;
-  new(): FileSystemDirectoryEntry; 
-};
+  new(): FileSystemDirectoryEntry;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -8484,10 +8482,10 @@ interface FileSystemDirectoryHandle extends FileSystemHandle {
   resolve(possibleDescendant: FileSystemHandle): Promise<string[] | null>;
 }
 
-declare var FileSystemDirectoryHandle: undefined | { 
+declare var FileSystemDirectoryHandle: PartialLibDomGlobal<'FileSystemDirectoryHandle', {
   prototype: FileSystemDirectoryHandle;
-  new(): FileSystemDirectoryHandle; 
-};
+  new(): FileSystemDirectoryHandle;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/FileSystemDirectoryReader) */
 interface FileSystemDirectoryReader {
@@ -8495,10 +8493,10 @@ interface FileSystemDirectoryReader {
   readEntries(successCallback: FileSystemEntriesCallback, errorCallback?: ErrorCallback): void;
 }
 
-declare var FileSystemDirectoryReader: undefined | { 
+declare var FileSystemDirectoryReader: PartialLibDomGlobal<'FileSystemDirectoryReader', {
   prototype: FileSystemDirectoryReader;
-  new(): FileSystemDirectoryReader; 
-};
+  new(): FileSystemDirectoryReader;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/FileSystemEntry) */
 interface FileSystemEntry {
@@ -8516,10 +8514,10 @@ interface FileSystemEntry {
   getParent(successCallback?: FileSystemEntryCallback, errorCallback?: ErrorCallback): void;
 }
 
-declare var FileSystemEntry: undefined | { 
+declare var FileSystemEntry: PartialLibDomGlobal<'FileSystemEntry', {
   prototype: FileSystemEntry;
-  new(): FileSystemEntry; 
-};
+  new(): FileSystemEntry;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/FileSystemFileEntry) */
 interface FileSystemFileEntry extends FileSystemEntry {
@@ -8527,10 +8525,10 @@ interface FileSystemFileEntry extends FileSystemEntry {
   file(successCallback: FileCallback, errorCallback?: ErrorCallback): void;
 }
 
-declare var FileSystemFileEntry: undefined | { 
+declare var FileSystemFileEntry: PartialLibDomGlobal<'FileSystemFileEntry', {
   prototype: FileSystemFileEntry;
-  new(): FileSystemFileEntry; 
-};
+  new(): FileSystemFileEntry;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -8545,10 +8543,10 @@ interface FileSystemFileHandle extends FileSystemHandle {
   getFile(): Promise<File>;
 }
 
-declare var FileSystemFileHandle: undefined | { 
+declare var FileSystemFileHandle: PartialLibDomGlobal<'FileSystemFileHandle', {
   prototype: FileSystemFileHandle;
-  new(): FileSystemFileHandle; 
-};
+  new(): FileSystemFileHandle;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -8564,10 +8562,10 @@ interface FileSystemHandle {
   isSameEntry(other: FileSystemHandle): Promise<boolean>;
 }
 
-declare var FileSystemHandle: undefined | { 
+declare var FileSystemHandle: PartialLibDomGlobal<'FileSystemHandle', {
   prototype: FileSystemHandle;
-  new(): FileSystemHandle; 
-};
+  new(): FileSystemHandle;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -8583,10 +8581,10 @@ interface FileSystemWritableFileStream extends WritableStream {
   write(data: FileSystemWriteChunkType): Promise<void>;
 }
 
-declare var FileSystemWritableFileStream: undefined | { 
+declare var FileSystemWritableFileStream: PartialLibDomGlobal<'FileSystemWritableFileStream', {
   prototype: FileSystemWritableFileStream;
-  new(): FileSystemWritableFileStream; 
-};
+  new(): FileSystemWritableFileStream;
+}>;
 
 /**
  * Focus-related events like focus, blur, focusin, or focusout.
@@ -8598,10 +8596,10 @@ interface FocusEvent extends UIEvent {
   readonly relatedTarget: EventTarget | null;
 }
 
-declare var FocusEvent: undefined | { 
+declare var FocusEvent: PartialLibDomGlobal<'FocusEvent', {
   prototype: FocusEvent;
-  new(type: string, eventInitDict?: FocusEventInit): FocusEvent; 
-};
+  new(type: string, eventInitDict?: FocusEventInit): FocusEvent;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/FontFace) */
 interface FontFace {
@@ -8633,10 +8631,10 @@ interface FontFace {
   load(): Promise<FontFace>;
 }
 
-declare var FontFace: undefined | { 
+declare var FontFace: PartialLibDomGlobal<'FontFace', {
   prototype: FontFace;
-  new(family: string, source: string | BinaryData, descriptors?: FontFaceDescriptors): FontFace; 
-};
+  new(family: string, source: string | BinaryData, descriptors?: FontFaceDescriptors): FontFace;
+}>;
 
 interface FontFaceSetEventMap {
   "loading": Event;
@@ -8667,10 +8665,10 @@ interface FontFaceSet extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var FontFaceSet: undefined | { 
+declare var FontFaceSet: PartialLibDomGlobal<'FontFaceSet', {
   prototype: FontFaceSet;
-  new(initialFaces: FontFace[]): FontFaceSet; 
-};
+  new(initialFaces: FontFace[]): FontFaceSet;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/FontFaceSetLoadEvent) */
 interface FontFaceSetLoadEvent extends Event {
@@ -8678,10 +8676,10 @@ interface FontFaceSetLoadEvent extends Event {
   readonly fontfaces: ReadonlyArray<FontFace>;
 }
 
-declare var FontFaceSetLoadEvent: undefined | { 
+declare var FontFaceSetLoadEvent: PartialLibDomGlobal<'FontFaceSetLoadEvent', {
   prototype: FontFaceSetLoadEvent;
-  new(type: string, eventInitDict?: FontFaceSetLoadEventInit): FontFaceSetLoadEvent; 
-};
+  new(type: string, eventInitDict?: FontFaceSetLoadEventInit): FontFaceSetLoadEvent;
+}>;
 
 interface FontFaceSource {
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Document/fonts) */
@@ -8713,10 +8711,10 @@ interface FormData {
   forEach(callbackfn: (value: FormDataEntryValue, key: string, parent: FormData) => void, thisArg?: any): void;
 }
 
-declare var FormData: { 
+declare var FormData: PartialLibDomNodeGlobal<'FormData', {
   prototype: FormData;
-  new(form?: HTMLFormElement, submitter?: HTMLElement | null): FormData; 
-};
+  new(form?: HTMLFormElement, submitter?: HTMLElement | null): FormData;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/FormDataEvent) */
 interface FormDataEvent extends Event {
@@ -8728,10 +8726,10 @@ interface FormDataEvent extends Event {
   readonly formData: FormData;
 }
 
-declare var FormDataEvent: undefined | { 
+declare var FormDataEvent: PartialLibDomGlobal<'FormDataEvent', {
   prototype: FormDataEvent;
-  new(type: string, eventInitDict: FormDataEventInit): FormDataEvent; 
-};
+  new(type: string, eventInitDict: FormDataEventInit): FormDataEvent;
+}>;
 
 /**
  * A change in volume. It is an AudioNode audio-processing module that causes a given gain to be applied to the input data before its propagation to the output. A GainNode always has exactly one input and one output, both with the same number of channels.
@@ -8743,10 +8741,10 @@ interface GainNode extends AudioNode {
   readonly gain: AudioParam;
 }
 
-declare var GainNode: undefined | { 
+declare var GainNode: PartialLibDomGlobal<'GainNode', {
   prototype: GainNode;
-  new(context: BaseAudioContext, options?: GainOptions): GainNode; 
-};
+  new(context: BaseAudioContext, options?: GainOptions): GainNode;
+}>;
 
 /**
  * This Gamepad API interface defines an individual gamepad or other controller, allowing access to information such as button presses, axis positions, and id.
@@ -8772,10 +8770,10 @@ interface Gamepad {
   readonly vibrationActuator: GamepadHapticActuator;
 }
 
-declare var Gamepad: undefined | { 
+declare var Gamepad: PartialLibDomGlobal<'Gamepad', {
   prototype: Gamepad;
-  new(): Gamepad; 
-};
+  new(): Gamepad;
+}>;
 
 /**
  * An individual button of a gamepad or other controller, allowing access to the current state of different types of buttons available on the control device.
@@ -8791,10 +8789,10 @@ interface GamepadButton {
   readonly value: number;
 }
 
-declare var GamepadButton: undefined | { 
+declare var GamepadButton: PartialLibDomGlobal<'GamepadButton', {
   prototype: GamepadButton;
-  new(): GamepadButton; 
-};
+  new(): GamepadButton;
+}>;
 
 /**
  * This Gamepad API interface contains references to gamepads connected to the system, which is what the gamepad events Window.gamepadconnected and Window.gamepaddisconnected are fired in response to.
@@ -8806,10 +8804,10 @@ interface GamepadEvent extends Event {
   readonly gamepad: Gamepad;
 }
 
-declare var GamepadEvent: undefined | { 
+declare var GamepadEvent: PartialLibDomGlobal<'GamepadEvent', {
   prototype: GamepadEvent;
-  new(type: string, eventInitDict: GamepadEventInit): GamepadEvent; 
-};
+  new(type: string, eventInitDict: GamepadEventInit): GamepadEvent;
+}>;
 
 /**
  * This Gamepad API interface represents hardware in the controller designed to provide haptic feedback to the user (if available), most commonly vibration hardware.
@@ -8822,10 +8820,10 @@ interface GamepadHapticActuator {
   reset(): Promise<GamepadHapticsResult>;
 }
 
-declare var GamepadHapticActuator: undefined | { 
+declare var GamepadHapticActuator: PartialLibDomGlobal<'GamepadHapticActuator', {
   prototype: GamepadHapticActuator;
-  new(): GamepadHapticActuator; 
-};
+  new(): GamepadHapticActuator;
+}>;
 
 interface GenericTransformStream {
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/CompressionStream/readable) */
@@ -8848,10 +8846,10 @@ interface Geolocation {
   watchPosition(successCallback: PositionCallback, errorCallback?: PositionErrorCallback | null, options?: PositionOptions): number;
 }
 
-declare var Geolocation: undefined | { 
+declare var Geolocation: PartialLibDomGlobal<'Geolocation', {
   prototype: Geolocation;
-  new(): Geolocation; 
-};
+  new(): Geolocation;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -8877,10 +8875,10 @@ interface GeolocationCoordinates {
   toJSON(): any;
 }
 
-declare var GeolocationCoordinates: undefined | { 
+declare var GeolocationCoordinates: PartialLibDomGlobal<'GeolocationCoordinates', {
   prototype: GeolocationCoordinates;
-  new(): GeolocationCoordinates; 
-};
+  new(): GeolocationCoordinates;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -8896,10 +8894,10 @@ interface GeolocationPosition {
   toJSON(): any;
 }
 
-declare var GeolocationPosition: undefined | { 
+declare var GeolocationPosition: PartialLibDomGlobal<'GeolocationPosition', {
   prototype: GeolocationPosition;
-  new(): GeolocationPosition; 
-};
+  new(): GeolocationPosition;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/GeolocationPositionError) */
 interface GeolocationPositionError {
@@ -8912,13 +8910,13 @@ interface GeolocationPositionError {
   readonly TIMEOUT: 3;
 }
 
-declare var GeolocationPositionError: undefined | { 
+declare var GeolocationPositionError: PartialLibDomGlobal<'GeolocationPositionError', {
   prototype: GeolocationPositionError;
   new(): GeolocationPositionError;
   readonly PERMISSION_DENIED: 1;
   readonly POSITION_UNAVAILABLE: 2;
-  readonly TIMEOUT: 3; 
-};
+  readonly TIMEOUT: 3;
+}>;
 
 interface GlobalEventHandlersEventMap {
   "abort": UIEvent;
@@ -9498,10 +9496,10 @@ interface HTMLAllCollection {
   [index: number]: Element;
 }
 
-declare var HTMLAllCollection: undefined | { 
+declare var HTMLAllCollection: PartialLibDomGlobal<'HTMLAllCollection', {
   prototype: HTMLAllCollection;
-  new(): HTMLAllCollection; 
-};
+  new(): HTMLAllCollection;
+}>;
 
 /**
  * Hyperlink elements and provides special properties and methods (beyond those of the regular HTMLElement object interface that they inherit from) for manipulating the layout and presentation of such elements.
@@ -9574,10 +9572,10 @@ interface HTMLAnchorElement extends HTMLElement, HTMLHyperlinkElementUtils {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLAnchorElement: undefined | { 
+declare var HTMLAnchorElement: PartialLibDomGlobal<'HTMLAnchorElement', {
   prototype: HTMLAnchorElement;
-  new(): HTMLAnchorElement; 
-};
+  new(): HTMLAnchorElement;
+}>;
 
 /**
  * Provides special properties and methods (beyond those of the regular object HTMLElement interface it also has available to it by inheritance) for manipulating the layout and presentation of <area> elements.
@@ -9617,10 +9615,10 @@ interface HTMLAreaElement extends HTMLElement, HTMLHyperlinkElementUtils {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLAreaElement: undefined | { 
+declare var HTMLAreaElement: PartialLibDomGlobal<'HTMLAreaElement', {
   prototype: HTMLAreaElement;
-  new(): HTMLAreaElement; 
-};
+  new(): HTMLAreaElement;
+}>;
 
 /**
  * Provides access to the properties of <audio> elements, as well as methods to manipulate them. It derives from the HTMLMediaElement interface.
@@ -9634,10 +9632,10 @@ interface HTMLAudioElement extends HTMLMediaElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLAudioElement: undefined | { 
+declare var HTMLAudioElement: PartialLibDomGlobal<'HTMLAudioElement', {
   prototype: HTMLAudioElement;
-  new(): HTMLAudioElement; 
-};
+  new(): HTMLAudioElement;
+}>;
 
 /**
  * A HTML line break element (<br>). It inherits from HTMLElement.
@@ -9656,10 +9654,10 @@ interface HTMLBRElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLBRElement: undefined | { 
+declare var HTMLBRElement: PartialLibDomGlobal<'HTMLBRElement', {
   prototype: HTMLBRElement;
-  new(): HTMLBRElement; 
-};
+  new(): HTMLBRElement;
+}>;
 
 /**
  * Contains the base URI for a document. This object inherits all of the properties and methods as described in the HTMLElement interface.
@@ -9681,10 +9679,10 @@ interface HTMLBaseElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLBaseElement: undefined | { 
+declare var HTMLBaseElement: PartialLibDomGlobal<'HTMLBaseElement', {
   prototype: HTMLBaseElement;
-  new(): HTMLBaseElement; 
-};
+  new(): HTMLBaseElement;
+}>;
 
 interface HTMLBodyElementEventMap extends HTMLElementEventMap, WindowEventHandlersEventMap {
 }
@@ -9713,10 +9711,10 @@ interface HTMLBodyElement extends HTMLElement, WindowEventHandlers {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLBodyElement: undefined | { 
+declare var HTMLBodyElement: PartialLibDomGlobal<'HTMLBodyElement', {
   prototype: HTMLBodyElement;
-  new(): HTMLBodyElement; 
-};
+  new(): HTMLBodyElement;
+}>;
 
 /**
  * Provides properties and methods (beyond the regular HTMLElement interface it also has available to it by inheritance) for manipulating <button> elements.
@@ -9770,10 +9768,10 @@ interface HTMLButtonElement extends HTMLElement, PopoverInvokerElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLButtonElement: undefined | { 
+declare var HTMLButtonElement: PartialLibDomGlobal<'HTMLButtonElement', {
   prototype: HTMLButtonElement;
-  new(): HTMLButtonElement; 
-};
+  new(): HTMLButtonElement;
+}>;
 
 /**
  * Provides properties and methods for manipulating the layout and presentation of <canvas> elements. The HTMLCanvasElement interface also inherits the properties and methods of the HTMLElement interface.
@@ -9823,10 +9821,10 @@ interface HTMLCanvasElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLCanvasElement: undefined | { 
+declare var HTMLCanvasElement: PartialLibDomGlobal<'HTMLCanvasElement', {
   prototype: HTMLCanvasElement;
-  new(): HTMLCanvasElement; 
-};
+  new(): HTMLCanvasElement;
+}>;
 
 /**
  * A generic collection (array-like object similar to arguments) of elements (in document order) and offers methods and properties for selecting from the list.
@@ -9858,10 +9856,10 @@ interface HTMLCollection extends HTMLCollectionBase {
   namedItem(name: string): Element | null;
 }
 
-declare var HTMLCollection: undefined | { 
+declare var HTMLCollection: PartialLibDomGlobal<'HTMLCollection', {
   prototype: HTMLCollection;
-  new(): HTMLCollection; 
-};
+  new(): HTMLCollection;
+}>;
 
 interface HTMLCollectionOf<T extends Element> extends HTMLCollectionBase {
   item(index: number): T | null;
@@ -9883,10 +9881,10 @@ interface HTMLDListElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLDListElement: undefined | { 
+declare var HTMLDListElement: PartialLibDomGlobal<'HTMLDListElement', {
   prototype: HTMLDListElement;
-  new(): HTMLDListElement; 
-};
+  new(): HTMLDListElement;
+}>;
 
 /**
  * Provides special properties (beyond the regular HTMLElement interface it also has available to it by inheritance) for manipulating <data> elements.
@@ -9902,10 +9900,10 @@ interface HTMLDataElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLDataElement: undefined | { 
+declare var HTMLDataElement: PartialLibDomGlobal<'HTMLDataElement', {
   prototype: HTMLDataElement;
-  new(): HTMLDataElement; 
-};
+  new(): HTMLDataElement;
+}>;
 
 /**
  * Provides special properties (beyond the HTMLElement object interface it also has available to it by inheritance) to manipulate <datalist> elements and their content.
@@ -9921,10 +9919,10 @@ interface HTMLDataListElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLDataListElement: undefined | { 
+declare var HTMLDataListElement: PartialLibDomGlobal<'HTMLDataListElement', {
   prototype: HTMLDataListElement;
-  new(): HTMLDataListElement; 
-};
+  new(): HTMLDataListElement;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLDetailsElement) */
 interface HTMLDetailsElement extends HTMLElement {
@@ -9937,10 +9935,10 @@ interface HTMLDetailsElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLDetailsElement: undefined | { 
+declare var HTMLDetailsElement: PartialLibDomGlobal<'HTMLDetailsElement', {
   prototype: HTMLDetailsElement;
-  new(): HTMLDetailsElement; 
-};
+  new(): HTMLDetailsElement;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLDialogElement) */
 interface HTMLDialogElement extends HTMLElement {
@@ -9970,10 +9968,10 @@ interface HTMLDialogElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLDialogElement: undefined | { 
+declare var HTMLDialogElement: PartialLibDomGlobal<'HTMLDialogElement', {
   prototype: HTMLDialogElement;
-  new(): HTMLDialogElement; 
-};
+  new(): HTMLDialogElement;
+}>;
 
 /** @deprecated */
 interface HTMLDirectoryElement extends HTMLElement {
@@ -9986,11 +9984,10 @@ interface HTMLDirectoryElement extends HTMLElement {
 }
 
 /** @deprecated */
-
-declare var HTMLDirectoryElement: undefined | { 
+declare var HTMLDirectoryElement: PartialLibDomGlobal<'HTMLDirectoryElement', {
   prototype: HTMLDirectoryElement;
-  new(): HTMLDirectoryElement; 
-};
+  new(): HTMLDirectoryElement;
+}>;
 
 /**
  * Provides special properties (beyond the regular HTMLElement interface it also has available to it by inheritance) for manipulating <div> elements.
@@ -10009,10 +10006,10 @@ interface HTMLDivElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLDivElement: undefined | { 
+declare var HTMLDivElement: PartialLibDomGlobal<'HTMLDivElement', {
   prototype: HTMLDivElement;
-  new(): HTMLDivElement; 
-};
+  new(): HTMLDivElement;
+}>;
 
 /** @deprecated use Document */
 interface HTMLDocument extends Document {
@@ -10023,11 +10020,10 @@ interface HTMLDocument extends Document {
 }
 
 /** @deprecated */
-
-declare var HTMLDocument: undefined | { 
+declare var HTMLDocument: PartialLibDomGlobal<'HTMLDocument', {
   prototype: HTMLDocument;
-  new(): HTMLDocument; 
-};
+  new(): HTMLDocument;
+}>;
 
 interface HTMLElementEventMap extends ElementEventMap, GlobalEventHandlersEventMap {
 }
@@ -10092,10 +10088,10 @@ interface HTMLElement extends Element, ElementCSSInlineStyle, ElementContentEdit
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLElement: undefined | { 
+declare var HTMLElement: PartialLibDomGlobal<'HTMLElement', {
   prototype: HTMLElement;
-  new(): HTMLElement; 
-};
+  new(): HTMLElement;
+}>;
 
 /**
  * Provides special properties (beyond the regular HTMLElement interface it also has available to it by inheritance) for manipulating <embed> elements.
@@ -10136,10 +10132,10 @@ interface HTMLEmbedElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLEmbedElement: undefined | { 
+declare var HTMLEmbedElement: PartialLibDomGlobal<'HTMLEmbedElement', {
   prototype: HTMLEmbedElement;
-  new(): HTMLEmbedElement; 
-};
+  new(): HTMLEmbedElement;
+}>;
 
 /**
  * Provides special properties and methods (beyond the regular HTMLElement interface it also has available to it by inheritance) for manipulating the layout and presentation of <fieldset> elements.
@@ -10175,10 +10171,10 @@ interface HTMLFieldSetElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLFieldSetElement: undefined | { 
+declare var HTMLFieldSetElement: PartialLibDomGlobal<'HTMLFieldSetElement', {
   prototype: HTMLFieldSetElement;
-  new(): HTMLFieldSetElement; 
-};
+  new(): HTMLFieldSetElement;
+}>;
 
 /**
  * Implements the document object model (DOM) representation of the font element. The HTML Font Element <font> defines the font size, font face and color of text.
@@ -10213,11 +10209,10 @@ interface HTMLFontElement extends HTMLElement {
 }
 
 /** @deprecated */
-
-declare var HTMLFontElement: undefined | { 
+declare var HTMLFontElement: PartialLibDomGlobal<'HTMLFontElement', {
   prototype: HTMLFontElement;
-  new(): HTMLFontElement; 
-};
+  new(): HTMLFontElement;
+}>;
 
 /**
  * A collection of HTML form control elements.
@@ -10235,10 +10230,10 @@ interface HTMLFormControlsCollection extends HTMLCollectionBase {
   namedItem(name: string): RadioNodeList | Element | null;
 }
 
-declare var HTMLFormControlsCollection: undefined | { 
+declare var HTMLFormControlsCollection: PartialLibDomGlobal<'HTMLFormControlsCollection', {
   prototype: HTMLFormControlsCollection;
-  new(): HTMLFormControlsCollection; 
-};
+  new(): HTMLFormControlsCollection;
+}>;
 
 /**
  * A <form> element in the DOM; it allows access to and in some cases modification of aspects of the form, as well as access to its component elements.
@@ -10332,10 +10327,10 @@ interface HTMLFormElement extends HTMLElement {
   [name: string]: any;
 }
 
-declare var HTMLFormElement: undefined | { 
+declare var HTMLFormElement: PartialLibDomGlobal<'HTMLFormElement', {
   prototype: HTMLFormElement;
-  new(): HTMLFormElement; 
-};
+  new(): HTMLFormElement;
+}>;
 
 /** @deprecated */
 interface HTMLFrameElement extends HTMLElement {
@@ -10396,11 +10391,10 @@ interface HTMLFrameElement extends HTMLElement {
 }
 
 /** @deprecated */
-
-declare var HTMLFrameElement: undefined | { 
+declare var HTMLFrameElement: PartialLibDomGlobal<'HTMLFrameElement', {
   prototype: HTMLFrameElement;
-  new(): HTMLFrameElement; 
-};
+  new(): HTMLFrameElement;
+}>;
 
 interface HTMLFrameSetElementEventMap extends HTMLElementEventMap, WindowEventHandlersEventMap {
 }
@@ -10429,11 +10423,10 @@ interface HTMLFrameSetElement extends HTMLElement, WindowEventHandlers {
 }
 
 /** @deprecated */
-
-declare var HTMLFrameSetElement: undefined | { 
+declare var HTMLFrameSetElement: PartialLibDomGlobal<'HTMLFrameSetElement', {
   prototype: HTMLFrameSetElement;
-  new(): HTMLFrameSetElement; 
-};
+  new(): HTMLFrameSetElement;
+}>;
 
 /**
  * Provides special properties (beyond those of the HTMLElement interface it also has available to it by inheritance) for manipulating <hr> elements.
@@ -10466,10 +10459,10 @@ interface HTMLHRElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLHRElement: undefined | { 
+declare var HTMLHRElement: PartialLibDomGlobal<'HTMLHRElement', {
   prototype: HTMLHRElement;
-  new(): HTMLHRElement; 
-};
+  new(): HTMLHRElement;
+}>;
 
 /**
  * Contains the descriptive information, or metadata, for a document. This object inherits all of the properties and methods described in the HTMLElement interface.
@@ -10483,10 +10476,10 @@ interface HTMLHeadElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLHeadElement: undefined | { 
+declare var HTMLHeadElement: PartialLibDomGlobal<'HTMLHeadElement', {
   prototype: HTMLHeadElement;
-  new(): HTMLHeadElement; 
-};
+  new(): HTMLHeadElement;
+}>;
 
 /**
  * The different heading elements. It inherits methods and properties from the HTMLElement interface.
@@ -10505,10 +10498,10 @@ interface HTMLHeadingElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLHeadingElement: undefined | { 
+declare var HTMLHeadingElement: PartialLibDomGlobal<'HTMLHeadingElement', {
   prototype: HTMLHeadingElement;
-  new(): HTMLHeadingElement; 
-};
+  new(): HTMLHeadingElement;
+}>;
 
 /**
  * Serves as the root node for a given HTML document. This object inherits the properties and methods described in the HTMLElement interface.
@@ -10529,10 +10522,10 @@ interface HTMLHtmlElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLHtmlElement: undefined | { 
+declare var HTMLHtmlElement: PartialLibDomGlobal<'HTMLHtmlElement', {
   prototype: HTMLHtmlElement;
-  new(): HTMLHtmlElement; 
-};
+  new(): HTMLHtmlElement;
+}>;
 
 interface HTMLHyperlinkElementUtils {
   /**
@@ -10719,10 +10712,10 @@ interface HTMLIFrameElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLIFrameElement: undefined | { 
+declare var HTMLIFrameElement: PartialLibDomGlobal<'HTMLIFrameElement', {
   prototype: HTMLIFrameElement;
-  new(): HTMLIFrameElement; 
-};
+  new(): HTMLIFrameElement;
+}>;
 
 /**
  * Provides special properties and methods for manipulating <img> elements.
@@ -10860,10 +10853,10 @@ interface HTMLImageElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLImageElement: undefined | { 
+declare var HTMLImageElement: PartialLibDomGlobal<'HTMLImageElement', {
   prototype: HTMLImageElement;
-  new(): HTMLImageElement; 
-};
+  new(): HTMLImageElement;
+}>;
 
 /**
  * Provides special properties and methods for manipulating the options, layout, and presentation of <input> elements.
@@ -11043,10 +11036,10 @@ interface HTMLInputElement extends HTMLElement, PopoverInvokerElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLInputElement: undefined | { 
+declare var HTMLInputElement: PartialLibDomGlobal<'HTMLInputElement', {
   prototype: HTMLInputElement;
-  new(): HTMLInputElement; 
-};
+  new(): HTMLInputElement;
+}>;
 
 /**
  * Exposes specific properties and methods (beyond those defined by regular HTMLElement interface it also has available to it by inheritance) for manipulating list elements.
@@ -11064,10 +11057,10 @@ interface HTMLLIElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLLIElement: undefined | { 
+declare var HTMLLIElement: PartialLibDomGlobal<'HTMLLIElement', {
   prototype: HTMLLIElement;
-  new(): HTMLLIElement; 
-};
+  new(): HTMLLIElement;
+}>;
 
 /**
  * Gives access to properties specific to <label> elements. It inherits methods and properties from the base HTMLElement interface.
@@ -11099,10 +11092,10 @@ interface HTMLLabelElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLLabelElement: undefined | { 
+declare var HTMLLabelElement: PartialLibDomGlobal<'HTMLLabelElement', {
   prototype: HTMLLabelElement;
-  new(): HTMLLabelElement; 
-};
+  new(): HTMLLabelElement;
+}>;
 
 /**
  * The HTMLLegendElement is an interface allowing to access properties of the <legend> elements. It inherits properties and methods from the HTMLElement interface.
@@ -11120,10 +11113,10 @@ interface HTMLLegendElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLLegendElement: undefined | { 
+declare var HTMLLegendElement: PartialLibDomGlobal<'HTMLLegendElement', {
   prototype: HTMLLegendElement;
-  new(): HTMLLegendElement; 
-};
+  new(): HTMLLegendElement;
+}>;
 
 /**
  * Reference information for external resources and the relationship of those resources to a document and vice-versa. This object inherits all of the properties and methods of the HTMLElement interface.
@@ -11191,10 +11184,10 @@ interface HTMLLinkElement extends HTMLElement, LinkStyle {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLLinkElement: undefined | { 
+declare var HTMLLinkElement: PartialLibDomGlobal<'HTMLLinkElement', {
   prototype: HTMLLinkElement;
-  new(): HTMLLinkElement; 
-};
+  new(): HTMLLinkElement;
+}>;
 
 /**
  * Provides special properties and methods (beyond those of the regular object HTMLElement interface it also has available to it by inheritance) for manipulating the layout and presentation of map elements.
@@ -11216,10 +11209,10 @@ interface HTMLMapElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLMapElement: undefined | { 
+declare var HTMLMapElement: PartialLibDomGlobal<'HTMLMapElement', {
   prototype: HTMLMapElement;
-  new(): HTMLMapElement; 
-};
+  new(): HTMLMapElement;
+}>;
 
 /**
  * Provides methods to manipulate <marquee> elements.
@@ -11261,11 +11254,10 @@ interface HTMLMarqueeElement extends HTMLElement {
 }
 
 /** @deprecated */
-
-declare var HTMLMarqueeElement: undefined | { 
+declare var HTMLMarqueeElement: PartialLibDomGlobal<'HTMLMarqueeElement', {
   prototype: HTMLMarqueeElement;
-  new(): HTMLMarqueeElement; 
-};
+  new(): HTMLMarqueeElement;
+}>;
 
 interface HTMLMediaElementEventMap extends HTMLElementEventMap {
   "encrypted": MediaEncryptedEvent;
@@ -11475,7 +11467,7 @@ interface HTMLMediaElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLMediaElement: undefined | { 
+declare var HTMLMediaElement: PartialLibDomGlobal<'HTMLMediaElement', {
   prototype: HTMLMediaElement;
   new(): HTMLMediaElement;
   readonly NETWORK_EMPTY: 0;
@@ -11486,8 +11478,8 @@ declare var HTMLMediaElement: undefined | {
   readonly HAVE_METADATA: 1;
   readonly HAVE_CURRENT_DATA: 2;
   readonly HAVE_FUTURE_DATA: 3;
-  readonly HAVE_ENOUGH_DATA: 4; 
-};
+  readonly HAVE_ENOUGH_DATA: 4;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLMenuElement) */
 interface HTMLMenuElement extends HTMLElement {
@@ -11499,10 +11491,10 @@ interface HTMLMenuElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLMenuElement: undefined | { 
+declare var HTMLMenuElement: PartialLibDomGlobal<'HTMLMenuElement', {
   prototype: HTMLMenuElement;
-  new(): HTMLMenuElement; 
-};
+  new(): HTMLMenuElement;
+}>;
 
 /**
  * Contains descriptive metadata about a document. It inherits all of the properties and methods described in the HTMLElement interface.
@@ -11543,10 +11535,10 @@ interface HTMLMetaElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLMetaElement: undefined | { 
+declare var HTMLMetaElement: PartialLibDomGlobal<'HTMLMetaElement', {
   prototype: HTMLMetaElement;
-  new(): HTMLMetaElement; 
-};
+  new(): HTMLMetaElement;
+}>;
 
 /**
  * The HTML <meter> elements expose the HTMLMeterElement interface, which provides special properties and methods (beyond the HTMLElement object interface they also have available to them by inheritance) for manipulating the layout and presentation of <meter> elements.
@@ -11568,10 +11560,10 @@ interface HTMLMeterElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLMeterElement: undefined | { 
+declare var HTMLMeterElement: PartialLibDomGlobal<'HTMLMeterElement', {
   prototype: HTMLMeterElement;
-  new(): HTMLMeterElement; 
-};
+  new(): HTMLMeterElement;
+}>;
 
 /**
  * Provides special properties (beyond the regular methods and properties available through the HTMLElement interface they also have available to them by inheritance) for manipulating modification elements, that is <del> and <ins>.
@@ -11589,10 +11581,10 @@ interface HTMLModElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLModElement: undefined | { 
+declare var HTMLModElement: PartialLibDomGlobal<'HTMLModElement', {
   prototype: HTMLModElement;
-  new(): HTMLModElement; 
-};
+  new(): HTMLModElement;
+}>;
 
 /**
  * Provides special properties (beyond those defined on the regular HTMLElement interface it also has available to it by inheritance) for manipulating ordered list elements.
@@ -11618,10 +11610,10 @@ interface HTMLOListElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLOListElement: undefined | { 
+declare var HTMLOListElement: PartialLibDomGlobal<'HTMLOListElement', {
   prototype: HTMLOListElement;
-  new(): HTMLOListElement; 
-};
+  new(): HTMLOListElement;
+}>;
 
 /**
  * Provides special properties and methods (beyond those on the HTMLElement interface it also has available to it by inheritance) for manipulating the layout and presentation of <object> element, representing external resources.
@@ -11754,10 +11746,10 @@ interface HTMLObjectElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLObjectElement: undefined | { 
+declare var HTMLObjectElement: PartialLibDomGlobal<'HTMLObjectElement', {
   prototype: HTMLObjectElement;
-  new(): HTMLObjectElement; 
-};
+  new(): HTMLObjectElement;
+}>;
 
 /**
  * Provides special properties and methods (beyond the regular HTMLElement object interface they also have available to them by inheritance) for manipulating the layout and presentation of <optgroup> elements.
@@ -11774,10 +11766,10 @@ interface HTMLOptGroupElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLOptGroupElement: undefined | { 
+declare var HTMLOptGroupElement: PartialLibDomGlobal<'HTMLOptGroupElement', {
   prototype: HTMLOptGroupElement;
-  new(): HTMLOptGroupElement; 
-};
+  new(): HTMLOptGroupElement;
+}>;
 
 /**
  * <option> elements and inherits all classes and methods of the HTMLElement interface.
@@ -11806,10 +11798,10 @@ interface HTMLOptionElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLOptionElement: undefined | { 
+declare var HTMLOptionElement: PartialLibDomGlobal<'HTMLOptionElement', {
   prototype: HTMLOptionElement;
-  new(): HTMLOptionElement; 
-};
+  new(): HTMLOptionElement;
+}>;
 
 /**
  * HTMLOptionsCollection is an interface representing a collection of HTML option elements (in document order) and offers methods and properties for traversing the list as well as optionally altering its items. This type is returned solely by the "options" property of select.
@@ -11845,10 +11837,10 @@ interface HTMLOptionsCollection extends HTMLCollectionOf<HTMLOptionElement> {
   remove(index: number): void;
 }
 
-declare var HTMLOptionsCollection: undefined | { 
+declare var HTMLOptionsCollection: PartialLibDomGlobal<'HTMLOptionsCollection', {
   prototype: HTMLOptionsCollection;
-  new(): HTMLOptionsCollection; 
-};
+  new(): HTMLOptionsCollection;
+}>;
 
 interface HTMLOrSVGElement {
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLElement/autofocus) */
@@ -11897,10 +11889,10 @@ interface HTMLOutputElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLOutputElement: undefined | { 
+declare var HTMLOutputElement: PartialLibDomGlobal<'HTMLOutputElement', {
   prototype: HTMLOutputElement;
-  new(): HTMLOutputElement; 
-};
+  new(): HTMLOutputElement;
+}>;
 
 /**
  * Provides special properties (beyond those of the regular HTMLElement object interface it inherits) for manipulating <p> elements.
@@ -11919,10 +11911,10 @@ interface HTMLParagraphElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLParagraphElement: undefined | { 
+declare var HTMLParagraphElement: PartialLibDomGlobal<'HTMLParagraphElement', {
   prototype: HTMLParagraphElement;
-  new(): HTMLParagraphElement; 
-};
+  new(): HTMLParagraphElement;
+}>;
 
 /**
  * Provides special properties (beyond those of the regular HTMLElement object interface it inherits) for manipulating <param> elements, representing a pair of a key and a value that acts as a parameter for an <object> element.
@@ -11958,11 +11950,10 @@ interface HTMLParamElement extends HTMLElement {
 }
 
 /** @deprecated */
-
-declare var HTMLParamElement: undefined | { 
+declare var HTMLParamElement: PartialLibDomGlobal<'HTMLParamElement', {
   prototype: HTMLParamElement;
-  new(): HTMLParamElement; 
-};
+  new(): HTMLParamElement;
+}>;
 
 /**
  * A <picture> HTML element. It doesn't implement specific properties or methods.
@@ -11976,10 +11967,10 @@ interface HTMLPictureElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLPictureElement: undefined | { 
+declare var HTMLPictureElement: PartialLibDomGlobal<'HTMLPictureElement', {
   prototype: HTMLPictureElement;
-  new(): HTMLPictureElement; 
-};
+  new(): HTMLPictureElement;
+}>;
 
 /**
  * Exposes specific properties and methods (beyond those of the HTMLElement interface it also has available to it by inheritance) for manipulating a block of preformatted text (<pre>).
@@ -11998,10 +11989,10 @@ interface HTMLPreElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLPreElement: undefined | { 
+declare var HTMLPreElement: PartialLibDomGlobal<'HTMLPreElement', {
   prototype: HTMLPreElement;
-  new(): HTMLPreElement; 
-};
+  new(): HTMLPreElement;
+}>;
 
 /**
  * Provides special properties and methods (beyond the regular HTMLElement interface it also has available to it by inheritance) for manipulating the layout and presentation of <progress> elements.
@@ -12035,10 +12026,10 @@ interface HTMLProgressElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLProgressElement: undefined | { 
+declare var HTMLProgressElement: PartialLibDomGlobal<'HTMLProgressElement', {
   prototype: HTMLProgressElement;
-  new(): HTMLProgressElement; 
-};
+  new(): HTMLProgressElement;
+}>;
 
 /**
  * Provides special properties and methods (beyond the regular HTMLElement interface it also has available to it by inheritance) for manipulating quoting elements, like <blockquote> and <q>, but not the <cite> element.
@@ -12054,10 +12045,10 @@ interface HTMLQuoteElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLQuoteElement: undefined | { 
+declare var HTMLQuoteElement: PartialLibDomGlobal<'HTMLQuoteElement', {
   prototype: HTMLQuoteElement;
-  new(): HTMLQuoteElement; 
-};
+  new(): HTMLQuoteElement;
+}>;
 
 /**
  * HTML <script> elements expose the HTMLScriptElement interface, which provides special properties and methods for manipulating the behavior and execution of <script> elements (beyond the inherited HTMLElement interface).
@@ -12122,12 +12113,12 @@ interface HTMLScriptElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLScriptElement: undefined | { 
+declare var HTMLScriptElement: PartialLibDomGlobal<'HTMLScriptElement', {
   prototype: HTMLScriptElement;
   new(): HTMLScriptElement;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLScriptElement/supports_static) */
-  supports(type: string): boolean; 
-};
+  supports(type: string): boolean;
+}>;
 
 /**
  * A <select> HTML Element. These elements also share all of the properties and methods of other HTML elements via the HTMLElement interface.
@@ -12242,10 +12233,10 @@ interface HTMLSelectElement extends HTMLElement {
   [name: number]: HTMLOptionElement | HTMLOptGroupElement;
 }
 
-declare var HTMLSelectElement: undefined | { 
+declare var HTMLSelectElement: PartialLibDomGlobal<'HTMLSelectElement', {
   prototype: HTMLSelectElement;
-  new(): HTMLSelectElement; 
-};
+  new(): HTMLSelectElement;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLSlotElement) */
 interface HTMLSlotElement extends HTMLElement {
@@ -12263,10 +12254,10 @@ interface HTMLSlotElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLSlotElement: undefined | { 
+declare var HTMLSlotElement: PartialLibDomGlobal<'HTMLSlotElement', {
   prototype: HTMLSlotElement;
-  new(): HTMLSlotElement; 
-};
+  new(): HTMLSlotElement;
+}>;
 
 /**
  * Provides special properties (beyond the regular HTMLElement object interface it also has available to it by inheritance) for manipulating <source> elements.
@@ -12292,10 +12283,10 @@ interface HTMLSourceElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLSourceElement: undefined | { 
+declare var HTMLSourceElement: PartialLibDomGlobal<'HTMLSourceElement', {
   prototype: HTMLSourceElement;
-  new(): HTMLSourceElement; 
-};
+  new(): HTMLSourceElement;
+}>;
 
 /**
  * A <span> element and derives from the HTMLElement interface, but without implementing any additional properties or methods.
@@ -12309,10 +12300,10 @@ interface HTMLSpanElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLSpanElement: undefined | { 
+declare var HTMLSpanElement: PartialLibDomGlobal<'HTMLSpanElement', {
   prototype: HTMLSpanElement;
-  new(): HTMLSpanElement; 
-};
+  new(): HTMLSpanElement;
+}>;
 
 /**
  * A <style> element. It inherits properties and methods from its parent, HTMLElement, and from LinkStyle.
@@ -12345,10 +12336,10 @@ interface HTMLStyleElement extends HTMLElement, LinkStyle {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLStyleElement: undefined | { 
+declare var HTMLStyleElement: PartialLibDomGlobal<'HTMLStyleElement', {
   prototype: HTMLStyleElement;
-  new(): HTMLStyleElement; 
-};
+  new(): HTMLStyleElement;
+}>;
 
 /**
  * Special properties (beyond the regular HTMLElement interface it also has available to it by inheritance) for manipulating table caption elements.
@@ -12367,10 +12358,10 @@ interface HTMLTableCaptionElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLTableCaptionElement: undefined | { 
+declare var HTMLTableCaptionElement: PartialLibDomGlobal<'HTMLTableCaptionElement', {
   prototype: HTMLTableCaptionElement;
-  new(): HTMLTableCaptionElement; 
-};
+  new(): HTMLTableCaptionElement;
+}>;
 
 /**
  * Provides special properties and methods (beyond the regular HTMLElement interface it also has available to it by inheritance) for manipulating the layout and presentation of table cells, either header or data cells, in an HTML document.
@@ -12473,10 +12464,10 @@ interface HTMLTableCellElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLTableCellElement: undefined | { 
+declare var HTMLTableCellElement: PartialLibDomGlobal<'HTMLTableCellElement', {
   prototype: HTMLTableCellElement;
-  new(): HTMLTableCellElement; 
-};
+  new(): HTMLTableCellElement;
+}>;
 
 /**
  * Provides special properties (beyond the HTMLElement interface it also has available to it inheritance) for manipulating single or grouped table column elements.
@@ -12526,10 +12517,10 @@ interface HTMLTableColElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLTableColElement: undefined | { 
+declare var HTMLTableColElement: PartialLibDomGlobal<'HTMLTableColElement', {
   prototype: HTMLTableColElement;
-  new(): HTMLTableColElement; 
-};
+  new(): HTMLTableColElement;
+}>;
 
 /** @deprecated prefer HTMLTableCellElement */
 interface HTMLTableDataCellElement extends HTMLTableCellElement {
@@ -12699,10 +12690,10 @@ interface HTMLTableElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLTableElement: undefined | { 
+declare var HTMLTableElement: PartialLibDomGlobal<'HTMLTableElement', {
   prototype: HTMLTableElement;
-  new(): HTMLTableElement; 
-};
+  new(): HTMLTableElement;
+}>;
 
 /** @deprecated prefer HTMLTableCellElement */
 interface HTMLTableHeaderCellElement extends HTMLTableCellElement {
@@ -12781,10 +12772,10 @@ interface HTMLTableRowElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLTableRowElement: undefined | { 
+declare var HTMLTableRowElement: PartialLibDomGlobal<'HTMLTableRowElement', {
   prototype: HTMLTableRowElement;
-  new(): HTMLTableRowElement; 
-};
+  new(): HTMLTableRowElement;
+}>;
 
 /**
  * Provides special properties and methods (beyond the HTMLElement interface it also has available to it by inheritance) for manipulating the layout and presentation of sections, that is headers, footers and bodies, in an HTML table.
@@ -12837,10 +12828,10 @@ interface HTMLTableSectionElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLTableSectionElement: undefined | { 
+declare var HTMLTableSectionElement: PartialLibDomGlobal<'HTMLTableSectionElement', {
   prototype: HTMLTableSectionElement;
-  new(): HTMLTableSectionElement; 
-};
+  new(): HTMLTableSectionElement;
+}>;
 
 /**
  * Enables access to the contents of an HTML <template> element.
@@ -12868,10 +12859,10 @@ interface HTMLTemplateElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLTemplateElement: undefined | { 
+declare var HTMLTemplateElement: PartialLibDomGlobal<'HTMLTemplateElement', {
   prototype: HTMLTemplateElement;
-  new(): HTMLTemplateElement; 
-};
+  new(): HTMLTemplateElement;
+}>;
 
 /**
  * Provides special properties and methods for manipulating the layout and presentation of <textarea> elements.
@@ -12950,10 +12941,10 @@ interface HTMLTextAreaElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLTextAreaElement: undefined | { 
+declare var HTMLTextAreaElement: PartialLibDomGlobal<'HTMLTextAreaElement', {
   prototype: HTMLTextAreaElement;
-  new(): HTMLTextAreaElement; 
-};
+  new(): HTMLTextAreaElement;
+}>;
 
 /**
  * Provides special properties (beyond the regular HTMLElement interface it also has available to it by inheritance) for manipulating <time> elements.
@@ -12969,10 +12960,10 @@ interface HTMLTimeElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLTimeElement: undefined | { 
+declare var HTMLTimeElement: PartialLibDomGlobal<'HTMLTimeElement', {
   prototype: HTMLTimeElement;
-  new(): HTMLTimeElement; 
-};
+  new(): HTMLTimeElement;
+}>;
 
 /**
  * Contains the title for a document. This element inherits all of the properties and methods of the HTMLElement interface.
@@ -12992,10 +12983,10 @@ interface HTMLTitleElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLTitleElement: undefined | { 
+declare var HTMLTitleElement: PartialLibDomGlobal<'HTMLTitleElement', {
   prototype: HTMLTitleElement;
-  new(): HTMLTitleElement; 
-};
+  new(): HTMLTitleElement;
+}>;
 
 /**
  * The HTMLTrackElement
@@ -13022,14 +13013,14 @@ interface HTMLTrackElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLTrackElement: undefined | { 
+declare var HTMLTrackElement: PartialLibDomGlobal<'HTMLTrackElement', {
   prototype: HTMLTrackElement;
   new(): HTMLTrackElement;
   readonly NONE: 0;
   readonly LOADING: 1;
   readonly LOADED: 2;
-  readonly ERROR: 3; 
-};
+  readonly ERROR: 3;
+}>;
 
 /**
  * Provides special properties (beyond those defined on the regular HTMLElement interface it also has available to it by inheritance) for manipulating unordered list elements.
@@ -13047,10 +13038,10 @@ interface HTMLUListElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLUListElement: undefined | { 
+declare var HTMLUListElement: PartialLibDomGlobal<'HTMLUListElement', {
   prototype: HTMLUListElement;
-  new(): HTMLUListElement; 
-};
+  new(): HTMLUListElement;
+}>;
 
 /**
  * An invalid HTML element and derives from the HTMLElement interface, but without implementing any additional properties or methods.
@@ -13064,10 +13055,10 @@ interface HTMLUnknownElement extends HTMLElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLUnknownElement: undefined | { 
+declare var HTMLUnknownElement: PartialLibDomGlobal<'HTMLUnknownElement', {
   prototype: HTMLUnknownElement;
-  new(): HTMLUnknownElement; 
-};
+  new(): HTMLUnknownElement;
+}>;
 
 interface HTMLVideoElementEventMap extends HTMLMediaElementEventMap {
   "enterpictureinpicture": Event;
@@ -13132,10 +13123,10 @@ interface HTMLVideoElement extends HTMLMediaElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var HTMLVideoElement: undefined | { 
+declare var HTMLVideoElement: PartialLibDomGlobal<'HTMLVideoElement', {
   prototype: HTMLVideoElement;
-  new(): HTMLVideoElement; 
-};
+  new(): HTMLVideoElement;
+}>;
 
 /**
  * Events that fire when the fragment identifier of the URL has changed.
@@ -13157,10 +13148,10 @@ interface HashChangeEvent extends Event {
   readonly oldURL: string;
 }
 
-declare var HashChangeEvent: undefined | { 
+declare var HashChangeEvent: PartialLibDomGlobal<'HashChangeEvent', {
   prototype: HashChangeEvent;
-  new(type: string, eventInitDict?: HashChangeEventInit): HashChangeEvent; 
-};
+  new(type: string, eventInitDict?: HashChangeEventInit): HashChangeEvent;
+}>;
 
 /**
  * This Fetch API interface allows you to perform various actions on HTTP request and response headers. These actions include retrieving, setting, adding to, and removing. A Headers object has an associated header list, which is initially empty and consists of zero or more name and value pairs.  You can add to this using methods like append() (see Examples.) In all methods of this interface, header names are matched by case-insensitive byte sequence.
@@ -13183,10 +13174,10 @@ interface Headers {
   forEach(callbackfn: (value: string, key: string, parent: Headers) => void, thisArg?: any): void;
 }
 
-declare var Headers: { 
+declare var Headers: PartialLibDomNodeGlobal<'Headers', {
   prototype: Headers;
-  new(init?: HeadersInit): Headers; 
-};
+  new(init?: HeadersInit): Headers;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Highlight) */
 interface Highlight {
@@ -13197,20 +13188,20 @@ interface Highlight {
   forEach(callbackfn: (value: AbstractRange, key: AbstractRange, parent: Highlight) => void, thisArg?: any): void;
 }
 
-declare var Highlight: undefined | { 
+declare var Highlight: PartialLibDomGlobal<'Highlight', {
   prototype: Highlight;
-  new(...initialRanges: AbstractRange[]): Highlight; 
-};
+  new(...initialRanges: AbstractRange[]): Highlight;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/HighlightRegistry) */
 interface HighlightRegistry {
   forEach(callbackfn: (value: Highlight, key: string, parent: HighlightRegistry) => void, thisArg?: any): void;
 }
 
-declare var HighlightRegistry: undefined | { 
+declare var HighlightRegistry: PartialLibDomGlobal<'HighlightRegistry', {
   prototype: HighlightRegistry;
-  new(): HighlightRegistry; 
-};
+  new(): HighlightRegistry;
+}>;
 
 /**
  * Allows manipulation of the browser session history, that is the pages visited in the tab or frame that the current page is loaded in.
@@ -13236,10 +13227,10 @@ interface History {
   replaceState(data: any, unused: string, url?: string | URL | null): void;
 }
 
-declare var History: undefined | { 
+declare var History: PartialLibDomGlobal<'History', {
   prototype: History;
-  new(): History; 
-};
+  new(): History;
+}>;
 
 /**
  * This IndexedDB API interface represents a cursor for traversing or iterating over multiple records in a database.
@@ -13311,10 +13302,10 @@ interface IDBCursor {
   update(value: any): IDBRequest<IDBValidKey>;
 }
 
-declare var IDBCursor: undefined | { 
+declare var IDBCursor: PartialLibDomGlobal<'IDBCursor', {
   prototype: IDBCursor;
-  new(): IDBCursor; 
-};
+  new(): IDBCursor;
+}>;
 
 /**
  * This IndexedDB API interface represents a cursor for traversing or iterating over multiple records in a database. It is the same as the IDBCursor, except that it includes the value property.
@@ -13330,10 +13321,10 @@ interface IDBCursorWithValue extends IDBCursor {
   readonly value: any;
 }
 
-declare var IDBCursorWithValue: undefined | { 
+declare var IDBCursorWithValue: PartialLibDomGlobal<'IDBCursorWithValue', {
   prototype: IDBCursorWithValue;
-  new(): IDBCursorWithValue; 
-};
+  new(): IDBCursorWithValue;
+}>;
 
 interface IDBDatabaseEventMap {
   "abort": Event;
@@ -13406,10 +13397,10 @@ interface IDBDatabase extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var IDBDatabase: undefined | { 
+declare var IDBDatabase: PartialLibDomGlobal<'IDBDatabase', {
   prototype: IDBDatabase;
-  new(): IDBDatabase; 
-};
+  new(): IDBDatabase;
+}>;
 
 /**
  * In the following code snippet, we make a request to open a database, and include handlers for the success and error cases. For a full working example, see our To-do Notifications app (view example live.)
@@ -13441,10 +13432,10 @@ interface IDBFactory {
   open(name: string, version?: number): IDBOpenDBRequest;
 }
 
-declare var IDBFactory: undefined | { 
+declare var IDBFactory: PartialLibDomGlobal<'IDBFactory', {
   prototype: IDBFactory;
-  new(): IDBFactory; 
-};
+  new(): IDBFactory;
+}>;
 
 /**
  * IDBIndex interface of the IndexedDB API provides asynchronous access to an index in a database. An index is a kind of object store for looking up records in another object store, called the referenced object store. You use this interface to retrieve data.
@@ -13528,10 +13519,10 @@ interface IDBIndex {
   openKeyCursor(query?: IDBValidKey | IDBKeyRange | null, direction?: IDBCursorDirection): IDBRequest<IDBCursor | null>;
 }
 
-declare var IDBIndex: undefined | { 
+declare var IDBIndex: PartialLibDomGlobal<'IDBIndex', {
   prototype: IDBIndex;
-  new(): IDBIndex; 
-};
+  new(): IDBIndex;
+}>;
 
 /**
  * A key range can be a single value or a range with upper and lower bounds or endpoints. If the key range has both upper and lower bounds, then it is bounded; if it has no bounds, it is unbounded. A bounded key range can either be open (the endpoints are excluded) or closed (the endpoints are included). To retrieve all keys within a certain range, you can use the following code constructs:
@@ -13571,7 +13562,7 @@ interface IDBKeyRange {
   includes(key: any): boolean;
 }
 
-declare var IDBKeyRange: undefined | { 
+declare var IDBKeyRange: PartialLibDomGlobal<'IDBKeyRange', {
   prototype: IDBKeyRange;
   new(): IDBKeyRange;
   /**
@@ -13597,8 +13588,8 @@ declare var IDBKeyRange: undefined | {
    *
    * [MDN Reference](https://developer.mozilla.org/docs/Web/API/IDBKeyRange/upperBound_static)
    */
-  upperBound(upper: any, open?: boolean): IDBKeyRange; 
-};
+  upperBound(upper: any, open?: boolean): IDBKeyRange;
+}>;
 
 /**
  * This example shows a variety of different uses of object stores, from updating the data structure with IDBObjectStore.createIndex inside an onupgradeneeded function, to adding a new item to our object store with IDBObjectStore.add. For a full working example, see our To-do Notifications app (view example live.)
@@ -13752,10 +13743,10 @@ interface IDBObjectStore {
   put(value: any, key?: IDBValidKey): IDBRequest<IDBValidKey>;
 }
 
-declare var IDBObjectStore: undefined | { 
+declare var IDBObjectStore: PartialLibDomGlobal<'IDBObjectStore', {
   prototype: IDBObjectStore;
-  new(): IDBObjectStore; 
-};
+  new(): IDBObjectStore;
+}>;
 
 interface IDBOpenDBRequestEventMap extends IDBRequestEventMap {
   "blocked": IDBVersionChangeEvent;
@@ -13778,10 +13769,10 @@ interface IDBOpenDBRequest extends IDBRequest<IDBDatabase> {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var IDBOpenDBRequest: undefined | { 
+declare var IDBOpenDBRequest: PartialLibDomGlobal<'IDBOpenDBRequest', {
   prototype: IDBOpenDBRequest;
-  new(): IDBOpenDBRequest; 
-};
+  new(): IDBOpenDBRequest;
+}>;
 
 interface IDBRequestEventMap {
   "error": Event;
@@ -13834,10 +13825,10 @@ interface IDBRequest<T = any> extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var IDBRequest: undefined | { 
+declare var IDBRequest: PartialLibDomGlobal<'IDBRequest', {
   prototype: IDBRequest;
-  new(): IDBRequest; 
-};
+  new(): IDBRequest;
+}>;
 
 interface IDBTransactionEventMap {
   "abort": Event;
@@ -13899,10 +13890,10 @@ interface IDBTransaction extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var IDBTransaction: undefined | { 
+declare var IDBTransaction: PartialLibDomGlobal<'IDBTransaction', {
   prototype: IDBTransaction;
-  new(): IDBTransaction; 
-};
+  new(): IDBTransaction;
+}>;
 
 /**
  * This IndexedDB API interface indicates that the version of the database has changed, as the result of an IDBOpenDBRequest.onupgradeneeded event handler function.
@@ -13916,10 +13907,10 @@ interface IDBVersionChangeEvent extends Event {
   readonly oldVersion: number;
 }
 
-declare var IDBVersionChangeEvent: undefined | { 
+declare var IDBVersionChangeEvent: PartialLibDomGlobal<'IDBVersionChangeEvent', {
   prototype: IDBVersionChangeEvent;
-  new(type: string, eventInitDict?: IDBVersionChangeEventInit): IDBVersionChangeEvent; 
-};
+  new(type: string, eventInitDict?: IDBVersionChangeEventInit): IDBVersionChangeEvent;
+}>;
 
 /**
  * The IIRFilterNode interface of the Web Audio API is a AudioNode processor which implements a general infinite impulse response (IIR)  filter; this type of filter can be used to implement tone control devices and graphic equalizers as well. It lets the parameters of the filter response be specified, so that it can be tuned as needed.
@@ -13931,10 +13922,10 @@ interface IIRFilterNode extends AudioNode {
   getFrequencyResponse(frequencyHz: Float32Array, magResponse: Float32Array, phaseResponse: Float32Array): void;
 }
 
-declare var IIRFilterNode: undefined | { 
+declare var IIRFilterNode: PartialLibDomGlobal<'IIRFilterNode', {
   prototype: IIRFilterNode;
-  new(context: BaseAudioContext, options: IIRFilterOptions): IIRFilterNode; 
-};
+  new(context: BaseAudioContext, options: IIRFilterOptions): IIRFilterNode;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/IdleDeadline) */
 interface IdleDeadline {
@@ -13944,10 +13935,10 @@ interface IdleDeadline {
   timeRemaining(): DOMHighResTimeStamp;
 }
 
-declare var IdleDeadline: undefined | { 
+declare var IdleDeadline: PartialLibDomGlobal<'IdleDeadline', {
   prototype: IdleDeadline;
-  new(): IdleDeadline; 
-};
+  new(): IdleDeadline;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/ImageBitmap) */
 interface ImageBitmap {
@@ -13971,10 +13962,10 @@ interface ImageBitmap {
   close(): void;
 }
 
-declare var ImageBitmap: undefined | { 
+declare var ImageBitmap: PartialLibDomGlobal<'ImageBitmap', {
   prototype: ImageBitmap;
-  new(): ImageBitmap; 
-};
+  new(): ImageBitmap;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/ImageBitmapRenderingContext) */
 interface ImageBitmapRenderingContext {
@@ -13988,10 +13979,10 @@ interface ImageBitmapRenderingContext {
   transferFromImageBitmap(bitmap: ImageBitmap | null): void;
 }
 
-declare var ImageBitmapRenderingContext: undefined | { 
+declare var ImageBitmapRenderingContext: PartialLibDomGlobal<'ImageBitmapRenderingContext', {
   prototype: ImageBitmapRenderingContext;
-  new(): ImageBitmapRenderingContext; 
-};
+  new(): ImageBitmapRenderingContext;
+}>;
 
 /**
  * The underlying pixel data of an area of a <canvas> element. It is created using the ImageData() constructor or creator methods on the CanvasRenderingContext2D object associated with a canvas: createImageData() and getImageData(). It can also be used to set a part of the canvas by using putImageData().
@@ -14021,11 +14012,11 @@ interface ImageData {
   readonly width: number;
 }
 
-declare var ImageData: undefined | { 
+declare var ImageData: PartialLibDomGlobal<'ImageData', {
   prototype: ImageData;
   new(sw: number, sh: number, settings?: ImageDataSettings): ImageData;
-  new(data: Uint8ClampedArray, sw: number, sh?: number, settings?: ImageDataSettings): ImageData; 
-};
+  new(data: Uint8ClampedArray, sw: number, sh?: number, settings?: ImageDataSettings): ImageData;
+}>;
 
 interface ImportMeta {
   url: string;
@@ -14042,10 +14033,10 @@ interface InputDeviceInfo extends MediaDeviceInfo {
   getCapabilities(): MediaTrackCapabilities;
 }
 
-declare var InputDeviceInfo: undefined | { 
+declare var InputDeviceInfo: PartialLibDomGlobal<'InputDeviceInfo', {
   prototype: InputDeviceInfo;
-  new(): InputDeviceInfo; 
-};
+  new(): InputDeviceInfo;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/InputEvent) */
 interface InputEvent extends UIEvent {
@@ -14061,10 +14052,10 @@ interface InputEvent extends UIEvent {
   getTargetRanges(): StaticRange[];
 }
 
-declare var InputEvent: undefined | { 
+declare var InputEvent: PartialLibDomGlobal<'InputEvent', {
   prototype: InputEvent;
-  new(type: string, eventInitDict?: InputEventInit): InputEvent; 
-};
+  new(type: string, eventInitDict?: InputEventInit): InputEvent;
+}>;
 
 /**
  * provides a way to asynchronously observe changes in the intersection of a target element with an ancestor element or with a top-level document's viewport.
@@ -14088,10 +14079,10 @@ interface IntersectionObserver {
   unobserve(target: Element): void;
 }
 
-declare var IntersectionObserver: undefined | { 
+declare var IntersectionObserver: PartialLibDomGlobal<'IntersectionObserver', {
   prototype: IntersectionObserver;
-  new(callback: IntersectionObserverCallback, options?: IntersectionObserverInit): IntersectionObserver; 
-};
+  new(callback: IntersectionObserverCallback, options?: IntersectionObserverInit): IntersectionObserver;
+}>;
 
 /**
  * This Intersection Observer API interface describes the intersection between the target element and its root container at a specific moment of transition.
@@ -14115,10 +14106,10 @@ interface IntersectionObserverEntry {
   readonly time: DOMHighResTimeStamp;
 }
 
-declare var IntersectionObserverEntry: undefined | { 
+declare var IntersectionObserverEntry: PartialLibDomGlobal<'IntersectionObserverEntry', {
   prototype: IntersectionObserverEntry;
-  new(intersectionObserverEntryInit: IntersectionObserverEntryInit): IntersectionObserverEntry; 
-};
+  new(intersectionObserverEntryInit: IntersectionObserverEntryInit): IntersectionObserverEntry;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/KHR_parallel_shader_compile) */
 interface KHR_parallel_shader_compile {
@@ -14175,14 +14166,14 @@ interface KeyboardEvent extends UIEvent {
   readonly DOM_KEY_LOCATION_NUMPAD: 0x03;
 }
 
-declare var KeyboardEvent: undefined | { 
+declare var KeyboardEvent: PartialLibDomGlobal<'KeyboardEvent', {
   prototype: KeyboardEvent;
   new(type: string, eventInitDict?: KeyboardEventInit): KeyboardEvent;
   readonly DOM_KEY_LOCATION_STANDARD: 0x00;
   readonly DOM_KEY_LOCATION_LEFT: 0x01;
   readonly DOM_KEY_LOCATION_RIGHT: 0x02;
-  readonly DOM_KEY_LOCATION_NUMPAD: 0x03; 
-};
+  readonly DOM_KEY_LOCATION_NUMPAD: 0x03;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/KeyframeEffect) */
 interface KeyframeEffect extends AnimationEffect {
@@ -14200,11 +14191,11 @@ interface KeyframeEffect extends AnimationEffect {
   setKeyframes(keyframes: Keyframe[] | PropertyIndexedKeyframes | null): void;
 }
 
-declare var KeyframeEffect: undefined | { 
+declare var KeyframeEffect: PartialLibDomGlobal<'KeyframeEffect', {
   prototype: KeyframeEffect;
   new(target: Element | null, keyframes: Keyframe[] | PropertyIndexedKeyframes | null, options?: number | KeyframeEffectOptions): KeyframeEffect;
-  new(source: KeyframeEffect): KeyframeEffect; 
-};
+  new(source: KeyframeEffect): KeyframeEffect;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/LargestContentfulPaint) */
 interface LargestContentfulPaint extends PerformanceEntry {
@@ -14224,10 +14215,10 @@ interface LargestContentfulPaint extends PerformanceEntry {
   toJSON(): any;
 }
 
-declare var LargestContentfulPaint: undefined | { 
+declare var LargestContentfulPaint: PartialLibDomGlobal<'LargestContentfulPaint', {
   prototype: LargestContentfulPaint;
-  new(): LargestContentfulPaint; 
-};
+  new(): LargestContentfulPaint;
+}>;
 
 interface LinkStyle {
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLLinkElement/sheet) */
@@ -14337,10 +14328,10 @@ interface Location {
   replace(url: string | URL): void;
 }
 
-declare var Location: undefined | { 
+declare var Location: PartialLibDomGlobal<'Location', {
   prototype: Location;
-  new(): Location; 
-};
+  new(): Location;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -14354,10 +14345,10 @@ interface Lock {
   readonly name: string;
 }
 
-declare var Lock: undefined | { 
+declare var Lock: PartialLibDomGlobal<'Lock', {
   prototype: Lock;
-  new(): Lock; 
-};
+  new(): Lock;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -14372,10 +14363,10 @@ interface LockManager {
   request(name: string, options: LockOptions, callback: LockGrantedCallback): Promise<any>;
 }
 
-declare var LockManager: undefined | { 
+declare var LockManager: PartialLibDomGlobal<'LockManager', {
   prototype: LockManager;
-  new(): LockManager; 
-};
+  new(): LockManager;
+}>;
 
 interface MIDIAccessEventMap {
   "statechange": Event;
@@ -14401,10 +14392,10 @@ interface MIDIAccess extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var MIDIAccess: undefined | { 
+declare var MIDIAccess: PartialLibDomGlobal<'MIDIAccess', {
   prototype: MIDIAccess;
-  new(): MIDIAccess; 
-};
+  new(): MIDIAccess;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -14416,10 +14407,10 @@ interface MIDIConnectionEvent extends Event {
   readonly port: MIDIPort | null;
 }
 
-declare var MIDIConnectionEvent: undefined | { 
+declare var MIDIConnectionEvent: PartialLibDomGlobal<'MIDIConnectionEvent', {
   prototype: MIDIConnectionEvent;
-  new(type: string, eventInitDict?: MIDIConnectionEventInit): MIDIConnectionEvent; 
-};
+  new(type: string, eventInitDict?: MIDIConnectionEventInit): MIDIConnectionEvent;
+}>;
 
 interface MIDIInputEventMap extends MIDIPortEventMap {
   "midimessage": MIDIMessageEvent;
@@ -14439,10 +14430,10 @@ interface MIDIInput extends MIDIPort {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var MIDIInput: undefined | { 
+declare var MIDIInput: PartialLibDomGlobal<'MIDIInput', {
   prototype: MIDIInput;
-  new(): MIDIInput; 
-};
+  new(): MIDIInput;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -14453,10 +14444,10 @@ interface MIDIInputMap {
   forEach(callbackfn: (value: MIDIInput, key: string, parent: MIDIInputMap) => void, thisArg?: any): void;
 }
 
-declare var MIDIInputMap: undefined | { 
+declare var MIDIInputMap: PartialLibDomGlobal<'MIDIInputMap', {
   prototype: MIDIInputMap;
-  new(): MIDIInputMap; 
-};
+  new(): MIDIInputMap;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -14468,10 +14459,10 @@ interface MIDIMessageEvent extends Event {
   readonly data: Uint8Array | null;
 }
 
-declare var MIDIMessageEvent: undefined | { 
+declare var MIDIMessageEvent: PartialLibDomGlobal<'MIDIMessageEvent', {
   prototype: MIDIMessageEvent;
-  new(type: string, eventInitDict?: MIDIMessageEventInit): MIDIMessageEvent; 
-};
+  new(type: string, eventInitDict?: MIDIMessageEventInit): MIDIMessageEvent;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -14487,10 +14478,10 @@ interface MIDIOutput extends MIDIPort {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var MIDIOutput: undefined | { 
+declare var MIDIOutput: PartialLibDomGlobal<'MIDIOutput', {
   prototype: MIDIOutput;
-  new(): MIDIOutput; 
-};
+  new(): MIDIOutput;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -14501,10 +14492,10 @@ interface MIDIOutputMap {
   forEach(callbackfn: (value: MIDIOutput, key: string, parent: MIDIOutputMap) => void, thisArg?: any): void;
 }
 
-declare var MIDIOutputMap: undefined | { 
+declare var MIDIOutputMap: PartialLibDomGlobal<'MIDIOutputMap', {
   prototype: MIDIOutputMap;
-  new(): MIDIOutputMap; 
-};
+  new(): MIDIOutputMap;
+}>;
 
 interface MIDIPortEventMap {
   "statechange": MIDIConnectionEvent;
@@ -14542,10 +14533,10 @@ interface MIDIPort extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var MIDIPort: undefined | { 
+declare var MIDIPort: PartialLibDomGlobal<'MIDIPort', {
   prototype: MIDIPort;
-  new(): MIDIPort; 
-};
+  new(): MIDIPort;
+}>;
 
 interface MathMLElementEventMap extends ElementEventMap, GlobalEventHandlersEventMap {
 }
@@ -14558,10 +14549,10 @@ interface MathMLElement extends Element, ElementCSSInlineStyle, GlobalEventHandl
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var MathMLElement: undefined | { 
+declare var MathMLElement: PartialLibDomGlobal<'MathMLElement', {
   prototype: MathMLElement;
-  new(): MathMLElement; 
-};
+  new(): MathMLElement;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/MediaCapabilities) */
 interface MediaCapabilities {
@@ -14571,10 +14562,10 @@ interface MediaCapabilities {
   encodingInfo(configuration: MediaEncodingConfiguration): Promise<MediaCapabilitiesEncodingInfo>;
 }
 
-declare var MediaCapabilities: undefined | { 
+declare var MediaCapabilities: PartialLibDomGlobal<'MediaCapabilities', {
   prototype: MediaCapabilities;
-  new(): MediaCapabilities; 
-};
+  new(): MediaCapabilities;
+}>;
 
 /**
  * The MediaDevicesInfo interface contains information that describes a single media input or output device.
@@ -14595,10 +14586,10 @@ interface MediaDeviceInfo {
   toJSON(): any;
 }
 
-declare var MediaDeviceInfo: undefined | { 
+declare var MediaDeviceInfo: PartialLibDomGlobal<'MediaDeviceInfo', {
   prototype: MediaDeviceInfo;
-  new(): MediaDeviceInfo; 
-};
+  new(): MediaDeviceInfo;
+}>;
 
 interface MediaDevicesEventMap {
   "devicechange": Event;
@@ -14627,10 +14618,10 @@ interface MediaDevices extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var MediaDevices: undefined | { 
+declare var MediaDevices: PartialLibDomGlobal<'MediaDevices', {
   prototype: MediaDevices;
-  new(): MediaDevices; 
-};
+  new(): MediaDevices;
+}>;
 
 /**
  * A MediaElementSourceNode has no inputs and exactly one output, and is created using the AudioContext.createMediaElementSource method. The amount of channels in the output equals the number of channels of the audio referenced by the HTMLMediaElement used in the creation of the node, or is 1 if the HTMLMediaElement has no audio.
@@ -14642,10 +14633,10 @@ interface MediaElementAudioSourceNode extends AudioNode {
   readonly mediaElement: HTMLMediaElement;
 }
 
-declare var MediaElementAudioSourceNode: undefined | { 
+declare var MediaElementAudioSourceNode: PartialLibDomGlobal<'MediaElementAudioSourceNode', {
   prototype: MediaElementAudioSourceNode;
-  new(context: AudioContext, options: MediaElementAudioSourceOptions): MediaElementAudioSourceNode; 
-};
+  new(context: AudioContext, options: MediaElementAudioSourceOptions): MediaElementAudioSourceNode;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/MediaEncryptedEvent) */
 interface MediaEncryptedEvent extends Event {
@@ -14655,10 +14646,10 @@ interface MediaEncryptedEvent extends Event {
   readonly initDataType: string;
 }
 
-declare var MediaEncryptedEvent: undefined | { 
+declare var MediaEncryptedEvent: PartialLibDomGlobal<'MediaEncryptedEvent', {
   prototype: MediaEncryptedEvent;
-  new(type: string, eventInitDict?: MediaEncryptedEventInit): MediaEncryptedEvent; 
-};
+  new(type: string, eventInitDict?: MediaEncryptedEventInit): MediaEncryptedEvent;
+}>;
 
 /**
  * An error which occurred while handling media in an HTML media element based on HTMLMediaElement, such as <audio> or <video>.
@@ -14676,14 +14667,14 @@ interface MediaError {
   readonly MEDIA_ERR_SRC_NOT_SUPPORTED: 4;
 }
 
-declare var MediaError: undefined | { 
+declare var MediaError: PartialLibDomGlobal<'MediaError', {
   prototype: MediaError;
   new(): MediaError;
   readonly MEDIA_ERR_ABORTED: 1;
   readonly MEDIA_ERR_NETWORK: 2;
   readonly MEDIA_ERR_DECODE: 3;
-  readonly MEDIA_ERR_SRC_NOT_SUPPORTED: 4; 
-};
+  readonly MEDIA_ERR_SRC_NOT_SUPPORTED: 4;
+}>;
 
 /**
  * This EncryptedMediaExtensions API interface contains the content and related data when the content decryption module generates a message for the session.
@@ -14698,10 +14689,10 @@ interface MediaKeyMessageEvent extends Event {
   readonly messageType: MediaKeyMessageType;
 }
 
-declare var MediaKeyMessageEvent: undefined | { 
+declare var MediaKeyMessageEvent: PartialLibDomGlobal<'MediaKeyMessageEvent', {
   prototype: MediaKeyMessageEvent;
-  new(type: string, eventInitDict: MediaKeyMessageEventInit): MediaKeyMessageEvent; 
-};
+  new(type: string, eventInitDict: MediaKeyMessageEventInit): MediaKeyMessageEvent;
+}>;
 
 interface MediaKeySessionEventMap {
   "keystatuseschange": Event;
@@ -14743,10 +14734,10 @@ interface MediaKeySession extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var MediaKeySession: undefined | { 
+declare var MediaKeySession: PartialLibDomGlobal<'MediaKeySession', {
   prototype: MediaKeySession;
-  new(): MediaKeySession; 
-};
+  new(): MediaKeySession;
+}>;
 
 /**
  * This EncryptedMediaExtensions API interface is a read-only map of media key statuses by key IDs.
@@ -14764,10 +14755,10 @@ interface MediaKeyStatusMap {
   forEach(callbackfn: (value: MediaKeyStatus, key: BufferSource, parent: MediaKeyStatusMap) => void, thisArg?: any): void;
 }
 
-declare var MediaKeyStatusMap: undefined | { 
+declare var MediaKeyStatusMap: PartialLibDomGlobal<'MediaKeyStatusMap', {
   prototype: MediaKeyStatusMap;
-  new(): MediaKeyStatusMap; 
-};
+  new(): MediaKeyStatusMap;
+}>;
 
 /**
  * This EncryptedMediaExtensions API interface provides access to a Key System for decryption and/or a content protection provider. You can request an instance of this object using the Navigator.requestMediaKeySystemAccess method.
@@ -14784,10 +14775,10 @@ interface MediaKeySystemAccess {
   getConfiguration(): MediaKeySystemConfiguration;
 }
 
-declare var MediaKeySystemAccess: undefined | { 
+declare var MediaKeySystemAccess: PartialLibDomGlobal<'MediaKeySystemAccess', {
   prototype: MediaKeySystemAccess;
-  new(): MediaKeySystemAccess; 
-};
+  new(): MediaKeySystemAccess;
+}>;
 
 /**
  * This EncryptedMediaExtensions API interface the represents a set of keys that an associated HTMLMediaElement can use for decryption of media data during playback.
@@ -14803,10 +14794,10 @@ interface MediaKeys {
   setServerCertificate(serverCertificate: BufferSource): Promise<boolean>;
 }
 
-declare var MediaKeys: undefined | { 
+declare var MediaKeys: PartialLibDomGlobal<'MediaKeys', {
   prototype: MediaKeys;
-  new(): MediaKeys; 
-};
+  new(): MediaKeys;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/MediaList) */
 interface MediaList {
@@ -14824,10 +14815,10 @@ interface MediaList {
   [index: number]: string;
 }
 
-declare var MediaList: undefined | { 
+declare var MediaList: PartialLibDomGlobal<'MediaList', {
   prototype: MediaList;
-  new(): MediaList; 
-};
+  new(): MediaList;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/MediaMetadata) */
 interface MediaMetadata {
@@ -14841,10 +14832,10 @@ interface MediaMetadata {
   title: string;
 }
 
-declare var MediaMetadata: undefined | { 
+declare var MediaMetadata: PartialLibDomGlobal<'MediaMetadata', {
   prototype: MediaMetadata;
-  new(init?: MediaMetadataInit): MediaMetadata; 
-};
+  new(init?: MediaMetadataInit): MediaMetadata;
+}>;
 
 interface MediaQueryListEventMap {
   "change": MediaQueryListEvent;
@@ -14880,10 +14871,10 @@ interface MediaQueryList extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var MediaQueryList: undefined | { 
+declare var MediaQueryList: PartialLibDomGlobal<'MediaQueryList', {
   prototype: MediaQueryList;
-  new(): MediaQueryList; 
-};
+  new(): MediaQueryList;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/MediaQueryListEvent) */
 interface MediaQueryListEvent extends Event {
@@ -14893,10 +14884,10 @@ interface MediaQueryListEvent extends Event {
   readonly media: string;
 }
 
-declare var MediaQueryListEvent: undefined | { 
+declare var MediaQueryListEvent: PartialLibDomGlobal<'MediaQueryListEvent', {
   prototype: MediaQueryListEvent;
-  new(type: string, eventInitDict?: MediaQueryListEventInit): MediaQueryListEvent; 
-};
+  new(type: string, eventInitDict?: MediaQueryListEventInit): MediaQueryListEvent;
+}>;
 
 interface MediaRecorderEventMap {
   "dataavailable": BlobEvent;
@@ -14947,12 +14938,12 @@ interface MediaRecorder extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var MediaRecorder: undefined | { 
+declare var MediaRecorder: PartialLibDomGlobal<'MediaRecorder', {
   prototype: MediaRecorder;
   new(stream: MediaStream, options?: MediaRecorderOptions): MediaRecorder;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/MediaRecorder/isTypeSupported_static) */
-  isTypeSupported(type: string): boolean; 
-};
+  isTypeSupported(type: string): boolean;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/MediaSession) */
 interface MediaSession {
@@ -14966,10 +14957,10 @@ interface MediaSession {
   setPositionState(state?: MediaPositionState): void;
 }
 
-declare var MediaSession: undefined | { 
+declare var MediaSession: PartialLibDomGlobal<'MediaSession', {
   prototype: MediaSession;
-  new(): MediaSession; 
-};
+  new(): MediaSession;
+}>;
 
 interface MediaSourceEventMap {
   "sourceclose": Event;
@@ -15010,23 +15001,23 @@ interface MediaSource extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var MediaSource: undefined | { 
+declare var MediaSource: PartialLibDomGlobal<'MediaSource', {
   prototype: MediaSource;
   new(): MediaSource;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/MediaSource/canConstructInDedicatedWorker_static) */
   readonly canConstructInDedicatedWorker: boolean;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/MediaSource/isTypeSupported_static) */
-  isTypeSupported(type: string): boolean; 
-};
+  isTypeSupported(type: string): boolean;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/MediaSourceHandle) */
 interface MediaSourceHandle {
 }
 
-declare var MediaSourceHandle: undefined | { 
+declare var MediaSourceHandle: PartialLibDomGlobal<'MediaSourceHandle', {
   prototype: MediaSourceHandle;
-  new(): MediaSourceHandle; 
-};
+  new(): MediaSourceHandle;
+}>;
 
 interface MediaStreamEventMap {
   "addtrack": MediaStreamTrackEvent;
@@ -15067,12 +15058,12 @@ interface MediaStream extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var MediaStream: undefined | { 
+declare var MediaStream: PartialLibDomGlobal<'MediaStream', {
   prototype: MediaStream;
   new(): MediaStream;
   new(stream: MediaStream): MediaStream;
-  new(tracks: MediaStreamTrack[]): MediaStream; 
-};
+  new(tracks: MediaStreamTrack[]): MediaStream;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/MediaStreamAudioDestinationNode) */
 interface MediaStreamAudioDestinationNode extends AudioNode {
@@ -15080,10 +15071,10 @@ interface MediaStreamAudioDestinationNode extends AudioNode {
   readonly stream: MediaStream;
 }
 
-declare var MediaStreamAudioDestinationNode: undefined | { 
+declare var MediaStreamAudioDestinationNode: PartialLibDomGlobal<'MediaStreamAudioDestinationNode', {
   prototype: MediaStreamAudioDestinationNode;
-  new(context: AudioContext, options?: AudioNodeOptions): MediaStreamAudioDestinationNode; 
-};
+  new(context: AudioContext, options?: AudioNodeOptions): MediaStreamAudioDestinationNode;
+}>;
 
 /**
  * A type of AudioNode which operates as an audio source whose media is received from a MediaStream obtained using the WebRTC or Media Capture and Streams APIs.
@@ -15095,10 +15086,10 @@ interface MediaStreamAudioSourceNode extends AudioNode {
   readonly mediaStream: MediaStream;
 }
 
-declare var MediaStreamAudioSourceNode: undefined | { 
+declare var MediaStreamAudioSourceNode: PartialLibDomGlobal<'MediaStreamAudioSourceNode', {
   prototype: MediaStreamAudioSourceNode;
-  new(context: AudioContext, options: MediaStreamAudioSourceOptions): MediaStreamAudioSourceNode; 
-};
+  new(context: AudioContext, options: MediaStreamAudioSourceOptions): MediaStreamAudioSourceNode;
+}>;
 
 interface MediaStreamTrackEventMap {
   "ended": Event;
@@ -15150,10 +15141,10 @@ interface MediaStreamTrack extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var MediaStreamTrack: undefined | { 
+declare var MediaStreamTrack: PartialLibDomGlobal<'MediaStreamTrack', {
   prototype: MediaStreamTrack;
-  new(): MediaStreamTrack; 
-};
+  new(): MediaStreamTrack;
+}>;
 
 /**
  * Events which indicate that a MediaStream has had tracks added to or removed from the stream through calls to Media Stream API methods. These events are sent to the stream when these changes occur.
@@ -15165,10 +15156,10 @@ interface MediaStreamTrackEvent extends Event {
   readonly track: MediaStreamTrack;
 }
 
-declare var MediaStreamTrackEvent: undefined | { 
+declare var MediaStreamTrackEvent: PartialLibDomGlobal<'MediaStreamTrackEvent', {
   prototype: MediaStreamTrackEvent;
-  new(type: string, eventInitDict: MediaStreamTrackEventInit): MediaStreamTrackEvent; 
-};
+  new(type: string, eventInitDict: MediaStreamTrackEventInit): MediaStreamTrackEvent;
+}>;
 
 /**
  * This Channel Messaging API interface allows us to create a new message channel and send data through it via its two MessagePort properties.
@@ -15190,10 +15181,10 @@ interface MessageChannel {
   readonly port2: MessagePort;
 }
 
-declare var MessageChannel: { 
+declare var MessageChannel: PartialLibDomNodeGlobal<'MessageChannel', {
   prototype: MessageChannel;
-  new(): MessageChannel; 
-};
+  new(): MessageChannel;
+}>;
 
 /**
  * A message received by a target object.
@@ -15235,10 +15226,10 @@ interface MessageEvent<T = any> extends Event {
   initMessageEvent(type: string, bubbles?: boolean, cancelable?: boolean, data?: any, origin?: string, lastEventId?: string, source?: MessageEventSource | null, ports?: MessagePort[]): void;
 }
 
-declare var MessageEvent: { 
+declare var MessageEvent: PartialLibDomNodeGlobal<'MessageEvent', {
   prototype: MessageEvent;
-  new<T>(type: string, eventInitDict?: MessageEventInit<T>): MessageEvent<T>; 
-};
+  new<T>(type: string, eventInitDict?: MessageEventInit<T>): MessageEvent<T>;
+}>;
 
 interface MessagePortEventMap {
   "message": MessageEvent;
@@ -15282,10 +15273,10 @@ interface MessagePort extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var MessagePort: { 
+declare var MessagePort: PartialLibDomNodeGlobal<'MessagePort', {
   prototype: MessagePort;
-  new(): MessagePort; 
-};
+  new(): MessagePort;
+}>;
 
 /**
  * Provides contains information about a MIME type associated with a particular plugin. NavigatorPlugins.mimeTypes returns an array of this object.
@@ -15317,11 +15308,10 @@ interface MimeType {
 }
 
 /** @deprecated */
-
-declare var MimeType: undefined | { 
+declare var MimeType: PartialLibDomGlobal<'MimeType', {
   prototype: MimeType;
-  new(): MimeType; 
-};
+  new(): MimeType;
+}>;
 
 /**
  * Returns an array of MimeType instances, each of which contains information about a supported browser plugins. This object is returned by NavigatorPlugins.mimeTypes.
@@ -15340,11 +15330,10 @@ interface MimeTypeArray {
 }
 
 /** @deprecated */
-
-declare var MimeTypeArray: undefined | { 
+declare var MimeTypeArray: PartialLibDomGlobal<'MimeTypeArray', {
   prototype: MimeTypeArray;
-  new(): MimeTypeArray; 
-};
+  new(): MimeTypeArray;
+}>;
 
 /**
  * Events that occur due to the user interacting with a pointing device (such as a mouse). Common events using this interface include click, dblclick, mouseup, mousedown.
@@ -15404,10 +15393,10 @@ interface MouseEvent extends UIEvent {
   initMouseEvent(typeArg: string, canBubbleArg: boolean, cancelableArg: boolean, viewArg: Window, detailArg: number, screenXArg: number, screenYArg: number, clientXArg: number, clientYArg: number, ctrlKeyArg: boolean, altKeyArg: boolean, shiftKeyArg: boolean, metaKeyArg: boolean, buttonArg: number, relatedTargetArg: EventTarget | null): void;
 }
 
-declare var MouseEvent: undefined | { 
+declare var MouseEvent: PartialLibDomGlobal<'MouseEvent', {
   prototype: MouseEvent;
-  new(type: string, eventInitDict?: MouseEventInit): MouseEvent; 
-};
+  new(type: string, eventInitDict?: MouseEventInit): MouseEvent;
+}>;
 
 /**
  * Provides event properties that are specific to modifications to the Document Object Model (DOM) hierarchy and nodes.
@@ -15458,14 +15447,13 @@ interface MutationEvent extends Event {
 }
 
 /** @deprecated */
-
-declare var MutationEvent: undefined | { 
+declare var MutationEvent: PartialLibDomGlobal<'MutationEvent', {
   prototype: MutationEvent;
   new(): MutationEvent;
   readonly MODIFICATION: 1;
   readonly ADDITION: 2;
-  readonly REMOVAL: 3; 
-};
+  readonly REMOVAL: 3;
+}>;
 
 /**
  * Provides the ability to watch for changes being made to the DOM tree. It is designed as a replacement for the older Mutation Events feature which was part of the DOM3 Events specification.
@@ -15495,10 +15483,10 @@ interface MutationObserver {
   takeRecords(): MutationRecord[];
 }
 
-declare var MutationObserver: undefined | { 
+declare var MutationObserver: PartialLibDomGlobal<'MutationObserver', {
   prototype: MutationObserver;
-  new(callback: MutationCallback): MutationObserver; 
-};
+  new(callback: MutationCallback): MutationObserver;
+}>;
 
 /**
  * A MutationRecord represents an individual DOM mutation. It is the object that is passed to MutationObserver's callback.
@@ -15562,10 +15550,10 @@ interface MutationRecord {
   readonly type: MutationRecordType;
 }
 
-declare var MutationRecord: undefined | { 
+declare var MutationRecord: PartialLibDomGlobal<'MutationRecord', {
   prototype: MutationRecord;
-  new(): MutationRecord; 
-};
+  new(): MutationRecord;
+}>;
 
 /**
  * A collection of Attr objects. Objects inside a NamedNodeMap are not in any particular order, unlike NodeList, although they may be accessed by an index as in an array.
@@ -15592,10 +15580,10 @@ interface NamedNodeMap {
   [index: number]: Attr;
 }
 
-declare var NamedNodeMap: undefined | { 
+declare var NamedNodeMap: PartialLibDomGlobal<'NamedNodeMap', {
   prototype: NamedNodeMap;
-  new(): NamedNodeMap; 
-};
+  new(): NamedNodeMap;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -15613,10 +15601,10 @@ interface NavigationPreloadManager {
   setHeaderValue(value: string): Promise<void>;
 }
 
-declare var NavigationPreloadManager: undefined | { 
+declare var NavigationPreloadManager: PartialLibDomGlobal<'NavigationPreloadManager', {
   prototype: NavigationPreloadManager;
-  new(): NavigationPreloadManager; 
-};
+  new(): NavigationPreloadManager;
+}>;
 
 /**
  * The state and the identity of the user agent. It allows scripts to query it and to register themselves to carry on some activities.
@@ -15695,10 +15683,10 @@ interface Navigator extends NavigatorAutomationInformation, NavigatorBadge, Navi
   vibrate(pattern: VibratePattern): boolean;
 }
 
-declare var Navigator: undefined | { 
+declare var Navigator: PartialLibDomGlobal<'Navigator', {
   prototype: Navigator;
-  new(): Navigator; 
-};
+  new(): Navigator;
+}>;
 
 interface NavigatorAutomationInformation {
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Navigator/webdriver) */
@@ -16005,7 +15993,7 @@ interface Node extends EventTarget {
   readonly DOCUMENT_POSITION_IMPLEMENTATION_SPECIFIC: 0x20;
 }
 
-declare var Node: undefined | { 
+declare var Node: PartialLibDomGlobal<'Node', {
   prototype: Node;
   new(): Node;
   /** node is an element. */
@@ -16038,8 +16026,8 @@ declare var Node: undefined | {
   readonly DOCUMENT_POSITION_CONTAINS: 0x08;
   /** Set when other is a descendant of node. */
   readonly DOCUMENT_POSITION_CONTAINED_BY: 0x10;
-  readonly DOCUMENT_POSITION_IMPLEMENTATION_SPECIFIC: 0x20; 
-};
+  readonly DOCUMENT_POSITION_IMPLEMENTATION_SPECIFIC: 0x20;
+}>;
 
 /**
  * An iterator over the members of a list of the nodes in a subtree of the DOM. The nodes will be returned in document order.
@@ -16069,10 +16057,10 @@ interface NodeIterator {
   previousNode(): Node | null;
 }
 
-declare var NodeIterator: undefined | { 
+declare var NodeIterator: PartialLibDomGlobal<'NodeIterator', {
   prototype: NodeIterator;
-  new(): NodeIterator; 
-};
+  new(): NodeIterator;
+}>;
 
 /**
  * NodeList objects are collections of nodes, usually returned by properties such as Node.childNodes and methods such as document.querySelectorAll().
@@ -16101,10 +16089,10 @@ interface NodeList {
   [index: number]: Node;
 }
 
-declare var NodeList: undefined | { 
+declare var NodeList: PartialLibDomGlobal<'NodeList', {
   prototype: NodeList;
-  new(): NodeList; 
-};
+  new(): NodeList;
+}>;
 
 interface NodeListOf<TNode extends Node> extends NodeList {
   item(index: number): TNode;
@@ -16190,14 +16178,14 @@ interface Notification extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var Notification: undefined | { 
+declare var Notification: PartialLibDomGlobal<'Notification', {
   prototype: Notification;
   new(title: string, options?: NotificationOptions): Notification;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Notification/permission_static) */
   readonly permission: NotificationPermission;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Notification/requestPermission_static) */
-  requestPermission(deprecatedCallback?: NotificationPermissionCallback): Promise<NotificationPermission>; 
-};
+  requestPermission(deprecatedCallback?: NotificationPermissionCallback): Promise<NotificationPermission>;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/OES_draw_buffers_indexed) */
 interface OES_draw_buffers_indexed {
@@ -16304,10 +16292,10 @@ interface OfflineAudioCompletionEvent extends Event {
   readonly renderedBuffer: AudioBuffer;
 }
 
-declare var OfflineAudioCompletionEvent: undefined | { 
+declare var OfflineAudioCompletionEvent: PartialLibDomGlobal<'OfflineAudioCompletionEvent', {
   prototype: OfflineAudioCompletionEvent;
-  new(type: string, eventInitDict: OfflineAudioCompletionEventInit): OfflineAudioCompletionEvent; 
-};
+  new(type: string, eventInitDict: OfflineAudioCompletionEventInit): OfflineAudioCompletionEvent;
+}>;
 
 interface OfflineAudioContextEventMap extends BaseAudioContextEventMap {
   "complete": OfflineAudioCompletionEvent;
@@ -16335,11 +16323,11 @@ interface OfflineAudioContext extends BaseAudioContext {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var OfflineAudioContext: undefined | { 
+declare var OfflineAudioContext: PartialLibDomGlobal<'OfflineAudioContext', {
   prototype: OfflineAudioContext;
   new(contextOptions: OfflineAudioContextOptions): OfflineAudioContext;
-  new(numberOfChannels: number, length: number, sampleRate: number): OfflineAudioContext; 
-};
+  new(numberOfChannels: number, length: number, sampleRate: number): OfflineAudioContext;
+}>;
 
 interface OffscreenCanvasEventMap {
   "contextlost": Event;
@@ -16402,20 +16390,20 @@ interface OffscreenCanvas extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var OffscreenCanvas: undefined | { 
+declare var OffscreenCanvas: PartialLibDomGlobal<'OffscreenCanvas', {
   prototype: OffscreenCanvas;
-  new(width: number, height: number): OffscreenCanvas; 
-};
+  new(width: number, height: number): OffscreenCanvas;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/OffscreenCanvasRenderingContext2D) */
 interface OffscreenCanvasRenderingContext2D extends CanvasCompositing, CanvasDrawImage, CanvasDrawPath, CanvasFillStrokeStyles, CanvasFilters, CanvasImageData, CanvasImageSmoothing, CanvasPath, CanvasPathDrawingStyles, CanvasRect, CanvasShadowStyles, CanvasState, CanvasText, CanvasTextDrawingStyles, CanvasTransform {
   readonly canvas: OffscreenCanvas;
 }
 
-declare var OffscreenCanvasRenderingContext2D: undefined | { 
+declare var OffscreenCanvasRenderingContext2D: PartialLibDomGlobal<'OffscreenCanvasRenderingContext2D', {
   prototype: OffscreenCanvasRenderingContext2D;
-  new(): OffscreenCanvasRenderingContext2D; 
-};
+  new(): OffscreenCanvasRenderingContext2D;
+}>;
 
 /**
  * The OscillatorNode interface represents a periodic waveform, such as a sine wave. It is an AudioScheduledSourceNode audio-processing module that causes a specified frequency of a given wave to be created—in effect, a constant tone.
@@ -16437,10 +16425,10 @@ interface OscillatorNode extends AudioScheduledSourceNode {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var OscillatorNode: undefined | { 
+declare var OscillatorNode: PartialLibDomGlobal<'OscillatorNode', {
   prototype: OscillatorNode;
-  new(context: BaseAudioContext, options?: OscillatorOptions): OscillatorNode; 
-};
+  new(context: BaseAudioContext, options?: OscillatorOptions): OscillatorNode;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/OverconstrainedError) */
 interface OverconstrainedError extends DOMException {
@@ -16448,10 +16436,10 @@ interface OverconstrainedError extends DOMException {
   readonly constraint: string;
 }
 
-declare var OverconstrainedError: undefined | { 
+declare var OverconstrainedError: PartialLibDomGlobal<'OverconstrainedError', {
   prototype: OverconstrainedError;
-  new(constraint: string, message?: string): OverconstrainedError; 
-};
+  new(constraint: string, message?: string): OverconstrainedError;
+}>;
 
 /**
  * The PageTransitionEvent is fired when a document is being loaded or unloaded.
@@ -16476,10 +16464,10 @@ interface PageTransitionEvent extends Event {
   readonly persisted: boolean;
 }
 
-declare var PageTransitionEvent: undefined | { 
+declare var PageTransitionEvent: PartialLibDomGlobal<'PageTransitionEvent', {
   prototype: PageTransitionEvent;
-  new(type: string, eventInitDict?: PageTransitionEventInit): PageTransitionEvent; 
-};
+  new(type: string, eventInitDict?: PageTransitionEventInit): PageTransitionEvent;
+}>;
 
 /**
  * A PannerNode always has exactly one input and one output: the input can be mono or stereo but the output is always stereo (2 channels); you can't have panning effects without at least two audio channels!
@@ -16529,10 +16517,10 @@ interface PannerNode extends AudioNode {
   setPosition(x: number, y: number, z: number): void;
 }
 
-declare var PannerNode: undefined | { 
+declare var PannerNode: PartialLibDomGlobal<'PannerNode', {
   prototype: PannerNode;
-  new(context: BaseAudioContext, options?: PannerOptions): PannerNode; 
-};
+  new(context: BaseAudioContext, options?: PannerOptions): PannerNode;
+}>;
 
 interface ParentNode extends Node {
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Document/childElementCount) */
@@ -16617,10 +16605,10 @@ interface Path2D extends CanvasPath {
   addPath(path: Path2D, transform?: DOMMatrix2DInit): void;
 }
 
-declare var Path2D: undefined | { 
+declare var Path2D: PartialLibDomGlobal<'Path2D', {
   prototype: Path2D;
-  new(path?: Path2D | string): Path2D; 
-};
+  new(path?: Path2D | string): Path2D;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -16634,10 +16622,10 @@ interface PaymentMethodChangeEvent extends PaymentRequestUpdateEvent {
   readonly methodName: string;
 }
 
-declare var PaymentMethodChangeEvent: undefined | { 
+declare var PaymentMethodChangeEvent: PartialLibDomGlobal<'PaymentMethodChangeEvent', {
   prototype: PaymentMethodChangeEvent;
-  new(type: string, eventInitDict?: PaymentMethodChangeEventInit): PaymentMethodChangeEvent; 
-};
+  new(type: string, eventInitDict?: PaymentMethodChangeEventInit): PaymentMethodChangeEvent;
+}>;
 
 interface PaymentRequestEventMap {
   "paymentmethodchange": Event;
@@ -16666,10 +16654,10 @@ interface PaymentRequest extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var PaymentRequest: undefined | { 
+declare var PaymentRequest: PartialLibDomGlobal<'PaymentRequest', {
   prototype: PaymentRequest;
-  new(methodData: PaymentMethodData[], details: PaymentDetailsInit): PaymentRequest; 
-};
+  new(methodData: PaymentMethodData[], details: PaymentDetailsInit): PaymentRequest;
+}>;
 
 /**
  * This Payment Request API interface enables a web page to update the details of a PaymentRequest in response to a user action.
@@ -16682,10 +16670,10 @@ interface PaymentRequestUpdateEvent extends Event {
   updateWith(detailsPromise: PaymentDetailsUpdate | PromiseLike<PaymentDetailsUpdate>): void;
 }
 
-declare var PaymentRequestUpdateEvent: undefined | { 
+declare var PaymentRequestUpdateEvent: PartialLibDomGlobal<'PaymentRequestUpdateEvent', {
   prototype: PaymentRequestUpdateEvent;
-  new(type: string, eventInitDict?: PaymentRequestUpdateEventInit): PaymentRequestUpdateEvent; 
-};
+  new(type: string, eventInitDict?: PaymentRequestUpdateEventInit): PaymentRequestUpdateEvent;
+}>;
 
 /**
  * This Payment Request API interface is returned after a user selects a payment method and approves a payment request.
@@ -16708,10 +16696,10 @@ interface PaymentResponse extends EventTarget {
   toJSON(): any;
 }
 
-declare var PaymentResponse: undefined | { 
+declare var PaymentResponse: PartialLibDomGlobal<'PaymentResponse', {
   prototype: PaymentResponse;
-  new(): PaymentResponse; 
-};
+  new(): PaymentResponse;
+}>;
 
 interface PerformanceEventMap {
   "resourcetimingbufferfull": Event;
@@ -16769,10 +16757,10 @@ interface Performance extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var Performance: { 
+declare var Performance: PartialLibDomNodeGlobal<'Performance', {
   prototype: Performance;
-  new(): Performance; 
-};
+  new(): Performance;
+}>;
 
 /**
  * Encapsulates a single performance metric that is part of the performance timeline. A performance entry can be directly created by making a performance mark or measure (for example by calling the mark() method) at an explicit point in an application. Performance entries are also created in indirect ways such as loading a resource (such as an image).
@@ -16792,10 +16780,10 @@ interface PerformanceEntry {
   toJSON(): any;
 }
 
-declare var PerformanceEntry: { 
+declare var PerformanceEntry: PartialLibDomNodeGlobal<'PerformanceEntry', {
   prototype: PerformanceEntry;
-  new(): PerformanceEntry; 
-};
+  new(): PerformanceEntry;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/PerformanceEventTiming) */
 interface PerformanceEventTiming extends PerformanceEntry {
@@ -16811,10 +16799,10 @@ interface PerformanceEventTiming extends PerformanceEntry {
   toJSON(): any;
 }
 
-declare var PerformanceEventTiming: undefined | { 
+declare var PerformanceEventTiming: PartialLibDomGlobal<'PerformanceEventTiming', {
   prototype: PerformanceEventTiming;
-  new(): PerformanceEventTiming; 
-};
+  new(): PerformanceEventTiming;
+}>;
 
 /**
  * PerformanceMark is an abstract interface for PerformanceEntry objects with an entryType of "mark". Entries of this type are created by calling performance.mark() to add a named DOMHighResTimeStamp (the mark) to the browser's performance timeline.
@@ -16826,10 +16814,10 @@ interface PerformanceMark extends PerformanceEntry {
   readonly detail: any;
 }
 
-declare var PerformanceMark: { 
+declare var PerformanceMark: PartialLibDomNodeGlobal<'PerformanceMark', {
   prototype: PerformanceMark;
-  new(markName: string, markOptions?: PerformanceMarkOptions): PerformanceMark; 
-};
+  new(markName: string, markOptions?: PerformanceMarkOptions): PerformanceMark;
+}>;
 
 /**
  * PerformanceMeasure is an abstract interface for PerformanceEntry objects with an entryType of "measure". Entries of this type are created by calling performance.measure() to add a named DOMHighResTimeStamp (the measure) between two marks to the browser's performance timeline.
@@ -16841,10 +16829,10 @@ interface PerformanceMeasure extends PerformanceEntry {
   readonly detail: any;
 }
 
-declare var PerformanceMeasure: { 
+declare var PerformanceMeasure: PartialLibDomNodeGlobal<'PerformanceMeasure', {
   prototype: PerformanceMeasure;
-  new(): PerformanceMeasure; 
-};
+  new(): PerformanceMeasure;
+}>;
 
 /**
  * The legacy PerformanceNavigation interface represents information about how the navigation to the current document was done.
@@ -16878,15 +16866,14 @@ interface PerformanceNavigation {
 }
 
 /** @deprecated */
-
-declare var PerformanceNavigation: undefined | { 
+declare var PerformanceNavigation: PartialLibDomGlobal<'PerformanceNavigation', {
   prototype: PerformanceNavigation;
   new(): PerformanceNavigation;
   readonly TYPE_NAVIGATE: 0;
   readonly TYPE_RELOAD: 1;
   readonly TYPE_BACK_FORWARD: 2;
-  readonly TYPE_RESERVED: 255; 
-};
+  readonly TYPE_RESERVED: 255;
+}>;
 
 /**
  * Provides methods and properties to store and retrieve metrics regarding the browser's document navigation events. For example, this interface can be used to determine how much time it takes to load or unload a document.
@@ -16918,10 +16905,10 @@ interface PerformanceNavigationTiming extends PerformanceResourceTiming {
   toJSON(): any;
 }
 
-declare var PerformanceNavigationTiming: undefined | { 
+declare var PerformanceNavigationTiming: PartialLibDomGlobal<'PerformanceNavigationTiming', {
   prototype: PerformanceNavigationTiming;
-  new(): PerformanceNavigationTiming; 
-};
+  new(): PerformanceNavigationTiming;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/PerformanceObserver) */
 interface PerformanceObserver {
@@ -16933,12 +16920,12 @@ interface PerformanceObserver {
   takeRecords(): PerformanceEntryList;
 }
 
-declare var PerformanceObserver: { 
+declare var PerformanceObserver: PartialLibDomNodeGlobal<'PerformanceObserver', {
   prototype: PerformanceObserver;
   new(callback: PerformanceObserverCallback): PerformanceObserver;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/PerformanceObserver/supportedEntryTypes_static) */
-  readonly supportedEntryTypes: ReadonlyArray<string>; 
-};
+  readonly supportedEntryTypes: ReadonlyArray<string>;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/PerformanceObserverEntryList) */
 interface PerformanceObserverEntryList {
@@ -16950,19 +16937,19 @@ interface PerformanceObserverEntryList {
   getEntriesByType(type: string): PerformanceEntryList;
 }
 
-declare var PerformanceObserverEntryList: { 
+declare var PerformanceObserverEntryList: PartialLibDomNodeGlobal<'PerformanceObserverEntryList', {
   prototype: PerformanceObserverEntryList;
-  new(): PerformanceObserverEntryList; 
-};
+  new(): PerformanceObserverEntryList;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/PerformancePaintTiming) */
 interface PerformancePaintTiming extends PerformanceEntry {
 }
 
-declare var PerformancePaintTiming: undefined | { 
+declare var PerformancePaintTiming: PartialLibDomGlobal<'PerformancePaintTiming', {
   prototype: PerformancePaintTiming;
-  new(): PerformancePaintTiming; 
-};
+  new(): PerformancePaintTiming;
+}>;
 
 /**
  * Enables retrieval and analysis of detailed network timing data regarding the loading of an application's resources. An application can use the timing metrics to determine, for example, the length of time it takes to fetch a specific resource, such as an XMLHttpRequest, <SVG>, image, or script.
@@ -17010,10 +16997,10 @@ interface PerformanceResourceTiming extends PerformanceEntry {
   toJSON(): any;
 }
 
-declare var PerformanceResourceTiming: { 
+declare var PerformanceResourceTiming: PartialLibDomNodeGlobal<'PerformanceResourceTiming', {
   prototype: PerformanceResourceTiming;
-  new(): PerformanceResourceTiming; 
-};
+  new(): PerformanceResourceTiming;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/PerformanceServerTiming) */
 interface PerformanceServerTiming {
@@ -17027,10 +17014,10 @@ interface PerformanceServerTiming {
   toJSON(): any;
 }
 
-declare var PerformanceServerTiming: undefined | { 
+declare var PerformanceServerTiming: PartialLibDomGlobal<'PerformanceServerTiming', {
   prototype: PerformanceServerTiming;
-  new(): PerformanceServerTiming; 
-};
+  new(): PerformanceServerTiming;
+}>;
 
 /**
  * A legacy interface kept for backwards compatibility and contains properties that offer performance timing information for various events which occur during the loading and use of the current page. You get a PerformanceTiming object describing your page using the window.performance.timing property.
@@ -17174,11 +17161,10 @@ interface PerformanceTiming {
 }
 
 /** @deprecated */
-
-declare var PerformanceTiming: undefined | { 
+declare var PerformanceTiming: PartialLibDomGlobal<'PerformanceTiming', {
   prototype: PerformanceTiming;
-  new(): PerformanceTiming; 
-};
+  new(): PerformanceTiming;
+}>;
 
 /**
  * PeriodicWave has no inputs or outputs; it is used to define custom oscillators when calling OscillatorNode.setPeriodicWave(). The PeriodicWave itself is created/returned by AudioContext.createPeriodicWave().
@@ -17188,10 +17174,10 @@ declare var PerformanceTiming: undefined | {
 interface PeriodicWave {
 }
 
-declare var PeriodicWave: undefined | { 
+declare var PeriodicWave: PartialLibDomGlobal<'PeriodicWave', {
   prototype: PeriodicWave;
-  new(context: BaseAudioContext, options?: PeriodicWaveOptions): PeriodicWave; 
-};
+  new(context: BaseAudioContext, options?: PeriodicWaveOptions): PeriodicWave;
+}>;
 
 interface PermissionStatusEventMap {
   "change": Event;
@@ -17211,10 +17197,10 @@ interface PermissionStatus extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var PermissionStatus: undefined | { 
+declare var PermissionStatus: PartialLibDomGlobal<'PermissionStatus', {
   prototype: PermissionStatus;
-  new(): PermissionStatus; 
-};
+  new(): PermissionStatus;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Permissions) */
 interface Permissions {
@@ -17222,10 +17208,10 @@ interface Permissions {
   query(permissionDesc: PermissionDescriptor): Promise<PermissionStatus>;
 }
 
-declare var Permissions: undefined | { 
+declare var Permissions: PartialLibDomGlobal<'Permissions', {
   prototype: Permissions;
-  new(): Permissions; 
-};
+  new(): Permissions;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/PictureInPictureEvent) */
 interface PictureInPictureEvent extends Event {
@@ -17233,10 +17219,10 @@ interface PictureInPictureEvent extends Event {
   readonly pictureInPictureWindow: PictureInPictureWindow;
 }
 
-declare var PictureInPictureEvent: undefined | { 
+declare var PictureInPictureEvent: PartialLibDomGlobal<'PictureInPictureEvent', {
   prototype: PictureInPictureEvent;
-  new(type: string, eventInitDict: PictureInPictureEventInit): PictureInPictureEvent; 
-};
+  new(type: string, eventInitDict: PictureInPictureEventInit): PictureInPictureEvent;
+}>;
 
 interface PictureInPictureWindowEventMap {
   "resize": Event;
@@ -17256,10 +17242,10 @@ interface PictureInPictureWindow extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var PictureInPictureWindow: undefined | { 
+declare var PictureInPictureWindow: PartialLibDomGlobal<'PictureInPictureWindow', {
   prototype: PictureInPictureWindow;
-  new(): PictureInPictureWindow; 
-};
+  new(): PictureInPictureWindow;
+}>;
 
 /**
  * Provides information about a browser plugin.
@@ -17299,11 +17285,10 @@ interface Plugin {
 }
 
 /** @deprecated */
-
-declare var Plugin: undefined | { 
+declare var Plugin: PartialLibDomGlobal<'Plugin', {
   prototype: Plugin;
-  new(): Plugin; 
-};
+  new(): Plugin;
+}>;
 
 /**
  * Used to store a list of Plugin objects describing the available plugins; it's returned by the window.navigator.plugins property. The PluginArray is not a JavaScript array, but has the length property and supports accessing individual items using bracket notation (plugins[2]), as well as via item(index) and namedItem("name") methods.
@@ -17324,11 +17309,10 @@ interface PluginArray {
 }
 
 /** @deprecated */
-
-declare var PluginArray: undefined | { 
+declare var PluginArray: PartialLibDomGlobal<'PluginArray', {
   prototype: PluginArray;
-  new(): PluginArray; 
-};
+  new(): PluginArray;
+}>;
 
 /**
  * The state of a DOM event produced by a pointer such as the geometry of the contact point, the device type that generated the event, the amount of pressure that was applied on the contact surface, etc.
@@ -17366,10 +17350,10 @@ interface PointerEvent extends MouseEvent {
   getPredictedEvents(): PointerEvent[];
 }
 
-declare var PointerEvent: undefined | { 
+declare var PointerEvent: PartialLibDomGlobal<'PointerEvent', {
   prototype: PointerEvent;
-  new(type: string, eventInitDict?: PointerEventInit): PointerEvent; 
-};
+  new(type: string, eventInitDict?: PointerEventInit): PointerEvent;
+}>;
 
 /**
  * PopStateEvent is an event handler for the popstate event on the window.
@@ -17386,10 +17370,10 @@ interface PopStateEvent extends Event {
   readonly state: any;
 }
 
-declare var PopStateEvent: undefined | { 
+declare var PopStateEvent: PartialLibDomGlobal<'PopStateEvent', {
   prototype: PopStateEvent;
-  new(type: string, eventInitDict?: PopStateEventInit): PopStateEvent; 
-};
+  new(type: string, eventInitDict?: PopStateEventInit): PopStateEvent;
+}>;
 
 interface PopoverInvokerElement {
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLButtonElement/popoverTargetAction) */
@@ -17409,10 +17393,10 @@ interface ProcessingInstruction extends CharacterData, LinkStyle {
   readonly target: string;
 }
 
-declare var ProcessingInstruction: undefined | { 
+declare var ProcessingInstruction: PartialLibDomGlobal<'ProcessingInstruction', {
   prototype: ProcessingInstruction;
-  new(): ProcessingInstruction; 
-};
+  new(): ProcessingInstruction;
+}>;
 
 /**
  * Events measuring progress of an underlying process, like an HTTP request (for an XMLHttpRequest, or the loading of the underlying resource of an <img>, <audio>, <video>, <style> or <link>).
@@ -17429,10 +17413,10 @@ interface ProgressEvent<T extends EventTarget = EventTarget> extends Event {
   readonly total: number;
 }
 
-declare var ProgressEvent: undefined | { 
+declare var ProgressEvent: PartialLibDomGlobal<'ProgressEvent', {
   prototype: ProgressEvent;
-  new(type: string, eventInitDict?: ProgressEventInit): ProgressEvent; 
-};
+  new(type: string, eventInitDict?: ProgressEventInit): ProgressEvent;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/PromiseRejectionEvent) */
 interface PromiseRejectionEvent extends Event {
@@ -17442,10 +17426,10 @@ interface PromiseRejectionEvent extends Event {
   readonly reason: any;
 }
 
-declare var PromiseRejectionEvent: undefined | { 
+declare var PromiseRejectionEvent: PartialLibDomGlobal<'PromiseRejectionEvent', {
   prototype: PromiseRejectionEvent;
-  new(type: string, eventInitDict: PromiseRejectionEventInit): PromiseRejectionEvent; 
-};
+  new(type: string, eventInitDict: PromiseRejectionEventInit): PromiseRejectionEvent;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -17463,14 +17447,14 @@ interface PublicKeyCredential extends Credential {
   getClientExtensionResults(): AuthenticationExtensionsClientOutputs;
 }
 
-declare var PublicKeyCredential: undefined | { 
+declare var PublicKeyCredential: PartialLibDomGlobal<'PublicKeyCredential', {
   prototype: PublicKeyCredential;
   new(): PublicKeyCredential;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/PublicKeyCredential/isConditionalMediationAvailable) */
   isConditionalMediationAvailable(): Promise<boolean>;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/PublicKeyCredential/isUserVerifyingPlatformAuthenticatorAvailable_static) */
-  isUserVerifyingPlatformAuthenticatorAvailable(): Promise<boolean>; 
-};
+  isUserVerifyingPlatformAuthenticatorAvailable(): Promise<boolean>;
+}>;
 
 /**
  * This Push API interface provides a way to receive notifications from third-party servers as well as request URLs for push notifications.
@@ -17487,12 +17471,12 @@ interface PushManager {
   subscribe(options?: PushSubscriptionOptionsInit): Promise<PushSubscription>;
 }
 
-declare var PushManager: undefined | { 
+declare var PushManager: PartialLibDomGlobal<'PushManager', {
   prototype: PushManager;
   new(): PushManager;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/PushManager/supportedContentEncodings_static) */
-  readonly supportedContentEncodings: ReadonlyArray<string>; 
-};
+  readonly supportedContentEncodings: ReadonlyArray<string>;
+}>;
 
 /**
  * This Push API interface provides a subcription's URL endpoint and allows unsubscription from a push service.
@@ -17515,10 +17499,10 @@ interface PushSubscription {
   unsubscribe(): Promise<boolean>;
 }
 
-declare var PushSubscription: undefined | { 
+declare var PushSubscription: PartialLibDomGlobal<'PushSubscription', {
   prototype: PushSubscription;
-  new(): PushSubscription; 
-};
+  new(): PushSubscription;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -17532,10 +17516,10 @@ interface PushSubscriptionOptions {
   readonly userVisibleOnly: boolean;
 }
 
-declare var PushSubscriptionOptions: undefined | { 
+declare var PushSubscriptionOptions: PartialLibDomGlobal<'PushSubscriptionOptions', {
   prototype: PushSubscriptionOptions;
-  new(): PushSubscriptionOptions; 
-};
+  new(): PushSubscriptionOptions;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/RTCCertificate) */
 interface RTCCertificate {
@@ -17545,10 +17529,10 @@ interface RTCCertificate {
   getFingerprints(): RTCDtlsFingerprint[];
 }
 
-declare var RTCCertificate: undefined | { 
+declare var RTCCertificate: PartialLibDomGlobal<'RTCCertificate', {
   prototype: RTCCertificate;
-  new(): RTCCertificate; 
-};
+  new(): RTCCertificate;
+}>;
 
 interface RTCDTMFSenderEventMap {
   "tonechange": RTCDTMFToneChangeEvent;
@@ -17570,10 +17554,10 @@ interface RTCDTMFSender extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var RTCDTMFSender: undefined | { 
+declare var RTCDTMFSender: PartialLibDomGlobal<'RTCDTMFSender', {
   prototype: RTCDTMFSender;
-  new(): RTCDTMFSender; 
-};
+  new(): RTCDTMFSender;
+}>;
 
 /**
  * Events sent to indicate that DTMF tones have started or finished playing. This interface is used by the tonechange event.
@@ -17585,10 +17569,10 @@ interface RTCDTMFToneChangeEvent extends Event {
   readonly tone: string;
 }
 
-declare var RTCDTMFToneChangeEvent: undefined | { 
+declare var RTCDTMFToneChangeEvent: PartialLibDomGlobal<'RTCDTMFToneChangeEvent', {
   prototype: RTCDTMFToneChangeEvent;
-  new(type: string, eventInitDict?: RTCDTMFToneChangeEventInit): RTCDTMFToneChangeEvent; 
-};
+  new(type: string, eventInitDict?: RTCDTMFToneChangeEventInit): RTCDTMFToneChangeEvent;
+}>;
 
 interface RTCDataChannelEventMap {
   "bufferedamountlow": Event;
@@ -17648,10 +17632,10 @@ interface RTCDataChannel extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var RTCDataChannel: undefined | { 
+declare var RTCDataChannel: PartialLibDomGlobal<'RTCDataChannel', {
   prototype: RTCDataChannel;
-  new(): RTCDataChannel; 
-};
+  new(): RTCDataChannel;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/RTCDataChannelEvent) */
 interface RTCDataChannelEvent extends Event {
@@ -17659,10 +17643,10 @@ interface RTCDataChannelEvent extends Event {
   readonly channel: RTCDataChannel;
 }
 
-declare var RTCDataChannelEvent: undefined | { 
+declare var RTCDataChannelEvent: PartialLibDomGlobal<'RTCDataChannelEvent', {
   prototype: RTCDataChannelEvent;
-  new(type: string, eventInitDict: RTCDataChannelEventInit): RTCDataChannelEvent; 
-};
+  new(type: string, eventInitDict: RTCDataChannelEventInit): RTCDataChannelEvent;
+}>;
 
 interface RTCDtlsTransportEventMap {
   "error": Event;
@@ -17685,10 +17669,10 @@ interface RTCDtlsTransport extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var RTCDtlsTransport: undefined | { 
+declare var RTCDtlsTransport: PartialLibDomGlobal<'RTCDtlsTransport', {
   prototype: RTCDtlsTransport;
-  new(): RTCDtlsTransport; 
-};
+  new(): RTCDtlsTransport;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/RTCEncodedAudioFrame) */
 interface RTCEncodedAudioFrame {
@@ -17700,10 +17684,10 @@ interface RTCEncodedAudioFrame {
   getMetadata(): RTCEncodedAudioFrameMetadata;
 }
 
-declare var RTCEncodedAudioFrame: undefined | { 
+declare var RTCEncodedAudioFrame: PartialLibDomGlobal<'RTCEncodedAudioFrame', {
   prototype: RTCEncodedAudioFrame;
-  new(): RTCEncodedAudioFrame; 
-};
+  new(): RTCEncodedAudioFrame;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/RTCEncodedVideoFrame) */
 interface RTCEncodedVideoFrame {
@@ -17717,10 +17701,10 @@ interface RTCEncodedVideoFrame {
   getMetadata(): RTCEncodedVideoFrameMetadata;
 }
 
-declare var RTCEncodedVideoFrame: undefined | { 
+declare var RTCEncodedVideoFrame: PartialLibDomGlobal<'RTCEncodedVideoFrame', {
   prototype: RTCEncodedVideoFrame;
-  new(): RTCEncodedVideoFrame; 
-};
+  new(): RTCEncodedVideoFrame;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/RTCError) */
 interface RTCError extends DOMException {
@@ -17736,10 +17720,10 @@ interface RTCError extends DOMException {
   readonly sentAlert: number | null;
 }
 
-declare var RTCError: undefined | { 
+declare var RTCError: PartialLibDomGlobal<'RTCError', {
   prototype: RTCError;
-  new(init: RTCErrorInit, message?: string): RTCError; 
-};
+  new(init: RTCErrorInit, message?: string): RTCError;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/RTCErrorEvent) */
 interface RTCErrorEvent extends Event {
@@ -17747,10 +17731,10 @@ interface RTCErrorEvent extends Event {
   readonly error: RTCError;
 }
 
-declare var RTCErrorEvent: undefined | { 
+declare var RTCErrorEvent: PartialLibDomGlobal<'RTCErrorEvent', {
   prototype: RTCErrorEvent;
-  new(type: string, eventInitDict: RTCErrorEventInit): RTCErrorEvent; 
-};
+  new(type: string, eventInitDict: RTCErrorEventInit): RTCErrorEvent;
+}>;
 
 /**
  * The RTCIceCandidate interface—part of the WebRTC API—represents a candidate Internet Connectivity Establishment (ICE) configuration which may be used to establish an RTCPeerConnection.
@@ -17790,10 +17774,10 @@ interface RTCIceCandidate {
   toJSON(): RTCIceCandidateInit;
 }
 
-declare var RTCIceCandidate: undefined | { 
+declare var RTCIceCandidate: PartialLibDomGlobal<'RTCIceCandidate', {
   prototype: RTCIceCandidate;
-  new(candidateInitDict?: RTCIceCandidateInit): RTCIceCandidate; 
-};
+  new(candidateInitDict?: RTCIceCandidateInit): RTCIceCandidate;
+}>;
 
 interface RTCIceCandidatePair {
   local: RTCIceCandidate;
@@ -17830,10 +17814,10 @@ interface RTCIceTransport extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var RTCIceTransport: undefined | { 
+declare var RTCIceTransport: PartialLibDomGlobal<'RTCIceTransport', {
   prototype: RTCIceTransport;
-  new(): RTCIceTransport; 
-};
+  new(): RTCIceTransport;
+}>;
 
 interface RTCPeerConnectionEventMap {
   "connectionstatechange": Event;
@@ -17945,12 +17929,12 @@ interface RTCPeerConnection extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var RTCPeerConnection: undefined | { 
+declare var RTCPeerConnection: PartialLibDomGlobal<'RTCPeerConnection', {
   prototype: RTCPeerConnection;
   new(configuration?: RTCConfiguration): RTCPeerConnection;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/RTCPeerConnection/generateCertificate_static) */
-  generateCertificate(keygenAlgorithm: AlgorithmIdentifier): Promise<RTCCertificate>; 
-};
+  generateCertificate(keygenAlgorithm: AlgorithmIdentifier): Promise<RTCCertificate>;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/RTCPeerConnectionIceErrorEvent) */
 interface RTCPeerConnectionIceErrorEvent extends Event {
@@ -17962,10 +17946,10 @@ interface RTCPeerConnectionIceErrorEvent extends Event {
   readonly url: string;
 }
 
-declare var RTCPeerConnectionIceErrorEvent: undefined | { 
+declare var RTCPeerConnectionIceErrorEvent: PartialLibDomGlobal<'RTCPeerConnectionIceErrorEvent', {
   prototype: RTCPeerConnectionIceErrorEvent;
-  new(type: string, eventInitDict: RTCPeerConnectionIceErrorEventInit): RTCPeerConnectionIceErrorEvent; 
-};
+  new(type: string, eventInitDict: RTCPeerConnectionIceErrorEventInit): RTCPeerConnectionIceErrorEvent;
+}>;
 
 /**
  * Events that occurs in relation to ICE candidates with the target, usually an RTCPeerConnection. Only one event is of this type: icecandidate.
@@ -17977,10 +17961,10 @@ interface RTCPeerConnectionIceEvent extends Event {
   readonly candidate: RTCIceCandidate | null;
 }
 
-declare var RTCPeerConnectionIceEvent: undefined | { 
+declare var RTCPeerConnectionIceEvent: PartialLibDomGlobal<'RTCPeerConnectionIceEvent', {
   prototype: RTCPeerConnectionIceEvent;
-  new(type: string, eventInitDict?: RTCPeerConnectionIceEventInit): RTCPeerConnectionIceEvent; 
-};
+  new(type: string, eventInitDict?: RTCPeerConnectionIceEventInit): RTCPeerConnectionIceEvent;
+}>;
 
 /**
  * This WebRTC API interface manages the reception and decoding of data for a MediaStreamTrack on an RTCPeerConnection.
@@ -18006,21 +17990,21 @@ interface RTCRtpReceiver {
   getSynchronizationSources(): RTCRtpSynchronizationSource[];
 }
 
-declare var RTCRtpReceiver: undefined | { 
+declare var RTCRtpReceiver: PartialLibDomGlobal<'RTCRtpReceiver', {
   prototype: RTCRtpReceiver;
   new(): RTCRtpReceiver;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/RTCRtpReceiver/getCapabilities_static) */
-  getCapabilities(kind: string): RTCRtpCapabilities | null; 
-};
+  getCapabilities(kind: string): RTCRtpCapabilities | null;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/RTCRtpScriptTransform) */
 interface RTCRtpScriptTransform {
 }
 
-declare var RTCRtpScriptTransform: undefined | { 
+declare var RTCRtpScriptTransform: PartialLibDomGlobal<'RTCRtpScriptTransform', {
   prototype: RTCRtpScriptTransform;
-  new(worker: Worker, options?: any, transfer?: any[]): RTCRtpScriptTransform; 
-};
+  new(worker: Worker, options?: any, transfer?: any[]): RTCRtpScriptTransform;
+}>;
 
 /**
  * Provides the ability to control and obtain details about how a particular MediaStreamTrack is encoded and sent to a remote peer.
@@ -18048,12 +18032,12 @@ interface RTCRtpSender {
   setStreams(...streams: MediaStream[]): void;
 }
 
-declare var RTCRtpSender: undefined | { 
+declare var RTCRtpSender: PartialLibDomGlobal<'RTCRtpSender', {
   prototype: RTCRtpSender;
   new(): RTCRtpSender;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/RTCRtpSender/getCapabilities_static) */
-  getCapabilities(kind: string): RTCRtpCapabilities | null; 
-};
+  getCapabilities(kind: string): RTCRtpCapabilities | null;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/RTCRtpTransceiver) */
 interface RTCRtpTransceiver {
@@ -18073,10 +18057,10 @@ interface RTCRtpTransceiver {
   stop(): void;
 }
 
-declare var RTCRtpTransceiver: undefined | { 
+declare var RTCRtpTransceiver: PartialLibDomGlobal<'RTCRtpTransceiver', {
   prototype: RTCRtpTransceiver;
-  new(): RTCRtpTransceiver; 
-};
+  new(): RTCRtpTransceiver;
+}>;
 
 interface RTCSctpTransportEventMap {
   "statechange": Event;
@@ -18100,10 +18084,10 @@ interface RTCSctpTransport extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var RTCSctpTransport: undefined | { 
+declare var RTCSctpTransport: PartialLibDomGlobal<'RTCSctpTransport', {
   prototype: RTCSctpTransport;
-  new(): RTCSctpTransport; 
-};
+  new(): RTCSctpTransport;
+}>;
 
 /**
  * One end of a connection—or potential connection—and how it's configured. Each RTCSessionDescription consists of a description type indicating which part of the offer/answer negotiation process it describes and of the SDP descriptor of the session.
@@ -18119,20 +18103,20 @@ interface RTCSessionDescription {
   toJSON(): RTCSessionDescriptionInit;
 }
 
-declare var RTCSessionDescription: undefined | { 
+declare var RTCSessionDescription: PartialLibDomGlobal<'RTCSessionDescription', {
   prototype: RTCSessionDescription;
-  new(descriptionInitDict: RTCSessionDescriptionInit): RTCSessionDescription; 
-};
+  new(descriptionInitDict: RTCSessionDescriptionInit): RTCSessionDescription;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/RTCStatsReport) */
 interface RTCStatsReport {
   forEach(callbackfn: (value: any, key: string, parent: RTCStatsReport) => void, thisArg?: any): void;
 }
 
-declare var RTCStatsReport: undefined | { 
+declare var RTCStatsReport: PartialLibDomGlobal<'RTCStatsReport', {
   prototype: RTCStatsReport;
-  new(): RTCStatsReport; 
-};
+  new(): RTCStatsReport;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/RTCTrackEvent) */
 interface RTCTrackEvent extends Event {
@@ -18146,10 +18130,10 @@ interface RTCTrackEvent extends Event {
   readonly transceiver: RTCRtpTransceiver;
 }
 
-declare var RTCTrackEvent: undefined | { 
+declare var RTCTrackEvent: PartialLibDomGlobal<'RTCTrackEvent', {
   prototype: RTCTrackEvent;
-  new(type: string, eventInitDict: RTCTrackEventInit): RTCTrackEvent; 
-};
+  new(type: string, eventInitDict: RTCTrackEventInit): RTCTrackEvent;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/RadioNodeList) */
 interface RadioNodeList extends NodeList {
@@ -18157,10 +18141,10 @@ interface RadioNodeList extends NodeList {
   value: string;
 }
 
-declare var RadioNodeList: undefined | { 
+declare var RadioNodeList: PartialLibDomGlobal<'RadioNodeList', {
   prototype: RadioNodeList;
-  new(): RadioNodeList; 
-};
+  new(): RadioNodeList;
+}>;
 
 /**
  * A fragment of a document that can contain nodes and parts of text nodes.
@@ -18235,14 +18219,14 @@ interface Range extends AbstractRange {
   readonly END_TO_START: 3;
 }
 
-declare var Range: undefined | { 
+declare var Range: PartialLibDomGlobal<'Range', {
   prototype: Range;
   new(): Range;
   readonly START_TO_START: 0;
   readonly START_TO_END: 1;
   readonly END_TO_END: 2;
-  readonly END_TO_START: 3; 
-};
+  readonly END_TO_START: 3;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/ReadableByteStreamController) */
 interface ReadableByteStreamController {
@@ -18258,10 +18242,10 @@ interface ReadableByteStreamController {
   error(e?: any): void;
 }
 
-declare var ReadableByteStreamController: { 
+declare var ReadableByteStreamController: PartialLibDomNodeGlobal<'ReadableByteStreamController', {
   prototype: ReadableByteStreamController;
-  new(): ReadableByteStreamController; 
-};
+  new(): ReadableByteStreamController;
+}>;
 
 /**
  * This Streams API interface represents a readable stream of byte data. The Fetch API offers a concrete instance of a ReadableStream through the body property of a Response object.
@@ -18285,12 +18269,12 @@ interface ReadableStream<R = any> {
   tee(): [ReadableStream<R>, ReadableStream<R>];
 }
 
-declare var ReadableStream: { 
+declare var ReadableStream: PartialLibDomNodeGlobal<'ReadableStream', {
   prototype: ReadableStream;
   new(underlyingSource: UnderlyingByteSource, strategy?: { highWaterMark?: number }): ReadableStream<Uint8Array>;
   new<R = any>(underlyingSource: UnderlyingDefaultSource<R>, strategy?: QueuingStrategy<R>): ReadableStream<R>;
-  new<R = any>(underlyingSource?: UnderlyingSource<R>, strategy?: QueuingStrategy<R>): ReadableStream<R>; 
-};
+  new<R = any>(underlyingSource?: UnderlyingSource<R>, strategy?: QueuingStrategy<R>): ReadableStream<R>;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/ReadableStreamBYOBReader) */
 interface ReadableStreamBYOBReader extends ReadableStreamGenericReader {
@@ -18300,10 +18284,10 @@ interface ReadableStreamBYOBReader extends ReadableStreamGenericReader {
   releaseLock(): void;
 }
 
-declare var ReadableStreamBYOBReader: { 
+declare var ReadableStreamBYOBReader: PartialLibDomNodeGlobal<'ReadableStreamBYOBReader', {
   prototype: ReadableStreamBYOBReader;
-  new(stream: ReadableStream): ReadableStreamBYOBReader; 
-};
+  new(stream: ReadableStream): ReadableStreamBYOBReader;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/ReadableStreamBYOBRequest) */
 interface ReadableStreamBYOBRequest {
@@ -18315,10 +18299,10 @@ interface ReadableStreamBYOBRequest {
   respondWithNewView(view: ArrayBufferView): void;
 }
 
-declare var ReadableStreamBYOBRequest: { 
+declare var ReadableStreamBYOBRequest: PartialLibDomNodeGlobal<'ReadableStreamBYOBRequest', {
   prototype: ReadableStreamBYOBRequest;
-  new(): ReadableStreamBYOBRequest; 
-};
+  new(): ReadableStreamBYOBRequest;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/ReadableStreamDefaultController) */
 interface ReadableStreamDefaultController<R = any> {
@@ -18332,10 +18316,10 @@ interface ReadableStreamDefaultController<R = any> {
   error(e?: any): void;
 }
 
-declare var ReadableStreamDefaultController: { 
+declare var ReadableStreamDefaultController: PartialLibDomNodeGlobal<'ReadableStreamDefaultController', {
   prototype: ReadableStreamDefaultController;
-  new(): ReadableStreamDefaultController; 
-};
+  new(): ReadableStreamDefaultController;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/ReadableStreamDefaultReader) */
 interface ReadableStreamDefaultReader<R = any> extends ReadableStreamGenericReader {
@@ -18345,10 +18329,10 @@ interface ReadableStreamDefaultReader<R = any> extends ReadableStreamGenericRead
   releaseLock(): void;
 }
 
-declare var ReadableStreamDefaultReader: { 
+declare var ReadableStreamDefaultReader: PartialLibDomNodeGlobal<'ReadableStreamDefaultReader', {
   prototype: ReadableStreamDefaultReader;
-  new<R = any>(stream: ReadableStream<R>): ReadableStreamDefaultReader<R>; 
-};
+  new<R = any>(stream: ReadableStream<R>): ReadableStreamDefaultReader<R>;
+}>;
 
 interface ReadableStreamGenericReader {
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/ReadableStreamBYOBReader/closed) */
@@ -18385,10 +18369,10 @@ interface RemotePlayback extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var RemotePlayback: undefined | { 
+declare var RemotePlayback: PartialLibDomGlobal<'RemotePlayback', {
   prototype: RemotePlayback;
-  new(): RemotePlayback; 
-};
+  new(): RemotePlayback;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Report) */
 interface Report {
@@ -18401,10 +18385,10 @@ interface Report {
   toJSON(): any;
 }
 
-declare var Report: undefined | { 
+declare var Report: PartialLibDomGlobal<'Report', {
   prototype: Report;
-  new(): Report; 
-};
+  new(): Report;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/ReportBody) */
 interface ReportBody {
@@ -18412,10 +18396,10 @@ interface ReportBody {
   toJSON(): any;
 }
 
-declare var ReportBody: undefined | { 
+declare var ReportBody: PartialLibDomGlobal<'ReportBody', {
   prototype: ReportBody;
-  new(): ReportBody; 
-};
+  new(): ReportBody;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/ReportingObserver) */
 interface ReportingObserver {
@@ -18427,10 +18411,10 @@ interface ReportingObserver {
   takeRecords(): ReportList;
 }
 
-declare var ReportingObserver: undefined | { 
+declare var ReportingObserver: PartialLibDomGlobal<'ReportingObserver', {
   prototype: ReportingObserver;
-  new(callback: ReportingObserverCallback, options?: ReportingObserverOptions): ReportingObserver; 
-};
+  new(callback: ReportingObserverCallback, options?: ReportingObserverOptions): ReportingObserver;
+}>;
 
 /**
  * This Fetch API interface represents a resource request.
@@ -18516,10 +18500,10 @@ interface Request extends Body {
   clone(): Request;
 }
 
-declare var Request: { 
+declare var Request: PartialLibDomNodeGlobal<'Request', {
   prototype: Request;
-  new(input: RequestInfo | URL, init?: RequestInit): Request; 
-};
+  new(input: RequestInfo | URL, init?: RequestInit): Request;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/ResizeObserver) */
 interface ResizeObserver {
@@ -18531,10 +18515,10 @@ interface ResizeObserver {
   unobserve(target: Element): void;
 }
 
-declare var ResizeObserver: undefined | { 
+declare var ResizeObserver: PartialLibDomGlobal<'ResizeObserver', {
   prototype: ResizeObserver;
-  new(callback: ResizeObserverCallback): ResizeObserver; 
-};
+  new(callback: ResizeObserverCallback): ResizeObserver;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/ResizeObserverEntry) */
 interface ResizeObserverEntry {
@@ -18550,10 +18534,10 @@ interface ResizeObserverEntry {
   readonly target: Element;
 }
 
-declare var ResizeObserverEntry: undefined | { 
+declare var ResizeObserverEntry: PartialLibDomGlobal<'ResizeObserverEntry', {
   prototype: ResizeObserverEntry;
-  new(): ResizeObserverEntry; 
-};
+  new(): ResizeObserverEntry;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/ResizeObserverSize) */
 interface ResizeObserverSize {
@@ -18563,10 +18547,10 @@ interface ResizeObserverSize {
   readonly inlineSize: number;
 }
 
-declare var ResizeObserverSize: undefined | { 
+declare var ResizeObserverSize: PartialLibDomGlobal<'ResizeObserverSize', {
   prototype: ResizeObserverSize;
-  new(): ResizeObserverSize; 
-};
+  new(): ResizeObserverSize;
+}>;
 
 /**
  * This Fetch API interface represents the response to a request.
@@ -18592,7 +18576,7 @@ interface Response extends Body {
   clone(): Response;
 }
 
-declare var Response: { 
+declare var Response: PartialLibDomNodeGlobal<'Response', {
   prototype: Response;
   new(body?: BodyInit | null, init?: ResponseInit): Response;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Response/error_static) */
@@ -18600,8 +18584,8 @@ declare var Response: {
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Response/json_static) */
   json(data: any, init?: ResponseInit): Response;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Response/redirect_static) */
-  redirect(url: string | URL, status?: number): Response; 
-};
+  redirect(url: string | URL, status?: number): Response;
+}>;
 
 /**
  * Provides access to the properties of <a> element, as well as methods to manipulate them.
@@ -18619,10 +18603,10 @@ interface SVGAElement extends SVGGraphicsElement, SVGURIReference {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGAElement: undefined | { 
+declare var SVGAElement: PartialLibDomGlobal<'SVGAElement', {
   prototype: SVGAElement;
-  new(): SVGAElement; 
-};
+  new(): SVGAElement;
+}>;
 
 /**
  * Used to represent a value that can be an <angle> or <number> value. An SVGAngle reflected through the animVal attribute is always read only.
@@ -18643,15 +18627,15 @@ interface SVGAngle {
   readonly SVG_ANGLETYPE_GRAD: 4;
 }
 
-declare var SVGAngle: undefined | { 
+declare var SVGAngle: PartialLibDomGlobal<'SVGAngle', {
   prototype: SVGAngle;
   new(): SVGAngle;
   readonly SVG_ANGLETYPE_UNKNOWN: 0;
   readonly SVG_ANGLETYPE_UNSPECIFIED: 1;
   readonly SVG_ANGLETYPE_DEG: 2;
   readonly SVG_ANGLETYPE_RAD: 3;
-  readonly SVG_ANGLETYPE_GRAD: 4; 
-};
+  readonly SVG_ANGLETYPE_GRAD: 4;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/SVGAnimateElement) */
 interface SVGAnimateElement extends SVGAnimationElement {
@@ -18661,10 +18645,10 @@ interface SVGAnimateElement extends SVGAnimationElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGAnimateElement: undefined | { 
+declare var SVGAnimateElement: PartialLibDomGlobal<'SVGAnimateElement', {
   prototype: SVGAnimateElement;
-  new(): SVGAnimateElement; 
-};
+  new(): SVGAnimateElement;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/SVGAnimateMotionElement) */
 interface SVGAnimateMotionElement extends SVGAnimationElement {
@@ -18674,10 +18658,10 @@ interface SVGAnimateMotionElement extends SVGAnimationElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGAnimateMotionElement: undefined | { 
+declare var SVGAnimateMotionElement: PartialLibDomGlobal<'SVGAnimateMotionElement', {
   prototype: SVGAnimateMotionElement;
-  new(): SVGAnimateMotionElement; 
-};
+  new(): SVGAnimateMotionElement;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/SVGAnimateTransformElement) */
 interface SVGAnimateTransformElement extends SVGAnimationElement {
@@ -18687,10 +18671,10 @@ interface SVGAnimateTransformElement extends SVGAnimationElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGAnimateTransformElement: undefined | { 
+declare var SVGAnimateTransformElement: PartialLibDomGlobal<'SVGAnimateTransformElement', {
   prototype: SVGAnimateTransformElement;
-  new(): SVGAnimateTransformElement; 
-};
+  new(): SVGAnimateTransformElement;
+}>;
 
 /**
  * Used for attributes of basic type <angle> which can be animated.
@@ -18702,10 +18686,10 @@ interface SVGAnimatedAngle {
   readonly baseVal: SVGAngle;
 }
 
-declare var SVGAnimatedAngle: undefined | { 
+declare var SVGAnimatedAngle: PartialLibDomGlobal<'SVGAnimatedAngle', {
   prototype: SVGAnimatedAngle;
-  new(): SVGAnimatedAngle; 
-};
+  new(): SVGAnimatedAngle;
+}>;
 
 /**
  * Used for attributes of type boolean which can be animated.
@@ -18717,10 +18701,10 @@ interface SVGAnimatedBoolean {
   baseVal: boolean;
 }
 
-declare var SVGAnimatedBoolean: undefined | { 
+declare var SVGAnimatedBoolean: PartialLibDomGlobal<'SVGAnimatedBoolean', {
   prototype: SVGAnimatedBoolean;
-  new(): SVGAnimatedBoolean; 
-};
+  new(): SVGAnimatedBoolean;
+}>;
 
 /**
  * Used for attributes whose value must be a constant from a particular enumeration and which can be animated.
@@ -18734,10 +18718,10 @@ interface SVGAnimatedEnumeration {
   baseVal: number;
 }
 
-declare var SVGAnimatedEnumeration: undefined | { 
+declare var SVGAnimatedEnumeration: PartialLibDomGlobal<'SVGAnimatedEnumeration', {
   prototype: SVGAnimatedEnumeration;
-  new(): SVGAnimatedEnumeration; 
-};
+  new(): SVGAnimatedEnumeration;
+}>;
 
 /**
  * Used for attributes of basic type <integer> which can be animated.
@@ -18749,10 +18733,10 @@ interface SVGAnimatedInteger {
   baseVal: number;
 }
 
-declare var SVGAnimatedInteger: undefined | { 
+declare var SVGAnimatedInteger: PartialLibDomGlobal<'SVGAnimatedInteger', {
   prototype: SVGAnimatedInteger;
-  new(): SVGAnimatedInteger; 
-};
+  new(): SVGAnimatedInteger;
+}>;
 
 /**
  * Used for attributes of basic type <length> which can be animated.
@@ -18766,10 +18750,10 @@ interface SVGAnimatedLength {
   readonly baseVal: SVGLength;
 }
 
-declare var SVGAnimatedLength: undefined | { 
+declare var SVGAnimatedLength: PartialLibDomGlobal<'SVGAnimatedLength', {
   prototype: SVGAnimatedLength;
-  new(): SVGAnimatedLength; 
-};
+  new(): SVGAnimatedLength;
+}>;
 
 /**
  * Used for attributes of type SVGLengthList which can be animated.
@@ -18781,10 +18765,10 @@ interface SVGAnimatedLengthList {
   readonly baseVal: SVGLengthList;
 }
 
-declare var SVGAnimatedLengthList: undefined | { 
+declare var SVGAnimatedLengthList: PartialLibDomGlobal<'SVGAnimatedLengthList', {
   prototype: SVGAnimatedLengthList;
-  new(): SVGAnimatedLengthList; 
-};
+  new(): SVGAnimatedLengthList;
+}>;
 
 /**
  * Used for attributes of basic type <Number> which can be animated.
@@ -18796,10 +18780,10 @@ interface SVGAnimatedNumber {
   baseVal: number;
 }
 
-declare var SVGAnimatedNumber: undefined | { 
+declare var SVGAnimatedNumber: PartialLibDomGlobal<'SVGAnimatedNumber', {
   prototype: SVGAnimatedNumber;
-  new(): SVGAnimatedNumber; 
-};
+  new(): SVGAnimatedNumber;
+}>;
 
 /**
  * The SVGAnimatedNumber interface is used for attributes which take a list of numbers and which can be animated.
@@ -18811,10 +18795,10 @@ interface SVGAnimatedNumberList {
   readonly baseVal: SVGNumberList;
 }
 
-declare var SVGAnimatedNumberList: undefined | { 
+declare var SVGAnimatedNumberList: PartialLibDomGlobal<'SVGAnimatedNumberList', {
   prototype: SVGAnimatedNumberList;
-  new(): SVGAnimatedNumberList; 
-};
+  new(): SVGAnimatedNumberList;
+}>;
 
 interface SVGAnimatedPoints {
   readonly animatedPoints: SVGPointList;
@@ -18831,10 +18815,10 @@ interface SVGAnimatedPreserveAspectRatio {
   readonly baseVal: SVGPreserveAspectRatio;
 }
 
-declare var SVGAnimatedPreserveAspectRatio: undefined | { 
+declare var SVGAnimatedPreserveAspectRatio: PartialLibDomGlobal<'SVGAnimatedPreserveAspectRatio', {
   prototype: SVGAnimatedPreserveAspectRatio;
-  new(): SVGAnimatedPreserveAspectRatio; 
-};
+  new(): SVGAnimatedPreserveAspectRatio;
+}>;
 
 /**
  * Used for attributes of basic SVGRect which can be animated.
@@ -18846,10 +18830,10 @@ interface SVGAnimatedRect {
   readonly baseVal: DOMRect;
 }
 
-declare var SVGAnimatedRect: undefined | { 
+declare var SVGAnimatedRect: PartialLibDomGlobal<'SVGAnimatedRect', {
   prototype: SVGAnimatedRect;
-  new(): SVGAnimatedRect; 
-};
+  new(): SVGAnimatedRect;
+}>;
 
 /**
  * The SVGAnimatedString interface represents string attributes which can be animated from each SVG declaration. You need to create SVG attribute before doing anything else, everything should be declared inside this.
@@ -18863,10 +18847,10 @@ interface SVGAnimatedString {
   baseVal: string;
 }
 
-declare var SVGAnimatedString: undefined | { 
+declare var SVGAnimatedString: PartialLibDomGlobal<'SVGAnimatedString', {
   prototype: SVGAnimatedString;
-  new(): SVGAnimatedString; 
-};
+  new(): SVGAnimatedString;
+}>;
 
 /**
  * Used for attributes which take a list of numbers and which can be animated.
@@ -18878,10 +18862,10 @@ interface SVGAnimatedTransformList {
   readonly baseVal: SVGTransformList;
 }
 
-declare var SVGAnimatedTransformList: undefined | { 
+declare var SVGAnimatedTransformList: PartialLibDomGlobal<'SVGAnimatedTransformList', {
   prototype: SVGAnimatedTransformList;
-  new(): SVGAnimatedTransformList; 
-};
+  new(): SVGAnimatedTransformList;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/SVGAnimationElement) */
 interface SVGAnimationElement extends SVGElement, SVGTests {
@@ -18900,10 +18884,10 @@ interface SVGAnimationElement extends SVGElement, SVGTests {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGAnimationElement: undefined | { 
+declare var SVGAnimationElement: PartialLibDomGlobal<'SVGAnimationElement', {
   prototype: SVGAnimationElement;
-  new(): SVGAnimationElement; 
-};
+  new(): SVGAnimationElement;
+}>;
 
 /**
  * An interface for the <circle> element. The circle element is defined by the cx and cy attributes that denote the coordinates of the centre of the circle.
@@ -18923,10 +18907,10 @@ interface SVGCircleElement extends SVGGeometryElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGCircleElement: undefined | { 
+declare var SVGCircleElement: PartialLibDomGlobal<'SVGCircleElement', {
   prototype: SVGCircleElement;
-  new(): SVGCircleElement; 
-};
+  new(): SVGCircleElement;
+}>;
 
 /**
  * Provides access to the properties of <clipPath> elements, as well as methods to manipulate them.
@@ -18944,10 +18928,10 @@ interface SVGClipPathElement extends SVGElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGClipPathElement: undefined | { 
+declare var SVGClipPathElement: PartialLibDomGlobal<'SVGClipPathElement', {
   prototype: SVGClipPathElement;
-  new(): SVGClipPathElement; 
-};
+  new(): SVGClipPathElement;
+}>;
 
 /**
  * A base interface used by the component transfer function interfaces.
@@ -18974,7 +18958,7 @@ interface SVGComponentTransferFunctionElement extends SVGElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGComponentTransferFunctionElement: undefined | { 
+declare var SVGComponentTransferFunctionElement: PartialLibDomGlobal<'SVGComponentTransferFunctionElement', {
   prototype: SVGComponentTransferFunctionElement;
   new(): SVGComponentTransferFunctionElement;
   readonly SVG_FECOMPONENTTRANSFER_TYPE_UNKNOWN: 0;
@@ -18982,8 +18966,8 @@ declare var SVGComponentTransferFunctionElement: undefined | {
   readonly SVG_FECOMPONENTTRANSFER_TYPE_TABLE: 2;
   readonly SVG_FECOMPONENTTRANSFER_TYPE_DISCRETE: 3;
   readonly SVG_FECOMPONENTTRANSFER_TYPE_LINEAR: 4;
-  readonly SVG_FECOMPONENTTRANSFER_TYPE_GAMMA: 5; 
-};
+  readonly SVG_FECOMPONENTTRANSFER_TYPE_GAMMA: 5;
+}>;
 
 /**
  * Corresponds to the <defs> element.
@@ -18997,10 +18981,10 @@ interface SVGDefsElement extends SVGGraphicsElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGDefsElement: undefined | { 
+declare var SVGDefsElement: PartialLibDomGlobal<'SVGDefsElement', {
   prototype: SVGDefsElement;
-  new(): SVGDefsElement; 
-};
+  new(): SVGDefsElement;
+}>;
 
 /**
  * Corresponds to the <desc> element.
@@ -19014,10 +18998,10 @@ interface SVGDescElement extends SVGElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGDescElement: undefined | { 
+declare var SVGDescElement: PartialLibDomGlobal<'SVGDescElement', {
   prototype: SVGDescElement;
-  new(): SVGDescElement; 
-};
+  new(): SVGDescElement;
+}>;
 
 interface SVGElementEventMap extends ElementEventMap, GlobalEventHandlersEventMap {
 }
@@ -19038,10 +19022,10 @@ interface SVGElement extends Element, ElementCSSInlineStyle, GlobalEventHandlers
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGElement: undefined | { 
+declare var SVGElement: PartialLibDomGlobal<'SVGElement', {
   prototype: SVGElement;
-  new(): SVGElement; 
-};
+  new(): SVGElement;
+}>;
 
 /**
  * Provides access to the properties of <ellipse> elements.
@@ -19059,10 +19043,10 @@ interface SVGEllipseElement extends SVGGeometryElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGEllipseElement: undefined | { 
+declare var SVGEllipseElement: PartialLibDomGlobal<'SVGEllipseElement', {
   prototype: SVGEllipseElement;
-  new(): SVGEllipseElement; 
-};
+  new(): SVGEllipseElement;
+}>;
 
 /**
  * Corresponds to the <feBlend> element.
@@ -19096,7 +19080,7 @@ interface SVGFEBlendElement extends SVGElement, SVGFilterPrimitiveStandardAttrib
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGFEBlendElement: undefined | { 
+declare var SVGFEBlendElement: PartialLibDomGlobal<'SVGFEBlendElement', {
   prototype: SVGFEBlendElement;
   new(): SVGFEBlendElement;
   readonly SVG_FEBLEND_MODE_UNKNOWN: 0;
@@ -19115,8 +19099,8 @@ declare var SVGFEBlendElement: undefined | {
   readonly SVG_FEBLEND_MODE_HUE: 13;
   readonly SVG_FEBLEND_MODE_SATURATION: 14;
   readonly SVG_FEBLEND_MODE_COLOR: 15;
-  readonly SVG_FEBLEND_MODE_LUMINOSITY: 16; 
-};
+  readonly SVG_FEBLEND_MODE_LUMINOSITY: 16;
+}>;
 
 /**
  * Corresponds to the <feColorMatrix> element.
@@ -19138,15 +19122,15 @@ interface SVGFEColorMatrixElement extends SVGElement, SVGFilterPrimitiveStandard
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGFEColorMatrixElement: undefined | { 
+declare var SVGFEColorMatrixElement: PartialLibDomGlobal<'SVGFEColorMatrixElement', {
   prototype: SVGFEColorMatrixElement;
   new(): SVGFEColorMatrixElement;
   readonly SVG_FECOLORMATRIX_TYPE_UNKNOWN: 0;
   readonly SVG_FECOLORMATRIX_TYPE_MATRIX: 1;
   readonly SVG_FECOLORMATRIX_TYPE_SATURATE: 2;
   readonly SVG_FECOLORMATRIX_TYPE_HUEROTATE: 3;
-  readonly SVG_FECOLORMATRIX_TYPE_LUMINANCETOALPHA: 4; 
-};
+  readonly SVG_FECOLORMATRIX_TYPE_LUMINANCETOALPHA: 4;
+}>;
 
 /**
  * Corresponds to the <feComponentTransfer> element.
@@ -19161,10 +19145,10 @@ interface SVGFEComponentTransferElement extends SVGElement, SVGFilterPrimitiveSt
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGFEComponentTransferElement: undefined | { 
+declare var SVGFEComponentTransferElement: PartialLibDomGlobal<'SVGFEComponentTransferElement', {
   prototype: SVGFEComponentTransferElement;
-  new(): SVGFEComponentTransferElement; 
-};
+  new(): SVGFEComponentTransferElement;
+}>;
 
 /**
  * Corresponds to the <feComposite> element.
@@ -19192,7 +19176,7 @@ interface SVGFECompositeElement extends SVGElement, SVGFilterPrimitiveStandardAt
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGFECompositeElement: undefined | { 
+declare var SVGFECompositeElement: PartialLibDomGlobal<'SVGFECompositeElement', {
   prototype: SVGFECompositeElement;
   new(): SVGFECompositeElement;
   readonly SVG_FECOMPOSITE_OPERATOR_UNKNOWN: 0;
@@ -19201,8 +19185,8 @@ declare var SVGFECompositeElement: undefined | {
   readonly SVG_FECOMPOSITE_OPERATOR_OUT: 3;
   readonly SVG_FECOMPOSITE_OPERATOR_ATOP: 4;
   readonly SVG_FECOMPOSITE_OPERATOR_XOR: 5;
-  readonly SVG_FECOMPOSITE_OPERATOR_ARITHMETIC: 6; 
-};
+  readonly SVG_FECOMPOSITE_OPERATOR_ARITHMETIC: 6;
+}>;
 
 /**
  * Corresponds to the <feConvolveMatrix> element.
@@ -19232,14 +19216,14 @@ interface SVGFEConvolveMatrixElement extends SVGElement, SVGFilterPrimitiveStand
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGFEConvolveMatrixElement: undefined | { 
+declare var SVGFEConvolveMatrixElement: PartialLibDomGlobal<'SVGFEConvolveMatrixElement', {
   prototype: SVGFEConvolveMatrixElement;
   new(): SVGFEConvolveMatrixElement;
   readonly SVG_EDGEMODE_UNKNOWN: 0;
   readonly SVG_EDGEMODE_DUPLICATE: 1;
   readonly SVG_EDGEMODE_WRAP: 2;
-  readonly SVG_EDGEMODE_NONE: 3; 
-};
+  readonly SVG_EDGEMODE_NONE: 3;
+}>;
 
 /**
  * Corresponds to the <feDiffuseLighting> element.
@@ -19258,10 +19242,10 @@ interface SVGFEDiffuseLightingElement extends SVGElement, SVGFilterPrimitiveStan
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGFEDiffuseLightingElement: undefined | { 
+declare var SVGFEDiffuseLightingElement: PartialLibDomGlobal<'SVGFEDiffuseLightingElement', {
   prototype: SVGFEDiffuseLightingElement;
-  new(): SVGFEDiffuseLightingElement; 
-};
+  new(): SVGFEDiffuseLightingElement;
+}>;
 
 /**
  * Corresponds to the <feDisplacementMap> element.
@@ -19285,15 +19269,15 @@ interface SVGFEDisplacementMapElement extends SVGElement, SVGFilterPrimitiveStan
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGFEDisplacementMapElement: undefined | { 
+declare var SVGFEDisplacementMapElement: PartialLibDomGlobal<'SVGFEDisplacementMapElement', {
   prototype: SVGFEDisplacementMapElement;
   new(): SVGFEDisplacementMapElement;
   readonly SVG_CHANNEL_UNKNOWN: 0;
   readonly SVG_CHANNEL_R: 1;
   readonly SVG_CHANNEL_G: 2;
   readonly SVG_CHANNEL_B: 3;
-  readonly SVG_CHANNEL_A: 4; 
-};
+  readonly SVG_CHANNEL_A: 4;
+}>;
 
 /**
  * Corresponds to the <feDistantLight> element.
@@ -19309,10 +19293,10 @@ interface SVGFEDistantLightElement extends SVGElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGFEDistantLightElement: undefined | { 
+declare var SVGFEDistantLightElement: PartialLibDomGlobal<'SVGFEDistantLightElement', {
   prototype: SVGFEDistantLightElement;
-  new(): SVGFEDistantLightElement; 
-};
+  new(): SVGFEDistantLightElement;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/SVGFEDropShadowElement) */
 interface SVGFEDropShadowElement extends SVGElement, SVGFilterPrimitiveStandardAttributes {
@@ -19328,10 +19312,10 @@ interface SVGFEDropShadowElement extends SVGElement, SVGFilterPrimitiveStandardA
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGFEDropShadowElement: undefined | { 
+declare var SVGFEDropShadowElement: PartialLibDomGlobal<'SVGFEDropShadowElement', {
   prototype: SVGFEDropShadowElement;
-  new(): SVGFEDropShadowElement; 
-};
+  new(): SVGFEDropShadowElement;
+}>;
 
 /**
  * Corresponds to the <feFlood> element.
@@ -19345,10 +19329,10 @@ interface SVGFEFloodElement extends SVGElement, SVGFilterPrimitiveStandardAttrib
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGFEFloodElement: undefined | { 
+declare var SVGFEFloodElement: PartialLibDomGlobal<'SVGFEFloodElement', {
   prototype: SVGFEFloodElement;
-  new(): SVGFEFloodElement; 
-};
+  new(): SVGFEFloodElement;
+}>;
 
 /**
  * Corresponds to the <feFuncA> element.
@@ -19362,10 +19346,10 @@ interface SVGFEFuncAElement extends SVGComponentTransferFunctionElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGFEFuncAElement: undefined | { 
+declare var SVGFEFuncAElement: PartialLibDomGlobal<'SVGFEFuncAElement', {
   prototype: SVGFEFuncAElement;
-  new(): SVGFEFuncAElement; 
-};
+  new(): SVGFEFuncAElement;
+}>;
 
 /**
  * Corresponds to the <feFuncB> element.
@@ -19379,10 +19363,10 @@ interface SVGFEFuncBElement extends SVGComponentTransferFunctionElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGFEFuncBElement: undefined | { 
+declare var SVGFEFuncBElement: PartialLibDomGlobal<'SVGFEFuncBElement', {
   prototype: SVGFEFuncBElement;
-  new(): SVGFEFuncBElement; 
-};
+  new(): SVGFEFuncBElement;
+}>;
 
 /**
  * Corresponds to the <feFuncG> element.
@@ -19396,10 +19380,10 @@ interface SVGFEFuncGElement extends SVGComponentTransferFunctionElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGFEFuncGElement: undefined | { 
+declare var SVGFEFuncGElement: PartialLibDomGlobal<'SVGFEFuncGElement', {
   prototype: SVGFEFuncGElement;
-  new(): SVGFEFuncGElement; 
-};
+  new(): SVGFEFuncGElement;
+}>;
 
 /**
  * Corresponds to the <feFuncR> element.
@@ -19413,10 +19397,10 @@ interface SVGFEFuncRElement extends SVGComponentTransferFunctionElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGFEFuncRElement: undefined | { 
+declare var SVGFEFuncRElement: PartialLibDomGlobal<'SVGFEFuncRElement', {
   prototype: SVGFEFuncRElement;
-  new(): SVGFEFuncRElement; 
-};
+  new(): SVGFEFuncRElement;
+}>;
 
 /**
  * Corresponds to the <feGaussianBlur> element.
@@ -19434,10 +19418,10 @@ interface SVGFEGaussianBlurElement extends SVGElement, SVGFilterPrimitiveStandar
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGFEGaussianBlurElement: undefined | { 
+declare var SVGFEGaussianBlurElement: PartialLibDomGlobal<'SVGFEGaussianBlurElement', {
   prototype: SVGFEGaussianBlurElement;
-  new(): SVGFEGaussianBlurElement; 
-};
+  new(): SVGFEGaussianBlurElement;
+}>;
 
 /**
  * Corresponds to the <feImage> element.
@@ -19452,10 +19436,10 @@ interface SVGFEImageElement extends SVGElement, SVGFilterPrimitiveStandardAttrib
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGFEImageElement: undefined | { 
+declare var SVGFEImageElement: PartialLibDomGlobal<'SVGFEImageElement', {
   prototype: SVGFEImageElement;
-  new(): SVGFEImageElement; 
-};
+  new(): SVGFEImageElement;
+}>;
 
 /**
  * Corresponds to the <feMerge> element.
@@ -19469,10 +19453,10 @@ interface SVGFEMergeElement extends SVGElement, SVGFilterPrimitiveStandardAttrib
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGFEMergeElement: undefined | { 
+declare var SVGFEMergeElement: PartialLibDomGlobal<'SVGFEMergeElement', {
   prototype: SVGFEMergeElement;
-  new(): SVGFEMergeElement; 
-};
+  new(): SVGFEMergeElement;
+}>;
 
 /**
  * Corresponds to the <feMergeNode> element.
@@ -19487,10 +19471,10 @@ interface SVGFEMergeNodeElement extends SVGElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGFEMergeNodeElement: undefined | { 
+declare var SVGFEMergeNodeElement: PartialLibDomGlobal<'SVGFEMergeNodeElement', {
   prototype: SVGFEMergeNodeElement;
-  new(): SVGFEMergeNodeElement; 
-};
+  new(): SVGFEMergeNodeElement;
+}>;
 
 /**
  * Corresponds to the <feMorphology> element.
@@ -19511,13 +19495,13 @@ interface SVGFEMorphologyElement extends SVGElement, SVGFilterPrimitiveStandardA
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGFEMorphologyElement: undefined | { 
+declare var SVGFEMorphologyElement: PartialLibDomGlobal<'SVGFEMorphologyElement', {
   prototype: SVGFEMorphologyElement;
   new(): SVGFEMorphologyElement;
   readonly SVG_MORPHOLOGY_OPERATOR_UNKNOWN: 0;
   readonly SVG_MORPHOLOGY_OPERATOR_ERODE: 1;
-  readonly SVG_MORPHOLOGY_OPERATOR_DILATE: 2; 
-};
+  readonly SVG_MORPHOLOGY_OPERATOR_DILATE: 2;
+}>;
 
 /**
  * Corresponds to the <feOffset> element.
@@ -19534,10 +19518,10 @@ interface SVGFEOffsetElement extends SVGElement, SVGFilterPrimitiveStandardAttri
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGFEOffsetElement: undefined | { 
+declare var SVGFEOffsetElement: PartialLibDomGlobal<'SVGFEOffsetElement', {
   prototype: SVGFEOffsetElement;
-  new(): SVGFEOffsetElement; 
-};
+  new(): SVGFEOffsetElement;
+}>;
 
 /**
  * Corresponds to the <fePointLight> element.
@@ -19554,10 +19538,10 @@ interface SVGFEPointLightElement extends SVGElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGFEPointLightElement: undefined | { 
+declare var SVGFEPointLightElement: PartialLibDomGlobal<'SVGFEPointLightElement', {
   prototype: SVGFEPointLightElement;
-  new(): SVGFEPointLightElement; 
-};
+  new(): SVGFEPointLightElement;
+}>;
 
 /**
  * Corresponds to the <feSpecularLighting> element.
@@ -19577,10 +19561,10 @@ interface SVGFESpecularLightingElement extends SVGElement, SVGFilterPrimitiveSta
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGFESpecularLightingElement: undefined | { 
+declare var SVGFESpecularLightingElement: PartialLibDomGlobal<'SVGFESpecularLightingElement', {
   prototype: SVGFESpecularLightingElement;
-  new(): SVGFESpecularLightingElement; 
-};
+  new(): SVGFESpecularLightingElement;
+}>;
 
 /**
  * Corresponds to the <feSpotLight> element.
@@ -19602,10 +19586,10 @@ interface SVGFESpotLightElement extends SVGElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGFESpotLightElement: undefined | { 
+declare var SVGFESpotLightElement: PartialLibDomGlobal<'SVGFESpotLightElement', {
   prototype: SVGFESpotLightElement;
-  new(): SVGFESpotLightElement; 
-};
+  new(): SVGFESpotLightElement;
+}>;
 
 /**
  * Corresponds to the <feTile> element.
@@ -19620,10 +19604,10 @@ interface SVGFETileElement extends SVGElement, SVGFilterPrimitiveStandardAttribu
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGFETileElement: undefined | { 
+declare var SVGFETileElement: PartialLibDomGlobal<'SVGFETileElement', {
   prototype: SVGFETileElement;
-  new(): SVGFETileElement; 
-};
+  new(): SVGFETileElement;
+}>;
 
 /**
  * Corresponds to the <feTurbulence> element.
@@ -19649,7 +19633,7 @@ interface SVGFETurbulenceElement extends SVGElement, SVGFilterPrimitiveStandardA
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGFETurbulenceElement: undefined | { 
+declare var SVGFETurbulenceElement: PartialLibDomGlobal<'SVGFETurbulenceElement', {
   prototype: SVGFETurbulenceElement;
   new(): SVGFETurbulenceElement;
   readonly SVG_TURBULENCE_TYPE_UNKNOWN: 0;
@@ -19657,8 +19641,8 @@ declare var SVGFETurbulenceElement: undefined | {
   readonly SVG_TURBULENCE_TYPE_TURBULENCE: 2;
   readonly SVG_STITCHTYPE_UNKNOWN: 0;
   readonly SVG_STITCHTYPE_STITCH: 1;
-  readonly SVG_STITCHTYPE_NOSTITCH: 2; 
-};
+  readonly SVG_STITCHTYPE_NOSTITCH: 2;
+}>;
 
 /**
  * Provides access to the properties of <filter> elements, as well as methods to manipulate them.
@@ -19678,10 +19662,10 @@ interface SVGFilterElement extends SVGElement, SVGURIReference {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGFilterElement: undefined | { 
+declare var SVGFilterElement: PartialLibDomGlobal<'SVGFilterElement', {
   prototype: SVGFilterElement;
-  new(): SVGFilterElement; 
-};
+  new(): SVGFilterElement;
+}>;
 
 interface SVGFilterPrimitiveStandardAttributes {
   readonly height: SVGAnimatedLength;
@@ -19714,10 +19698,10 @@ interface SVGForeignObjectElement extends SVGGraphicsElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGForeignObjectElement: undefined | { 
+declare var SVGForeignObjectElement: PartialLibDomGlobal<'SVGForeignObjectElement', {
   prototype: SVGForeignObjectElement;
-  new(): SVGForeignObjectElement; 
-};
+  new(): SVGForeignObjectElement;
+}>;
 
 /**
  * Corresponds to the <g> element.
@@ -19731,10 +19715,10 @@ interface SVGGElement extends SVGGraphicsElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGGElement: undefined | { 
+declare var SVGGElement: PartialLibDomGlobal<'SVGGElement', {
   prototype: SVGGElement;
-  new(): SVGGElement; 
-};
+  new(): SVGGElement;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/SVGGeometryElement) */
 interface SVGGeometryElement extends SVGGraphicsElement {
@@ -19754,10 +19738,10 @@ interface SVGGeometryElement extends SVGGraphicsElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGGeometryElement: undefined | { 
+declare var SVGGeometryElement: PartialLibDomGlobal<'SVGGeometryElement', {
   prototype: SVGGeometryElement;
-  new(): SVGGeometryElement; 
-};
+  new(): SVGGeometryElement;
+}>;
 
 /**
  * The SVGGradient interface is a base interface used by SVGLinearGradientElement and SVGRadialGradientElement.
@@ -19778,14 +19762,14 @@ interface SVGGradientElement extends SVGElement, SVGURIReference {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGGradientElement: undefined | { 
+declare var SVGGradientElement: PartialLibDomGlobal<'SVGGradientElement', {
   prototype: SVGGradientElement;
   new(): SVGGradientElement;
   readonly SVG_SPREADMETHOD_UNKNOWN: 0;
   readonly SVG_SPREADMETHOD_PAD: 1;
   readonly SVG_SPREADMETHOD_REFLECT: 2;
-  readonly SVG_SPREADMETHOD_REPEAT: 3; 
-};
+  readonly SVG_SPREADMETHOD_REPEAT: 3;
+}>;
 
 /**
  * SVG elements whose primary purpose is to directly render graphics into a group.
@@ -19804,10 +19788,10 @@ interface SVGGraphicsElement extends SVGElement, SVGTests {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGGraphicsElement: undefined | { 
+declare var SVGGraphicsElement: PartialLibDomGlobal<'SVGGraphicsElement', {
   prototype: SVGGraphicsElement;
-  new(): SVGGraphicsElement; 
-};
+  new(): SVGGraphicsElement;
+}>;
 
 /**
  * Corresponds to the <image> element.
@@ -19832,10 +19816,10 @@ interface SVGImageElement extends SVGGraphicsElement, SVGURIReference {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGImageElement: undefined | { 
+declare var SVGImageElement: PartialLibDomGlobal<'SVGImageElement', {
   prototype: SVGImageElement;
-  new(): SVGImageElement; 
-};
+  new(): SVGImageElement;
+}>;
 
 /**
  * Correspond to the <length> basic data type.
@@ -19862,7 +19846,7 @@ interface SVGLength {
   readonly SVG_LENGTHTYPE_PC: 10;
 }
 
-declare var SVGLength: undefined | { 
+declare var SVGLength: PartialLibDomGlobal<'SVGLength', {
   prototype: SVGLength;
   new(): SVGLength;
   readonly SVG_LENGTHTYPE_UNKNOWN: 0;
@@ -19875,8 +19859,8 @@ declare var SVGLength: undefined | {
   readonly SVG_LENGTHTYPE_MM: 7;
   readonly SVG_LENGTHTYPE_IN: 8;
   readonly SVG_LENGTHTYPE_PT: 9;
-  readonly SVG_LENGTHTYPE_PC: 10; 
-};
+  readonly SVG_LENGTHTYPE_PC: 10;
+}>;
 
 /**
  * The SVGLengthList defines a list of SVGLength objects.
@@ -19896,10 +19880,10 @@ interface SVGLengthList {
   [index: number]: SVGLength;
 }
 
-declare var SVGLengthList: undefined | { 
+declare var SVGLengthList: PartialLibDomGlobal<'SVGLengthList', {
   prototype: SVGLengthList;
-  new(): SVGLengthList; 
-};
+  new(): SVGLengthList;
+}>;
 
 /**
  * Provides access to the properties of <line> elements, as well as methods to manipulate them.
@@ -19917,10 +19901,10 @@ interface SVGLineElement extends SVGGeometryElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGLineElement: undefined | { 
+declare var SVGLineElement: PartialLibDomGlobal<'SVGLineElement', {
   prototype: SVGLineElement;
-  new(): SVGLineElement; 
-};
+  new(): SVGLineElement;
+}>;
 
 /**
  * Corresponds to the <linearGradient> element.
@@ -19938,10 +19922,10 @@ interface SVGLinearGradientElement extends SVGGradientElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGLinearGradientElement: undefined | { 
+declare var SVGLinearGradientElement: PartialLibDomGlobal<'SVGLinearGradientElement', {
   prototype: SVGLinearGradientElement;
-  new(): SVGLinearGradientElement; 
-};
+  new(): SVGLinearGradientElement;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/SVGMPathElement) */
 interface SVGMPathElement extends SVGElement, SVGURIReference {
@@ -19951,10 +19935,10 @@ interface SVGMPathElement extends SVGElement, SVGURIReference {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGMPathElement: undefined | { 
+declare var SVGMPathElement: PartialLibDomGlobal<'SVGMPathElement', {
   prototype: SVGMPathElement;
-  new(): SVGMPathElement; 
-};
+  new(): SVGMPathElement;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/SVGMarkerElement) */
 interface SVGMarkerElement extends SVGElement, SVGFitToViewBox {
@@ -19988,7 +19972,7 @@ interface SVGMarkerElement extends SVGElement, SVGFitToViewBox {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGMarkerElement: undefined | { 
+declare var SVGMarkerElement: PartialLibDomGlobal<'SVGMarkerElement', {
   prototype: SVGMarkerElement;
   new(): SVGMarkerElement;
   readonly SVG_MARKERUNITS_UNKNOWN: 0;
@@ -19996,8 +19980,8 @@ declare var SVGMarkerElement: undefined | {
   readonly SVG_MARKERUNITS_STROKEWIDTH: 2;
   readonly SVG_MARKER_ORIENT_UNKNOWN: 0;
   readonly SVG_MARKER_ORIENT_AUTO: 1;
-  readonly SVG_MARKER_ORIENT_ANGLE: 2; 
-};
+  readonly SVG_MARKER_ORIENT_ANGLE: 2;
+}>;
 
 /**
  * Provides access to the properties of <mask> elements, as well as methods to manipulate them.
@@ -20023,10 +20007,10 @@ interface SVGMaskElement extends SVGElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGMaskElement: undefined | { 
+declare var SVGMaskElement: PartialLibDomGlobal<'SVGMaskElement', {
   prototype: SVGMaskElement;
-  new(): SVGMaskElement; 
-};
+  new(): SVGMaskElement;
+}>;
 
 /**
  * Corresponds to the <metadata> element.
@@ -20040,10 +20024,10 @@ interface SVGMetadataElement extends SVGElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGMetadataElement: undefined | { 
+declare var SVGMetadataElement: PartialLibDomGlobal<'SVGMetadataElement', {
   prototype: SVGMetadataElement;
-  new(): SVGMetadataElement; 
-};
+  new(): SVGMetadataElement;
+}>;
 
 /**
  * Corresponds to the <number> basic data type.
@@ -20054,10 +20038,10 @@ interface SVGNumber {
   value: number;
 }
 
-declare var SVGNumber: undefined | { 
+declare var SVGNumber: PartialLibDomGlobal<'SVGNumber', {
   prototype: SVGNumber;
-  new(): SVGNumber; 
-};
+  new(): SVGNumber;
+}>;
 
 /**
  * The SVGNumberList defines a list of SVGNumber objects.
@@ -20077,10 +20061,10 @@ interface SVGNumberList {
   [index: number]: SVGNumber;
 }
 
-declare var SVGNumberList: undefined | { 
+declare var SVGNumberList: PartialLibDomGlobal<'SVGNumberList', {
   prototype: SVGNumberList;
-  new(): SVGNumberList; 
-};
+  new(): SVGNumberList;
+}>;
 
 /**
  * Corresponds to the <path> element.
@@ -20094,10 +20078,10 @@ interface SVGPathElement extends SVGGeometryElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGPathElement: undefined | { 
+declare var SVGPathElement: PartialLibDomGlobal<'SVGPathElement', {
   prototype: SVGPathElement;
-  new(): SVGPathElement; 
-};
+  new(): SVGPathElement;
+}>;
 
 /**
  * Corresponds to the <pattern> element.
@@ -20118,10 +20102,10 @@ interface SVGPatternElement extends SVGElement, SVGFitToViewBox, SVGURIReference
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGPatternElement: undefined | { 
+declare var SVGPatternElement: PartialLibDomGlobal<'SVGPatternElement', {
   prototype: SVGPatternElement;
-  new(): SVGPatternElement; 
-};
+  new(): SVGPatternElement;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/SVGPointList) */
 interface SVGPointList {
@@ -20146,10 +20130,10 @@ interface SVGPointList {
   [index: number]: DOMPoint;
 }
 
-declare var SVGPointList: undefined | { 
+declare var SVGPointList: PartialLibDomGlobal<'SVGPointList', {
   prototype: SVGPointList;
-  new(): SVGPointList; 
-};
+  new(): SVGPointList;
+}>;
 
 /**
  * Provides access to the properties of <polygon> elements, as well as methods to manipulate them.
@@ -20163,10 +20147,10 @@ interface SVGPolygonElement extends SVGGeometryElement, SVGAnimatedPoints {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGPolygonElement: undefined | { 
+declare var SVGPolygonElement: PartialLibDomGlobal<'SVGPolygonElement', {
   prototype: SVGPolygonElement;
-  new(): SVGPolygonElement; 
-};
+  new(): SVGPolygonElement;
+}>;
 
 /**
  * Provides access to the properties of <polyline> elements, as well as methods to manipulate them.
@@ -20180,10 +20164,10 @@ interface SVGPolylineElement extends SVGGeometryElement, SVGAnimatedPoints {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGPolylineElement: undefined | { 
+declare var SVGPolylineElement: PartialLibDomGlobal<'SVGPolylineElement', {
   prototype: SVGPolylineElement;
-  new(): SVGPolylineElement; 
-};
+  new(): SVGPolylineElement;
+}>;
 
 /**
  * Corresponds to the preserveAspectRatio attribute, which is available for some of SVG's elements.
@@ -20209,7 +20193,7 @@ interface SVGPreserveAspectRatio {
   readonly SVG_MEETORSLICE_SLICE: 2;
 }
 
-declare var SVGPreserveAspectRatio: undefined | { 
+declare var SVGPreserveAspectRatio: PartialLibDomGlobal<'SVGPreserveAspectRatio', {
   prototype: SVGPreserveAspectRatio;
   new(): SVGPreserveAspectRatio;
   readonly SVG_PRESERVEASPECTRATIO_UNKNOWN: 0;
@@ -20225,8 +20209,8 @@ declare var SVGPreserveAspectRatio: undefined | {
   readonly SVG_PRESERVEASPECTRATIO_XMAXYMAX: 10;
   readonly SVG_MEETORSLICE_UNKNOWN: 0;
   readonly SVG_MEETORSLICE_MEET: 1;
-  readonly SVG_MEETORSLICE_SLICE: 2; 
-};
+  readonly SVG_MEETORSLICE_SLICE: 2;
+}>;
 
 /**
  * Corresponds to the <RadialGradient> element.
@@ -20246,10 +20230,10 @@ interface SVGRadialGradientElement extends SVGGradientElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGRadialGradientElement: undefined | { 
+declare var SVGRadialGradientElement: PartialLibDomGlobal<'SVGRadialGradientElement', {
   prototype: SVGRadialGradientElement;
-  new(): SVGRadialGradientElement; 
-};
+  new(): SVGRadialGradientElement;
+}>;
 
 /**
  * Provides access to the properties of <rect> elements, as well as methods to manipulate them.
@@ -20269,10 +20253,10 @@ interface SVGRectElement extends SVGGeometryElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGRectElement: undefined | { 
+declare var SVGRectElement: PartialLibDomGlobal<'SVGRectElement', {
   prototype: SVGRectElement;
-  new(): SVGRectElement; 
-};
+  new(): SVGRectElement;
+}>;
 
 interface SVGSVGElementEventMap extends SVGElementEventMap, WindowEventHandlersEventMap {
 }
@@ -20322,10 +20306,10 @@ interface SVGSVGElement extends SVGGraphicsElement, SVGFitToViewBox, WindowEvent
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGSVGElement: undefined | { 
+declare var SVGSVGElement: PartialLibDomGlobal<'SVGSVGElement', {
   prototype: SVGSVGElement;
-  new(): SVGSVGElement; 
-};
+  new(): SVGSVGElement;
+}>;
 
 /**
  * Corresponds to the SVG <script> element.
@@ -20340,10 +20324,10 @@ interface SVGScriptElement extends SVGElement, SVGURIReference {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGScriptElement: undefined | { 
+declare var SVGScriptElement: PartialLibDomGlobal<'SVGScriptElement', {
   prototype: SVGScriptElement;
-  new(): SVGScriptElement; 
-};
+  new(): SVGScriptElement;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/SVGSetElement) */
 interface SVGSetElement extends SVGAnimationElement {
@@ -20353,10 +20337,10 @@ interface SVGSetElement extends SVGAnimationElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGSetElement: undefined | { 
+declare var SVGSetElement: PartialLibDomGlobal<'SVGSetElement', {
   prototype: SVGSetElement;
-  new(): SVGSetElement; 
-};
+  new(): SVGSetElement;
+}>;
 
 /**
  * Corresponds to the <stop> element.
@@ -20371,10 +20355,10 @@ interface SVGStopElement extends SVGElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGStopElement: undefined | { 
+declare var SVGStopElement: PartialLibDomGlobal<'SVGStopElement', {
   prototype: SVGStopElement;
-  new(): SVGStopElement; 
-};
+  new(): SVGStopElement;
+}>;
 
 /**
  * The SVGStringList defines a list of DOMString objects.
@@ -20394,10 +20378,10 @@ interface SVGStringList {
   [index: number]: string;
 }
 
-declare var SVGStringList: undefined | { 
+declare var SVGStringList: PartialLibDomGlobal<'SVGStringList', {
   prototype: SVGStringList;
-  new(): SVGStringList; 
-};
+  new(): SVGStringList;
+}>;
 
 /**
  * Corresponds to the SVG <style> element.
@@ -20422,10 +20406,10 @@ interface SVGStyleElement extends SVGElement, LinkStyle {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGStyleElement: undefined | { 
+declare var SVGStyleElement: PartialLibDomGlobal<'SVGStyleElement', {
   prototype: SVGStyleElement;
-  new(): SVGStyleElement; 
-};
+  new(): SVGStyleElement;
+}>;
 
 /**
  * Corresponds to the <switch> element.
@@ -20439,10 +20423,10 @@ interface SVGSwitchElement extends SVGGraphicsElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGSwitchElement: undefined | { 
+declare var SVGSwitchElement: PartialLibDomGlobal<'SVGSwitchElement', {
   prototype: SVGSwitchElement;
-  new(): SVGSwitchElement; 
-};
+  new(): SVGSwitchElement;
+}>;
 
 /**
  * Corresponds to the <symbol> element.
@@ -20456,10 +20440,10 @@ interface SVGSymbolElement extends SVGElement, SVGFitToViewBox {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGSymbolElement: undefined | { 
+declare var SVGSymbolElement: PartialLibDomGlobal<'SVGSymbolElement', {
   prototype: SVGSymbolElement;
-  new(): SVGSymbolElement; 
-};
+  new(): SVGSymbolElement;
+}>;
 
 /**
  * A <tspan> element.
@@ -20473,10 +20457,10 @@ interface SVGTSpanElement extends SVGTextPositioningElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGTSpanElement: undefined | { 
+declare var SVGTSpanElement: PartialLibDomGlobal<'SVGTSpanElement', {
   prototype: SVGTSpanElement;
-  new(): SVGTSpanElement; 
-};
+  new(): SVGTSpanElement;
+}>;
 
 interface SVGTests {
   readonly requiredExtensions: SVGStringList;
@@ -20510,13 +20494,13 @@ interface SVGTextContentElement extends SVGGraphicsElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGTextContentElement: undefined | { 
+declare var SVGTextContentElement: PartialLibDomGlobal<'SVGTextContentElement', {
   prototype: SVGTextContentElement;
   new(): SVGTextContentElement;
   readonly LENGTHADJUST_UNKNOWN: 0;
   readonly LENGTHADJUST_SPACING: 1;
-  readonly LENGTHADJUST_SPACINGANDGLYPHS: 2; 
-};
+  readonly LENGTHADJUST_SPACINGANDGLYPHS: 2;
+}>;
 
 /**
  * Corresponds to the <text> elements.
@@ -20530,10 +20514,10 @@ interface SVGTextElement extends SVGTextPositioningElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGTextElement: undefined | { 
+declare var SVGTextElement: PartialLibDomGlobal<'SVGTextElement', {
   prototype: SVGTextElement;
-  new(): SVGTextElement; 
-};
+  new(): SVGTextElement;
+}>;
 
 /**
  * Corresponds to the <textPath> element.
@@ -20556,7 +20540,7 @@ interface SVGTextPathElement extends SVGTextContentElement, SVGURIReference {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGTextPathElement: undefined | { 
+declare var SVGTextPathElement: PartialLibDomGlobal<'SVGTextPathElement', {
   prototype: SVGTextPathElement;
   new(): SVGTextPathElement;
   readonly TEXTPATH_METHODTYPE_UNKNOWN: 0;
@@ -20564,8 +20548,8 @@ declare var SVGTextPathElement: undefined | {
   readonly TEXTPATH_METHODTYPE_STRETCH: 2;
   readonly TEXTPATH_SPACINGTYPE_UNKNOWN: 0;
   readonly TEXTPATH_SPACINGTYPE_AUTO: 1;
-  readonly TEXTPATH_SPACINGTYPE_EXACT: 2; 
-};
+  readonly TEXTPATH_SPACINGTYPE_EXACT: 2;
+}>;
 
 /**
  * Implemented by elements that support attributes that position individual text glyphs. It is inherited by SVGTextElement, SVGTSpanElement, SVGTRefElement and SVGAltGlyphElement.
@@ -20584,10 +20568,10 @@ interface SVGTextPositioningElement extends SVGTextContentElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGTextPositioningElement: undefined | { 
+declare var SVGTextPositioningElement: PartialLibDomGlobal<'SVGTextPositioningElement', {
   prototype: SVGTextPositioningElement;
-  new(): SVGTextPositioningElement; 
-};
+  new(): SVGTextPositioningElement;
+}>;
 
 /**
  * Corresponds to the <title> element.
@@ -20601,10 +20585,10 @@ interface SVGTitleElement extends SVGElement {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGTitleElement: undefined | { 
+declare var SVGTitleElement: PartialLibDomGlobal<'SVGTitleElement', {
   prototype: SVGTitleElement;
-  new(): SVGTitleElement; 
-};
+  new(): SVGTitleElement;
+}>;
 
 /**
  * SVGTransform is the interface for one of the component transformations within an SVGTransformList; thus, an SVGTransform object corresponds to a single component (e.g., scale(…) or matrix(…)) within a transform attribute.
@@ -20630,7 +20614,7 @@ interface SVGTransform {
   readonly SVG_TRANSFORM_SKEWY: 6;
 }
 
-declare var SVGTransform: undefined | { 
+declare var SVGTransform: PartialLibDomGlobal<'SVGTransform', {
   prototype: SVGTransform;
   new(): SVGTransform;
   readonly SVG_TRANSFORM_UNKNOWN: 0;
@@ -20639,8 +20623,8 @@ declare var SVGTransform: undefined | {
   readonly SVG_TRANSFORM_SCALE: 3;
   readonly SVG_TRANSFORM_ROTATE: 4;
   readonly SVG_TRANSFORM_SKEWX: 5;
-  readonly SVG_TRANSFORM_SKEWY: 6; 
-};
+  readonly SVG_TRANSFORM_SKEWY: 6;
+}>;
 
 /**
  * The SVGTransformList defines a list of SVGTransform objects.
@@ -20662,10 +20646,10 @@ interface SVGTransformList {
   [index: number]: SVGTransform;
 }
 
-declare var SVGTransformList: undefined | { 
+declare var SVGTransformList: PartialLibDomGlobal<'SVGTransformList', {
   prototype: SVGTransformList;
-  new(): SVGTransformList; 
-};
+  new(): SVGTransformList;
+}>;
 
 interface SVGURIReference {
   readonly href: SVGAnimatedString;
@@ -20682,13 +20666,13 @@ interface SVGUnitTypes {
   readonly SVG_UNIT_TYPE_OBJECTBOUNDINGBOX: 2;
 }
 
-declare var SVGUnitTypes: undefined | { 
+declare var SVGUnitTypes: PartialLibDomGlobal<'SVGUnitTypes', {
   prototype: SVGUnitTypes;
   new(): SVGUnitTypes;
   readonly SVG_UNIT_TYPE_UNKNOWN: 0;
   readonly SVG_UNIT_TYPE_USERSPACEONUSE: 1;
-  readonly SVG_UNIT_TYPE_OBJECTBOUNDINGBOX: 2; 
-};
+  readonly SVG_UNIT_TYPE_OBJECTBOUNDINGBOX: 2;
+}>;
 
 /**
  * Corresponds to the <use> element.
@@ -20706,10 +20690,10 @@ interface SVGUseElement extends SVGGraphicsElement, SVGURIReference {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGUseElement: undefined | { 
+declare var SVGUseElement: PartialLibDomGlobal<'SVGUseElement', {
   prototype: SVGUseElement;
-  new(): SVGUseElement; 
-};
+  new(): SVGUseElement;
+}>;
 
 /**
  * Provides access to the properties of <view> elements, as well as methods to manipulate them.
@@ -20723,10 +20707,10 @@ interface SVGViewElement extends SVGElement, SVGFitToViewBox {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SVGViewElement: undefined | { 
+declare var SVGViewElement: PartialLibDomGlobal<'SVGViewElement', {
   prototype: SVGViewElement;
-  new(): SVGViewElement; 
-};
+  new(): SVGViewElement;
+}>;
 
 /**
  * A screen, usually the one on which the current window is being rendered, and is obtained using window.screen.
@@ -20750,10 +20734,10 @@ interface Screen {
   readonly width: number;
 }
 
-declare var Screen: undefined | { 
+declare var Screen: PartialLibDomGlobal<'Screen', {
   prototype: Screen;
-  new(): Screen; 
-};
+  new(): Screen;
+}>;
 
 interface ScreenOrientationEventMap {
   "change": Event;
@@ -20775,10 +20759,10 @@ interface ScreenOrientation extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var ScreenOrientation: undefined | { 
+declare var ScreenOrientation: PartialLibDomGlobal<'ScreenOrientation', {
   prototype: ScreenOrientation;
-  new(): ScreenOrientation; 
-};
+  new(): ScreenOrientation;
+}>;
 
 interface ScriptProcessorNodeEventMap {
   "audioprocess": AudioProcessingEvent;
@@ -20810,11 +20794,10 @@ interface ScriptProcessorNode extends AudioNode {
 }
 
 /** @deprecated */
-
-declare var ScriptProcessorNode: undefined | { 
+declare var ScriptProcessorNode: PartialLibDomGlobal<'ScriptProcessorNode', {
   prototype: ScriptProcessorNode;
-  new(): ScriptProcessorNode; 
-};
+  new(): ScriptProcessorNode;
+}>;
 
 /**
  * Inherits from Event, and represents the event object of an event sent on a document or worker when its content security policy is violated.
@@ -20848,10 +20831,10 @@ interface SecurityPolicyViolationEvent extends Event {
   readonly violatedDirective: string;
 }
 
-declare var SecurityPolicyViolationEvent: undefined | { 
+declare var SecurityPolicyViolationEvent: PartialLibDomGlobal<'SecurityPolicyViolationEvent', {
   prototype: SecurityPolicyViolationEvent;
-  new(type: string, eventInitDict?: SecurityPolicyViolationEventInit): SecurityPolicyViolationEvent; 
-};
+  new(type: string, eventInitDict?: SecurityPolicyViolationEventInit): SecurityPolicyViolationEvent;
+}>;
 
 /**
  * A Selection object represents the range of text selected by the user or the current position of the caret. To obtain a Selection object for examination or modification, call Window.getSelection().
@@ -20908,10 +20891,10 @@ interface Selection {
   toString(): string;
 }
 
-declare var Selection: undefined | { 
+declare var Selection: PartialLibDomGlobal<'Selection', {
   prototype: Selection;
-  new(): Selection; 
-};
+  new(): Selection;
+}>;
 
 interface ServiceWorkerEventMap extends AbstractWorkerEventMap {
   "statechange": Event;
@@ -20939,10 +20922,10 @@ interface ServiceWorker extends EventTarget, AbstractWorker {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var ServiceWorker: undefined | { 
+declare var ServiceWorker: PartialLibDomGlobal<'ServiceWorker', {
   prototype: ServiceWorker;
-  new(): ServiceWorker; 
-};
+  new(): ServiceWorker;
+}>;
 
 interface ServiceWorkerContainerEventMap {
   "controllerchange": Event;
@@ -20981,10 +20964,10 @@ interface ServiceWorkerContainer extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var ServiceWorkerContainer: undefined | { 
+declare var ServiceWorkerContainer: PartialLibDomGlobal<'ServiceWorkerContainer', {
   prototype: ServiceWorkerContainer;
-  new(): ServiceWorkerContainer; 
-};
+  new(): ServiceWorkerContainer;
+}>;
 
 interface ServiceWorkerRegistrationEventMap {
   "updatefound": Event;
@@ -21027,10 +21010,10 @@ interface ServiceWorkerRegistration extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var ServiceWorkerRegistration: undefined | { 
+declare var ServiceWorkerRegistration: PartialLibDomGlobal<'ServiceWorkerRegistration', {
   prototype: ServiceWorkerRegistration;
-  new(): ServiceWorkerRegistration; 
-};
+  new(): ServiceWorkerRegistration;
+}>;
 
 interface ShadowRootEventMap {
   "slotchange": Event;
@@ -21064,10 +21047,10 @@ interface ShadowRoot extends DocumentFragment, DocumentOrShadowRoot {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var ShadowRoot: undefined | { 
+declare var ShadowRoot: PartialLibDomGlobal<'ShadowRoot', {
   prototype: ShadowRoot;
-  new(): ShadowRoot; 
-};
+  new(): ShadowRoot;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/SharedWorker) */
 interface SharedWorker extends EventTarget, AbstractWorker {
@@ -21083,10 +21066,10 @@ interface SharedWorker extends EventTarget, AbstractWorker {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SharedWorker: undefined | { 
+declare var SharedWorker: PartialLibDomGlobal<'SharedWorker', {
   prototype: SharedWorker;
-  new(scriptURL: string | URL, options?: string | WorkerOptions): SharedWorker; 
-};
+  new(scriptURL: string | URL, options?: string | WorkerOptions): SharedWorker;
+}>;
 
 interface Slottable {
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/assignedSlot) */
@@ -21138,10 +21121,10 @@ interface SourceBuffer extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SourceBuffer: undefined | { 
+declare var SourceBuffer: PartialLibDomGlobal<'SourceBuffer', {
   prototype: SourceBuffer;
-  new(): SourceBuffer; 
-};
+  new(): SourceBuffer;
+}>;
 
 interface SourceBufferListEventMap {
   "addsourcebuffer": Event;
@@ -21165,10 +21148,10 @@ interface SourceBufferList extends EventTarget {
   [index: number]: SourceBuffer;
 }
 
-declare var SourceBufferList: undefined | { 
+declare var SourceBufferList: PartialLibDomGlobal<'SourceBufferList', {
   prototype: SourceBufferList;
-  new(): SourceBufferList; 
-};
+  new(): SourceBufferList;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/SpeechRecognitionAlternative) */
 interface SpeechRecognitionAlternative {
@@ -21178,10 +21161,10 @@ interface SpeechRecognitionAlternative {
   readonly transcript: string;
 }
 
-declare var SpeechRecognitionAlternative: undefined | { 
+declare var SpeechRecognitionAlternative: PartialLibDomGlobal<'SpeechRecognitionAlternative', {
   prototype: SpeechRecognitionAlternative;
-  new(): SpeechRecognitionAlternative; 
-};
+  new(): SpeechRecognitionAlternative;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/SpeechRecognitionResult) */
 interface SpeechRecognitionResult {
@@ -21194,10 +21177,10 @@ interface SpeechRecognitionResult {
   [index: number]: SpeechRecognitionAlternative;
 }
 
-declare var SpeechRecognitionResult: undefined | { 
+declare var SpeechRecognitionResult: PartialLibDomGlobal<'SpeechRecognitionResult', {
   prototype: SpeechRecognitionResult;
-  new(): SpeechRecognitionResult; 
-};
+  new(): SpeechRecognitionResult;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/SpeechRecognitionResultList) */
 interface SpeechRecognitionResultList {
@@ -21208,10 +21191,10 @@ interface SpeechRecognitionResultList {
   [index: number]: SpeechRecognitionResult;
 }
 
-declare var SpeechRecognitionResultList: undefined | { 
+declare var SpeechRecognitionResultList: PartialLibDomGlobal<'SpeechRecognitionResultList', {
   prototype: SpeechRecognitionResultList;
-  new(): SpeechRecognitionResultList; 
-};
+  new(): SpeechRecognitionResultList;
+}>;
 
 interface SpeechSynthesisEventMap {
   "voiceschanged": Event;
@@ -21247,10 +21230,10 @@ interface SpeechSynthesis extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SpeechSynthesis: undefined | { 
+declare var SpeechSynthesis: PartialLibDomGlobal<'SpeechSynthesis', {
   prototype: SpeechSynthesis;
-  new(): SpeechSynthesis; 
-};
+  new(): SpeechSynthesis;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/SpeechSynthesisErrorEvent) */
 interface SpeechSynthesisErrorEvent extends SpeechSynthesisEvent {
@@ -21258,10 +21241,10 @@ interface SpeechSynthesisErrorEvent extends SpeechSynthesisEvent {
   readonly error: SpeechSynthesisErrorCode;
 }
 
-declare var SpeechSynthesisErrorEvent: undefined | { 
+declare var SpeechSynthesisErrorEvent: PartialLibDomGlobal<'SpeechSynthesisErrorEvent', {
   prototype: SpeechSynthesisErrorEvent;
-  new(type: string, eventInitDict: SpeechSynthesisErrorEventInit): SpeechSynthesisErrorEvent; 
-};
+  new(type: string, eventInitDict: SpeechSynthesisErrorEventInit): SpeechSynthesisErrorEvent;
+}>;
 
 /**
  * This Web Speech API interface contains information about the current state of SpeechSynthesisUtterance objects that have been processed in the speech service.
@@ -21281,10 +21264,10 @@ interface SpeechSynthesisEvent extends Event {
   readonly utterance: SpeechSynthesisUtterance;
 }
 
-declare var SpeechSynthesisEvent: undefined | { 
+declare var SpeechSynthesisEvent: PartialLibDomGlobal<'SpeechSynthesisEvent', {
   prototype: SpeechSynthesisEvent;
-  new(type: string, eventInitDict: SpeechSynthesisEventInit): SpeechSynthesisEvent; 
-};
+  new(type: string, eventInitDict: SpeechSynthesisEventInit): SpeechSynthesisEvent;
+}>;
 
 interface SpeechSynthesisUtteranceEventMap {
   "boundary": SpeechSynthesisEvent;
@@ -21334,10 +21317,10 @@ interface SpeechSynthesisUtterance extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var SpeechSynthesisUtterance: undefined | { 
+declare var SpeechSynthesisUtterance: PartialLibDomGlobal<'SpeechSynthesisUtterance', {
   prototype: SpeechSynthesisUtterance;
-  new(text?: string): SpeechSynthesisUtterance; 
-};
+  new(text?: string): SpeechSynthesisUtterance;
+}>;
 
 /**
  * This Web Speech API interface represents a voice that the system supports. Every SpeechSynthesisVoice has its own relative speech service including information about language, name and URI.
@@ -21357,19 +21340,19 @@ interface SpeechSynthesisVoice {
   readonly voiceURI: string;
 }
 
-declare var SpeechSynthesisVoice: undefined | { 
+declare var SpeechSynthesisVoice: PartialLibDomGlobal<'SpeechSynthesisVoice', {
   prototype: SpeechSynthesisVoice;
-  new(): SpeechSynthesisVoice; 
-};
+  new(): SpeechSynthesisVoice;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/StaticRange) */
 interface StaticRange extends AbstractRange {
 }
 
-declare var StaticRange: undefined | { 
+declare var StaticRange: PartialLibDomGlobal<'StaticRange', {
   prototype: StaticRange;
-  new(init: StaticRangeInit): StaticRange; 
-};
+  new(init: StaticRangeInit): StaticRange;
+}>;
 
 /**
  * The pan property takes a unitless value between -1 (full left pan) and 1 (full right pan). This interface was introduced as a much simpler way to apply a simple panning effect than having to use a full PannerNode.
@@ -21381,10 +21364,10 @@ interface StereoPannerNode extends AudioNode {
   readonly pan: AudioParam;
 }
 
-declare var StereoPannerNode: undefined | { 
+declare var StereoPannerNode: PartialLibDomGlobal<'StereoPannerNode', {
   prototype: StereoPannerNode;
-  new(context: BaseAudioContext, options?: StereoPannerOptions): StereoPannerNode; 
-};
+  new(context: BaseAudioContext, options?: StereoPannerOptions): StereoPannerNode;
+}>;
 
 /**
  * This Web Storage API interface provides access to a particular domain's session or local storage. It allows, for example, the addition, modification, or deletion of stored data items.
@@ -21439,10 +21422,10 @@ interface Storage {
   [name: string]: any;
 }
 
-declare var Storage: undefined | { 
+declare var Storage: PartialLibDomGlobal<'Storage', {
   prototype: Storage;
-  new(): Storage; 
-};
+  new(): Storage;
+}>;
 
 /**
  * A StorageEvent is sent to a window when a storage area it has access to is changed within the context of another document.
@@ -21488,10 +21471,10 @@ interface StorageEvent extends Event {
   initStorageEvent(type: string, bubbles?: boolean, cancelable?: boolean, key?: string | null, oldValue?: string | null, newValue?: string | null, url?: string | URL, storageArea?: Storage | null): void;
 }
 
-declare var StorageEvent: undefined | { 
+declare var StorageEvent: PartialLibDomGlobal<'StorageEvent', {
   prototype: StorageEvent;
-  new(type: string, eventInitDict?: StorageEventInit): StorageEvent; 
-};
+  new(type: string, eventInitDict?: StorageEventInit): StorageEvent;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -21509,10 +21492,10 @@ interface StorageManager {
   persisted(): Promise<boolean>;
 }
 
-declare var StorageManager: undefined | { 
+declare var StorageManager: PartialLibDomGlobal<'StorageManager', {
   prototype: StorageManager;
-  new(): StorageManager; 
-};
+  new(): StorageManager;
+}>;
 
 /** @deprecated */
 interface StyleMedia {
@@ -21532,10 +21515,10 @@ interface StylePropertyMap extends StylePropertyMapReadOnly {
   set(property: string, ...values: (CSSStyleValue | string)[]): void;
 }
 
-declare var StylePropertyMap: undefined | { 
+declare var StylePropertyMap: PartialLibDomGlobal<'StylePropertyMap', {
   prototype: StylePropertyMap;
-  new(): StylePropertyMap; 
-};
+  new(): StylePropertyMap;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/StylePropertyMapReadOnly) */
 interface StylePropertyMapReadOnly {
@@ -21550,10 +21533,10 @@ interface StylePropertyMapReadOnly {
   forEach(callbackfn: (value: CSSStyleValue[], key: string, parent: StylePropertyMapReadOnly) => void, thisArg?: any): void;
 }
 
-declare var StylePropertyMapReadOnly: undefined | { 
+declare var StylePropertyMapReadOnly: PartialLibDomGlobal<'StylePropertyMapReadOnly', {
   prototype: StylePropertyMapReadOnly;
-  new(): StylePropertyMapReadOnly; 
-};
+  new(): StylePropertyMapReadOnly;
+}>;
 
 /**
  * A single style sheet. CSS style sheets will further implement the more specialized CSSStyleSheet interface.
@@ -21577,10 +21560,10 @@ interface StyleSheet {
   readonly type: string;
 }
 
-declare var StyleSheet: undefined | { 
+declare var StyleSheet: PartialLibDomGlobal<'StyleSheet', {
   prototype: StyleSheet;
-  new(): StyleSheet; 
-};
+  new(): StyleSheet;
+}>;
 
 /**
  * A list of StyleSheet.
@@ -21595,10 +21578,10 @@ interface StyleSheetList {
   [index: number]: CSSStyleSheet;
 }
 
-declare var StyleSheetList: undefined | { 
+declare var StyleSheetList: PartialLibDomGlobal<'StyleSheetList', {
   prototype: StyleSheetList;
-  new(): StyleSheetList; 
-};
+  new(): StyleSheetList;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/SubmitEvent) */
 interface SubmitEvent extends Event {
@@ -21610,10 +21593,10 @@ interface SubmitEvent extends Event {
   readonly submitter: HTMLElement | null;
 }
 
-declare var SubmitEvent: undefined | { 
+declare var SubmitEvent: PartialLibDomGlobal<'SubmitEvent', {
   prototype: SubmitEvent;
-  new(type: string, eventInitDict?: SubmitEventInit): SubmitEvent; 
-};
+  new(type: string, eventInitDict?: SubmitEventInit): SubmitEvent;
+}>;
 
 /**
  * This Web Crypto API interface provides a number of low-level cryptographic functions. It is accessed via the Crypto.subtle properties available in a window context (via Window.crypto).
@@ -21654,10 +21637,10 @@ interface SubtleCrypto {
   wrapKey(format: KeyFormat, key: CryptoKey, wrappingKey: CryptoKey, wrapAlgorithm: AlgorithmIdentifier | RsaOaepParams | AesCtrParams | AesCbcParams | AesGcmParams): Promise<ArrayBuffer>;
 }
 
-declare var SubtleCrypto: { 
+declare var SubtleCrypto: PartialLibDomNodeGlobal<'SubtleCrypto', {
   prototype: SubtleCrypto;
-  new(): SubtleCrypto; 
-};
+  new(): SubtleCrypto;
+}>;
 
 /**
  * The textual content of Element or Attr. If an element has no markup within its content, it has a single child implementing Text that contains the element's text. However, if the element contains markup, it is parsed into information items and Text nodes that form its children.
@@ -21679,10 +21662,10 @@ interface Text extends CharacterData, Slottable {
   splitText(offset: number): Text;
 }
 
-declare var Text: undefined | { 
+declare var Text: PartialLibDomGlobal<'Text', {
   prototype: Text;
-  new(data?: string): Text; 
-};
+  new(data?: string): Text;
+}>;
 
 /**
  * A decoder for a specific method, that is a specific character encoding, like utf-8, iso-8859-2, koi8, cp1261, gbk, etc. A decoder takes a stream of bytes as input and emits a stream of code points. For a more scalable, non-native library, see StringView – a C-like representation of strings based on typed arrays.
@@ -21708,10 +21691,10 @@ interface TextDecoder extends TextDecoderCommon {
   decode(input?: AllowSharedBufferSource, options?: TextDecodeOptions): string;
 }
 
-declare var TextDecoder: { 
+declare var TextDecoder: PartialLibDomNodeGlobal<'TextDecoder', {
   prototype: TextDecoder;
-  new(label?: string, options?: TextDecoderOptions): TextDecoder; 
-};
+  new(label?: string, options?: TextDecoderOptions): TextDecoder;
+}>;
 
 interface TextDecoderCommon {
   /**
@@ -21740,10 +21723,10 @@ interface TextDecoderStream extends GenericTransformStream, TextDecoderCommon {
   readonly writable: WritableStream<BufferSource>;
 }
 
-declare var TextDecoderStream: { 
+declare var TextDecoderStream: PartialLibDomNodeGlobal<'TextDecoderStream', {
   prototype: TextDecoderStream;
-  new(label?: string, options?: TextDecoderOptions): TextDecoderStream; 
-};
+  new(label?: string, options?: TextDecoderOptions): TextDecoderStream;
+}>;
 
 /**
  * TextEncoder takes a stream of code points as input and emits a stream of bytes. For a more scalable, non-native library, see StringView – a C-like representation of strings based on typed arrays.
@@ -21765,10 +21748,10 @@ interface TextEncoder extends TextEncoderCommon {
   encodeInto(source: string, destination: Uint8Array): TextEncoderEncodeIntoResult;
 }
 
-declare var TextEncoder: { 
+declare var TextEncoder: PartialLibDomNodeGlobal<'TextEncoder', {
   prototype: TextEncoder;
-  new(): TextEncoder; 
-};
+  new(): TextEncoder;
+}>;
 
 interface TextEncoderCommon {
   /**
@@ -21785,20 +21768,20 @@ interface TextEncoderStream extends GenericTransformStream, TextEncoderCommon {
   readonly writable: WritableStream<string>;
 }
 
-declare var TextEncoderStream: { 
+declare var TextEncoderStream: PartialLibDomNodeGlobal<'TextEncoderStream', {
   prototype: TextEncoderStream;
-  new(): TextEncoderStream; 
-};
+  new(): TextEncoderStream;
+}>;
 
 interface TextEvent extends UIEvent {
   readonly data: string;
   initTextEvent(type: string, bubbles?: boolean, cancelable?: boolean, view?: Window | null, data?: string): void;
 }
 
-declare var TextEvent: undefined | { 
+declare var TextEvent: PartialLibDomGlobal<'TextEvent', {
   prototype: TextEvent;
-  new(): TextEvent; 
-};
+  new(): TextEvent;
+}>;
 
 /**
  * The dimensions of a piece of text in the canvas, as created by the CanvasRenderingContext2D.measureText() method.
@@ -21880,10 +21863,10 @@ interface TextMetrics {
   readonly width: number;
 }
 
-declare var TextMetrics: undefined | { 
+declare var TextMetrics: PartialLibDomGlobal<'TextMetrics', {
   prototype: TextMetrics;
-  new(): TextMetrics; 
-};
+  new(): TextMetrics;
+}>;
 
 interface TextTrackEventMap {
   "cuechange": Event;
@@ -21969,10 +21952,10 @@ interface TextTrack extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var TextTrack: undefined | { 
+declare var TextTrack: PartialLibDomGlobal<'TextTrack', {
   prototype: TextTrack;
-  new(): TextTrack; 
-};
+  new(): TextTrack;
+}>;
 
 interface TextTrackCueEventMap {
   "enter": Event;
@@ -22033,10 +22016,10 @@ interface TextTrackCue extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var TextTrackCue: undefined | { 
+declare var TextTrackCue: PartialLibDomGlobal<'TextTrackCue', {
   prototype: TextTrackCue;
-  new(): TextTrackCue; 
-};
+  new(): TextTrackCue;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/TextTrackCueList) */
 interface TextTrackCueList {
@@ -22057,10 +22040,10 @@ interface TextTrackCueList {
   [index: number]: TextTrackCue;
 }
 
-declare var TextTrackCueList: undefined | { 
+declare var TextTrackCueList: PartialLibDomGlobal<'TextTrackCueList', {
   prototype: TextTrackCueList;
-  new(): TextTrackCueList; 
-};
+  new(): TextTrackCueList;
+}>;
 
 interface TextTrackListEventMap {
   "addtrack": TrackEvent;
@@ -22087,10 +22070,10 @@ interface TextTrackList extends EventTarget {
   [index: number]: TextTrack;
 }
 
-declare var TextTrackList: undefined | { 
+declare var TextTrackList: PartialLibDomGlobal<'TextTrackList', {
   prototype: TextTrackList;
-  new(): TextTrackList; 
-};
+  new(): TextTrackList;
+}>;
 
 /**
  * Used to represent a set of time ranges, primarily for the purpose of tracking which portions of media have been buffered when loading it for use by the <audio> and <video> elements.
@@ -22122,10 +22105,10 @@ interface TimeRanges {
   start(index: number): number;
 }
 
-declare var TimeRanges: undefined | { 
+declare var TimeRanges: PartialLibDomGlobal<'TimeRanges', {
   prototype: TimeRanges;
-  new(): TimeRanges; 
-};
+  new(): TimeRanges;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/ToggleEvent) */
 interface ToggleEvent extends Event {
@@ -22135,10 +22118,10 @@ interface ToggleEvent extends Event {
   readonly oldState: string;
 }
 
-declare var ToggleEvent: undefined | { 
+declare var ToggleEvent: PartialLibDomGlobal<'ToggleEvent', {
   prototype: ToggleEvent;
-  new(type: string, eventInitDict?: ToggleEventInit): ToggleEvent; 
-};
+  new(type: string, eventInitDict?: ToggleEventInit): ToggleEvent;
+}>;
 
 /**
  * A single contact point on a touch-sensitive device. The contact point is commonly a finger or stylus and the device may be a touchscreen or trackpad.
@@ -22172,10 +22155,10 @@ interface Touch {
   readonly target: EventTarget;
 }
 
-declare var Touch: undefined | { 
+declare var Touch: PartialLibDomGlobal<'Touch', {
   prototype: Touch;
-  new(touchInitDict: TouchInit): Touch; 
-};
+  new(touchInitDict: TouchInit): Touch;
+}>;
 
 /**
  * An event sent when the state of contacts with a touch-sensitive surface changes. This surface can be a touch screen or trackpad, for example. The event can describe one or more points of contact with the screen and includes support for detecting movement, addition and removal of contact points, and so forth.
@@ -22199,10 +22182,10 @@ interface TouchEvent extends UIEvent {
   readonly touches: TouchList;
 }
 
-declare var TouchEvent: undefined | { 
+declare var TouchEvent: PartialLibDomGlobal<'TouchEvent', {
   prototype: TouchEvent;
-  new(type: string, eventInitDict?: TouchEventInit): TouchEvent; 
-};
+  new(type: string, eventInitDict?: TouchEventInit): TouchEvent;
+}>;
 
 /**
  * A list of contact points on a touch surface. For example, if the user has three fingers on the touch surface (such as a screen or trackpad), the corresponding TouchList object would have one Touch object for each finger, for a total of three entries.
@@ -22217,10 +22200,10 @@ interface TouchList {
   [index: number]: Touch;
 }
 
-declare var TouchList: undefined | { 
+declare var TouchList: PartialLibDomGlobal<'TouchList', {
   prototype: TouchList;
-  new(): TouchList; 
-};
+  new(): TouchList;
+}>;
 
 /**
  * The TrackEvent interface, part of the HTML DOM specification, is used for events which represent changes to the set of available tracks on an HTML media element; these events are addtrack and removetrack.
@@ -22236,10 +22219,10 @@ interface TrackEvent extends Event {
   readonly track: TextTrack | null;
 }
 
-declare var TrackEvent: undefined | { 
+declare var TrackEvent: PartialLibDomGlobal<'TrackEvent', {
   prototype: TrackEvent;
-  new(type: string, eventInitDict?: TrackEventInit): TrackEvent; 
-};
+  new(type: string, eventInitDict?: TrackEventInit): TrackEvent;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/TransformStream) */
 interface TransformStream<I = any, O = any> {
@@ -22249,10 +22232,10 @@ interface TransformStream<I = any, O = any> {
   readonly writable: WritableStream<I>;
 }
 
-declare var TransformStream: { 
+declare var TransformStream: PartialLibDomNodeGlobal<'TransformStream', {
   prototype: TransformStream;
-  new<I = any, O = any>(transformer?: Transformer<I, O>, writableStrategy?: QueuingStrategy<I>, readableStrategy?: QueuingStrategy<O>): TransformStream<I, O>; 
-};
+  new<I = any, O = any>(transformer?: Transformer<I, O>, writableStrategy?: QueuingStrategy<I>, readableStrategy?: QueuingStrategy<O>): TransformStream<I, O>;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/TransformStreamDefaultController) */
 interface TransformStreamDefaultController<O = any> {
@@ -22266,10 +22249,10 @@ interface TransformStreamDefaultController<O = any> {
   terminate(): void;
 }
 
-declare var TransformStreamDefaultController: { 
+declare var TransformStreamDefaultController: PartialLibDomNodeGlobal<'TransformStreamDefaultController', {
   prototype: TransformStreamDefaultController;
-  new(): TransformStreamDefaultController; 
-};
+  new(): TransformStreamDefaultController;
+}>;
 
 /**
  * Events providing information related to transitions.
@@ -22285,10 +22268,10 @@ interface TransitionEvent extends Event {
   readonly pseudoElement: string;
 }
 
-declare var TransitionEvent: undefined | { 
+declare var TransitionEvent: PartialLibDomGlobal<'TransitionEvent', {
   prototype: TransitionEvent;
-  new(type: string, transitionEventInitDict?: TransitionEventInit): TransitionEvent; 
-};
+  new(type: string, transitionEventInitDict?: TransitionEventInit): TransitionEvent;
+}>;
 
 /**
  * The nodes of a document subtree and a position within them.
@@ -22320,10 +22303,10 @@ interface TreeWalker {
   previousSibling(): Node | null;
 }
 
-declare var TreeWalker: undefined | { 
+declare var TreeWalker: PartialLibDomGlobal<'TreeWalker', {
   prototype: TreeWalker;
-  new(): TreeWalker; 
-};
+  new(): TreeWalker;
+}>;
 
 /**
  * Simple user interface events.
@@ -22349,10 +22332,10 @@ interface UIEvent extends Event {
   initUIEvent(typeArg: string, bubblesArg?: boolean, cancelableArg?: boolean, viewArg?: Window | null, detailArg?: number): void;
 }
 
-declare var UIEvent: undefined | { 
+declare var UIEvent: PartialLibDomGlobal<'UIEvent', {
   prototype: UIEvent;
-  new(type: string, eventInitDict?: UIEventInit): UIEvent; 
-};
+  new(type: string, eventInitDict?: UIEventInit): UIEvent;
+}>;
 
 /**
  * The URL interface represents an object providing static methods used for creating object URLs.
@@ -22389,7 +22372,7 @@ interface URL {
   toJSON(): string;
 }
 
-declare var URL: { 
+declare var URL: PartialLibDomNodeGlobal<'URL', {
   prototype: URL;
   new(url: string | URL, base?: string | URL): URL;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/URL/canParse_static) */
@@ -22399,11 +22382,11 @@ declare var URL: {
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/URL/parse_static) */
   parse(url: string | URL, base?: string | URL): URL | null;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/URL/revokeObjectURL_static) */
-  revokeObjectURL(url: string): void; 
-};
+  revokeObjectURL(url: string): void;
+}>;
 
 type webkitURL = URL;
-declare var webkitURL: undefined | typeof URL;
+declare var webkitURL: PartialLibDomGlobal<'webkitURL', typeof URL>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/URLSearchParams) */
 interface URLSearchParams {
@@ -22452,10 +22435,10 @@ interface URLSearchParams {
   forEach(callbackfn: (value: string, key: string, parent: URLSearchParams) => void, thisArg?: any): void;
 }
 
-declare var URLSearchParams: { 
+declare var URLSearchParams: PartialLibDomNodeGlobal<'URLSearchParams', {
   prototype: URLSearchParams;
-  new(init?: string[][] | Record<string, string> | string | URLSearchParams): URLSearchParams; 
-};
+  new(init?: string[][] | Record<string, string> | string | URLSearchParams): URLSearchParams;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/UserActivation) */
 interface UserActivation {
@@ -22465,10 +22448,10 @@ interface UserActivation {
   readonly isActive: boolean;
 }
 
-declare var UserActivation: undefined | { 
+declare var UserActivation: PartialLibDomGlobal<'UserActivation', {
   prototype: UserActivation;
-  new(): UserActivation; 
-};
+  new(): UserActivation;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/VTTCue) */
 interface VTTCue extends TextTrackCue {
@@ -22500,10 +22483,10 @@ interface VTTCue extends TextTrackCue {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var VTTCue: undefined | { 
+declare var VTTCue: PartialLibDomGlobal<'VTTCue', {
   prototype: VTTCue;
-  new(startTime: number, endTime: number, text: string): VTTCue; 
-};
+  new(startTime: number, endTime: number, text: string): VTTCue;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/VTTRegion) */
 interface VTTRegion {
@@ -22517,10 +22500,10 @@ interface VTTRegion {
   width: number;
 }
 
-declare var VTTRegion: undefined | { 
+declare var VTTRegion: PartialLibDomGlobal<'VTTRegion', {
   prototype: VTTRegion;
-  new(): VTTRegion; 
-};
+  new(): VTTRegion;
+}>;
 
 /**
  * The validity states that an element can be in, with respect to constraint validation. Together, they help explain why an element's value fails to validate, if it's not valid.
@@ -22550,10 +22533,10 @@ interface ValidityState {
   readonly valueMissing: boolean;
 }
 
-declare var ValidityState: undefined | { 
+declare var ValidityState: PartialLibDomGlobal<'ValidityState', {
   prototype: ValidityState;
-  new(): ValidityState; 
-};
+  new(): ValidityState;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/VideoColorSpace) */
 interface VideoColorSpace {
@@ -22569,10 +22552,10 @@ interface VideoColorSpace {
   toJSON(): VideoColorSpaceInit;
 }
 
-declare var VideoColorSpace: undefined | { 
+declare var VideoColorSpace: PartialLibDomGlobal<'VideoColorSpace', {
   prototype: VideoColorSpace;
-  new(init?: VideoColorSpaceInit): VideoColorSpace; 
-};
+  new(init?: VideoColorSpaceInit): VideoColorSpace;
+}>;
 
 interface VideoDecoderEventMap {
   "dequeue": Event;
@@ -22606,12 +22589,12 @@ interface VideoDecoder extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var VideoDecoder: undefined | { 
+declare var VideoDecoder: PartialLibDomGlobal<'VideoDecoder', {
   prototype: VideoDecoder;
   new(init: VideoDecoderInit): VideoDecoder;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/VideoDecoder/isConfigSupported_static) */
-  isConfigSupported(config: VideoDecoderConfig): Promise<VideoDecoderSupport>; 
-};
+  isConfigSupported(config: VideoDecoderConfig): Promise<VideoDecoderSupport>;
+}>;
 
 interface VideoEncoderEventMap {
   "dequeue": Event;
@@ -22645,12 +22628,12 @@ interface VideoEncoder extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var VideoEncoder: undefined | { 
+declare var VideoEncoder: PartialLibDomGlobal<'VideoEncoder', {
   prototype: VideoEncoder;
   new(init: VideoEncoderInit): VideoEncoder;
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/VideoEncoder/isConfigSupported_static) */
-  isConfigSupported(config: VideoEncoderConfig): Promise<VideoEncoderSupport>; 
-};
+  isConfigSupported(config: VideoEncoderConfig): Promise<VideoEncoderSupport>;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/VideoFrame) */
 interface VideoFrame {
@@ -22684,11 +22667,11 @@ interface VideoFrame {
   copyTo(destination: AllowSharedBufferSource, options?: VideoFrameCopyToOptions): Promise<PlaneLayout[]>;
 }
 
-declare var VideoFrame: undefined | { 
+declare var VideoFrame: PartialLibDomGlobal<'VideoFrame', {
   prototype: VideoFrame;
   new(image: CanvasImageSource, init?: VideoFrameInit): VideoFrame;
-  new(data: AllowSharedBufferSource, init: VideoFrameBufferInit): VideoFrame; 
-};
+  new(data: AllowSharedBufferSource, init: VideoFrameBufferInit): VideoFrame;
+}>;
 
 /**
  * Returned by the HTMLVideoElement.getVideoPlaybackQuality() method and contains metrics that can be used to determine the playback quality of a video.
@@ -22710,10 +22693,10 @@ interface VideoPlaybackQuality {
   readonly totalVideoFrames: number;
 }
 
-declare var VideoPlaybackQuality: undefined | { 
+declare var VideoPlaybackQuality: PartialLibDomGlobal<'VideoPlaybackQuality', {
   prototype: VideoPlaybackQuality;
-  new(): VideoPlaybackQuality; 
-};
+  new(): VideoPlaybackQuality;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/ViewTransition) */
 interface ViewTransition {
@@ -22727,10 +22710,10 @@ interface ViewTransition {
   skipTransition(): void;
 }
 
-declare var ViewTransition: undefined | { 
+declare var ViewTransition: PartialLibDomGlobal<'ViewTransition', {
   prototype: ViewTransition;
-  new(): ViewTransition; 
-};
+  new(): ViewTransition;
+}>;
 
 interface VisualViewportEventMap {
   "resize": Event;
@@ -22763,10 +22746,10 @@ interface VisualViewport extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var VisualViewport: undefined | { 
+declare var VisualViewport: PartialLibDomGlobal<'VisualViewport', {
   prototype: VisualViewport;
-  new(): VisualViewport; 
-};
+  new(): VisualViewport;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/WEBGL_color_buffer_float) */
 interface WEBGL_color_buffer_float {
@@ -22951,10 +22934,10 @@ interface WakeLock {
   request(type?: WakeLockType): Promise<WakeLockSentinel>;
 }
 
-declare var WakeLock: undefined | { 
+declare var WakeLock: PartialLibDomGlobal<'WakeLock', {
   prototype: WakeLock;
-  new(): WakeLock; 
-};
+  new(): WakeLock;
+}>;
 
 interface WakeLockSentinelEventMap {
   "release": Event;
@@ -22980,10 +22963,10 @@ interface WakeLockSentinel extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var WakeLockSentinel: undefined | { 
+declare var WakeLockSentinel: PartialLibDomGlobal<'WakeLockSentinel', {
   prototype: WakeLockSentinel;
-  new(): WakeLockSentinel; 
-};
+  new(): WakeLockSentinel;
+}>;
 
 /**
  * A WaveShaperNode always has exactly one input and one output.
@@ -22997,16 +22980,16 @@ interface WaveShaperNode extends AudioNode {
   oversample: OverSampleType;
 }
 
-declare var WaveShaperNode: undefined | { 
+declare var WaveShaperNode: PartialLibDomGlobal<'WaveShaperNode', {
   prototype: WaveShaperNode;
-  new(context: BaseAudioContext, options?: WaveShaperOptions): WaveShaperNode; 
-};
+  new(context: BaseAudioContext, options?: WaveShaperOptions): WaveShaperNode;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/WebGL2RenderingContext) */
 interface WebGL2RenderingContext extends WebGL2RenderingContextBase, WebGL2RenderingContextOverloads, WebGLRenderingContextBase {
 }
 
-declare var WebGL2RenderingContext: undefined | { 
+declare var WebGL2RenderingContext: PartialLibDomGlobal<'WebGL2RenderingContext', {
   prototype: WebGL2RenderingContext;
   new(): WebGL2RenderingContext;
   readonly READ_BUFFER: 0x0C02;
@@ -23567,8 +23550,8 @@ declare var WebGL2RenderingContext: undefined | {
   readonly UNPACK_PREMULTIPLY_ALPHA_WEBGL: 0x9241;
   readonly CONTEXT_LOST_WEBGL: 0x9242;
   readonly UNPACK_COLORSPACE_CONVERSION_WEBGL: 0x9243;
-  readonly BROWSER_DEFAULT_WEBGL: 0x9244; 
-};
+  readonly BROWSER_DEFAULT_WEBGL: 0x9244;
+}>;
 
 interface WebGL2RenderingContextBase {
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/WebGL2RenderingContext/beginQuery) */
@@ -24086,10 +24069,10 @@ interface WebGLActiveInfo {
   readonly type: GLenum;
 }
 
-declare var WebGLActiveInfo: undefined | { 
+declare var WebGLActiveInfo: PartialLibDomGlobal<'WebGLActiveInfo', {
   prototype: WebGLActiveInfo;
-  new(): WebGLActiveInfo; 
-};
+  new(): WebGLActiveInfo;
+}>;
 
 /**
  * Part of the WebGL API and represents an opaque buffer object storing data such as vertices or colors.
@@ -24099,10 +24082,10 @@ declare var WebGLActiveInfo: undefined | {
 interface WebGLBuffer {
 }
 
-declare var WebGLBuffer: undefined | { 
+declare var WebGLBuffer: PartialLibDomGlobal<'WebGLBuffer', {
   prototype: WebGLBuffer;
-  new(): WebGLBuffer; 
-};
+  new(): WebGLBuffer;
+}>;
 
 /**
  * The WebContextEvent interface is part of the WebGL API and is an interface for an event that is generated in response to a status change to the WebGL rendering context.
@@ -24114,10 +24097,10 @@ interface WebGLContextEvent extends Event {
   readonly statusMessage: string;
 }
 
-declare var WebGLContextEvent: undefined | { 
+declare var WebGLContextEvent: PartialLibDomGlobal<'WebGLContextEvent', {
   prototype: WebGLContextEvent;
-  new(type: string, eventInit?: WebGLContextEventInit): WebGLContextEvent; 
-};
+  new(type: string, eventInit?: WebGLContextEventInit): WebGLContextEvent;
+}>;
 
 /**
  * Part of the WebGL API and represents a collection of buffers that serve as a rendering destination.
@@ -24127,10 +24110,10 @@ declare var WebGLContextEvent: undefined | {
 interface WebGLFramebuffer {
 }
 
-declare var WebGLFramebuffer: undefined | { 
+declare var WebGLFramebuffer: PartialLibDomGlobal<'WebGLFramebuffer', {
   prototype: WebGLFramebuffer;
-  new(): WebGLFramebuffer; 
-};
+  new(): WebGLFramebuffer;
+}>;
 
 /**
  * The WebGLProgram is part of the WebGL API and is a combination of two compiled WebGLShaders consisting of a vertex shader and a fragment shader (both written in GLSL).
@@ -24140,19 +24123,19 @@ declare var WebGLFramebuffer: undefined | {
 interface WebGLProgram {
 }
 
-declare var WebGLProgram: undefined | { 
+declare var WebGLProgram: PartialLibDomGlobal<'WebGLProgram', {
   prototype: WebGLProgram;
-  new(): WebGLProgram; 
-};
+  new(): WebGLProgram;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/WebGLQuery) */
 interface WebGLQuery {
 }
 
-declare var WebGLQuery: undefined | { 
+declare var WebGLQuery: PartialLibDomGlobal<'WebGLQuery', {
   prototype: WebGLQuery;
-  new(): WebGLQuery; 
-};
+  new(): WebGLQuery;
+}>;
 
 /**
  * Part of the WebGL API and represents a buffer that can contain an image, or can be source or target of an rendering operation.
@@ -24162,10 +24145,10 @@ declare var WebGLQuery: undefined | {
 interface WebGLRenderbuffer {
 }
 
-declare var WebGLRenderbuffer: undefined | { 
+declare var WebGLRenderbuffer: PartialLibDomGlobal<'WebGLRenderbuffer', {
   prototype: WebGLRenderbuffer;
-  new(): WebGLRenderbuffer; 
-};
+  new(): WebGLRenderbuffer;
+}>;
 
 /**
  * Provides an interface to the OpenGL ES 2.0 graphics rendering context for the drawing surface of an HTML <canvas> element.
@@ -24175,7 +24158,7 @@ declare var WebGLRenderbuffer: undefined | {
 interface WebGLRenderingContext extends WebGLRenderingContextBase, WebGLRenderingContextOverloads {
 }
 
-declare var WebGLRenderingContext: undefined | { 
+declare var WebGLRenderingContext: PartialLibDomGlobal<'WebGLRenderingContext', {
   prototype: WebGLRenderingContext;
   new(): WebGLRenderingContext;
   readonly DEPTH_BUFFER_BIT: 0x00000100;
@@ -24474,8 +24457,8 @@ declare var WebGLRenderingContext: undefined | {
   readonly UNPACK_PREMULTIPLY_ALPHA_WEBGL: 0x9241;
   readonly CONTEXT_LOST_WEBGL: 0x9242;
   readonly UNPACK_COLORSPACE_CONVERSION_WEBGL: 0x9243;
-  readonly BROWSER_DEFAULT_WEBGL: 0x9244; 
-};
+  readonly BROWSER_DEFAULT_WEBGL: 0x9244;
+}>;
 
 interface WebGLRenderingContextBase {
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/WebGLRenderingContext/canvas) */
@@ -25100,10 +25083,10 @@ interface WebGLRenderingContextOverloads {
 interface WebGLSampler {
 }
 
-declare var WebGLSampler: undefined | { 
+declare var WebGLSampler: PartialLibDomGlobal<'WebGLSampler', {
   prototype: WebGLSampler;
-  new(): WebGLSampler; 
-};
+  new(): WebGLSampler;
+}>;
 
 /**
  * The WebGLShader is part of the WebGL API and can either be a vertex or a fragment shader. A WebGLProgram requires both types of shaders.
@@ -25113,10 +25096,10 @@ declare var WebGLSampler: undefined | {
 interface WebGLShader {
 }
 
-declare var WebGLShader: undefined | { 
+declare var WebGLShader: PartialLibDomGlobal<'WebGLShader', {
   prototype: WebGLShader;
-  new(): WebGLShader; 
-};
+  new(): WebGLShader;
+}>;
 
 /**
  * Part of the WebGL API and represents the information returned by calling the WebGLRenderingContext.getShaderPrecisionFormat() method.
@@ -25132,19 +25115,19 @@ interface WebGLShaderPrecisionFormat {
   readonly rangeMin: GLint;
 }
 
-declare var WebGLShaderPrecisionFormat: undefined | { 
+declare var WebGLShaderPrecisionFormat: PartialLibDomGlobal<'WebGLShaderPrecisionFormat', {
   prototype: WebGLShaderPrecisionFormat;
-  new(): WebGLShaderPrecisionFormat; 
-};
+  new(): WebGLShaderPrecisionFormat;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/WebGLSync) */
 interface WebGLSync {
 }
 
-declare var WebGLSync: undefined | { 
+declare var WebGLSync: PartialLibDomGlobal<'WebGLSync', {
   prototype: WebGLSync;
-  new(): WebGLSync; 
-};
+  new(): WebGLSync;
+}>;
 
 /**
  * Part of the WebGL API and represents an opaque texture object providing storage and state for texturing operations.
@@ -25154,19 +25137,19 @@ declare var WebGLSync: undefined | {
 interface WebGLTexture {
 }
 
-declare var WebGLTexture: undefined | { 
+declare var WebGLTexture: PartialLibDomGlobal<'WebGLTexture', {
   prototype: WebGLTexture;
-  new(): WebGLTexture; 
-};
+  new(): WebGLTexture;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/WebGLTransformFeedback) */
 interface WebGLTransformFeedback {
 }
 
-declare var WebGLTransformFeedback: undefined | { 
+declare var WebGLTransformFeedback: PartialLibDomGlobal<'WebGLTransformFeedback', {
   prototype: WebGLTransformFeedback;
-  new(): WebGLTransformFeedback; 
-};
+  new(): WebGLTransformFeedback;
+}>;
 
 /**
  * Part of the WebGL API and represents the location of a uniform variable in a shader program.
@@ -25176,19 +25159,19 @@ declare var WebGLTransformFeedback: undefined | {
 interface WebGLUniformLocation {
 }
 
-declare var WebGLUniformLocation: undefined | { 
+declare var WebGLUniformLocation: PartialLibDomGlobal<'WebGLUniformLocation', {
   prototype: WebGLUniformLocation;
-  new(): WebGLUniformLocation; 
-};
+  new(): WebGLUniformLocation;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/WebGLVertexArrayObject) */
 interface WebGLVertexArrayObject {
 }
 
-declare var WebGLVertexArrayObject: undefined | { 
+declare var WebGLVertexArrayObject: PartialLibDomGlobal<'WebGLVertexArrayObject', {
   prototype: WebGLVertexArrayObject;
-  new(): WebGLVertexArrayObject; 
-};
+  new(): WebGLVertexArrayObject;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/WebGLVertexArrayObject) */
 interface WebGLVertexArrayObjectOES {
@@ -25277,14 +25260,14 @@ interface WebSocket extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var WebSocket: undefined | { 
+declare var WebSocket: PartialLibDomGlobal<'WebSocket', {
   prototype: WebSocket;
   new(url: string | URL, protocols?: string | string[]): WebSocket;
   readonly CONNECTING: 0;
   readonly OPEN: 1;
   readonly CLOSING: 2;
-  readonly CLOSED: 3; 
-};
+  readonly CLOSED: 3;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -25310,10 +25293,10 @@ interface WebTransport {
   createUnidirectionalStream(options?: WebTransportSendStreamOptions): Promise<WritableStream>;
 }
 
-declare var WebTransport: undefined | { 
+declare var WebTransport: PartialLibDomGlobal<'WebTransport', {
   prototype: WebTransport;
-  new(url: string | URL, options?: WebTransportOptions): WebTransport; 
-};
+  new(url: string | URL, options?: WebTransportOptions): WebTransport;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -25327,10 +25310,10 @@ interface WebTransportBidirectionalStream {
   readonly writable: WritableStream;
 }
 
-declare var WebTransportBidirectionalStream: undefined | { 
+declare var WebTransportBidirectionalStream: PartialLibDomGlobal<'WebTransportBidirectionalStream', {
   prototype: WebTransportBidirectionalStream;
-  new(): WebTransportBidirectionalStream; 
-};
+  new(): WebTransportBidirectionalStream;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -25354,10 +25337,10 @@ interface WebTransportDatagramDuplexStream {
   readonly writable: WritableStream;
 }
 
-declare var WebTransportDatagramDuplexStream: undefined | { 
+declare var WebTransportDatagramDuplexStream: PartialLibDomGlobal<'WebTransportDatagramDuplexStream', {
   prototype: WebTransportDatagramDuplexStream;
-  new(): WebTransportDatagramDuplexStream; 
-};
+  new(): WebTransportDatagramDuplexStream;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -25371,10 +25354,10 @@ interface WebTransportError extends DOMException {
   readonly streamErrorCode: number | null;
 }
 
-declare var WebTransportError: undefined | { 
+declare var WebTransportError: PartialLibDomGlobal<'WebTransportError', {
   prototype: WebTransportError;
-  new(message?: string, options?: WebTransportErrorOptions): WebTransportError; 
-};
+  new(message?: string, options?: WebTransportErrorOptions): WebTransportError;
+}>;
 
 /**
  * Events that occur due to the user moving a mouse wheel or similar input device.
@@ -25395,13 +25378,13 @@ interface WheelEvent extends MouseEvent {
   readonly DOM_DELTA_PAGE: 0x02;
 }
 
-declare var WheelEvent: undefined | { 
+declare var WheelEvent: PartialLibDomGlobal<'WheelEvent', {
   prototype: WheelEvent;
   new(type: string, eventInitDict?: WheelEventInit): WheelEvent;
   readonly DOM_DELTA_PIXEL: 0x00;
   readonly DOM_DELTA_LINE: 0x01;
-  readonly DOM_DELTA_PAGE: 0x02; 
-};
+  readonly DOM_DELTA_PAGE: 0x02;
+}>;
 
 interface WindowEventMap extends GlobalEventHandlersEventMap, WindowEventHandlersEventMap {
   "DOMContentLoaded": Event;
@@ -25689,10 +25672,10 @@ interface Window extends EventTarget, AnimationFrameProvider, GlobalEventHandler
   [index: number]: Window;
 }
 
-declare var Window: undefined | { 
+declare var Window: PartialLibDomGlobal<'Window', {
   prototype: Window;
-  new(): Window; 
-};
+  new(): Window;
+}>;
 
 interface WindowEventHandlersEventMap {
   "afterprint": Event;
@@ -25850,10 +25833,10 @@ interface Worker extends EventTarget, AbstractWorker {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var Worker: undefined | { 
+declare var Worker: PartialLibDomGlobal<'Worker', {
   prototype: Worker;
-  new(scriptURL: string | URL, options?: WorkerOptions): Worker; 
-};
+  new(scriptURL: string | URL, options?: WorkerOptions): Worker;
+}>;
 
 /**
  * Available only in secure contexts.
@@ -25873,10 +25856,10 @@ interface Worklet {
   addModule(moduleURL: string | URL, options?: WorkletOptions): Promise<void>;
 }
 
-declare var Worklet: undefined | { 
+declare var Worklet: PartialLibDomGlobal<'Worklet', {
   prototype: Worklet;
-  new(): Worklet; 
-};
+  new(): Worklet;
+}>;
 
 /**
  * This Streams API interface provides a standard abstraction for writing streaming data to a destination, known as a sink. This object comes with built-in backpressure and queuing.
@@ -25894,10 +25877,10 @@ interface WritableStream<W = any> {
   getWriter(): WritableStreamDefaultWriter<W>;
 }
 
-declare var WritableStream: { 
+declare var WritableStream: PartialLibDomNodeGlobal<'WritableStream', {
   prototype: WritableStream;
-  new<W = any>(underlyingSink?: UnderlyingSink<W>, strategy?: QueuingStrategy<W>): WritableStream<W>; 
-};
+  new<W = any>(underlyingSink?: UnderlyingSink<W>, strategy?: QueuingStrategy<W>): WritableStream<W>;
+}>;
 
 /**
  * This Streams API interface represents a controller allowing control of a WritableStream's state. When constructing a WritableStream, the underlying sink is given a corresponding WritableStreamDefaultController instance to manipulate.
@@ -25911,10 +25894,10 @@ interface WritableStreamDefaultController {
   error(e?: any): void;
 }
 
-declare var WritableStreamDefaultController: { 
+declare var WritableStreamDefaultController: PartialLibDomNodeGlobal<'WritableStreamDefaultController', {
   prototype: WritableStreamDefaultController;
-  new(): WritableStreamDefaultController; 
-};
+  new(): WritableStreamDefaultController;
+}>;
 
 /**
  * This Streams API interface is the object returned by WritableStream.getWriter() and once created locks the < writer to the WritableStream ensuring that no other streams can write to the underlying sink.
@@ -25938,10 +25921,10 @@ interface WritableStreamDefaultWriter<W = any> {
   write(chunk?: W): Promise<void>;
 }
 
-declare var WritableStreamDefaultWriter: { 
+declare var WritableStreamDefaultWriter: PartialLibDomNodeGlobal<'WritableStreamDefaultWriter', {
   prototype: WritableStreamDefaultWriter;
-  new<W = any>(stream: WritableStream<W>): WritableStreamDefaultWriter<W>; 
-};
+  new<W = any>(stream: WritableStream<W>): WritableStreamDefaultWriter<W>;
+}>;
 
 /**
  * An XML document. It inherits from the generic Document and does not add any specific methods or properties to it: nevertheless, several algorithms behave differently with the two types of documents.
@@ -25955,10 +25938,10 @@ interface XMLDocument extends Document {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var XMLDocument: undefined | { 
+declare var XMLDocument: PartialLibDomGlobal<'XMLDocument', {
   prototype: XMLDocument;
-  new(): XMLDocument; 
-};
+  new(): XMLDocument;
+}>;
 
 interface XMLHttpRequestEventMap extends XMLHttpRequestEventTargetEventMap {
   "readystatechange": Event;
@@ -26102,15 +26085,15 @@ interface XMLHttpRequest extends XMLHttpRequestEventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var XMLHttpRequest: undefined | { 
+declare var XMLHttpRequest: PartialLibDomGlobal<'XMLHttpRequest', {
   prototype: XMLHttpRequest;
   new(): XMLHttpRequest;
   readonly UNSENT: 0;
   readonly OPENED: 1;
   readonly HEADERS_RECEIVED: 2;
   readonly LOADING: 3;
-  readonly DONE: 4; 
-};
+  readonly DONE: 4;
+}>;
 
 interface XMLHttpRequestEventTargetEventMap {
   "abort": ProgressEvent<XMLHttpRequestEventTarget>;
@@ -26137,10 +26120,10 @@ interface XMLHttpRequestEventTarget extends EventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var XMLHttpRequestEventTarget: undefined | { 
+declare var XMLHttpRequestEventTarget: PartialLibDomGlobal<'XMLHttpRequestEventTarget', {
   prototype: XMLHttpRequestEventTarget;
-  new(): XMLHttpRequestEventTarget; 
-};
+  new(): XMLHttpRequestEventTarget;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/XMLHttpRequestUpload) */
 interface XMLHttpRequestUpload extends XMLHttpRequestEventTarget {
@@ -26150,10 +26133,10 @@ interface XMLHttpRequestUpload extends XMLHttpRequestEventTarget {
   removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
 }
 
-declare var XMLHttpRequestUpload: undefined | { 
+declare var XMLHttpRequestUpload: PartialLibDomGlobal<'XMLHttpRequestUpload', {
   prototype: XMLHttpRequestUpload;
-  new(): XMLHttpRequestUpload; 
-};
+  new(): XMLHttpRequestUpload;
+}>;
 
 /**
  * Provides the serializeToString() method to construct an XML string representing a DOM tree.
@@ -26165,10 +26148,10 @@ interface XMLSerializer {
   serializeToString(root: Node): string;
 }
 
-declare var XMLSerializer: undefined | { 
+declare var XMLSerializer: PartialLibDomGlobal<'XMLSerializer', {
   prototype: XMLSerializer;
-  new(): XMLSerializer; 
-};
+  new(): XMLSerializer;
+}>;
 
 /**
  * The XPathEvaluator interface allows to compile and evaluate XPath expressions.
@@ -26178,10 +26161,10 @@ declare var XMLSerializer: undefined | {
 interface XPathEvaluator extends XPathEvaluatorBase {
 }
 
-declare var XPathEvaluator: undefined | { 
+declare var XPathEvaluator: PartialLibDomGlobal<'XPathEvaluator', {
   prototype: XPathEvaluator;
-  new(): XPathEvaluator; 
-};
+  new(): XPathEvaluator;
+}>;
 
 interface XPathEvaluatorBase {
   /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Document/createExpression) */
@@ -26202,10 +26185,10 @@ interface XPathExpression {
   evaluate(contextNode: Node, type?: number, result?: XPathResult | null): XPathResult;
 }
 
-declare var XPathExpression: undefined | { 
+declare var XPathExpression: PartialLibDomGlobal<'XPathExpression', {
   prototype: XPathExpression;
-  new(): XPathExpression; 
-};
+  new(): XPathExpression;
+}>;
 
 /**
  * The results generated by evaluating an XPath expression within the context of a given node.
@@ -26243,7 +26226,7 @@ interface XPathResult {
   readonly FIRST_ORDERED_NODE_TYPE: 9;
 }
 
-declare var XPathResult: undefined | { 
+declare var XPathResult: PartialLibDomGlobal<'XPathResult', {
   prototype: XPathResult;
   new(): XPathResult;
   readonly ANY_TYPE: 0;
@@ -26255,8 +26238,8 @@ declare var XPathResult: undefined | {
   readonly UNORDERED_NODE_SNAPSHOT_TYPE: 6;
   readonly ORDERED_NODE_SNAPSHOT_TYPE: 7;
   readonly ANY_UNORDERED_NODE_TYPE: 8;
-  readonly FIRST_ORDERED_NODE_TYPE: 9; 
-};
+  readonly FIRST_ORDERED_NODE_TYPE: 9;
+}>;
 
 /**
  * An XSLTProcessor applies an XSLT stylesheet transformation to an XML document to produce a new XML document as output. It has methods to load the XSLT stylesheet, to manipulate <xsl:param> parameter values, and to apply the transformation to documents.
@@ -26282,10 +26265,10 @@ interface XSLTProcessor {
   transformToFragment(source: Node, output: Document): DocumentFragment;
 }
 
-declare var XSLTProcessor: undefined | { 
+declare var XSLTProcessor: PartialLibDomGlobal<'XSLTProcessor', {
   prototype: XSLTProcessor;
-  new(): XSLTProcessor; 
-};
+  new(): XSLTProcessor;
+}>;
 
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/console) */
 interface Console {
@@ -26330,7 +26313,7 @@ interface Console {
   warn(...data: any[]): void;
 }
 
-declare var console: Console;
+declare var console: PartialLibDomNodeGlobal<'console', Console>;
 
 /** Holds useful CSS-related methods. No object with this interface are implemented: it contains only static methods and therefore is a utilitarian interface. */
 declare namespace CSS {
@@ -26466,53 +26449,53 @@ declare namespace WebAssembly {
   }
 
   var CompileError: {
-      prototype: CompileError;
-      new(message?: string): CompileError;
-      (message?: string): CompileError;
+    prototype: CompileError;
+    new(message?: string): CompileError;
+    (message?: string): CompileError;
   };
 
   /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/Global) */
   interface Global<T extends ValueType = ValueType> {
-      value: ValueTypeMap[T];
-      valueOf(): ValueTypeMap[T];
+    value: ValueTypeMap[T];
+    valueOf(): ValueTypeMap[T];
   }
 
   var Global: {
-      prototype: Global;
-      new<T extends ValueType = ValueType>(descriptor: GlobalDescriptor<T>, v?: ValueTypeMap[T]): Global<T>;
+    prototype: Global;
+    new<T extends ValueType = ValueType>(descriptor: GlobalDescriptor<T>, v?: ValueTypeMap[T]): Global<T>;
   };
 
   /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/Instance) */
   interface Instance {
-      /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/Instance/exports) */
-      readonly exports: Exports;
+    /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/Instance/exports) */
+    readonly exports: Exports;
   }
 
   var Instance: {
-      prototype: Instance;
-      new(module: Module, importObject?: Imports): Instance;
+    prototype: Instance;
+    new(module: Module, importObject?: Imports): Instance;
   };
 
   interface LinkError extends Error {
   }
 
   var LinkError: {
-      prototype: LinkError;
-      new(message?: string): LinkError;
-      (message?: string): LinkError;
+    prototype: LinkError;
+    new(message?: string): LinkError;
+    (message?: string): LinkError;
   };
 
   /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/Memory) */
   interface Memory {
-      /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/Memory/buffer) */
-      readonly buffer: ArrayBuffer;
-      /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/Memory/grow) */
-      grow(delta: number): number;
+    /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/Memory/buffer) */
+    readonly buffer: ArrayBuffer;
+    /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/Memory/grow) */
+    grow(delta: number): number;
   }
 
   var Memory: {
-      prototype: Memory;
-      new(descriptor: MemoryDescriptor): Memory;
+    prototype: Memory;
+    new(descriptor: MemoryDescriptor): Memory;
   };
 
   /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/Module) */
@@ -26520,83 +26503,83 @@ declare namespace WebAssembly {
   }
 
   var Module: {
-      prototype: Module;
-      new(bytes: BufferSource): Module;
-      /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/Module/customSections_static) */
-      customSections(moduleObject: Module, sectionName: string): ArrayBuffer[];
-      /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/Module/exports_static) */
-      exports(moduleObject: Module): ModuleExportDescriptor[];
-      /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/Module/imports_static) */
-      imports(moduleObject: Module): ModuleImportDescriptor[];
+    prototype: Module;
+    new(bytes: BufferSource): Module;
+    /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/Module/customSections_static) */
+    customSections(moduleObject: Module, sectionName: string): ArrayBuffer[];
+    /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/Module/exports_static) */
+    exports(moduleObject: Module): ModuleExportDescriptor[];
+    /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/Module/imports_static) */
+    imports(moduleObject: Module): ModuleImportDescriptor[];
   };
 
   interface RuntimeError extends Error {
   }
 
   var RuntimeError: {
-      prototype: RuntimeError;
-      new(message?: string): RuntimeError;
-      (message?: string): RuntimeError;
+    prototype: RuntimeError;
+    new(message?: string): RuntimeError;
+    (message?: string): RuntimeError;
   };
 
   /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/Table) */
   interface Table {
-      /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/Table/length) */
-      readonly length: number;
-      /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/Table/get) */
-      get(index: number): any;
-      /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/Table/grow) */
-      grow(delta: number, value?: any): number;
-      /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/Table/set) */
-      set(index: number, value?: any): void;
+    /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/Table/length) */
+    readonly length: number;
+    /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/Table/get) */
+    get(index: number): any;
+    /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/Table/grow) */
+    grow(delta: number, value?: any): number;
+    /** [MDN Reference](https://developer.mozilla.org/docs/WebAssembly/JavaScript_interface/Table/set) */
+    set(index: number, value?: any): void;
   }
 
   var Table: {
-      prototype: Table;
-      new(descriptor: TableDescriptor, value?: any): Table;
+    prototype: Table;
+    new(descriptor: TableDescriptor, value?: any): Table;
   };
 
   interface GlobalDescriptor<T extends ValueType = ValueType> {
-      mutable?: boolean;
-      value: T;
+    mutable?: boolean;
+    value: T;
   }
 
   interface MemoryDescriptor {
-      initial: number;
-      maximum?: number;
-      shared?: boolean;
+    initial: number;
+    maximum?: number;
+    shared?: boolean;
   }
 
   interface ModuleExportDescriptor {
-      kind: ImportExportKind;
-      name: string;
+    kind: ImportExportKind;
+    name: string;
   }
 
   interface ModuleImportDescriptor {
-      kind: ImportExportKind;
-      module: string;
-      name: string;
+    kind: ImportExportKind;
+    module: string;
+    name: string;
   }
 
   interface TableDescriptor {
-      element: TableKind;
-      initial: number;
-      maximum?: number;
+    element: TableKind;
+    initial: number;
+    maximum?: number;
   }
 
   interface ValueTypeMap {
-      anyfunc: Function;
-      externref: any;
-      f32: number;
-      f64: number;
-      i32: number;
-      i64: bigint;
-      v128: never;
+    anyfunc: Function;
+    externref: any;
+    f32: number;
+    f64: number;
+    i32: number;
+    i64: bigint;
+    v128: never;
   }
 
   interface WebAssemblyInstantiatedSource {
-      instance: Instance;
-      module: Module;
+    instance: Instance;
+    module: Module;
   }
 
   type ImportExportKind = "function" | "global" | "memory" | "table";
@@ -27041,130 +27024,128 @@ interface MathMLElementTagNameMap {
 /** @deprecated Directly use HTMLElementTagNameMap or SVGElementTagNameMap as appropriate, instead. */
 type ElementTagNameMap = HTMLElementTagNameMap & Pick<SVGElementTagNameMap, Exclude<keyof SVGElementTagNameMap, keyof HTMLElementTagNameMap>>;
 
-declare var Audio: undefined | { 
-  new(src?: string): HTMLAudioElement; 
-};
-
-declare var Image: undefined | { 
-  new(width?: number, height?: number): HTMLImageElement; 
-};
-
-declare var Option: undefined | { 
-  new(text?: string, value?: string, defaultSelected?: boolean, selected?: boolean): HTMLOptionElement; 
-};
+declare var Audio: PartialLibDomGlobal<'Audio', {
+  new(src?: string): HTMLAudioElement;
+}>;
+declare var Image: PartialLibDomGlobal<'Image', {
+  new(width?: number, height?: number): HTMLImageElement;
+}>;
+declare var Option: PartialLibDomGlobal<'Option', {
+  new(text?: string, value?: string, defaultSelected?: boolean, selected?: boolean): HTMLOptionElement;
+}>;
 /**
  * @deprecated This is a legacy alias of `navigator`.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/navigator)
  */
-declare var clientInformation: undefined | Navigator;
+declare var clientInformation: PartialLibDomGlobal<'clientInformation', Navigator>;
 /**
  * Returns true if the window has been closed, false otherwise.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/closed)
  */
-declare var closed: undefined | boolean;
+declare var closed: PartialLibDomGlobal<'closed', boolean>;
 /**
  * Defines a new custom element, mapping the given name to the given constructor as an autonomous custom element.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/customElements)
  */
-declare var customElements: undefined | CustomElementRegistry;
+declare var customElements: PartialLibDomGlobal<'customElements', CustomElementRegistry>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/devicePixelRatio) */
-declare var devicePixelRatio: undefined | number;
+declare var devicePixelRatio: PartialLibDomGlobal<'devicePixelRatio', number>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/document) */
-declare var document: undefined | Document;
+declare var document: PartialLibDomGlobal<'document', Document>;
 /**
  * @deprecated
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/event)
  */
-declare var event: Event | undefined;
+declare var event: PartialLibDomGlobal<'event', Event | undefined>;
 /**
  * @deprecated
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/external)
  */
-declare var external: undefined | External;
+declare var external: PartialLibDomGlobal<'external', External>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/frameElement) */
-declare var frameElement: undefined | Element | null;
+declare var frameElement: PartialLibDomGlobal<'frameElement', Element | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/frames) */
-declare var frames: undefined | WindowProxy;
+declare var frames: PartialLibDomGlobal<'frames', WindowProxy>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/history) */
-declare var history: undefined | History;
+declare var history: PartialLibDomGlobal<'history', History>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/innerHeight) */
-declare var innerHeight: undefined | number;
+declare var innerHeight: PartialLibDomGlobal<'innerHeight', number>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/innerWidth) */
-declare var innerWidth: undefined | number;
+declare var innerWidth: PartialLibDomGlobal<'innerWidth', number>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/length) */
-declare var length: undefined | number;
+declare var length: PartialLibDomGlobal<'length', number>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/location) */
-declare var location: undefined | Location;
+declare var location: PartialLibDomGlobal<'location', Location>;
 /**
  * Returns true if the location bar is visible; otherwise, returns false.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/locationbar)
  */
-declare var locationbar: undefined | BarProp;
+declare var locationbar: PartialLibDomGlobal<'locationbar', BarProp>;
 /**
  * Returns true if the menu bar is visible; otherwise, returns false.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/menubar)
  */
-declare var menubar: undefined | BarProp;
+declare var menubar: PartialLibDomGlobal<'menubar', BarProp>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/name) */
 /** @deprecated */
 declare const name: void;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/navigator) */
-declare var navigator: undefined | Navigator;
+declare var navigator: PartialLibDomGlobal<'navigator', Navigator>;
 /**
  * Available only in secure contexts.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/devicemotion_event)
  */
-declare var ondevicemotion: undefined | ((this: Window, ev: DeviceMotionEvent) => any) | null;
+declare var ondevicemotion: PartialLibDomGlobal<'ondevicemotion', ((this: Window, ev: DeviceMotionEvent) => any) | null>;
 /**
  * Available only in secure contexts.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/deviceorientation_event)
  */
-declare var ondeviceorientation: undefined | ((this: Window, ev: DeviceOrientationEvent) => any) | null;
+declare var ondeviceorientation: PartialLibDomGlobal<'ondeviceorientation', ((this: Window, ev: DeviceOrientationEvent) => any) | null>;
 /**
  * Available only in secure contexts.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/deviceorientationabsolute_event)
  */
-declare var ondeviceorientationabsolute: undefined | ((this: Window, ev: DeviceOrientationEvent) => any) | null;
+declare var ondeviceorientationabsolute: PartialLibDomGlobal<'ondeviceorientationabsolute', ((this: Window, ev: DeviceOrientationEvent) => any) | null>;
 /**
  * @deprecated
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/orientationchange_event)
  */
-declare var onorientationchange: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onorientationchange: PartialLibDomGlobal<'onorientationchange', ((this: Window, ev: Event) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/opener) */
-declare var opener: undefined | any;
+declare var opener: PartialLibDomGlobal<'opener', any>;
 /**
  * @deprecated
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/orientation)
  */
-declare var orientation: undefined | number;
+declare var orientation: PartialLibDomGlobal<'orientation', number>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/outerHeight) */
-declare var outerHeight: undefined | number;
+declare var outerHeight: PartialLibDomGlobal<'outerHeight', number>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/outerWidth) */
-declare var outerWidth: undefined | number;
+declare var outerWidth: PartialLibDomGlobal<'outerWidth', number>;
 /**
  * @deprecated This is a legacy alias of `scrollX`.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/scrollX)
  */
-declare var pageXOffset: undefined | number;
+declare var pageXOffset: PartialLibDomGlobal<'pageXOffset', number>;
 /**
  * @deprecated This is a legacy alias of `scrollY`.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/scrollY)
  */
-declare var pageYOffset: undefined | number;
+declare var pageYOffset: PartialLibDomGlobal<'pageYOffset', number>;
 /**
  * Refers to either the parent WindowProxy, or itself.
  *
@@ -27172,103 +27153,103 @@ declare var pageYOffset: undefined | number;
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/parent)
  */
-declare var parent: undefined | WindowProxy;
+declare var parent: PartialLibDomGlobal<'parent', WindowProxy>;
 /**
  * Returns true if the personal bar is visible; otherwise, returns false.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/personalbar)
  */
-declare var personalbar: undefined | BarProp;
+declare var personalbar: PartialLibDomGlobal<'personalbar', BarProp>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/screen) */
-declare var screen: undefined | Screen;
+declare var screen: PartialLibDomGlobal<'screen', Screen>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/screenLeft) */
-declare var screenLeft: undefined | number;
+declare var screenLeft: PartialLibDomGlobal<'screenLeft', number>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/screenTop) */
-declare var screenTop: undefined | number;
+declare var screenTop: PartialLibDomGlobal<'screenTop', number>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/screenX) */
-declare var screenX: undefined | number;
+declare var screenX: PartialLibDomGlobal<'screenX', number>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/screenY) */
-declare var screenY: undefined | number;
+declare var screenY: PartialLibDomGlobal<'screenY', number>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/scrollX) */
-declare var scrollX: undefined | number;
+declare var scrollX: PartialLibDomGlobal<'scrollX', number>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/scrollY) */
-declare var scrollY: undefined | number;
+declare var scrollY: PartialLibDomGlobal<'scrollY', number>;
 /**
  * Returns true if the scrollbars are visible; otherwise, returns false.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/scrollbars)
  */
-declare var scrollbars: undefined | BarProp;
+declare var scrollbars: PartialLibDomGlobal<'scrollbars', BarProp>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/self) */
-declare var self: undefined | (Window & BrowserGlobals);
+declare var self: PartialLibDomGlobal<'self', Window & BrowserGlobals>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/speechSynthesis) */
-declare var speechSynthesis: undefined | SpeechSynthesis;
+declare var speechSynthesis: PartialLibDomGlobal<'speechSynthesis', SpeechSynthesis>;
 /**
  * @deprecated
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/status)
  */
-declare var status: undefined | string;
+declare var status: PartialLibDomGlobal<'status', string>;
 /**
  * Returns true if the status bar is visible; otherwise, returns false.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/statusbar)
  */
-declare var statusbar: undefined | BarProp;
+declare var statusbar: PartialLibDomGlobal<'statusbar', BarProp>;
 /**
  * Returns true if the toolbar is visible; otherwise, returns false.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/toolbar)
  */
-declare var toolbar: undefined | BarProp;
+declare var toolbar: PartialLibDomGlobal<'toolbar', BarProp>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/top) */
-declare var top: undefined | WindowProxy | null;
+declare var top: PartialLibDomGlobal<'top', WindowProxy | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/visualViewport) */
-declare var visualViewport: undefined | VisualViewport | null;
+declare var visualViewport: PartialLibDomGlobal<'visualViewport', VisualViewport | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/window) */
-declare var window: undefined | Window & BrowserGlobals;
+declare var window: PartialLibDomGlobal<'window', Window & BrowserGlobals>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/alert) */
-declare var alert: undefined | ((message?: any) => void);
+declare var alert: PartialLibDomGlobal<'alert', (message?: any) => void>;
 /**
  * @deprecated
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/blur)
  */
-declare var blur: undefined | (() => void);
+declare var blur: PartialLibDomGlobal<'blur', () => void>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/cancelIdleCallback) */
-declare var cancelIdleCallback: undefined | ((handle: number) => void);
+declare var cancelIdleCallback: PartialLibDomGlobal<'cancelIdleCallback', (handle: number) => void>;
 /**
  * @deprecated
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/captureEvents)
  */
-declare var captureEvents: undefined | (() => void);
+declare var captureEvents: PartialLibDomGlobal<'captureEvents', () => void>;
 /**
  * Closes the window.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/close)
  */
-declare var close: undefined | (() => void);
+declare var close: PartialLibDomGlobal<'close', () => void>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/confirm) */
-declare var confirm: undefined | ((message?: string) => boolean);
+declare var confirm: PartialLibDomGlobal<'confirm', (message?: string) => boolean>;
 /**
  * Moves the focus to the window's browsing context, if any.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/focus)
  */
-declare var focus: undefined | (() => void);
+declare var focus: PartialLibDomGlobal<'focus', () => void>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/getComputedStyle) */
-declare var getComputedStyle: undefined | ((elt: Element, pseudoElt?: string | null) => CSSStyleDeclaration);
+declare var getComputedStyle: PartialLibDomGlobal<'getComputedStyle', (elt: Element, pseudoElt?: string | null) => CSSStyleDeclaration>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/getSelection) */
-declare var getSelection: undefined | (() => Selection | null);
+declare var getSelection: PartialLibDomGlobal<'getSelection', () => Selection | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/matchMedia) */
-declare var matchMedia: undefined | ((query: string) => MediaQueryList);
+declare var matchMedia: PartialLibDomGlobal<'matchMedia', (query: string) => MediaQueryList>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/moveBy) */
-declare var moveBy: undefined | ((x: number, y: number) => void);
+declare var moveBy: PartialLibDomGlobal<'moveBy', (x: number, y: number) => void>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/moveTo) */
-declare var moveTo: undefined | ((x: number, y: number) => void);
+declare var moveTo: PartialLibDomGlobal<'moveTo', (x: number, y: number) => void>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/open) */
-declare var open: undefined | ((url?: string | URL, target?: string, features?: string) => WindowProxy | null);
+declare var open: PartialLibDomGlobal<'open', (url?: string | URL, target?: string, features?: string) => WindowProxy | null>;
 /**
  * Posts a message to the given window. Messages can be structured objects, e.g. nested objects and arrays, can contain JavaScript values (strings, numbers, Date objects, etc), and can contain certain data objects such as File Blob, FileList, and ArrayBuffer objects.
  *
@@ -27282,231 +27263,231 @@ declare var open: undefined | ((url?: string | URL, target?: string, features?:
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/postMessage)
  */
-declare var postMessage: undefined | {
+declare var postMessage: PartialLibDomGlobal<'postMessage', {
   (message: any, targetOrigin: string, transfer?: Transferable[]): void;
   (message: any, options?: WindowPostMessageOptions): void;
-};
+}>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/print) */
-declare var print: undefined | (() => void);
+declare var print: PartialLibDomGlobal<'print', () => void>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/prompt) */
-declare var prompt: undefined | ((message?: string, _default?: string) => string | null);
+declare var prompt: PartialLibDomGlobal<'prompt', (message?: string, _default?: string) => string | null>;
 /**
  * @deprecated
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/releaseEvents)
  */
-declare var releaseEvents: undefined | (() => void);
+declare var releaseEvents: PartialLibDomGlobal<'releaseEvents', () => void>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/requestIdleCallback) */
-declare var requestIdleCallback: undefined | ((callback: IdleRequestCallback, options?: IdleRequestOptions) => number);
+declare var requestIdleCallback: PartialLibDomGlobal<'requestIdleCallback', (callback: IdleRequestCallback, options?: IdleRequestOptions) => number>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/resizeBy) */
-declare var resizeBy: undefined | ((x: number, y: number) => void);
+declare var resizeBy: PartialLibDomGlobal<'resizeBy', (x: number, y: number) => void>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/resizeTo) */
-declare var resizeTo: undefined | ((width: number, height: number) => void);
+declare var resizeTo: PartialLibDomGlobal<'resizeTo', (width: number, height: number) => void>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/scroll) */
-declare var scroll: undefined | {
+declare var scroll: PartialLibDomGlobal<'scroll', {
   (options?: ScrollToOptions): void;
   (x: number, y: number): void;
-};
+}>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/scrollBy) */
-declare var scrollBy: undefined | {
+declare var scrollBy: PartialLibDomGlobal<'scrollBy', {
   (options?: ScrollToOptions): void;
   (x: number, y: number): void;
-};
+}>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/scrollTo) */
-declare var scrollTo: undefined | {
+declare var scrollTo: PartialLibDomGlobal<'scrollTo', {
   (options?: ScrollToOptions): void;
   (x: number, y: number): void;
-};
+}>;
 /**
  * Cancels the document load.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/stop)
  */
-declare var stop: undefined | (() => void);
+declare var stop: PartialLibDomGlobal<'stop', () => void>;
 declare function toString(): string;
 /**
  * Dispatches a synthetic event event to target and returns true if either event's cancelable attribute value is false or its preventDefault() method was not invoked, and false otherwise.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/EventTarget/dispatchEvent)
  */
-declare var dispatchEvent: undefined | ((event: Event) => boolean);
+declare var dispatchEvent: PartialLibDomGlobal<'dispatchEvent', (event: Event) => boolean>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/DedicatedWorkerGlobalScope/cancelAnimationFrame) */
-declare var cancelAnimationFrame: undefined | ((handle: number) => void);
+declare var cancelAnimationFrame: PartialLibDomGlobal<'cancelAnimationFrame', (handle: number) => void>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/DedicatedWorkerGlobalScope/requestAnimationFrame) */
-declare var requestAnimationFrame: undefined | ((callback: FrameRequestCallback) => number);
+declare var requestAnimationFrame: PartialLibDomGlobal<'requestAnimationFrame', (callback: FrameRequestCallback) => number>;
 /**
  * Fires when the user aborts the download.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLMediaElement/abort_event)
  */
-declare var onabort: undefined | ((this: Window, ev: UIEvent) => any) | null;
+declare var onabort: PartialLibDomGlobal<'onabort', ((this: Window, ev: UIEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/animationcancel_event) */
-declare var onanimationcancel: undefined | ((this: Window, ev: AnimationEvent) => any) | null;
+declare var onanimationcancel: PartialLibDomGlobal<'onanimationcancel', ((this: Window, ev: AnimationEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/animationend_event) */
-declare var onanimationend: undefined | ((this: Window, ev: AnimationEvent) => any) | null;
+declare var onanimationend: PartialLibDomGlobal<'onanimationend', ((this: Window, ev: AnimationEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/animationiteration_event) */
-declare var onanimationiteration: undefined | ((this: Window, ev: AnimationEvent) => any) | null;
+declare var onanimationiteration: PartialLibDomGlobal<'onanimationiteration', ((this: Window, ev: AnimationEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/animationstart_event) */
-declare var onanimationstart: undefined | ((this: Window, ev: AnimationEvent) => any) | null;
+declare var onanimationstart: PartialLibDomGlobal<'onanimationstart', ((this: Window, ev: AnimationEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/auxclick_event) */
-declare var onauxclick: undefined | ((this: Window, ev: MouseEvent) => any) | null;
+declare var onauxclick: PartialLibDomGlobal<'onauxclick', ((this: Window, ev: MouseEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/beforeinput_event) */
-declare var onbeforeinput: undefined | ((this: Window, ev: InputEvent) => any) | null;
+declare var onbeforeinput: PartialLibDomGlobal<'onbeforeinput', ((this: Window, ev: InputEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLElement/beforetoggle_event) */
-declare var onbeforetoggle: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onbeforetoggle: PartialLibDomGlobal<'onbeforetoggle', ((this: Window, ev: Event) => any) | null>;
 /**
  * Fires when the object loses the input focus.
  * @param ev The focus event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/blur_event)
  */
-declare var onblur: undefined | ((this: Window, ev: FocusEvent) => any) | null;
+declare var onblur: PartialLibDomGlobal<'onblur', ((this: Window, ev: FocusEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLElement/cancel_event) */
-declare var oncancel: undefined | ((this: Window, ev: Event) => any) | null;
+declare var oncancel: PartialLibDomGlobal<'oncancel', ((this: Window, ev: Event) => any) | null>;
 /**
  * Occurs when playback is possible, but would require further buffering.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLMediaElement/canplay_event)
  */
-declare var oncanplay: undefined | ((this: Window, ev: Event) => any) | null;
+declare var oncanplay: PartialLibDomGlobal<'oncanplay', ((this: Window, ev: Event) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLMediaElement/canplaythrough_event) */
-declare var oncanplaythrough: undefined | ((this: Window, ev: Event) => any) | null;
+declare var oncanplaythrough: PartialLibDomGlobal<'oncanplaythrough', ((this: Window, ev: Event) => any) | null>;
 /**
  * Fires when the contents of the object or selection have changed.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLElement/change_event)
  */
-declare var onchange: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onchange: PartialLibDomGlobal<'onchange', ((this: Window, ev: Event) => any) | null>;
 /**
  * Fires when the user clicks the left mouse button on the object
  * @param ev The mouse event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/click_event)
  */
-declare var onclick: undefined | ((this: Window, ev: MouseEvent) => any) | null;
+declare var onclick: PartialLibDomGlobal<'onclick', ((this: Window, ev: MouseEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLDialogElement/close_event) */
-declare var onclose: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onclose: PartialLibDomGlobal<'onclose', ((this: Window, ev: Event) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLCanvasElement/webglcontextlost_event) */
-declare var oncontextlost: undefined | ((this: Window, ev: Event) => any) | null;
+declare var oncontextlost: PartialLibDomGlobal<'oncontextlost', ((this: Window, ev: Event) => any) | null>;
 /**
  * Fires when the user clicks the right mouse button in the client area, opening the context menu.
  * @param ev The mouse event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/contextmenu_event)
  */
-declare var oncontextmenu: undefined | ((this: Window, ev: MouseEvent) => any) | null;
+declare var oncontextmenu: PartialLibDomGlobal<'oncontextmenu', ((this: Window, ev: MouseEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLCanvasElement/contextrestored_event) */
-declare var oncontextrestored: undefined | ((this: Window, ev: Event) => any) | null;
+declare var oncontextrestored: PartialLibDomGlobal<'oncontextrestored', ((this: Window, ev: Event) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/copy_event) */
-declare var oncopy: undefined | ((this: Window, ev: ClipboardEvent) => any) | null;
+declare var oncopy: PartialLibDomGlobal<'oncopy', ((this: Window, ev: ClipboardEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLTrackElement/cuechange_event) */
-declare var oncuechange: undefined | ((this: Window, ev: Event) => any) | null;
+declare var oncuechange: PartialLibDomGlobal<'oncuechange', ((this: Window, ev: Event) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/cut_event) */
-declare var oncut: undefined | ((this: Window, ev: ClipboardEvent) => any) | null;
+declare var oncut: PartialLibDomGlobal<'oncut', ((this: Window, ev: ClipboardEvent) => any) | null>;
 /**
  * Fires when the user double-clicks the object.
  * @param ev The mouse event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/dblclick_event)
  */
-declare var ondblclick: undefined | ((this: Window, ev: MouseEvent) => any) | null;
+declare var ondblclick: PartialLibDomGlobal<'ondblclick', ((this: Window, ev: MouseEvent) => any) | null>;
 /**
  * Fires on the source object continuously during a drag operation.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLElement/drag_event)
  */
-declare var ondrag: undefined | ((this: Window, ev: DragEvent) => any) | null;
+declare var ondrag: PartialLibDomGlobal<'ondrag', ((this: Window, ev: DragEvent) => any) | null>;
 /**
  * Fires on the source object when the user releases the mouse at the close of a drag operation.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLElement/dragend_event)
  */
-declare var ondragend: undefined | ((this: Window, ev: DragEvent) => any) | null;
+declare var ondragend: PartialLibDomGlobal<'ondragend', ((this: Window, ev: DragEvent) => any) | null>;
 /**
  * Fires on the target element when the user drags the object to a valid drop target.
  * @param ev The drag event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLElement/dragenter_event)
  */
-declare var ondragenter: undefined | ((this: Window, ev: DragEvent) => any) | null;
+declare var ondragenter: PartialLibDomGlobal<'ondragenter', ((this: Window, ev: DragEvent) => any) | null>;
 /**
  * Fires on the target object when the user moves the mouse out of a valid drop target during a drag operation.
  * @param ev The drag event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLElement/dragleave_event)
  */
-declare var ondragleave: undefined | ((this: Window, ev: DragEvent) => any) | null;
+declare var ondragleave: PartialLibDomGlobal<'ondragleave', ((this: Window, ev: DragEvent) => any) | null>;
 /**
  * Fires on the target element continuously while the user drags the object over a valid drop target.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLElement/dragover_event)
  */
-declare var ondragover: undefined | ((this: Window, ev: DragEvent) => any) | null;
+declare var ondragover: PartialLibDomGlobal<'ondragover', ((this: Window, ev: DragEvent) => any) | null>;
 /**
  * Fires on the source object when the user starts to drag a text selection or selected object.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLElement/dragstart_event)
  */
-declare var ondragstart: undefined | ((this: Window, ev: DragEvent) => any) | null;
+declare var ondragstart: PartialLibDomGlobal<'ondragstart', ((this: Window, ev: DragEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLElement/drop_event) */
-declare var ondrop: undefined | ((this: Window, ev: DragEvent) => any) | null;
+declare var ondrop: PartialLibDomGlobal<'ondrop', ((this: Window, ev: DragEvent) => any) | null>;
 /**
  * Occurs when the duration attribute is updated.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLMediaElement/durationchange_event)
  */
-declare var ondurationchange: undefined | ((this: Window, ev: Event) => any) | null;
+declare var ondurationchange: PartialLibDomGlobal<'ondurationchange', ((this: Window, ev: Event) => any) | null>;
 /**
  * Occurs when the media element is reset to its initial state.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLMediaElement/emptied_event)
  */
-declare var onemptied: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onemptied: PartialLibDomGlobal<'onemptied', ((this: Window, ev: Event) => any) | null>;
 /**
  * Occurs when the end of playback is reached.
  * @param ev The event
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLMediaElement/ended_event)
  */
-declare var onended: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onended: PartialLibDomGlobal<'onended', ((this: Window, ev: Event) => any) | null>;
 /**
  * Fires when an error occurs during object loading.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLElement/error_event)
  */
-declare var onerror: undefined | OnErrorEventHandler;
+declare var onerror: PartialLibDomGlobal<'onerror', OnErrorEventHandler>;
 /**
  * Fires when the object receives focus.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/focus_event)
  */
-declare var onfocus: undefined | ((this: Window, ev: FocusEvent) => any) | null;
+declare var onfocus: PartialLibDomGlobal<'onfocus', ((this: Window, ev: FocusEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLFormElement/formdata_event) */
-declare var onformdata: undefined | ((this: Window, ev: FormDataEvent) => any) | null;
+declare var onformdata: PartialLibDomGlobal<'onformdata', ((this: Window, ev: FormDataEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/gotpointercapture_event) */
-declare var ongotpointercapture: undefined | ((this: Window, ev: PointerEvent) => any) | null;
+declare var ongotpointercapture: PartialLibDomGlobal<'ongotpointercapture', ((this: Window, ev: PointerEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/input_event) */
-declare var oninput: undefined | ((this: Window, ev: Event) => any) | null;
+declare var oninput: PartialLibDomGlobal<'oninput', ((this: Window, ev: Event) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLInputElement/invalid_event) */
-declare var oninvalid: undefined | ((this: Window, ev: Event) => any) | null;
+declare var oninvalid: PartialLibDomGlobal<'oninvalid', ((this: Window, ev: Event) => any) | null>;
 /**
  * Fires when the user presses a key.
  * @param ev The keyboard event
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/keydown_event)
  */
-declare var onkeydown: undefined | ((this: Window, ev: KeyboardEvent) => any) | null;
+declare var onkeydown: PartialLibDomGlobal<'onkeydown', ((this: Window, ev: KeyboardEvent) => any) | null>;
 /**
  * Fires when the user presses an alphanumeric key.
  * @param ev The event.
@@ -27514,326 +27495,326 @@ declare var onkeydown: undefined | ((this: Window, ev: KeyboardEvent) => any) |
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/keypress_event)
  */
-declare var onkeypress: undefined | ((this: Window, ev: KeyboardEvent) => any) | null;
+declare var onkeypress: PartialLibDomGlobal<'onkeypress', ((this: Window, ev: KeyboardEvent) => any) | null>;
 /**
  * Fires when the user releases a key.
  * @param ev The keyboard event
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/keyup_event)
  */
-declare var onkeyup: undefined | ((this: Window, ev: KeyboardEvent) => any) | null;
+declare var onkeyup: PartialLibDomGlobal<'onkeyup', ((this: Window, ev: KeyboardEvent) => any) | null>;
 /**
  * Fires immediately after the browser loads the object.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/SVGElement/load_event)
  */
-declare var onload: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onload: PartialLibDomGlobal<'onload', ((this: Window, ev: Event) => any) | null>;
 /**
  * Occurs when media data is loaded at the current playback position.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLMediaElement/loadeddata_event)
  */
-declare var onloadeddata: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onloadeddata: PartialLibDomGlobal<'onloadeddata', ((this: Window, ev: Event) => any) | null>;
 /**
  * Occurs when the duration and dimensions of the media have been determined.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLMediaElement/loadedmetadata_event)
  */
-declare var onloadedmetadata: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onloadedmetadata: PartialLibDomGlobal<'onloadedmetadata', ((this: Window, ev: Event) => any) | null>;
 /**
  * Occurs when Internet Explorer begins looking for media data.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLMediaElement/loadstart_event)
  */
-declare var onloadstart: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onloadstart: PartialLibDomGlobal<'onloadstart', ((this: Window, ev: Event) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/lostpointercapture_event) */
-declare var onlostpointercapture: undefined | ((this: Window, ev: PointerEvent) => any) | null;
+declare var onlostpointercapture: PartialLibDomGlobal<'onlostpointercapture', ((this: Window, ev: PointerEvent) => any) | null>;
 /**
  * Fires when the user clicks the object with either mouse button.
  * @param ev The mouse event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/mousedown_event)
  */
-declare var onmousedown: undefined | ((this: Window, ev: MouseEvent) => any) | null;
+declare var onmousedown: PartialLibDomGlobal<'onmousedown', ((this: Window, ev: MouseEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/mouseenter_event) */
-declare var onmouseenter: undefined | ((this: Window, ev: MouseEvent) => any) | null;
+declare var onmouseenter: PartialLibDomGlobal<'onmouseenter', ((this: Window, ev: MouseEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/mouseleave_event) */
-declare var onmouseleave: undefined | ((this: Window, ev: MouseEvent) => any) | null;
+declare var onmouseleave: PartialLibDomGlobal<'onmouseleave', ((this: Window, ev: MouseEvent) => any) | null>;
 /**
  * Fires when the user moves the mouse over the object.
  * @param ev The mouse event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/mousemove_event)
  */
-declare var onmousemove: undefined | ((this: Window, ev: MouseEvent) => any) | null;
+declare var onmousemove: PartialLibDomGlobal<'onmousemove', ((this: Window, ev: MouseEvent) => any) | null>;
 /**
  * Fires when the user moves the mouse pointer outside the boundaries of the object.
  * @param ev The mouse event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/mouseout_event)
  */
-declare var onmouseout: undefined | ((this: Window, ev: MouseEvent) => any) | null;
+declare var onmouseout: PartialLibDomGlobal<'onmouseout', ((this: Window, ev: MouseEvent) => any) | null>;
 /**
  * Fires when the user moves the mouse pointer into the object.
  * @param ev The mouse event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/mouseover_event)
  */
-declare var onmouseover: undefined | ((this: Window, ev: MouseEvent) => any) | null;
+declare var onmouseover: PartialLibDomGlobal<'onmouseover', ((this: Window, ev: MouseEvent) => any) | null>;
 /**
  * Fires when the user releases a mouse button while the mouse is over the object.
  * @param ev The mouse event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/mouseup_event)
  */
-declare var onmouseup: undefined | ((this: Window, ev: MouseEvent) => any) | null;
+declare var onmouseup: PartialLibDomGlobal<'onmouseup', ((this: Window, ev: MouseEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/paste_event) */
-declare var onpaste: undefined | ((this: Window, ev: ClipboardEvent) => any) | null;
+declare var onpaste: PartialLibDomGlobal<'onpaste', ((this: Window, ev: ClipboardEvent) => any) | null>;
 /**
  * Occurs when playback is paused.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLMediaElement/pause_event)
  */
-declare var onpause: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onpause: PartialLibDomGlobal<'onpause', ((this: Window, ev: Event) => any) | null>;
 /**
  * Occurs when the play method is requested.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLMediaElement/play_event)
  */
-declare var onplay: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onplay: PartialLibDomGlobal<'onplay', ((this: Window, ev: Event) => any) | null>;
 /**
  * Occurs when the audio or video has started playing.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLMediaElement/playing_event)
  */
-declare var onplaying: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onplaying: PartialLibDomGlobal<'onplaying', ((this: Window, ev: Event) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/pointercancel_event) */
-declare var onpointercancel: undefined | ((this: Window, ev: PointerEvent) => any) | null;
+declare var onpointercancel: PartialLibDomGlobal<'onpointercancel', ((this: Window, ev: PointerEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/pointerdown_event) */
-declare var onpointerdown: undefined | ((this: Window, ev: PointerEvent) => any) | null;
+declare var onpointerdown: PartialLibDomGlobal<'onpointerdown', ((this: Window, ev: PointerEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/pointerenter_event) */
-declare var onpointerenter: undefined | ((this: Window, ev: PointerEvent) => any) | null;
+declare var onpointerenter: PartialLibDomGlobal<'onpointerenter', ((this: Window, ev: PointerEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/pointerleave_event) */
-declare var onpointerleave: undefined | ((this: Window, ev: PointerEvent) => any) | null;
+declare var onpointerleave: PartialLibDomGlobal<'onpointerleave', ((this: Window, ev: PointerEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/pointermove_event) */
-declare var onpointermove: undefined | ((this: Window, ev: PointerEvent) => any) | null;
+declare var onpointermove: PartialLibDomGlobal<'onpointermove', ((this: Window, ev: PointerEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/pointerout_event) */
-declare var onpointerout: undefined | ((this: Window, ev: PointerEvent) => any) | null;
+declare var onpointerout: PartialLibDomGlobal<'onpointerout', ((this: Window, ev: PointerEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/pointerover_event) */
-declare var onpointerover: undefined | ((this: Window, ev: PointerEvent) => any) | null;
+declare var onpointerover: PartialLibDomGlobal<'onpointerover', ((this: Window, ev: PointerEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/pointerup_event) */
-declare var onpointerup: undefined | ((this: Window, ev: PointerEvent) => any) | null;
+declare var onpointerup: PartialLibDomGlobal<'onpointerup', ((this: Window, ev: PointerEvent) => any) | null>;
 /**
  * Occurs to indicate progress while downloading media data.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLMediaElement/progress_event)
  */
-declare var onprogress: undefined | ((this: Window, ev: ProgressEvent) => any) | null;
+declare var onprogress: PartialLibDomGlobal<'onprogress', ((this: Window, ev: ProgressEvent) => any) | null>;
 /**
  * Occurs when the playback rate is increased or decreased.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLMediaElement/ratechange_event)
  */
-declare var onratechange: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onratechange: PartialLibDomGlobal<'onratechange', ((this: Window, ev: Event) => any) | null>;
 /**
  * Fires when the user resets a form.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLFormElement/reset_event)
  */
-declare var onreset: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onreset: PartialLibDomGlobal<'onreset', ((this: Window, ev: Event) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLVideoElement/resize_event) */
-declare var onresize: undefined | ((this: Window, ev: UIEvent) => any) | null;
+declare var onresize: PartialLibDomGlobal<'onresize', ((this: Window, ev: UIEvent) => any) | null>;
 /**
  * Fires when the user repositions the scroll box in the scroll bar on the object.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Document/scroll_event)
  */
-declare var onscroll: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onscroll: PartialLibDomGlobal<'onscroll', ((this: Window, ev: Event) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Document/scrollend_event) */
-declare var onscrollend: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onscrollend: PartialLibDomGlobal<'onscrollend', ((this: Window, ev: Event) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Document/securitypolicyviolation_event) */
-declare var onsecuritypolicyviolation: undefined | ((this: Window, ev: SecurityPolicyViolationEvent) => any) | null;
+declare var onsecuritypolicyviolation: PartialLibDomGlobal<'onsecuritypolicyviolation', ((this: Window, ev: SecurityPolicyViolationEvent) => any) | null>;
 /**
  * Occurs when the seek operation ends.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLMediaElement/seeked_event)
  */
-declare var onseeked: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onseeked: PartialLibDomGlobal<'onseeked', ((this: Window, ev: Event) => any) | null>;
 /**
  * Occurs when the current playback position is moved.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLMediaElement/seeking_event)
  */
-declare var onseeking: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onseeking: PartialLibDomGlobal<'onseeking', ((this: Window, ev: Event) => any) | null>;
 /**
  * Fires when the current selection changes.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLInputElement/select_event)
  */
-declare var onselect: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onselect: PartialLibDomGlobal<'onselect', ((this: Window, ev: Event) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Document/selectionchange_event) */
-declare var onselectionchange: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onselectionchange: PartialLibDomGlobal<'onselectionchange', ((this: Window, ev: Event) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Node/selectstart_event) */
-declare var onselectstart: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onselectstart: PartialLibDomGlobal<'onselectstart', ((this: Window, ev: Event) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLSlotElement/slotchange_event) */
-declare var onslotchange: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onslotchange: PartialLibDomGlobal<'onslotchange', ((this: Window, ev: Event) => any) | null>;
 /**
  * Occurs when the download has stopped.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLMediaElement/stalled_event)
  */
-declare var onstalled: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onstalled: PartialLibDomGlobal<'onstalled', ((this: Window, ev: Event) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLFormElement/submit_event) */
-declare var onsubmit: undefined | ((this: Window, ev: SubmitEvent) => any) | null;
+declare var onsubmit: PartialLibDomGlobal<'onsubmit', ((this: Window, ev: SubmitEvent) => any) | null>;
 /**
  * Occurs if the load operation has been intentionally halted.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLMediaElement/suspend_event)
  */
-declare var onsuspend: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onsuspend: PartialLibDomGlobal<'onsuspend', ((this: Window, ev: Event) => any) | null>;
 /**
  * Occurs to indicate the current playback position.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLMediaElement/timeupdate_event)
  */
-declare var ontimeupdate: undefined | ((this: Window, ev: Event) => any) | null;
+declare var ontimeupdate: PartialLibDomGlobal<'ontimeupdate', ((this: Window, ev: Event) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLDetailsElement/toggle_event) */
-declare var ontoggle: undefined | ((this: Window, ev: Event) => any) | null;
+declare var ontoggle: PartialLibDomGlobal<'ontoggle', ((this: Window, ev: Event) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/touchcancel_event) */
-declare var ontouchcancel: undefined | ((this: Window, ev: TouchEvent) => any) | null | undefined;
+declare var ontouchcancel: PartialLibDomGlobal<'ontouchcancel', ((this: Window, ev: TouchEvent) => any) | null | undefined>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/touchend_event) */
-declare var ontouchend: undefined | ((this: Window, ev: TouchEvent) => any) | null | undefined;
+declare var ontouchend: PartialLibDomGlobal<'ontouchend', ((this: Window, ev: TouchEvent) => any) | null | undefined>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/touchmove_event) */
-declare var ontouchmove: undefined | ((this: Window, ev: TouchEvent) => any) | null | undefined;
+declare var ontouchmove: PartialLibDomGlobal<'ontouchmove', ((this: Window, ev: TouchEvent) => any) | null | undefined>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/touchstart_event) */
-declare var ontouchstart: undefined | ((this: Window, ev: TouchEvent) => any) | null | undefined;
+declare var ontouchstart: PartialLibDomGlobal<'ontouchstart', ((this: Window, ev: TouchEvent) => any) | null | undefined>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/transitioncancel_event) */
-declare var ontransitioncancel: undefined | ((this: Window, ev: TransitionEvent) => any) | null;
+declare var ontransitioncancel: PartialLibDomGlobal<'ontransitioncancel', ((this: Window, ev: TransitionEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/transitionend_event) */
-declare var ontransitionend: undefined | ((this: Window, ev: TransitionEvent) => any) | null;
+declare var ontransitionend: PartialLibDomGlobal<'ontransitionend', ((this: Window, ev: TransitionEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/transitionrun_event) */
-declare var ontransitionrun: undefined | ((this: Window, ev: TransitionEvent) => any) | null;
+declare var ontransitionrun: PartialLibDomGlobal<'ontransitionrun', ((this: Window, ev: TransitionEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/transitionstart_event) */
-declare var ontransitionstart: undefined | ((this: Window, ev: TransitionEvent) => any) | null;
+declare var ontransitionstart: PartialLibDomGlobal<'ontransitionstart', ((this: Window, ev: TransitionEvent) => any) | null>;
 /**
  * Occurs when the volume is changed, or playback is muted or unmuted.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLMediaElement/volumechange_event)
  */
-declare var onvolumechange: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onvolumechange: PartialLibDomGlobal<'onvolumechange', ((this: Window, ev: Event) => any) | null>;
 /**
  * Occurs when playback stops because the next frame of a video resource is not available.
  * @param ev The event.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/HTMLMediaElement/waiting_event)
  */
-declare var onwaiting: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onwaiting: PartialLibDomGlobal<'onwaiting', ((this: Window, ev: Event) => any) | null>;
 /**
  * @deprecated This is a legacy alias of `onanimationend`.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/animationend_event)
  */
-declare var onwebkitanimationend: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onwebkitanimationend: PartialLibDomGlobal<'onwebkitanimationend', ((this: Window, ev: Event) => any) | null>;
 /**
  * @deprecated This is a legacy alias of `onanimationiteration`.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/animationiteration_event)
  */
-declare var onwebkitanimationiteration: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onwebkitanimationiteration: PartialLibDomGlobal<'onwebkitanimationiteration', ((this: Window, ev: Event) => any) | null>;
 /**
  * @deprecated This is a legacy alias of `onanimationstart`.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/animationstart_event)
  */
-declare var onwebkitanimationstart: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onwebkitanimationstart: PartialLibDomGlobal<'onwebkitanimationstart', ((this: Window, ev: Event) => any) | null>;
 /**
  * @deprecated This is a legacy alias of `ontransitionend`.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/transitionend_event)
  */
-declare var onwebkittransitionend: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onwebkittransitionend: PartialLibDomGlobal<'onwebkittransitionend', ((this: Window, ev: Event) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Element/wheel_event) */
-declare var onwheel: undefined | ((this: Window, ev: WheelEvent) => any) | null;
+declare var onwheel: PartialLibDomGlobal<'onwheel', ((this: Window, ev: WheelEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/afterprint_event) */
-declare var onafterprint: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onafterprint: PartialLibDomGlobal<'onafterprint', ((this: Window, ev: Event) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/beforeprint_event) */
-declare var onbeforeprint: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onbeforeprint: PartialLibDomGlobal<'onbeforeprint', ((this: Window, ev: Event) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/beforeunload_event) */
-declare var onbeforeunload: undefined | ((this: Window, ev: BeforeUnloadEvent) => any) | null;
+declare var onbeforeunload: PartialLibDomGlobal<'onbeforeunload', ((this: Window, ev: BeforeUnloadEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/gamepadconnected_event) */
-declare var ongamepadconnected: undefined | ((this: Window, ev: GamepadEvent) => any) | null;
+declare var ongamepadconnected: PartialLibDomGlobal<'ongamepadconnected', ((this: Window, ev: GamepadEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/gamepaddisconnected_event) */
-declare var ongamepaddisconnected: undefined | ((this: Window, ev: GamepadEvent) => any) | null;
+declare var ongamepaddisconnected: PartialLibDomGlobal<'ongamepaddisconnected', ((this: Window, ev: GamepadEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/hashchange_event) */
-declare var onhashchange: undefined | ((this: Window, ev: HashChangeEvent) => any) | null;
+declare var onhashchange: PartialLibDomGlobal<'onhashchange', ((this: Window, ev: HashChangeEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/languagechange_event) */
-declare var onlanguagechange: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onlanguagechange: PartialLibDomGlobal<'onlanguagechange', ((this: Window, ev: Event) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/message_event) */
-declare var onmessage: undefined | ((this: Window, ev: MessageEvent) => any) | null;
+declare var onmessage: PartialLibDomGlobal<'onmessage', ((this: Window, ev: MessageEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/messageerror_event) */
-declare var onmessageerror: undefined | ((this: Window, ev: MessageEvent) => any) | null;
+declare var onmessageerror: PartialLibDomGlobal<'onmessageerror', ((this: Window, ev: MessageEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/offline_event) */
-declare var onoffline: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onoffline: PartialLibDomGlobal<'onoffline', ((this: Window, ev: Event) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/online_event) */
-declare var ononline: undefined | ((this: Window, ev: Event) => any) | null;
+declare var ononline: PartialLibDomGlobal<'ononline', ((this: Window, ev: Event) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/pagehide_event) */
-declare var onpagehide: undefined | ((this: Window, ev: PageTransitionEvent) => any) | null;
+declare var onpagehide: PartialLibDomGlobal<'onpagehide', ((this: Window, ev: PageTransitionEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/pageshow_event) */
-declare var onpageshow: undefined | ((this: Window, ev: PageTransitionEvent) => any) | null;
+declare var onpageshow: PartialLibDomGlobal<'onpageshow', ((this: Window, ev: PageTransitionEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/popstate_event) */
-declare var onpopstate: undefined | ((this: Window, ev: PopStateEvent) => any) | null;
+declare var onpopstate: PartialLibDomGlobal<'onpopstate', ((this: Window, ev: PopStateEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/rejectionhandled_event) */
-declare var onrejectionhandled: undefined | ((this: Window, ev: PromiseRejectionEvent) => any) | null;
+declare var onrejectionhandled: PartialLibDomGlobal<'onrejectionhandled', ((this: Window, ev: PromiseRejectionEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/storage_event) */
-declare var onstorage: undefined | ((this: Window, ev: StorageEvent) => any) | null;
+declare var onstorage: PartialLibDomGlobal<'onstorage', ((this: Window, ev: StorageEvent) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/unhandledrejection_event) */
-declare var onunhandledrejection: undefined | ((this: Window, ev: PromiseRejectionEvent) => any) | null;
+declare var onunhandledrejection: PartialLibDomGlobal<'onunhandledrejection', ((this: Window, ev: PromiseRejectionEvent) => any) | null>;
 /**
  * @deprecated
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/unload_event)
  */
-declare var onunload: undefined | ((this: Window, ev: Event) => any) | null;
+declare var onunload: PartialLibDomGlobal<'onunload', ((this: Window, ev: Event) => any) | null>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/localStorage) */
-declare var localStorage: undefined | Storage;
+declare var localStorage: PartialLibDomGlobal<'localStorage', Storage>;
 /**
  * Available only in secure contexts.
  *
  * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/caches)
  */
-declare var caches: undefined | CacheStorage;
+declare var caches: PartialLibDomGlobal<'caches', CacheStorage>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/crossOriginIsolated) */
-declare var crossOriginIsolated: undefined | boolean;
+declare var crossOriginIsolated: PartialLibDomGlobal<'crossOriginIsolated', boolean>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/crypto) */
-declare var crypto: Crypto;
+declare var crypto: PartialLibDomNodeGlobal<'crypto', Crypto>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/indexedDB) */
-declare var indexedDB: undefined | IDBFactory;
+declare var indexedDB: PartialLibDomGlobal<'indexedDB', IDBFactory>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/isSecureContext) */
-declare var isSecureContext: undefined | boolean;
+declare var isSecureContext: PartialLibDomGlobal<'isSecureContext', boolean>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/origin) */
-declare var origin: undefined | string;
+declare var origin: PartialLibDomGlobal<'origin', string>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/performance) */
-declare var performance: Performance;
+declare var performance: PartialLibDomNodeGlobal<'performance', Performance>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/atob) */
-declare function atob(this: Window | void, data: string): string;
+declare function atob(data: string): string;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/btoa) */
 declare function btoa(data: string): string;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/clearInterval) */
@@ -27841,16 +27822,16 @@ declare function clearInterval(id: number | undefined): void;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/clearTimeout) */
 declare function clearTimeout(id: number | undefined): void;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/createImageBitmap) */
-declare var createImageBitmap: undefined | {
+declare var createImageBitmap: PartialLibDomGlobal<'createImageBitmap', {
   (image: ImageBitmapSource, options?: ImageBitmapOptions): Promise<ImageBitmap>;
   (image: ImageBitmapSource, sx: number, sy: number, sw: number, sh: number, options?: ImageBitmapOptions): Promise<ImageBitmap>;
-};
+}>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/fetch) */
 declare function fetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/queueMicrotask) */
 declare function queueMicrotask(callback: VoidFunction): void;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/reportError) */
-declare var reportError: undefined | ((e: any) => void);
+declare var reportError: PartialLibDomGlobal<'reportError', (e: any) => void>;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/setInterval) */
 declare function setInterval(handler: TimerHandler, timeout?: number, ...arguments: any[]): number;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/setTimeout) */
@@ -27858,16 +27839,15 @@ declare function setTimeout(handler: TimerHandler, timeout?: number, ...argument
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/structuredClone) */
 declare function structuredClone<T = any>(value: T, options?: StructuredSerializeOptions): T;
 /** [MDN Reference](https://developer.mozilla.org/docs/Web/API/Window/sessionStorage) */
-declare var sessionStorage: undefined | Storage;
-declare var addEventListener: undefined | {
+declare var sessionStorage: PartialLibDomGlobal<'sessionStorage', Storage>;
+declare var addEventListener: PartialLibDomGlobal<'addEventListener', {
   <K extends keyof WindowEventMap>(type: K, listener: (this: Window, ev: WindowEventMap[K]) => any, options?: boolean | AddEventListenerOptions): void;
   (type: string, listener: EventListenerOrEventListenerObject, options?: boolean | AddEventListenerOptions): void;
-};
-declare var removeEventListener: undefined | {
-  <K extends keyof WindowEventMap>(type: K, listener: (this: Window, ev: WindowEventMap[K]) => any, options?: boolean | AddEventListenerOptions): void;
+}>;
+declare var removeEventListener: PartialLibDomGlobal<'removeEventListener', {
+  <K extends keyof WindowEventMap>(type: K, listener: (this: Window, ev: WindowEventMap[K]) => any, options?: boolean | EventListenerOptions): void;
   (type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
-};
-
+}>;
 type AlgorithmIdentifier = Algorithm | string;
 type AllowSharedBufferSource = ArrayBuffer | ArrayBufferView;
 type AutoFill = AutoFillBase | `${OptionalPrefixToken<AutoFillSection>}${OptionalPrefixToken<AutoFillAddressKind>}${AutoFillField}${OptionalPostfixToken<AutoFillCredentialField>}`;
@@ -28700,7 +28680,6 @@ type BrowserGlobalKeys =
   | 'XPathResult'
   | 'XSLTProcessor'
   | 'addEventListener'
-  | 'addEventListener'
   | 'alert'
   | 'blur'
   | 'caches'
@@ -28712,7 +28691,6 @@ type BrowserGlobalKeys =
   | 'closed'
   | 'confirm'
   | 'createImageBitmap'
-  | 'createImageBitmap'
   | 'crossOriginIsolated'
   | 'customElements'
   | 'devicePixelRatio'
@@ -28870,12 +28848,10 @@ type BrowserGlobalKeys =
   | 'parent'
   | 'personalbar'
   | 'postMessage'
-  | 'postMessage'
   | 'print'
   | 'prompt'
   | 'releaseEvents'
   | 'removeEventListener'
-  | 'removeEventListener'
   | 'reportError'
   | 'requestAnimationFrame'
   | 'requestIdleCallback'
@@ -28887,10 +28863,7 @@ type BrowserGlobalKeys =
   | 'screenX'
   | 'screenY'
   | 'scroll'
-  | 'scroll'
   | 'scrollBy'
-  | 'scrollBy'
-  | 'scrollTo'
   | 'scrollTo'
   | 'scrollX'
   | 'scrollY'
@@ -28905,10 +28878,34 @@ type BrowserGlobalKeys =
   | 'visualViewport'
   | 'webkitURL';
 
-  type BrowserGlobals = {
+type BrowserGlobals = {
   [Key in keyof typeof globalThis]: Key extends 'self' | 'window'
     ? Window & BrowserGlobals
-    : Key extends BrowserGlobalKeys
+    : Key extends BrowserGlobalKeys | PartialLibDomConfigKeys<'neverAssume'>
       ? Exclude<typeof globalThis[Key], undefined>
       : typeof globalThis[Key];
 };
+
+/**
+ * Configures the lib through declaration merging, with unions of global variable names:
+ * - `alwaysDefined`: globals never `undefined`, like polyfilled ones.
+ * - `neverAssume`: globals eventually `undefined` though defined on Node, like `crypto`. Functions are left as they are.
+ *
+ * @example
+ * declare global {
+ *   interface PartialLibDomConfig {
+ *     alwaysDefined: 'navigator';
+ *     neverAssume: 'crypto' | 'performance';
+ *   }
+ * }
+ */
+interface PartialLibDomConfig {}
+
+/** Names listed by the `Option` member of `PartialLibDomConfig`, if any. */
+type PartialLibDomConfigKeys<Option extends string> = PartialLibDomConfig extends { [Key in Option]: infer Keys } ? Keys : never;
+
+/** Type of the global `Key`, eventually `undefined` unless listed by `PartialLibDomConfig['alwaysDefined']`. */
+type PartialLibDomGlobal<Key extends string, Type> = Key extends PartialLibDomConfigKeys<'alwaysDefined'> ? Type : undefined | Type;
+
+/** Type of the global `Key` defined on Node, eventually `undefined` if listed by `PartialLibDomConfig['neverAssume']`. */
+type PartialLibDomNodeGlobal<Key extends string, Type> = Key extends PartialLibDomConfigKeys<'neverAssume'> ? undefined | Type : Type;
@@ -13,6 +13,7 @@ See the Apache Version 2.0 License for specific language governing permissions
 and limitations under the License.
 ***************************************************************************** */
 
+
 /////////////////////////////
 /// Window Iterable APIs
 /////////////////////////////
@@ -0,0 +1,115 @@
+const cp = require('child_process');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const resolve = (...args) => path.resolve(__dirname, ...args);
+const { join } = path;
+
+/** Name under which the package is installed, and imported by the projects. */
+const packageName = '@typescript/lib-dom';
+
+function kill(status, ...args) {
+  if (args.length) {
+    console.error(...args);
+  }
+  process.exit(status);
+}
+
+/** Whether `name` can be required, for entry points depending on optional peer dependencies. */
+function isInstalled(name) {
+  try {
+    require.resolve(name);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/** Names of the exported members of a module, save for the interop ones. */
+function memberNames(module) {
+  return Object.keys(module)
+    .filter((name) => name !== '__esModule' && name !== 'default')
+    .sort();
+}
+
+/** Imports an entry point with `require` and `import`, and checks both give the same members. */
+async function importEntry(entry, missingPeers) {
+  const specifier = `${packageName}/${entry}`;
+  let cjs;
+  let esm;
+  try {
+    cjs = require(specifier);
+    esm = await import(specifier);
+  } catch (error) {
+    const missingPeer = missingPeers.find((name) => String(error).includes(`'${name}'`));
+    if (missingPeer) {
+      console.log(`\x1b[33m~ ${specifier}\x1b[0m skipped, ${missingPeer} is not installed`);
+      return true;
+    }
+    console.error(`\x1b[31m✕ ${specifier}\x1b[0m`, String(error));
+    return false;
+  }
+  const cjsNames = memberNames(cjs).join(', ');
+  const esmNames = memberNames(esm).join(', ');
+  if (cjsNames !== esmNames) {
+    console.error(`\x1b[31m✕ ${specifier}\x1b[0m CommonJS exports ${cjsNames}\n  while ES module exports ${esmNames}`);
+    return false;
+  }
+  console.log(`\x1b[32m✓ ${specifier}\x1b[0m`);
+  return true;
+}
+
+/** Type-checks a project importing the entry points, from CommonJS and ES modules, with the given resolution. */
+function checkTypes(entries, module, moduleResolution) {
+  const dir = fs.mkdtempSync(join(os.tmpdir(), 'smoke-test-'));
+  try {
+    fs.mkdirSync(join(dir, 'node_modules', '@typescript'), { recursive: true });
+    fs.symlinkSync(__dirname, join(dir, 'node_modules', packageName), 'junction');
+    const imports = entries.map((entry, index) => `import * as entry${index} from '${packageName}/${entry}';`);
+    const uses = `export default [${entries.map((_entry, index) => `entry${index}`).join(', ')}];\n`;
+    fs.writeFileSync(join(dir, 'esm.mts'), `${imports.join('\n')}\n${uses}`, 'utf-8');
+    fs.writeFileSync(join(dir, 'cjs.cts'), `${imports.join('\n')}\n${uses}`, 'utf-8');
+    const compilerOptions = {
+      lib: ['es2022', 'dom'],
+      module,
+      moduleResolution,
+      noEmit: true,
+      skipLibCheck: true,
+      strict: true,
+      typeRoots: [resolve('node_modules', '@types')],
+      types: ['node'],
+    };
+    const tsconfig = { compilerOptions, files: ['esm.mts', 'cjs.cts'] };
+    fs.writeFileSync(join(dir, 'tsconfig.json'), JSON.stringify(tsconfig), 'utf-8');
+    const tsc = resolve('node_modules', 'typescript', 'bin', 'tsc');
+    const { status, stdout } = cp.spawnSync(process.execPath, [tsc, '-p', dir], { encoding: 'utf-8' });
+    if (status) {
+      console.error(`\x1b[31m✕ types with ${moduleResolution} resolution\x1b[0m\n${stdout}`);
+      return false;
+    }
+    console.log(`\x1b[32m✓ types with ${moduleResolution} resolution\x1b[0m`);
+    return true;
+  } finally {
+    fs.rmSync(dir, { recursive: true });
+  }
+}
+
+async function smokeTest() {
+  const pkg = JSON.parse(fs.readFileSync(resolve('package.json'), 'utf-8'));
+  const missingPeers = Object.keys(pkg.peerDependencies).filter((name) => !isInstalled(name));
+  const entries = Object.entries(pkg.exports)
+    .filter(([, conditions]) => conditions.import && conditions.require)
+    .map(([key]) => key.slice(2));
+  let ok = true;
+  for (const entry of entries) {
+    ok = (await importEntry(entry, missingPeers)) && ok;
+  }
+  ok = checkTypes(entries, 'node16', 'node16') && ok;
+  ok = checkTypes(entries, 'esnext', 'bundler') && ok;
+  if (!ok) {
+    kill(1, '\x1b[31mSmoke test failed, has the package been built?\x1b[0m');
+  }
+}
+
+smokeTest().catch((error) => kill(1, error));
@@ -1,4 +1,4 @@
-import { EnvironmentError } from './EnvironmentError';
+import { EnvironmentError, MissingGlobalError } from './EnvironmentError';
 
 const anonFn = ((fn) => fn)(() => 0);
 const namedFn = () => 0;
@@ -19,4 +19,59 @@ describe('Check EnvironmentError', () => {
     expect(envError.message).toBe('Function namedFn executed on wrong environment, expected browser');
     expect(envError.name).toBe('EnvironmentError');
   });
+
+  it('instanciates with missing globals', () => {
+    const envError = new MissingGlobalError(namedFn, ['IntersectionObserver', 'ResizeObserver']);
+    expect(envError).toBeInstanceOf(EnvironmentError);
+    expect(envError).toBeInstanceOf(MissingGlobalError);
+    expect(envError.code).toBe('ERR_MISSING_GLOBAL');
+    expect(envError.missingGlobals).toEqual(['IntersectionObserver', 'ResizeObserver']);
+    expect(envError.message).toBe(
+      'Function namedFn executed on wrong environment, missing browser globals IntersectionObserver, ResizeObserver',
+    );
+    expect(envError.name).toBe('MissingGlobalError');
+    expect(new EnvironmentError(namedFn).missingGlobals).toEqual([]);
+  });
+
+  it('tells code, runtime and cause', () => {
+    const cause = new Error('Cause');
+    const envError = new EnvironmentError(namedFn, { cause });
+    expect(envError.code).toBe('ERR_WRONG_ENVIRONMENT');
+    expect(envError.runtime).toBe('node');
+    expect(envError.cause).toBe(cause);
+    expect(new MissingGlobalError(namedFn, ['ResizeObserver'], { cause }).cause).toBe(cause);
+    expect('cause' in new EnvironmentError(namedFn)).toBe(false);
+  });
+
+  it('serializes without function', () => {
+    const envError = new EnvironmentError(namedFn);
+    const json = {
+      code: 'ERR_WRONG_ENVIRONMENT',
+      message: envError.message,
+      missingGlobals: [],
+      name: 'EnvironmentError',
+      runtime: 'node',
+      stack: envError.stack,
+    };
+    expect(envError.toJSON()).toEqual(json);
+    expect(JSON.parse(JSON.stringify(envError))).toEqual(json);
+    const cause = new Error('Cause');
+    expect(new EnvironmentError(namedFn, { cause }).toJSON().cause).toEqual({
+      message: 'Cause',
+      name: 'Error',
+      stack: cause.stack,
+    });
+    expect(new EnvironmentError(namedFn, { cause: envError }).toJSON().cause).toBe(envError);
+    expect(new EnvironmentError(namedFn, { cause: 'Cause' }).toJSON().cause).toBe('Cause');
+  });
+
+  it('creates throwing and warning functions according to missing globals', () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+    expect(EnvironmentError.throwingFn(namedFn)).toThrow(EnvironmentError);
+    expect(EnvironmentError.throwingFn(namedFn, [])).not.toThrow(MissingGlobalError);
+    expect(EnvironmentError.throwingFn(namedFn, ['ResizeObserver'])).toThrow(MissingGlobalError);
+    expect(EnvironmentError.warningFn(namedFn, () => 'fallback', ['ResizeObserver'])()).toBe('fallback');
+    expect(consoleErrorSpy).toHaveBeenLastCalledWith(expect.any(MissingGlobalError));
+    consoleErrorSpy.mockRestore();
+  });
 });
@@ -1,30 +1,111 @@
-import type { AnyBrowserFn, AnyFn } from './types';
+import type { Runtime } from './runtime';
+import type { AnyBrowserFn, AnyFn, AnyGlobalsFn } from './types';
+
+import { reportEnvironmentError } from './reporter';
+import { detectRuntime } from './runtime';
 
 /** Thrown by `strictlyOnBrowser` when called outside of a browser. */
 export class EnvironmentError extends Error {
+  /** Error which caused this one, if any. */
+  public readonly cause?: unknown;
+
+  /** Stable code of the error, to tell the cases apart in logs. */
+  public readonly code: EnvironmentError.Code = 'ERR_WRONG_ENVIRONMENT';
+
   /** Browser function passed to `strictlyOnBrowser`. */
-  public readonly fn: AnyBrowserFn;
+  public readonly fn: AnyBrowserFn | AnyGlobalsFn;
+
+  /** Browser globals which were expected but missing, empty when `window` was. */
+  public readonly missingGlobals: readonly BrowserGlobalKeys[];
+
+  /** Runtime the error occurred on. */
+  public readonly runtime: Runtime;
 
-  public constructor(fn: AnyBrowserFn) {
+  public constructor(fn: AnyBrowserFn | AnyGlobalsFn, options: EnvironmentError.Options = {}) {
+    const { cause, missingGlobals = [] } = options;
     const name = fn.name ? `Function ${fn.name}` : 'Anonymous function';
-    super(`${name} executed on wrong environment, expected browser`);
+    const expected = missingGlobals.length
+      ? `missing browser globals ${missingGlobals.join(', ')}`
+      : 'expected browser';
+    super(`${name} executed on wrong environment, ${expected}`);
+    if ('cause' in options) {
+      this.cause = cause;
+    }
     this.fn = fn;
+    this.missingGlobals = missingGlobals;
+    this.runtime = detectRuntime();
   }
 
-  public static throwingFn(fn: AnyBrowserFn) {
+  /** Returns the error as a plain object, without its function, for logs. */
+  public toJSON(): EnvironmentError.JSON {
+    const { cause, code, message, missingGlobals, name, runtime, stack } = this;
+    const json: EnvironmentError.JSON = { code, message, missingGlobals, name, runtime, stack };
+    if ('cause' in this) {
+      json.cause =
+        cause instanceof Error && !(cause instanceof EnvironmentError)
+          ? { message: cause.message, name: cause.name, stack: cause.stack }
+          : cause;
+    }
+    return json;
+  }
+
+  public static throwingFn(fn: AnyBrowserFn | AnyGlobalsFn, missingGlobals?: readonly BrowserGlobalKeys[]) {
     return () => {
-      throw new EnvironmentError(fn);
+      throw createError(fn, missingGlobals);
     };
   }
 
-  public static warningFn(fn: AnyBrowserFn, fallbackFn: AnyFn) {
+  public static warningFn(
+    fn: AnyBrowserFn | AnyGlobalsFn,
+    fallbackFn: AnyFn,
+    missingGlobals?: readonly BrowserGlobalKeys[],
+  ) {
     return (...args: unknown[]) => {
-      // eslint-disable-next-line no-console
-      console.error(new EnvironmentError(fn));
-      fallbackFn(...args);
+      reportEnvironmentError(createError(fn, missingGlobals));
+      return fallbackFn(...args);
     };
   }
 }
 
-// Sets `EnvironmentError` name in its prototype, as non-enumerable.
+export namespace EnvironmentError {
+  export type Code = 'ERR_MISSING_GLOBAL' | 'ERR_WRONG_ENVIRONMENT';
+
+  export interface JSON {
+    cause?: unknown;
+    code: Code;
+    message: string;
+    missingGlobals: readonly BrowserGlobalKeys[];
+    name: string;
+    runtime: Runtime;
+    stack?: string;
+  }
+
+  export interface Options {
+    /** Error which caused this one. */
+    cause?: unknown;
+    /** Browser globals which were expected but missing. */
+    missingGlobals?: readonly BrowserGlobalKeys[];
+  }
+}
+
+/** Thrown when browser globals are missing, even though `window` may be defined. */
+export class MissingGlobalError extends EnvironmentError {
+  public override readonly code = 'ERR_MISSING_GLOBAL';
+
+  public constructor(
+    fn: AnyBrowserFn | AnyGlobalsFn,
+    missingGlobals: readonly BrowserGlobalKeys[],
+    options: Omit<EnvironmentError.Options, 'missingGlobals'> = {},
+  ) {
+    super(fn, { ...options, missingGlobals });
+  }
+}
+
+/** Creates a `MissingGlobalError` when browser globals are missing, otherwise an `EnvironmentError`. */
+function createError(fn: AnyBrowserFn | AnyGlobalsFn, missingGlobals?: readonly BrowserGlobalKeys[]) {
+  return missingGlobals?.length ? new MissingGlobalError(fn, missingGlobals) : new EnvironmentError(fn);
+}
+
+// Sets errors names in their prototype, as non-enumerable.
 Object.defineProperty(EnvironmentError.prototype, 'name', { enumerable: false, value: 'EnvironmentError' });
+Object.defineProperty(MissingGlobalError.prototype, 'name', { enumerable: false, value: 'MissingGlobalError' });
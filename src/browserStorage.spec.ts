@@ -0,0 +1,173 @@
+import type { ServerContext } from './requestContext';
+
+import './globals';
+import * as _ from './browserStorage';
+import { createServerContext, setServerContextStorage } from './requestContext';
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+function createStorageMock() {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    removeItem: (key: string) => items.delete(key),
+    setItem: (key: string, value: string) => items.set(key, value),
+  } as unknown as Storage;
+}
+
+let serverContext: ServerContext | undefined;
+
+setServerContextStorage({ getStore: () => serverContext });
+
+/** Executes a function within the context of a new request. */
+function withRequest<ReturnType>(fn: () => ReturnType) {
+  serverContext = createServerContext({ headers: {}, url: 'http://localhost/' });
+  try {
+    return fn();
+  } finally {
+    serverContext = void 0;
+  }
+}
+
+function createWindowMock() {
+  return {
+    addEventListener: jest.fn(),
+    localStorage: createStorageMock(),
+    removeEventListener: jest.fn(),
+    sessionStorage: createStorageMock(),
+  } as unknown as typeof window & { addEventListener: jest.Mock; removeEventListener: jest.Mock };
+}
+
+describe('Check browser storage', () => {
+  it('uses browser storages when accessible', () => {
+    const windowMock = createWindowMock();
+    const replacedProperty = jest.replaceProperty(global, 'window', windowMock);
+    const storage = _.browserStorage();
+    expect(storage.isMemory).toBe(false);
+    expect(storage.storage).toBe(windowMock.localStorage);
+    expect(_.browserStorage('session').storage).toBe(windowMock.sessionStorage);
+    storage.set('key', { a: 1 });
+    expect(windowMock.localStorage.getItem('key')).toBe('{"a":1}');
+    expect(storage.get('key')).toEqual({ a: 1 });
+    storage.remove('key');
+    expect(storage.get('key')).toBe(void 0);
+    replacedProperty.restore();
+  });
+
+  it('falls back to in-memory storages when not accessible', () => {
+    const windowMock = Object.defineProperty(createWindowMock(), 'localStorage', {
+      get() {
+        throw new Error('Access denied');
+      },
+    });
+    const replacedProperty = jest.replaceProperty(global, 'window', windowMock);
+    const storage = _.browserStorage('local');
+    expect(storage.isMemory).toBe(true);
+    storage.set('key', 'value');
+    expect(_.browserStorage('local').get('key')).toBe('value');
+    replacedProperty.restore();
+  });
+
+  it('does not store values on server outside of request contexts', () => {
+    const { isMemory, storage } = _.browserStorage('session');
+    expect(isMemory).toBe(true);
+    storage.setItem('a', '1');
+    expect(storage.getItem('a')).toBe(null);
+    expect(storage.key(0)).toBe(null);
+    expect(storage.length).toBe(0);
+    storage.removeItem('a');
+    storage.clear();
+    expect(_.browserStorage('session').set('a', 1)).toBe(false);
+  });
+
+  it('falls back to in-memory storages of the request on server', () => {
+    const storage = withRequest(() => {
+      const { isMemory, storage } = _.browserStorage('session');
+      expect(isMemory).toBe(true);
+      expect(_.browserStorage('session').storage).toBe(storage);
+      expect(_.browserStorage('local').storage).not.toBe(storage);
+      _.browserStorage('session').set('key', 'value');
+      expect(_.browserStorage('session').get('key')).toBe('value');
+      return storage;
+    });
+    withRequest(() => {
+      expect(_.browserStorage('session').storage).not.toBe(storage);
+      expect(_.browserStorage('session').get('key')).toBe(void 0);
+    });
+    storage.clear();
+    storage.setItem('a', '1');
+    storage.setItem('b', '2');
+    expect(storage.length).toBe(2);
+    expect(storage.key(1)).toBe('b');
+    expect(storage.key(2)).toBe(null);
+    storage.removeItem('a');
+    expect(storage.getItem('a')).toBe(null);
+    storage.clear();
+    expect(storage.length).toBe(0);
+  });
+
+  it('parses items', () => {
+    expect(_.parseItem(null)).toBe(void 0);
+    expect(_.parseItem('{')).toBe(void 0);
+    expect(_.parseItem('"value"', isString)).toBe('value');
+    expect(_.parseItem('42', isString)).toBe(void 0);
+  });
+
+  it('does not notify subscriptions of values which could not be stored', () => {
+    const windowMock = createWindowMock();
+    const replacedProperty = jest.replaceProperty(global, 'window', windowMock);
+    const storage = _.browserStorage();
+    const listener = jest.fn();
+    const unsubscribe = storage.subscribe('key', listener);
+    expect(storage.set('key', BigInt(1))).toBe(false);
+    jest.spyOn(windowMock.localStorage, 'setItem').mockImplementation(() => {
+      throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+    });
+    expect(storage.set('key', 'value')).toBe(false);
+    expect(listener).not.toHaveBeenCalled();
+    expect(storage.get('key')).toBe(void 0);
+    unsubscribe();
+    replacedProperty.restore();
+  });
+
+  it('notifies subscriptions of changes made within the page', () => {
+    withRequest(() => {
+      const listener = jest.fn();
+      const storage = _.browserStorage('session');
+      const unsubscribe = storage.subscribe('key', listener, isString);
+      storage.set('key', 'value');
+      expect(listener).toHaveBeenLastCalledWith('value');
+      storage.set('key', 42);
+      expect(listener).toHaveBeenLastCalledWith(void 0);
+      storage.remove('key');
+      expect(listener).toHaveBeenCalledTimes(3);
+      storage.set('other', 'value');
+      _.browserStorage('local').set('key', 'value');
+      expect(listener).toHaveBeenCalledTimes(3);
+      unsubscribe();
+      expect(storage.set('key', 'value')).toBe(true);
+      expect(listener).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  it('notifies subscriptions of changes made from other browser tabs', () => {
+    const listener = jest.fn();
+    const windowMock = createWindowMock();
+    const replacedProperty = jest.replaceProperty(global, 'window', windowMock);
+    const storage = _.browserStorage();
+    const unsubscribe = storage.subscribe('key', listener);
+    const [[type, onStorage]] = windowMock.addEventListener.mock.calls as [[string, (event: object) => void]];
+    expect(type).toBe('storage');
+    windowMock.localStorage.setItem('key', '"value"');
+    onStorage({ key: 'key', storageArea: windowMock.localStorage });
+    expect(listener).toHaveBeenLastCalledWith('value');
+    onStorage({ key: null, storageArea: windowMock.localStorage });
+    expect(listener).toHaveBeenCalledTimes(2);
+    onStorage({ key: 'other', storageArea: windowMock.localStorage });
+    onStorage({ key: 'key', storageArea: windowMock.sessionStorage });
+    expect(listener).toHaveBeenCalledTimes(2);
+    unsubscribe();
+    expect(windowMock.removeEventListener).toHaveBeenLastCalledWith('storage', onStorage);
+    replacedProperty.restore();
+  });
+});
@@ -0,0 +1,189 @@
+import type { ServerContext } from './requestContext';
+
+import { getServerContext } from './requestContext';
+
+/** Type of browser storage: `localStorage` or `sessionStorage`. */
+export type BrowserStorageType = 'local' | 'session';
+
+/** Checks a value parsed from a storage is of the expected type. */
+export type StorageValidator<Value> = (value: unknown) => value is Value;
+
+/** Listener of the changes of a storage item, with its new value as parameter. */
+export type StorageListener<Value> = (value: Value | undefined) => void;
+
+/** Typed JSON access to a browser storage, or to its in-memory stand-in. */
+export interface BrowserStorage {
+  /** Whether the storage is an in-memory stand-in, on a server or when the browser storage is not accessible. */
+  readonly isMemory: boolean;
+  /** Underlying storage. */
+  readonly storage: Storage;
+  /** Returns the parsed value of an item, or `undefined` when it is missing, is not JSON or is not valid. */
+  get<Value>(key: string, validator?: StorageValidator<Value>): Value | undefined;
+  /** Removes an item. */
+  remove(key: string): void;
+  /**
+   * Stores a value as JSON, and returns whether it could: not when the storage is full or denied, when the value can't
+   * be serialized, nor on a server outside of a request context.
+   */
+  set(key: string, value: unknown): boolean;
+  /**
+   * Listens to the changes of an item, made through `set` and `remove` or from other browser tabs,
+   * and returns a function to stop listening.
+   */
+  subscribe<Value>(key: string, listener: StorageListener<Value>, validator?: StorageValidator<Value>): () => void;
+}
+
+interface Subscription {
+  key: string;
+  onChange: () => void;
+  storage: Storage;
+}
+
+/** In-memory stand-ins of the browser storages, when they are not accessible on a browser. */
+const memoryStorages = new Map<BrowserStorageType, Storage>();
+
+/** In-memory stand-ins of the browser storages on a server, by request. */
+const requestStorages = new WeakMap<ServerContext, Map<BrowserStorageType, Storage>>();
+
+/** Stand-in of the browser storages on a server outside of a request context, ignoring writes. */
+const noopStorage: Storage = {
+  length: 0,
+  clear: () => void 0,
+  getItem: () => null,
+  key: () => null,
+  removeItem: () => void 0,
+  setItem: () => void 0,
+};
+
+/** Subscriptions to storage items, notified of changes made within the page. */
+const subscriptions = new Set<Subscription>();
+
+/** Creates an in-memory implementation of `Storage`. */
+function createMemoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(String(key)) ?? null,
+    key: (index) => Array.from(items.keys())[index] ?? null,
+    removeItem: (key) => items.delete(String(key)),
+    setItem: (key, value) => items.set(String(key), String(value)),
+  };
+}
+
+/** Returns the browser storage when it is accessible, meaning it can be written. */
+function accessibleStorage(type: BrowserStorageType) {
+  const key = '@typescript/lib-dom';
+  try {
+    const storage = window?.[`${type}Storage`];
+    storage?.setItem(key, key);
+    storage?.removeItem(key);
+    return storage;
+  } catch (_error) {
+    return void 0;
+  }
+}
+
+/**
+ * Returns the in-memory stand-in of a browser storage: the one of the page on a browser, the one of the ongoing request
+ * on a server, or one ignoring writes on a server outside of a request context.
+ */
+function memoryStorage(type: BrowserStorageType) {
+  const context = window ? void 0 : getServerContext();
+  if (!window && !context) {
+    return noopStorage;
+  }
+  let storages = memoryStorages;
+  if (context) {
+    storages = requestStorages.get(context) ?? new Map<BrowserStorageType, Storage>();
+    requestStorages.set(context, storages);
+  }
+  const storage = storages.get(type) ?? createMemoryStorage();
+  storages.set(type, storage);
+  return storage;
+}
+
+/** Notifies the subscriptions to a storage item of its change. */
+function notify(storage: Storage, key: string) {
+  for (const subscription of subscriptions) {
+    if (subscription.storage === storage && subscription.key === key) {
+      subscription.onChange();
+    }
+  }
+}
+
+/** Parses a JSON storage item, returns `undefined` when it is missing, is not JSON or is not valid. */
+export function parseItem<Value>(item: string | null, validator?: StorageValidator<Value>): Value | undefined {
+  if (item === null) {
+    return void 0;
+  }
+  try {
+    const value = JSON.parse(item) as unknown;
+    return !validator || validator(value) ? (value as Value) : void 0;
+  } catch (_error) {
+    return void 0;
+  }
+}
+
+/**
+ * Gives typed JSON access to `localStorage` or `sessionStorage`.
+ *
+ * When the browser storage is not accessible (as in some private browsing modes), an in-memory stand-in is used
+ * instead. On a server, the in-memory stand-in is the one of the ongoing request, see `runWithRequestContext`,
+ * and outside of a request context it ignores writes, so no data is shared between requests.
+ *
+ * @param type Type of storage, `'local'` by default.
+ * @returns Access to the storage.
+ * @example
+ * ```
+ *   const storage = browserStorage('session');
+ *   storage.set('cart', ['apple']);
+ *   const cart = storage.get('cart', isStringArray); // `string[] | undefined`
+ *   const unsubscribe = storage.subscribe('cart', (cart) => render(cart), isStringArray);
+ * ```
+ */
+export function browserStorage(type: BrowserStorageType = 'local'): BrowserStorage {
+  const accessible = accessibleStorage(type);
+  const storage = accessible ?? memoryStorage(type);
+  const get = <Value>(key: string, validator?: StorageValidator<Value>) => parseItem(storage.getItem(key), validator);
+  return {
+    get,
+    isMemory: !accessible,
+    storage,
+    remove(key) {
+      storage.removeItem(key);
+      notify(storage, key);
+    },
+    set(key, value) {
+      if (storage === noopStorage) {
+        return false;
+      }
+      try {
+        storage.setItem(key, JSON.stringify(value));
+      } catch (_error) {
+        // `QuotaExceededError` when the storage is full, `SecurityError` when it is denied,
+        // `TypeError` when the value is circular or contains a `BigInt`.
+        return false;
+      }
+      notify(storage, key);
+      return true;
+    },
+    subscribe(key, listener, validator) {
+      const currentWindow = window;
+      const subscription = { key, onChange: () => listener(get(key, validator)), storage };
+      const onStorage = (event: StorageEvent) => {
+        if (event.storageArea === storage && (event.key === key || event.key === null)) {
+          subscription.onChange();
+        }
+      };
+      subscriptions.add(subscription);
+      currentWindow?.addEventListener('storage', onStorage);
+      return () => {
+        subscriptions.delete(subscription);
+        currentWindow?.removeEventListener('storage', onStorage);
+      };
+    },
+  };
+}
@@ -0,0 +1,63 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { run } from './cli';
+
+describe('Check command line interface', () => {
+  const error = jest.fn();
+  const log = jest.fn();
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'cli-'));
+    fs.writeFileSync(
+      path.join(cwd, 'a.ts'),
+      "const a = typeof window !== 'undefined' && window.name;\nconst b = typeof window !== 'undefined';\n",
+    );
+    fs.writeFileSync(path.join(cwd, 'b.ts'), 'const c = 1;\n');
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+    fs.rmSync(cwd, { recursive: true });
+  });
+
+  it('prints usage', () => {
+    expect(run(['--help'], { error, log }, cwd)).toBe(0);
+    expect(log).toHaveBeenLastCalledWith(expect.stringContaining('Usage: typescript-partial-lib-dom migrate'));
+    expect(run([], { error, log }, cwd)).toBe(1);
+    expect(run(['migrate'], { error, log }, cwd)).toBe(1);
+    expect(error).toHaveBeenCalledTimes(2);
+    expect(run(['migrate', '*.ts', '--force'], { error, log }, cwd)).toBe(1);
+    expect(error).toHaveBeenLastCalledWith(expect.stringContaining('Unknown option --force'));
+  });
+
+  it('prints diffs on dry runs', () => {
+    expect(run(['migrate', '*.ts', '--dry-run'], { error, log }, cwd)).toBe(0);
+    expect(log).toHaveBeenCalledWith(expect.stringContaining('+const a = onBrowser((window) => window.name, false);'));
+    expect(log).toHaveBeenLastCalledWith('Would migrate 1 typeof check(s) in 1 file(s)');
+    expect(error).toHaveBeenLastCalledWith("a.ts:3:11: typeof check left as is, it can't be rewritten safely");
+    expect(fs.readFileSync(path.join(cwd, 'a.ts'), 'utf-8')).toContain('typeof window');
+  });
+
+  it('migrates files', () => {
+    expect(run(['migrate', '*.ts', 'none/*.ts'], { error, log }, cwd)).toBe(0);
+    expect(log).toHaveBeenCalledTimes(1);
+    expect(log).toHaveBeenLastCalledWith('Migrated 1 typeof check(s) in 1 file(s)');
+    expect(fs.readFileSync(path.join(cwd, 'a.ts'), 'utf-8')).toContain(
+      'const a = onBrowser((window) => window.name, false);',
+    );
+  });
+
+  it('writes to the process outputs by default', () => {
+    const stdoutSpy = jest.spyOn(process.stdout, 'write').mockReturnValue(true);
+    const stderrSpy = jest.spyOn(process.stderr, 'write').mockReturnValue(true);
+    const cwdSpy = jest.spyOn(process, 'cwd').mockReturnValue(cwd);
+    expect(run(['migrate', '*.ts'])).toBe(0);
+    expect(stdoutSpy).toHaveBeenLastCalledWith('Migrated 1 typeof check(s) in 1 file(s)\n');
+    expect(stderrSpy).toHaveBeenCalledTimes(1);
+    stdoutSpy.mockRestore();
+    stderrSpy.mockRestore();
+    cwdSpy.mockRestore();
+  });
+});
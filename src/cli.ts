@@ -0,0 +1,63 @@
+#!/usr/bin/env node
+import { migrate } from './migrate';
+
+/** Output of the command line interface. */
+export interface CliOutput {
+  error(text: string): void;
+  log(text: string): void;
+}
+
+const usage = `Usage: typescript-partial-lib-dom migrate <glob...> [--dry-run]
+
+Rewrites the typeof checks of browser global variables with onBrowser, browserFn,
+onGlobals, globalsFn or optional chaining.
+
+Options:
+  --dry-run  Prints the diff of the migration instead of writing the files`;
+
+const processOutput: CliOutput = {
+  error: (text) => process.stderr.write(`${text}\n`),
+  log: (text) => process.stdout.write(`${text}\n`),
+};
+
+/**
+ * Runs the command line interface.
+ *
+ * @param args Command line arguments, without the executable and script paths.
+ * @param output Output of the interface, the standard and error outputs of the process by default.
+ * @param cwd Directory the glob patterns are relative to, the current working directory by default.
+ * @returns The exit status.
+ */
+export function run(args: readonly string[], output = processOutput, cwd = process.cwd()) {
+  const [command, ...options] = args;
+  const dryRun = options.includes('--dry-run');
+  const patterns = options.filter((option) => option !== '--dry-run');
+  const unknownOption = patterns.find((pattern) => pattern.startsWith('-'));
+  if (command === '--help' || command === '-h') {
+    output.log(usage);
+    return 0;
+  } else if (command !== 'migrate' || !patterns.length || unknownOption) {
+    output.error(unknownOption ? `Unknown option ${unknownOption}\n\n${usage}` : usage);
+    return 1;
+  }
+  const results = migrate(patterns, { cwd, dryRun });
+  let changes = 0;
+  let files = 0;
+  for (const { changes: fileChanges, diff, skipped } of results) {
+    changes += fileChanges;
+    files += fileChanges ? 1 : 0;
+    if (dryRun && diff) {
+      output.log(diff);
+    }
+    for (const { column, fileName, line } of skipped) {
+      output.error(`${fileName}:${line}:${column}: typeof check left as is, it can't be rewritten safely`);
+    }
+  }
+  output.log(`${dryRun ? 'Would migrate' : 'Migrated'} ${changes} typeof check(s) in ${files} file(s)`);
+  return 0;
+}
+
+/* istanbul ignore next */
+if (require.main === module) {
+  process.exitCode = run(process.argv.slice(2));
+}
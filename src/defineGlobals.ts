@@ -0,0 +1,16 @@
+/**
+ * Defaults global variables to `undefined` on `scope`, allowing to access them without getting reference errors.
+ *
+ * Only the globals which are not defined yet are defined, so existing ones are left untouched.
+ *
+ * @param names Names of the global variables.
+ * @param scope Global object to define them on.
+ * @returns The names of the global variables which have been defined.
+ */
+export function defineGlobals<Name extends string>(names: readonly Name[], scope: object): Name[] {
+  const keys = names.filter((key) => !(key in scope));
+  for (const key of keys) {
+    Object.defineProperty(scope, key, { configurable: true, enumerable: true, value: void 0, writable: true });
+  }
+  return keys;
+}
@@ -0,0 +1,221 @@
+import { TSESLint } from '@typescript-eslint/utils';
+import * as _ from './eslint';
+
+const ruleTester = new TSESLint.RuleTester({
+  parser: require.resolve('@typescript-eslint/parser'),
+  parserOptions: { ecmaFeatures: { jsx: true }, ecmaVersion: 2018, sourceType: 'module' },
+});
+
+describe('Check ESLint plugin', () => {
+  it('exposes rules and presets', () => {
+    expect(_.meta.name).toBe('@typescript/lib-dom/eslint');
+    expect(_.rules['prefer-on-browser']).toBe(_.preferOnBrowser);
+    expect(_.configs.recommended.plugins['@typescript/lib-dom'].rules).toBe(_.rules);
+    expect(Object.keys(_.configs.recommended.rules)).toEqual(
+      Object.keys(_.rules).map((name) => `@typescript/lib-dom/${name}`),
+    );
+    const [, { additionalHooks }] = _.configs['react-hooks'].rules['react-hooks/exhaustive-deps'];
+    const regExp = new RegExp(additionalHooks);
+    expect(['useBrowserCallbackOrThrow', 'useLayoutEffect'].every((hook) => regExp.test(hook))).toBe(true);
+    expect(['useBrowserCallback', 'useBrowserCallbackOrWarn'].some((hook) => regExp.test(hook))).toBe(false);
+  });
+});
+
+ruleTester.run('no-browser-global-in-render', _.noBrowserGlobalInRender, {
+  invalid: [
+    {
+      code: 'function App() { return <p>{window.innerWidth}</p>; }',
+      errors: [{ data: { name: 'window' }, messageId: 'noBrowserGlobalInRender' }],
+    },
+    {
+      code: 'const Title = memo(() => <h1>{document.title}</h1>);',
+      errors: [{ data: { name: 'document' }, messageId: 'noBrowserGlobalInRender' }],
+    },
+    {
+      code: 'function useWidth() { return innerWidth; }',
+      errors: [{ data: { name: 'innerWidth' }, messageId: 'noBrowserGlobalInRender' }],
+      globals: { innerWidth: 'readonly' },
+    },
+  ],
+  valid: [
+    'function App() { useEffect(() => { document.title = "App"; }); return null; }',
+    'function App({ window }) { return window.name; }',
+    'function getWidth() { return window.innerWidth; }',
+    'const width = window.innerWidth;',
+    'const App = () => { const size: typeof window.innerWidth = 0; return size; };',
+    'export default function () { return window; }',
+  ],
+});
+
+ruleTester.run('no-typeof-browser-global', _.noTypeofBrowserGlobal, {
+  invalid: [
+    {
+      code: "if (typeof window !== 'undefined') {}",
+      errors: [
+        {
+          data: { name: 'window' },
+          messageId: 'noTypeofBrowserGlobal',
+          suggestions: [
+            { data: { name: 'window' }, messageId: 'compareWithUndefined', output: 'if (window !== undefined) {}' },
+          ],
+        },
+      ],
+    },
+    {
+      code: "const isServer = 'undefined' == typeof document;",
+      errors: [
+        {
+          data: { name: 'document' },
+          messageId: 'noTypeofBrowserGlobal',
+          suggestions: [
+            {
+              data: { name: 'document' },
+              messageId: 'compareWithUndefined',
+              output: 'const isServer = document == undefined;',
+            },
+          ],
+        },
+      ],
+    },
+  ],
+  valid: [
+    "if (typeof process !== 'undefined') {}",
+    "if (typeof window === 'object') {}",
+    "if (typeof window.opener !== 'undefined') {}",
+    "function f(window) { return typeof window !== 'undefined'; }",
+    "if (typeof window < 'undefined') {}",
+  ],
+});
+
+ruleTester.run('no-unsafe-browser-global-cast', _.noUnsafeBrowserGlobalCast, {
+  invalid: [
+    {
+      code: 'const { scrollY } = window as Window;',
+      errors: [{ data: { name: 'window' }, messageId: 'noUnsafeBrowserGlobalCast' }],
+    },
+    {
+      code: 'const title = document!.title;',
+      errors: [{ data: { name: 'document' }, messageId: 'noUnsafeBrowserGlobalCast' }],
+    },
+    {
+      code: 'const storage = <Storage>localStorage;',
+      errors: [{ data: { name: 'localStorage' }, messageId: 'noUnsafeBrowserGlobalCast' }],
+      parserOptions: { ecmaFeatures: { jsx: false } },
+    },
+  ],
+  valid: [
+    'const currentWindow = window as Window | undefined;',
+    'const value = input as string;',
+    'const size = window?.innerWidth as number;',
+    'const window = getWindow(); const { scrollY } = window as Window;',
+  ],
+});
+
+ruleTester.run('prefer-on-browser', _.preferOnBrowser, {
+  invalid: [
+    {
+      code: 'const scrollY = window ? window.scrollY : 0;',
+      errors: [{ messageId: 'preferOnBrowser' }],
+      output:
+        "import { onBrowser } from '@typescript/lib-dom/utils';\nconst scrollY = onBrowser((window) => window.scrollY, 0);",
+    },
+    {
+      code: "import React from 'react';\nconst size = window !== undefined && { width: window.innerWidth };",
+      errors: [{ messageId: 'preferOnBrowser' }],
+      output:
+        "import React from 'react';\nimport { onBrowser } from '@typescript/lib-dom/utils';\n" +
+        'const size = onBrowser((window) => ({ width: window.innerWidth }), false);',
+    },
+    {
+      code: "const scrolled = typeof window !== 'undefined' && window.scrollY > 0;",
+      errors: [{ messageId: 'preferOnBrowser' }],
+      output:
+        "import { onBrowser } from '@typescript/lib-dom/utils';\n" +
+        'const scrolled = onBrowser((window) => window.scrollY > 0, false);',
+    },
+    {
+      code: "import { browserFn } from '@typescript/lib-dom/utils';\nconst x = typeof window !== 'undefined' ? (f(), 1) : (g(), 2);",
+      errors: [
+        {
+          messageId: 'preferOnBrowser',
+          suggestions: [
+            {
+              messageId: 'useOnBrowser',
+              output:
+                "import { browserFn, onBrowser } from '@typescript/lib-dom/utils';\nconst x = onBrowser((window) => (f(), 1), (g(), 2));",
+            },
+          ],
+        },
+      ],
+      output: null,
+    },
+    {
+      code: 'const name = window ? window.name : `anonymous`;',
+      errors: [{ messageId: 'preferOnBrowser' }],
+      output:
+        "import { onBrowser } from '@typescript/lib-dom/utils';\nconst name = onBrowser((window) => window.name, `anonymous`);",
+    },
+    {
+      code: "import { onBrowser as on } from '@typescript/lib-dom/utils';\nconst y = null != window ? window.scrollY : void 0;",
+      errors: [{ messageId: 'preferOnBrowser' }],
+      output:
+        "import { onBrowser as on } from '@typescript/lib-dom/utils';\nconst y = on((window) => window.scrollY, void 0);",
+    },
+    {
+      code: "import * as utils from '@typescript/lib-dom/utils';\nconst y = window && window.scrollY;",
+      errors: [{ messageId: 'preferOnBrowser' }],
+      output:
+        "import * as utils from '@typescript/lib-dom/utils';\nimport { onBrowser } from '@typescript/lib-dom/utils';\n" +
+        'const y = onBrowser((window) => window.scrollY);',
+    },
+    {
+      code: 'async function f() { return window ? await load(async () => await window.fetch(url)) : null; }',
+      errors: [{ messageId: 'preferOnBrowser' }],
+      output: null,
+    },
+    {
+      code: 'const data = window ? load(async () => await window.fetch(url)) : null;',
+      errors: [{ messageId: 'preferOnBrowser' }],
+      output:
+        "import { onBrowser } from '@typescript/lib-dom/utils';\n" +
+        'const data = onBrowser((window) => load(async () => await window.fetch(url)), null);',
+    },
+    {
+      code: "import { 'onBrowser' as on } from '@typescript/lib-dom/utils';\nconst y = window ? window.scrollY : 0;",
+      errors: [{ messageId: 'preferOnBrowser' }],
+      output:
+        "import { 'onBrowser' as on } from '@typescript/lib-dom/utils';\nconst y = on((window) => window.scrollY, 0);",
+      parserOptions: { ecmaVersion: 2022 },
+    },
+    {
+      code: "import type { BrowserFn } from '@typescript/lib-dom/utils';\nconst y = window ? window.scrollY : 0;",
+      errors: [{ messageId: 'preferOnBrowser' }],
+      output:
+        "import type { BrowserFn } from '@typescript/lib-dom/utils';\nimport { onBrowser } from '@typescript/lib-dom/utils';\n" +
+        'const y = onBrowser((window) => window.scrollY, 0);',
+    },
+    {
+      code: "import { type onBrowser as on } from '@typescript/lib-dom/utils';\nconst y = window ? window.scrollY : 0;",
+      errors: [{ messageId: 'preferOnBrowser' }],
+      output:
+        "import { type onBrowser as on } from '@typescript/lib-dom/utils';\nimport { onBrowser } from '@typescript/lib-dom/utils';\n" +
+        'const y = onBrowser((window) => window.scrollY, 0);',
+    },
+    {
+      code: 'function* f() { return window && (yield window.scrollY); }',
+      errors: [{ messageId: 'preferOnBrowser' }],
+      output: null,
+    },
+  ],
+  valid: [
+    'const y = document ? document.title : "";',
+    'const y = window || fallback;',
+    'const y = window === undefined ? 0 : 1;',
+    'const y = window !== other ? 0 : 1;',
+    'const y = window !== -1 ? 0 : 1;',
+    "const y = typeof window === 'undefined' ? 0 : 1;",
+    'const y = window == null ? 0 : 1;',
+    'const y = a ? b : c;',
+    'function f(window) { return window ? window.scrollY : 0; }',
+  ],
+});
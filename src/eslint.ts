@@ -0,0 +1,362 @@
+import type { TSESLint, TSESTree } from '@typescript-eslint/utils';
+
+import { AST_NODE_TYPES } from '@typescript-eslint/utils';
+import { browserGlobals } from './browserGlobals';
+
+type Context<MessageIds extends string> = Readonly<TSESLint.RuleContext<MessageIds, []>>;
+
+type FunctionNode = TSESTree.ArrowFunctionExpression | TSESTree.FunctionDeclaration | TSESTree.FunctionExpression;
+
+type Rule<MessageIds extends string> = TSESLint.RuleModule<MessageIds, [], { description: string }>;
+
+const browserGlobalNames = new Set<string>(browserGlobals);
+
+/** Name of the plugin in the presets, and prefix of its rules. */
+const pluginName = '@typescript/lib-dom';
+
+/**
+ * Hooks of `@typescript/lib-dom/react` always taking a list of dependencies as second parameter, as expected by
+ * `react-hooks/exhaustive-deps`: not `useBrowserCallback` and `useBrowserCallbackOrWarn`, which may take a fallback.
+ */
+export const additionalHooks = '^(useBrowserCallbackOrThrow|useEffect|useInsertionEffect|useLayoutEffect)$';
+
+/** Whether a node is a function, which is executed later than the code around it. */
+function isFunction(node: TSESTree.Node): node is FunctionNode {
+  return (
+    node.type === AST_NODE_TYPES.ArrowFunctionExpression ||
+    node.type === AST_NODE_TYPES.FunctionDeclaration ||
+    node.type === AST_NODE_TYPES.FunctionExpression
+  );
+}
+
+/** Whether an identifier references a browser global variable, rather than a local variable of the same name. */
+function isBrowserGlobal(context: Context<string>, node: TSESTree.Node): node is TSESTree.Identifier {
+  if (node.type !== AST_NODE_TYPES.Identifier || !browserGlobalNames.has(node.name)) {
+    return false;
+  }
+  for (let scope: TSESLint.Scope.Scope | null = context.sourceCode.getScope(node); scope; scope = scope.upper) {
+    const variable = scope.set.get(node.name);
+    if (variable) {
+      return !variable.defs.length;
+    }
+  }
+  return true;
+}
+
+/** Whether a node is `undefined`, `void 0` or `null`. */
+function isNullish(node: TSESTree.Node) {
+  return (
+    (node.type === AST_NODE_TYPES.Identifier && node.name === 'undefined') ||
+    (node.type === AST_NODE_TYPES.Literal && node.value === null) ||
+    (node.type === AST_NODE_TYPES.UnaryExpression && node.operator === 'void')
+  );
+}
+
+/** Whether a node is a literal, evaluated without side effects, so it can be evaluated even when not used. */
+function isLiteral(node: TSESTree.Node) {
+  return (
+    isNullish(node) ||
+    node.type === AST_NODE_TYPES.Literal ||
+    (node.type === AST_NODE_TYPES.TemplateLiteral && !node.expressions.length)
+  );
+}
+
+/** Returns the name of the browser global variable when a node is `typeof <name> <operator> 'undefined'`. */
+function typeofComparedName(context: Context<string>, node: TSESTree.BinaryExpression) {
+  const [typeofNode, otherNode] =
+    node.left.type === AST_NODE_TYPES.UnaryExpression ? [node.left, node.right] : [node.right, node.left];
+  const isComparison =
+    ['!=', '!==', '==', '==='].includes(node.operator) &&
+    typeofNode.type === AST_NODE_TYPES.UnaryExpression &&
+    typeofNode.operator === 'typeof' &&
+    otherNode.type === AST_NODE_TYPES.Literal &&
+    otherNode.value === 'undefined';
+  return isComparison && isBrowserGlobal(context, typeofNode.argument) ? typeofNode.argument.name : void 0;
+}
+
+/** Whether a node checks `window` is defined: `window`, `window !== undefined` or `typeof window !== 'undefined'`. */
+function isWindowCheck(context: Context<string>, node: TSESTree.Node) {
+  if (node.type !== AST_NODE_TYPES.BinaryExpression) {
+    return isBrowserGlobal(context, node) && node.name === 'window';
+  } else if (node.operator !== '!=' && node.operator !== '!==') {
+    return false;
+  }
+  const [windowNode, otherNode] = isNullish(node.right) ? [node.left, node.right] : [node.right, node.left];
+  return (
+    typeofComparedName(context, node) === 'window' ||
+    (isNullish(otherNode) && isBrowserGlobal(context, windowNode) && windowNode.name === 'window')
+  );
+}
+
+/** Whether a node contains an `await` or `yield` expression, which can't be moved into a new function. */
+function containsAwaitOrYield(context: Context<string>, node: TSESTree.Node): boolean {
+  if (node.type === AST_NODE_TYPES.AwaitExpression || node.type === AST_NODE_TYPES.YieldExpression) {
+    return true;
+  } else if (isFunction(node)) {
+    return false;
+  }
+  const record = node as unknown as { [key: string]: unknown };
+  return (context.sourceCode.visitorKeys[node.type] as readonly string[]).some((key) =>
+    ([] as unknown[])
+      .concat(record[key])
+      .some((child) => !!child && containsAwaitOrYield(context, child as TSESTree.Node)),
+  );
+}
+
+/** Returns the name of a function, or of the variable it is assigned to, even through calls like `memo(...)`. */
+function functionName(node: FunctionNode) {
+  if (node.id) {
+    return node.id.name;
+  }
+  let parent = node.parent;
+  while (parent.type === AST_NODE_TYPES.CallExpression) {
+    parent = parent.parent;
+  }
+  return parent.type === AST_NODE_TYPES.VariableDeclarator && parent.id.type === AST_NODE_TYPES.Identifier
+    ? parent.id.name
+    : void 0;
+}
+
+/** Whether a function is a React component or hook, judging by its name, thus executed while rendering. */
+function isRenderFunction(node: TSESTree.Node) {
+  return isFunction(node) && /^([A-Z]|use[A-Z0-9])/.test(functionName(node) ?? '');
+}
+
+/** Returns the text of an expression, wrapped in parentheses when it can't be used as an argument as is. */
+function argumentText(context: Context<string>, node: TSESTree.Node) {
+  const text = context.sourceCode.getText(node);
+  return node.type === AST_NODE_TYPES.ObjectExpression || node.type === AST_NODE_TYPES.SequenceExpression
+    ? `(${text})`
+    : text;
+}
+
+/** Returns fixes importing `onBrowser` if needed, along with the name it is imported as. */
+function importOnBrowser(context: Context<string>, fixer: TSESLint.RuleFixer): [string, TSESLint.RuleFix[]] {
+  const { body } = context.sourceCode.ast;
+  const imports = body.filter(
+    (node): node is TSESTree.ImportDeclaration => node.type === AST_NODE_TYPES.ImportDeclaration,
+  );
+  const utilsImport = imports.find(
+    ({ importKind, source }) => importKind !== 'type' && source.value === '@typescript/lib-dom/utils',
+  );
+  const specifiers = utilsImport?.specifiers.filter(
+    (specifier): specifier is TSESTree.ImportSpecifier =>
+      specifier.type === AST_NODE_TYPES.ImportSpecifier && specifier.importKind !== 'type',
+  );
+  const specifier = specifiers?.find(
+    ({ imported }) => (imported.type === AST_NODE_TYPES.Identifier ? imported.name : imported.value) === 'onBrowser',
+  );
+  const lastSpecifier = specifiers?.[specifiers.length - 1];
+  const lastImport = imports[imports.length - 1];
+  if (specifier) {
+    return [specifier.local.name, []];
+  } else if (lastSpecifier) {
+    return ['onBrowser', [fixer.insertTextAfter(lastSpecifier, ', onBrowser')]];
+  } else if (lastImport) {
+    return [
+      'onBrowser',
+      [fixer.insertTextAfter(lastImport, "\nimport { onBrowser } from '@typescript/lib-dom/utils';")],
+    ];
+  } else {
+    return [
+      'onBrowser',
+      [fixer.insertTextBeforeRange([0, 0], "import { onBrowser } from '@typescript/lib-dom/utils';\n")],
+    ];
+  }
+}
+
+/** Reports browser global variables referenced while rendering React components and hooks. */
+export const noBrowserGlobalInRender: Rule<'noBrowserGlobalInRender'> = {
+  defaultOptions: [],
+  meta: {
+    docs: {
+      description: 'Disallow browser global variables while rendering React components and hooks',
+    },
+    messages: {
+      noBrowserGlobalInRender:
+        '`{{name}}` is read while rendering, which differs between server and browser and breaks the hydration, ' +
+        'read it in an effect, in a callback or with `useOnBrowser` instead',
+    },
+    schema: [],
+    type: 'problem',
+  },
+  create(context) {
+    return {
+      'Program:exit'(program) {
+        const globalScope = context.sourceCode.getScope(program);
+        const references = [...globalScope.through];
+        for (const variable of globalScope.variables) {
+          if (!variable.defs.length) {
+            references.push(...variable.references);
+          }
+        }
+        for (const { identifier, isValueReference } of references) {
+          let parent: TSESTree.Node | undefined = identifier.parent;
+          // References in types, like `typeof window`, are not read at runtime.
+          while (parent && !isFunction(parent) && parent.type !== AST_NODE_TYPES.TSTypeQuery) {
+            parent = parent.parent;
+          }
+          if (isValueReference && browserGlobalNames.has(identifier.name) && parent && isRenderFunction(parent)) {
+            context.report({ data: { name: identifier.name }, messageId: 'noBrowserGlobalInRender', node: identifier });
+          }
+        }
+      },
+    };
+  },
+};
+
+/** Reports `typeof` checks of browser global variables, which are defined as `undefined` by the library. */
+export const noTypeofBrowserGlobal: Rule<'noTypeofBrowserGlobal' | 'compareWithUndefined'> = {
+  defaultOptions: [],
+  meta: {
+    docs: {
+      description: 'Disallow `typeof` checks of browser global variables',
+    },
+    hasSuggestions: true,
+    messages: {
+      compareWithUndefined: 'Compare `{{name}}` with `undefined`',
+      noTypeofBrowserGlobal:
+        '`typeof {{name}}` is redundant, `{{name}}` is typed as possibly `undefined` ' +
+        'and defined by `@typescript/lib-dom/globals`, compare it with `undefined` instead',
+    },
+    schema: [],
+    type: 'suggestion',
+  },
+  create(context) {
+    return {
+      BinaryExpression(node) {
+        const name = typeofComparedName(context, node);
+        if (name) {
+          context.report({
+            data: { name },
+            messageId: 'noTypeofBrowserGlobal',
+            node,
+            suggest: [
+              {
+                data: { name },
+                fix: (fixer) => fixer.replaceText(node, `${name} ${node.operator} undefined`),
+                messageId: 'compareWithUndefined',
+              },
+            ],
+          });
+        }
+      },
+    };
+  },
+};
+
+/** Reports type assertions of browser global variables, which hide they may be `undefined`. */
+export const noUnsafeBrowserGlobalCast: Rule<'noUnsafeBrowserGlobalCast'> = {
+  defaultOptions: [],
+  meta: {
+    docs: {
+      description: 'Disallow type assertions hiding that browser global variables may be `undefined`',
+    },
+    messages: {
+      noUnsafeBrowserGlobalCast:
+        'Asserting the type of `{{name}}` hides that it is `undefined` outside of browsers, ' +
+        'check it or use `onBrowser` instead',
+    },
+    schema: [],
+    type: 'problem',
+  },
+  create(context) {
+    const check = (node: TSESTree.TSAsExpression | TSESTree.TSNonNullExpression | TSESTree.TSTypeAssertion) => {
+      const keepsUndefined =
+        node.type !== AST_NODE_TYPES.TSNonNullExpression &&
+        node.typeAnnotation.type === AST_NODE_TYPES.TSUnionType &&
+        node.typeAnnotation.types.some(({ type }) => type === AST_NODE_TYPES.TSUndefinedKeyword);
+      if (isBrowserGlobal(context, node.expression) && !keepsUndefined) {
+        context.report({ data: { name: node.expression.name }, messageId: 'noUnsafeBrowserGlobalCast', node });
+      }
+    };
+    return { TSAsExpression: check, TSNonNullExpression: check, TSTypeAssertion: check };
+  },
+};
+
+/** Reports checks of `window` guarding a single expression, which `onBrowser` expresses better. */
+export const preferOnBrowser: Rule<'preferOnBrowser' | 'useOnBrowser'> = {
+  defaultOptions: [],
+  meta: {
+    docs: {
+      description: 'Prefer `onBrowser` to expressions guarded by a check of `window`',
+    },
+    fixable: 'code',
+    hasSuggestions: true,
+    messages: {
+      preferOnBrowser: 'Use `onBrowser` instead of checking `window`',
+      useOnBrowser: 'Use `onBrowser`, evaluating the fallback on browsers too',
+    },
+    schema: [],
+    type: 'suggestion',
+  },
+  create(context) {
+    const check = (node: TSESTree.ConditionalExpression | TSESTree.LogicalExpression) => {
+      const [test, consequent, alternate] =
+        node.type === AST_NODE_TYPES.ConditionalExpression
+          ? [node.test, node.consequent, node.alternate]
+          : [node.left, node.right];
+      if (
+        (node.type === AST_NODE_TYPES.ConditionalExpression || node.operator === '&&') &&
+        isWindowCheck(context, test)
+      ) {
+        // `window && x` evaluates to `window` itself, `undefined`, when it is not defined, other checks to `false`.
+        const fallbackText = alternate
+          ? argumentText(context, alternate)
+          : test.type === AST_NODE_TYPES.BinaryExpression
+            ? 'false'
+            : void 0;
+        const fix = (fixer: TSESLint.RuleFixer) => {
+          const [onBrowser, fixes] = importOnBrowser(context, fixer);
+          const fallback = fallbackText === void 0 ? '' : `, ${fallbackText}`;
+          const text = `${onBrowser}((window) => ${argumentText(context, consequent)}${fallback})`;
+          return [...fixes, fixer.replaceText(node, text)];
+        };
+        if (containsAwaitOrYield(context, node)) {
+          // Expressions awaiting or yielding can't be moved into a function.
+          context.report({ messageId: 'preferOnBrowser', node });
+        } else if (!alternate || isLiteral(alternate)) {
+          context.report({ fix, messageId: 'preferOnBrowser', node });
+        } else {
+          // Other fallbacks would be evaluated on browsers too, which only a suggestion can leave to the user.
+          context.report({ messageId: 'preferOnBrowser', node, suggest: [{ fix, messageId: 'useOnBrowser' }] });
+        }
+      }
+    };
+    return { ConditionalExpression: check, LogicalExpression: check };
+  },
+};
+
+/** Metadata of the plugin. */
+export const meta = { name: `${pluginName}/eslint` };
+
+/** Rules of the plugin. */
+export const rules = {
+  'no-browser-global-in-render': noBrowserGlobalInRender,
+  'no-typeof-browser-global': noTypeofBrowserGlobal,
+  'no-unsafe-browser-global-cast': noUnsafeBrowserGlobalCast,
+  'prefer-on-browser': preferOnBrowser,
+};
+
+/**
+ * Presets of the plugin, for flat configurations:
+ * - `recommended` registers the plugin as `@typescript/lib-dom` and enables all its rules.
+ * - `react-hooks` registers the React hooks of the library with `react-hooks/exhaustive-deps`,
+ *   and may as well be spread in a legacy configuration.
+ */
+export const configs = {
+  'react-hooks': {
+    rules: {
+      'react-hooks/exhaustive-deps': ['warn', { additionalHooks }] as const,
+    },
+  },
+  'recommended': {
+    plugins: { [pluginName]: { meta, rules } },
+    rules: {
+      [`${pluginName}/no-browser-global-in-render`]: 'error' as const,
+      [`${pluginName}/no-typeof-browser-global`]: 'error' as const,
+      [`${pluginName}/no-unsafe-browser-global-cast`]: 'error' as const,
+      [`${pluginName}/prefer-on-browser`]: 'warn' as const,
+    },
+  },
+};
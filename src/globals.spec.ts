@@ -1,4 +1,5 @@
 import { browserGlobals } from './globals';
+import { getInstalledGlobals, uninstallBrowserGlobals } from './install';
 
 describe('Check browser globals', () => {
   it('is an array of strings', () => {
@@ -16,4 +17,10 @@ describe('Check browser globals', () => {
       expect(global[name]).toBe(void 0);
     }
   });
+
+  it('are not uninstalled with the installations', () => {
+    expect(getInstalledGlobals()).toEqual([]);
+    uninstallBrowserGlobals();
+    expect('window' in global).toBe(true);
+  });
 });
@@ -0,0 +1,75 @@
+import * as _ from './install';
+
+afterEach(() => {
+  _.uninstallBrowserGlobals();
+});
+
+describe('Check browser globals installation', () => {
+  it('installs all browser globals by default', () => {
+    const installation = _.installBrowserGlobals();
+    expect(installation.keys).toEqual(_.browserGlobals.filter((key) => installation.keys.includes(key)));
+    expect(installation.keys).toContain('window');
+    expect(_.getInstalledGlobals()).toEqual(installation.keys);
+    for (const name of installation.keys) {
+      expect(name in global).toBe(true);
+      expect(global[name]).toBe(void 0);
+    }
+  });
+
+  it('installs included browser globals except excluded ones', () => {
+    const installation = _.installBrowserGlobals({ include: ['document', 'window', 'self'], exclude: ['self'] });
+    expect(installation.keys).toEqual(['document', 'window']);
+    expect(_.getInstalledGlobals()).toEqual(['document', 'window']);
+    expect('window' in global).toBe(true);
+    expect('self' in global).toBe(false);
+  });
+
+  it('leaves existing globals untouched', () => {
+    _.installBrowserGlobals({ include: ['window'] });
+    const installation = _.installBrowserGlobals({ include: ['document', 'window'] });
+    expect(installation.keys).toEqual(['document']);
+    installation.uninstall();
+    expect('window' in global).toBe(true);
+    expect('document' in global).toBe(false);
+  });
+
+  it('installs browser globals on given scope', () => {
+    const scope = { document: null };
+    const installation = _.installBrowserGlobals({ include: ['document', 'window'], scope });
+    expect(installation.keys).toEqual(['window']);
+    expect(scope).toEqual({ document: null, window: void 0 });
+    expect('window' in global).toBe(false);
+    expect(_.getInstalledGlobals()).toEqual([]);
+    installation.uninstall();
+    expect(scope).toEqual({ document: null });
+  });
+
+  it('uninstalls browser globals', () => {
+    const installation = _.installBrowserGlobals({ include: ['window'] });
+    installation.uninstall();
+    expect('window' in global).toBe(false);
+    expect(_.getInstalledGlobals()).toEqual([]);
+    _.installBrowserGlobals({ include: ['window'] });
+    installation.uninstall();
+    expect('window' in global).toBe(true);
+  });
+
+  it('uninstalls only browser globals which have not been assigned since', () => {
+    const installation = _.installBrowserGlobals({ include: ['document', 'window'] });
+    const windowMock = {} as typeof window;
+    global.window = windowMock;
+    installation.uninstall();
+    expect(global.window).toBe(windowMock);
+    expect('document' in global).toBe(false);
+    Reflect.deleteProperty(global, 'window');
+  });
+
+  it('uninstalls all installations', () => {
+    _.installBrowserGlobals({ include: ['window'] });
+    _.installBrowserGlobals({ include: ['document'] });
+    _.uninstallBrowserGlobals();
+    expect('window' in global).toBe(false);
+    expect('document' in global).toBe(false);
+    expect(_.getInstalledGlobals()).toEqual([]);
+  });
+});
@@ -0,0 +1,90 @@
+import type { BrowserGlobalName } from './browserGlobals';
+
+import { browserGlobals } from './browserGlobals';
+import { defineGlobals } from './defineGlobals';
+
+export { BrowserGlobalName, browserGlobals } from './browserGlobals';
+
+/** Options of `installBrowserGlobals`. */
+export interface InstallBrowserGlobalsOptions {
+  /** Browser globals to install, all of them by default. */
+  include?: readonly BrowserGlobalName[];
+  /** Browser globals not to install, none by default. */
+  exclude?: readonly BrowserGlobalName[];
+  /** Global object to install the browser globals on, `globalThis` by default, like the one of a test environment. */
+  scope?: object;
+}
+
+/** Handle on browser globals installed by `installBrowserGlobals`. */
+export interface BrowserGlobalsInstallation {
+  /** Browser globals defaulted to `undefined` by the installation. */
+  readonly keys: readonly BrowserGlobalName[];
+  /** Global object the browser globals are installed on. */
+  readonly scope: object;
+  /** Removes the browser globals defaulted by the installation, but the ones which have been assigned since. */
+  uninstall(): void;
+}
+
+/** Installations which have not been uninstalled yet, in order. */
+const installations: BrowserGlobalsInstallation[] = [];
+
+/**
+ * Defaults browser global variables to `undefined`, allowing to access them without getting reference errors.
+ *
+ * Only the globals which are not defined yet are installed, so existing ones are left untouched.
+ *
+ * @param options Browser globals to include or exclude, all of them by default, and global object to install them on.
+ * @returns A handle to uninstall the browser globals.
+ * @example
+ * ```
+ *   const installation = installBrowserGlobals({ exclude: ['localStorage'] });
+ *   // Here, `window`, `document` and the like are `undefined`.
+ *   installation.uninstall();
+ *   // Here, they are not defined anymore.
+ * ```
+ */
+export function installBrowserGlobals(options: InstallBrowserGlobalsOptions = {}): BrowserGlobalsInstallation {
+  const { include = browserGlobals, exclude = [], scope = globalThis } = options;
+  const names = include.filter((key) => !exclude.includes(key));
+  const keys = defineGlobals(names, scope);
+  const installation: BrowserGlobalsInstallation = {
+    keys,
+    scope,
+    uninstall() {
+      const index = installations.indexOf(installation);
+      if (index >= 0) {
+        installations.splice(index, 1);
+        for (const key of keys) {
+          const descriptor = Object.getOwnPropertyDescriptor(scope, key);
+          if (descriptor && 'value' in descriptor && descriptor.value === void 0) {
+            Reflect.deleteProperty(scope, key);
+          }
+        }
+      }
+    },
+  };
+  installations.push(installation);
+  return installation;
+}
+
+/**
+ * Uninstalls all the browser globals installed by `installBrowserGlobals`, latest installations first.
+ *
+ * The ones defined by importing `@typescript/lib-dom/globals`, which is not an installation, are left untouched.
+ */
+export function uninstallBrowserGlobals() {
+  for (const installation of installations.slice().reverse()) {
+    installation.uninstall();
+  }
+}
+
+/**
+ * Lists the browser globals currently installed by `installBrowserGlobals` on `globalThis`.
+ *
+ * @returns The names of the installed browser globals, in the order of `browserGlobals`.
+ */
+export function getInstalledGlobals(): BrowserGlobalName[] {
+  return browserGlobals.filter((key) =>
+    installations.some((installation) => installation.scope === globalThis && installation.keys.includes(key)),
+  );
+}
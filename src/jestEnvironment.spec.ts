@@ -0,0 +1,20 @@
+import type { EnvironmentContext, JestEnvironmentConfig } from '@jest/environment';
+
+import BrowserGlobalsEnvironment from './jestEnvironment';
+
+const config = { globalConfig: {}, projectConfig: { testEnvironmentOptions: {} } } as JestEnvironmentConfig;
+const context = { console, docblockPragmas: {}, testPath: __filename } as EnvironmentContext;
+
+describe('Check Jest environment', () => {
+  it('installs browser globals on the global object of the tests', async () => {
+    const environment = new BrowserGlobalsEnvironment(config, context);
+    const scope = environment.global as { [key: string]: unknown };
+    await environment.setup();
+    expect('window' in scope).toBe(true);
+    expect(scope.window).toBe(void 0);
+    expect(scope.document).toBe(void 0);
+    expect('window' in global).toBe(false);
+    await environment.teardown();
+    expect('window' in scope).toBe(false);
+  });
+});
@@ -0,0 +1,29 @@
+import type { BrowserGlobalsInstallation } from './install';
+
+import { TestEnvironment } from 'jest-environment-node';
+import { installBrowserGlobals } from './install';
+
+/**
+ * Jest environment running the tests on Node, with the browser globals defaulted to `undefined`
+ * as `@typescript/lib-dom/globals` does, so the test files do not have to import it.
+ *
+ * @example
+ * ```
+ *   // jest.config.js
+ *   module.exports = { testEnvironment: '@typescript/lib-dom/jest-environment' };
+ * ```
+ */
+export default class BrowserGlobalsEnvironment extends TestEnvironment {
+  /** Browser globals installed on the global object of the tests. */
+  private readonly installation: BrowserGlobalsInstallation;
+
+  public constructor(...args: ConstructorParameters<typeof TestEnvironment>) {
+    super(...args);
+    this.installation = installBrowserGlobals({ scope: this.global });
+  }
+
+  public teardown() {
+    this.installation.uninstall();
+    return super.teardown();
+  }
+}
@@ -0,0 +1,376 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import * as _ from './migrate';
+
+const lines = (...lines: string[]) => lines.join('\n');
+
+describe('Check migration of source files', () => {
+  it('rewrites if statements', () => {
+    const { changes, skipped, text } = _.migrateSource(
+      'file.ts',
+      lines(
+        "if (typeof window !== 'undefined') {",
+        '  window.scrollTo(0, 0);',
+        '}',
+        "if (typeof document === 'undefined') {",
+        "  log('server');",
+        '} else {',
+        '  document.title = title;',
+        '}',
+        "if (typeof localStorage != 'undefined') localStorage.clear();",
+        "if (typeof window !== 'undefined') for (;;) {}",
+        "if (typeof localStorage !== 'undefined') {",
+        "  localStorage.setItem('key', value);",
+        '}',
+        "if (typeof window === 'undefined') render(); else hydrate(window);",
+      ),
+    );
+    expect(changes).toBe(6);
+    expect(skipped).toEqual([]);
+    expect(text).toBe(
+      lines(
+        "import { browserFn, globalsFn, onBrowser, onGlobals } from '@typescript/lib-dom/utils';",
+        'onBrowser((window) => {',
+        '  window.scrollTo(0, 0);',
+        '});',
+        "globalsFn(['document'], ({ document }) => {",
+        '  document.title = title;',
+        '}, () => {',
+        "  log('server');",
+        '})();',
+        "onGlobals(['localStorage'], ({ localStorage }) => localStorage.clear());",
+        'onBrowser((window) => { for (;;) {} });',
+        "onGlobals(['localStorage'], ({ localStorage }) => {",
+        "  localStorage.setItem('key', value);",
+        '});',
+        'browserFn((window) => hydrate(window), () => render())();',
+      ),
+    );
+  });
+
+  it('rewrites conditional and logical expressions', () => {
+    const { changes, text } = _.migrateSource(
+      'file.ts',
+      lines(
+        "const a = typeof window === 'undefined' ? 0 : window.scrollY;",
+        "const b = ('undefined' !== typeof document) ? { title: document.title } : null;",
+        "const c = typeof window !== 'undefined' && window.localStorage.getItem('key');",
+        "const d = typeof window !== 'undefined' && window['name'];",
+        "const e = typeof window !== 'undefined' && window(1);",
+        "const f = typeof window !== 'undefined' && { width: window.innerWidth };",
+        "const g = typeof window !== 'undefined' && window;",
+        "const h = typeof window !== 'undefined' && self.name;",
+        "const i = typeof IntersectionObserver !== 'undefined' ? new IntersectionObserver(cb) : null;",
+        "const j = typeof window !== 'undefined' && window.scrollY > 0;",
+      ),
+    );
+    expect(changes).toBe(10);
+    expect(text).toBe(
+      lines(
+        "import { onBrowser, onGlobals } from '@typescript/lib-dom/utils';",
+        'const a = onBrowser((window) => window.scrollY, 0);',
+        "const b = onGlobals(['document'], ({ document }) => ({ title: document.title }), null);",
+        "const c = onBrowser((window) => window.localStorage.getItem('key'), false);",
+        "const d = onBrowser((window) => window['name'], false);",
+        'const e = onBrowser((window) => window(1), false);',
+        'const f = onBrowser((window) => ({ width: window.innerWidth }), false);',
+        'const g = onBrowser((window) => window, false);',
+        'const h = onBrowser((window) => self.name, false);',
+        "const i = onGlobals(['IntersectionObserver'], ({ IntersectionObserver }) => new IntersectionObserver(cb), null);",
+        'const j = onBrowser((window) => window.scrollY > 0, false);',
+      ),
+    );
+  });
+
+  it('rewrites logical expressions used as conditions to optional chains', () => {
+    const { changes, text } = _.migrateSource(
+      'file.ts',
+      lines(
+        "if (typeof window !== 'undefined' && window.name) {}",
+        "while ((typeof window !== 'undefined' && window.closed) || done) {}",
+        "do {} while (!(typeof window !== 'undefined' && window.closed));",
+        "for (; typeof localStorage !== 'undefined' && localStorage.length; ) {}",
+        "const a = typeof window !== 'undefined' && window.name ? 1 : 0;",
+        "if (typeof window !== 'undefined' && { width: window.innerWidth }) {}",
+        "const b = -(typeof window !== 'undefined' && window.scrollY);",
+        "const c = done || (typeof window !== 'undefined' && window.name);",
+        "if ((typeof window !== 'undefined' && window.name) === name) {}",
+        "const d = done ? typeof window !== 'undefined' && window.name : '';",
+        "const e = (typeof window !== 'undefined' && window.name) || name;",
+        "const f = (typeof window !== 'undefined' && window.name) && done;",
+        "if ((typeof window !== 'undefined' && window.name) && done) {}",
+        "if (typeof window !== 'undefined' && window['name']) {}",
+        "if (typeof window !== 'undefined' && window(1)) {}",
+      ),
+    );
+    expect(changes).toBe(15);
+    expect(text).toBe(
+      lines(
+        "import { onBrowser } from '@typescript/lib-dom/utils';",
+        'if (window?.name) {}',
+        'while ((window?.closed) || done) {}',
+        'do {} while (!(window?.closed));',
+        'for (; localStorage?.length; ) {}',
+        'const a = window?.name ? 1 : 0;',
+        'if (onBrowser((window) => ({ width: window.innerWidth }))) {}',
+        'const b = -(onBrowser((window) => window.scrollY, false));',
+        'const c = done || (onBrowser((window) => window.name, false));',
+        'if ((onBrowser((window) => window.name, false)) === name) {}',
+        "const d = done ? onBrowser((window) => window.name, false) : '';",
+        'const e = (window?.name) || name;',
+        'const f = (onBrowser((window) => window.name, false)) && done;',
+        'if ((window?.name) && done) {}',
+        "if (window?.['name']) {}",
+        'if (window?.(1)) {}',
+      ),
+    );
+  });
+
+  it('rewrites nested checks', () => {
+    const { changes, text } = _.migrateSource(
+      'file.ts',
+      lines(
+        "if (typeof window !== 'undefined') {",
+        "  const title = typeof document !== 'undefined' ? document.title : '';",
+        '}',
+      ),
+    );
+    expect(changes).toBe(2);
+    expect(text).toBe(
+      lines(
+        "import { onBrowser, onGlobals } from '@typescript/lib-dom/utils';",
+        'onBrowser((window) => {',
+        "  const title = onGlobals(['document'], ({ document }) => document.title, '');",
+        '});',
+      ),
+    );
+  });
+
+  it('wraps fallbacks which are not literals in functions', () => {
+    const { changes, text } = _.migrateSource(
+      'file.ts',
+      lines(
+        "const a = typeof window === 'undefined' ? require('node-fetch') : window.fetch;",
+        "const b = typeof document !== 'undefined' ? { title: document.title } : { title };",
+        "const c = typeof window !== 'undefined' ? window.name : undefined;",
+      ),
+    );
+    expect(changes).toBe(3);
+    expect(text).toBe(
+      lines(
+        "import { browserFn, globalsFn, onBrowser } from '@typescript/lib-dom/utils';",
+        "const a = browserFn((window) => window.fetch, () => require('node-fetch'))();",
+        "const b = globalsFn(['document'], ({ document }) => ({ title: document.title }), () => ({ title }))();",
+        'const c = onBrowser((window) => window.name, undefined);',
+      ),
+    );
+  });
+
+  it('leaves checks of local variables and of self as is', () => {
+    const source = lines(
+      "function f(self) { if (typeof self !== 'undefined') self.close(); }",
+      "function g() { const { document } = load(); return typeof document !== 'undefined' ? document.title : ''; }",
+      "import { window } from 'window';",
+      "const a = typeof window !== 'undefined' && window.name;",
+      "if (typeof self !== 'undefined') self.close();",
+    );
+    const { changes, skipped, text } = _.migrateSource('file.ts', source);
+    expect(changes).toBe(0);
+    expect(text).toBe(source);
+    expect(skipped.map(({ column, line }) => [line, column])).toEqual([[5, 5]]);
+    const nested = lines(
+      "function document() { return typeof document !== 'undefined' ? document.title : ''; }",
+      "const title = typeof document !== 'undefined' ? document.title : '';",
+    );
+    expect(_.migrateSource('file.ts', nested).changes).toBe(0);
+    const sibling = lines(
+      "function f(document) { return typeof document !== 'undefined' ? document.title : ''; }",
+      "const title = typeof document !== 'undefined' ? document.title : '';",
+    );
+    expect(_.migrateSource('file.ts', sibling).text.split('\n')[2]).toBe(
+      "const title = onGlobals(['document'], ({ document }) => document.title, '');",
+    );
+  });
+
+  it('leaves checks guarding code which cannot be moved', () => {
+    const source = lines(
+      'async function* f() {',
+      "  if (typeof window === 'undefined') return;",
+      "  if (typeof window !== 'undefined') { var x = 1; }",
+      "  const a = typeof window !== 'undefined' ? await load() : null;",
+      "  const b = typeof window !== 'undefined' ? null : yield;",
+      "  const c = typeof window !== 'undefined' && (await load());",
+      "  if (typeof window !== 'undefined') {} else { return; }",
+      '  while (true) {',
+      "    if (typeof window !== 'undefined') break;",
+      "    if (typeof window !== 'undefined') { switch (x) { case 1: continue; } }",
+      "    label: if (typeof window !== 'undefined') break label;",
+      '  }',
+      "  const d = typeof window === 'undefined' && null;",
+      "  const e = typeof window !== 'undefined' || null;",
+      "  const f = typeof window === 'object' ? 1 : 0;",
+      "  const g = typeof process !== 'undefined' ? 1 : 0;",
+      "  const h = typeof window.name !== 'undefined' ? 1 : 0;",
+      "  const i = typeof window !== 'undefined';",
+      '  const j = a && b;',
+      '}',
+    );
+    const { changes, diff, skipped, text } = _.migrateSource('file.ts', source);
+    expect(changes).toBe(0);
+    expect(diff).toBe('');
+    expect(text).toBe(source);
+    expect(skipped.map(({ column, line }) => [line, column])).toEqual([
+      [2, 7],
+      [3, 7],
+      [4, 13],
+      [5, 13],
+      [6, 13],
+      [7, 7],
+      [9, 9],
+      [10, 9],
+      [11, 16],
+      [13, 13],
+      [14, 13],
+      [18, 13],
+    ]);
+  });
+
+  it('rewrites code which can be moved', () => {
+    const { changes, text } = _.migrateSource(
+      'file.ts',
+      lines(
+        "if (typeof window !== 'undefined') {",
+        '  for (const x of list) { if (x) { continue; } else { break; } }',
+        '  switch (x) { case 1: break; }',
+        '  let y = async () => await load();',
+        '  class A { public m() { return 1; } }',
+        '}',
+      ),
+    );
+    expect(changes).toBe(1);
+    expect(text.split('\n')[1]).toBe('onBrowser((window) => {');
+  });
+
+  it('imports the utilities according to existing imports', () => {
+    const check = "const a = typeof window !== 'undefined' ? 1 : 0;";
+    const migrate = (...source: string[]) => _.migrateSource('file.ts', lines(...source, check)).text.split('\n');
+    expect(migrate("import { onBrowser as on } from '@typescript/lib-dom/utils';")).toEqual([
+      "import { onBrowser as on } from '@typescript/lib-dom/utils';",
+      'const a = on((window) => 1, 0);',
+    ]);
+    expect(
+      _.migrateSource(
+        'file.ts',
+        lines(
+          "import { globalsFn as fn, onGlobals as on } from '@typescript/lib-dom/utils';",
+          "typeof document !== 'undefined' && document.title;",
+          "if (typeof document !== 'undefined') document.close(); else exit();",
+        ),
+      ).text,
+    ).toBe(
+      lines(
+        "import { globalsFn as fn, onGlobals as on } from '@typescript/lib-dom/utils';",
+        "on(['document'], ({ document }) => document.title, false);",
+        "fn(['document'], ({ document }) => document.close(), () => exit())();",
+      ),
+    );
+    expect(migrate("import '@typescript/lib-dom/utils';").slice(0, 2)).toEqual([
+      "import '@typescript/lib-dom/utils';",
+      "import { onBrowser } from '@typescript/lib-dom/utils';",
+    ]);
+    expect(migrate("import type { BrowserFn } from '@typescript/lib-dom/utils';").slice(0, 2)).toEqual([
+      "import type { BrowserFn } from '@typescript/lib-dom/utils';",
+      "import { onBrowser } from '@typescript/lib-dom/utils';",
+    ]);
+    expect(migrate("import { type onBrowser as on, type BrowserFn } from '@typescript/lib-dom/utils';")).toEqual([
+      "import { type onBrowser as on, type BrowserFn, onBrowser } from '@typescript/lib-dom/utils';",
+      'const a = onBrowser((window) => 1, 0);',
+    ]);
+    expect(migrate("import { browserFn } from '@typescript/lib-dom/utils';")[0]).toBe(
+      "import { browserFn, onBrowser } from '@typescript/lib-dom/utils';",
+    );
+    expect(migrate("import * as utils from '@typescript/lib-dom/utils';").slice(0, 2)).toEqual([
+      "import * as utils from '@typescript/lib-dom/utils';",
+      "import { onBrowser } from '@typescript/lib-dom/utils';",
+    ]);
+    expect(migrate("'use client';", '// Comment').slice(0, 3)).toEqual([
+      "'use client';",
+      '// Comment',
+      "import { onBrowser } from '@typescript/lib-dom/utils';",
+    ]);
+    expect(_.migrateSource('file.js', '').text).toBe('');
+  });
+
+  it('parses JSX files', () => {
+    const source = "const a = typeof window !== 'undefined' ? <p>{window.name}</p> : null;";
+    expect(_.migrateSource('file.jsx', source).text).toContain('onBrowser((window) => <p>{window.name}</p>, null);');
+    expect(_.migrateSource('file.tsx', source).changes).toBe(1);
+  });
+});
+
+describe('Check diffs', () => {
+  it('creates unified diffs', () => {
+    const oldText = lines('a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k', 'l');
+    const newText = lines('a', 'B', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k', 'l', 'm');
+    expect(_.createDiff('file.ts', oldText, newText, 1)).toBe(
+      lines(
+        '--- a/file.ts',
+        '+++ b/file.ts',
+        '@@ -1,3 +1,3 @@',
+        ' a',
+        '-b',
+        '+B',
+        ' c',
+        '@@ -12,1 +12,2 @@',
+        ' l',
+        '+m',
+      ),
+    );
+    expect(_.createDiff('file.ts', lines('a', 'b', 'c', 'd', 'e'), lines('A', 'b', 'c', 'd', 'E'))).toBe(
+      lines('--- a/file.ts', '+++ b/file.ts', '@@ -1,5 +1,5 @@', '-a', '+A', ' b', ' c', ' d', '-e', '+E'),
+    );
+    expect(_.createDiff('file.ts', oldText, oldText)).toBe('');
+  });
+});
+
+describe('Check migration of files', () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'migrate-'));
+    fs.mkdirSync(path.join(cwd, 'src'));
+    fs.mkdirSync(path.join(cwd, 'node_modules'));
+    fs.writeFileSync(path.join(cwd, 'src', 'a.ts'), "if (typeof window !== 'undefined' && window.name) {}\n");
+    fs.writeFileSync(path.join(cwd, 'src', 'b.ts'), 'const b = 1;\n');
+    fs.writeFileSync(
+      path.join(cwd, 'node_modules', 'c.ts'),
+      "const c = typeof window !== 'undefined' && window.name;\n",
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true });
+  });
+
+  it('migrates matching files', () => {
+    const results = _.migrate(['**/*.ts'], { cwd });
+    expect(results.map(({ changes, fileName }) => [fileName, changes])).toEqual([
+      ['src/a.ts', 1],
+      ['src/b.ts', 0],
+    ]);
+    expect(fs.readFileSync(path.join(cwd, 'src', 'a.ts'), 'utf-8')).toBe('if (window?.name) {}\n');
+  });
+
+  it('leaves files untouched on dry runs', () => {
+    const [result] = _.migrate(['src/a.ts'], { cwd, dryRun: true });
+    expect(result?.diff).toContain('+if (window?.name) {}');
+    expect(fs.readFileSync(path.join(cwd, 'src', 'a.ts'), 'utf-8')).toContain('typeof window');
+  });
+
+  it('resolves patterns from the current working directory by default', () => {
+    const cwdSpy = jest.spyOn(process, 'cwd').mockReturnValue(cwd);
+    expect(_.migrate(['src/b.ts'])).toHaveLength(1);
+    cwdSpy.mockRestore();
+  });
+});
@@ -0,0 +1,530 @@
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+
+import { browserGlobals } from './browserGlobals';
+
+/** Location of a `typeof` check left as is, with 1-based line and column. */
+export interface MigrationLocation {
+  column: number;
+  fileName: string;
+  line: number;
+}
+
+/** Result of the migration of a source file. */
+export interface MigrationResult {
+  /** Number of rewritten `typeof` checks. */
+  changes: number;
+  /** Unified diff of the migration, empty when nothing changed. */
+  diff: string;
+  fileName: string;
+  /** `typeof` checks left as is, as they can't be rewritten safely. */
+  skipped: MigrationLocation[];
+  /** Migrated source text. */
+  text: string;
+}
+
+/** Options of `migrate`. */
+export interface MigrateOptions {
+  /** Directory the patterns are relative to, the current working directory by default. */
+  cwd?: string;
+  /** Whether to leave the files untouched, only computing the diffs. */
+  dryRun?: boolean;
+}
+
+/** Replacement of the text between two positions. */
+interface Edit {
+  end: number;
+  start: number;
+  text: string;
+}
+
+/** Name of a utility the rewritten checks may use. */
+type HelperName = 'browserFn' | 'globalsFn' | 'onBrowser' | 'onGlobals';
+
+/** Names the utilities are imported as, and whether they are used. */
+interface Helpers {
+  names: { [Name in HelperName]: string };
+  used: Set<HelperName>;
+}
+
+/** `typeof <name> <operator> 'undefined'` check, `defined` when checking the variable is defined. */
+interface TypeofCheck {
+  defined: boolean;
+  name: string;
+}
+
+type DiffLine = [' ' | '+' | '-', string];
+
+const browserGlobalNames = new Set<string>(browserGlobals);
+
+/** Browser globals `onGlobals` can't take, as `BrowserGlobalKeys` leaves out the scope globals but `window`. */
+const unkeyedNames = new Set(['self']);
+
+/** Declaration kinds binding their name to a variable, the identifiers checked as browser globals must not be. */
+const declarationKinds = new Set([
+  ts.SyntaxKind.BindingElement,
+  ts.SyntaxKind.ClassDeclaration,
+  ts.SyntaxKind.ClassExpression,
+  ts.SyntaxKind.EnumDeclaration,
+  ts.SyntaxKind.FunctionDeclaration,
+  ts.SyntaxKind.FunctionExpression,
+  ts.SyntaxKind.ImportClause,
+  ts.SyntaxKind.ImportEqualsDeclaration,
+  ts.SyntaxKind.ImportSpecifier,
+  ts.SyntaxKind.ModuleDeclaration,
+  ts.SyntaxKind.NamespaceImport,
+  ts.SyntaxKind.Parameter,
+  ts.SyntaxKind.VariableDeclaration,
+]);
+
+/** Scopes of the variables declared in source files, by name, see `declarationScopes`. */
+const scopesBySourceFile = new WeakMap<ts.SourceFile, Map<string, ts.Node[]>>();
+
+const comparisonOperators = [
+  ts.SyntaxKind.EqualsEqualsEqualsToken,
+  ts.SyntaxKind.EqualsEqualsToken,
+  ts.SyntaxKind.ExclamationEqualsEqualsToken,
+  ts.SyntaxKind.ExclamationEqualsToken,
+];
+
+const extensions = ['.cjs', '.cts', '.js', '.jsx', '.mjs', '.mts', '.ts', '.tsx'];
+
+const utilsModule = '@typescript/lib-dom/utils';
+
+/** Parses a source file, with parent nodes set. */
+function parse(fileName: string, text: string) {
+  const extension = path.extname(fileName);
+  const scriptKind = extension === '.tsx' ? ts.ScriptKind.TSX : extension === '.jsx' ? ts.ScriptKind.JSX : void 0;
+  return ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest, true, scriptKind);
+}
+
+/**
+ * Returns the nodes the variables declared in a source file are visible in, by name. Scopes are widened to the
+ * enclosing function, which may leave some checks as is but never rewrites a local variable.
+ */
+function declarationScopes(sourceFile: ts.SourceFile) {
+  let scopes = scopesBySourceFile.get(sourceFile);
+  if (!scopes) {
+    const declarations = new Map<string, ts.Node[]>();
+    const visit = (node: ts.Node) => {
+      const { parent } = node;
+      if (ts.isIdentifier(node) && declarationKinds.has(parent.kind) && (parent as ts.NamedDeclaration).name === node) {
+        // Declarations of functions and classes bind their name in the enclosing scope.
+        const start = ts.isFunctionDeclaration(parent) || ts.isClassDeclaration(parent) ? parent.parent : parent;
+        const scope = ts.findAncestor(start, (ancestor) => ts.isFunctionLike(ancestor) || ts.isSourceFile(ancestor));
+        declarations.set(node.text, [...(declarations.get(node.text) ?? []), scope as ts.Node]);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+    scopes = declarations;
+    scopesBySourceFile.set(sourceFile, scopes);
+  }
+  return scopes;
+}
+
+/** Whether an identifier references a local variable rather than the browser global variable of the same name. */
+function isShadowed(node: ts.Identifier) {
+  const scopes = declarationScopes(node.getSourceFile()).get(node.text) ?? [];
+  return scopes.some((scope) => scope.pos <= node.pos && node.end <= scope.end);
+}
+
+/** Whether an expression has no side effects and is cheap to evaluate, so it may be evaluated even when not used. */
+function isLiteral(node: ts.Expression) {
+  return (
+    ts.isLiteralExpression(node) ||
+    node.kind === ts.SyntaxKind.NullKeyword ||
+    node.kind === ts.SyntaxKind.TrueKeyword ||
+    node.kind === ts.SyntaxKind.FalseKeyword ||
+    (ts.isIdentifier(node) && node.text === 'undefined')
+  );
+}
+
+/** Returns the check when a node is `typeof <browser global> <operator> 'undefined'`, in either order. */
+function typeofCheck(node: ts.Node): TypeofCheck | undefined {
+  if (ts.isParenthesizedExpression(node)) {
+    return typeofCheck(node.expression);
+  } else if (!ts.isBinaryExpression(node) || !comparisonOperators.includes(node.operatorToken.kind)) {
+    return void 0;
+  }
+  const [typeofNode, otherNode] = ts.isTypeOfExpression(node.left) ? [node.left, node.right] : [node.right, node.left];
+  const { kind } = node.operatorToken;
+  if (
+    ts.isTypeOfExpression(typeofNode) &&
+    ts.isIdentifier(typeofNode.expression) &&
+    browserGlobalNames.has(typeofNode.expression.text) &&
+    !isShadowed(typeofNode.expression) &&
+    ts.isStringLiteral(otherNode) &&
+    otherNode.text === 'undefined'
+  ) {
+    const defined =
+      kind === ts.SyntaxKind.ExclamationEqualsEqualsToken || kind === ts.SyntaxKind.ExclamationEqualsToken;
+    return { defined, name: typeofNode.expression.text };
+  } else {
+    return void 0;
+  }
+}
+
+/**
+ * Whether code can be moved into a function as is: it must not return, await, yield, declare `var` variables,
+ * nor break or continue statements around it.
+ */
+function canMove(node: ts.Node, canBreak = false, canContinue = false): boolean {
+  if (ts.isFunctionLike(node) || ts.isClassLike(node)) {
+    return true;
+  } else if (ts.isReturnStatement(node) || ts.isAwaitExpression(node) || ts.isYieldExpression(node)) {
+    return false;
+  } else if (ts.isBreakStatement(node) || ts.isContinueStatement(node)) {
+    return !node.label && (ts.isBreakStatement(node) ? canBreak : canContinue);
+  } else if (ts.isVariableDeclarationList(node) && !(node.flags & ts.NodeFlags.BlockScoped)) {
+    return false;
+  }
+  const isLoop = ts.isIterationStatement(node, false);
+  const isSwitch = ts.isSwitchStatement(node);
+  return !ts.forEachChild(
+    node,
+    (child) => !canMove(child, canBreak || isLoop || isSwitch, canContinue || isLoop) || void 0,
+  );
+}
+
+/** Returns the text of a node, wrapped in parentheses when it is an object literal, to be the body of an arrow function. */
+function bodyText(node: ts.Node) {
+  const text = node.getText();
+  return ts.isObjectLiteralExpression(node) ? `(${text})` : text;
+}
+
+/** Returns the text of a statement as the body of an arrow function. */
+function statementBodyText(node: ts.Statement) {
+  return ts.isBlock(node)
+    ? node.getText()
+    : ts.isExpressionStatement(node)
+      ? bodyText(node.expression)
+      : `{ ${node.getText()} }`;
+}
+
+/** Returns the arguments up to the parameters of `fn`, listing the keys of the checked variable when not `window`. */
+function argumentsText(name: string) {
+  return name === 'window' ? '(window)' : `['${name}'], ({ ${name} })`;
+}
+
+/**
+ * Returns the call of `fn` when the checked variable is defined, returning `fallback` otherwise, if any:
+ * `onBrowser` for `window`, `onGlobals` for the other browser globals, which may be missing even on a browser.
+ */
+function onDefinedText(name: string, body: string, fallback: string | undefined, helpers: Helpers) {
+  const helper = name === 'window' ? 'onBrowser' : 'onGlobals';
+  helpers.used.add(helper);
+  return `${helpers.names[helper]}(${argumentsText(name)} => ${body}${fallback === void 0 ? '' : `, ${fallback}`})`;
+}
+
+/** Returns the function executing `body` when the checked variable is defined, `fallbackBody` otherwise. */
+function definedFnText(name: string, body: string, fallbackBody: string, helpers: Helpers) {
+  const helper = name === 'window' ? 'browserFn' : 'globalsFn';
+  helpers.used.add(helper);
+  return `${helpers.names[helper]}(${argumentsText(name)} => ${body}, () => ${fallbackBody})`;
+}
+
+/** Whether only the truthiness of an expression matters, as in conditions, so `false` and `undefined` are alike. */
+function isCondition(node: ts.Node): boolean {
+  const { parent } = node;
+  if (ts.isParenthesizedExpression(parent)) {
+    return isCondition(parent);
+  } else if (ts.isIfStatement(parent) || ts.isWhileStatement(parent) || ts.isDoStatement(parent)) {
+    return parent.expression === node;
+  } else if (ts.isForStatement(parent) || ts.isConditionalExpression(parent)) {
+    return parent.condition === node;
+  } else if (ts.isPrefixUnaryExpression(parent)) {
+    return parent.operator === ts.SyntaxKind.ExclamationToken;
+  } else if (ts.isBinaryExpression(parent)) {
+    const { kind } = parent.operatorToken;
+    const isLogical = kind === ts.SyntaxKind.AmpersandAmpersandToken || kind === ts.SyntaxKind.BarBarToken;
+    // Falsy left operands of `||` evaluate to the right operand, not to themselves.
+    return (kind === ts.SyntaxKind.BarBarToken && parent.left === node) || (isLogical && isCondition(parent));
+  } else {
+    return false;
+  }
+}
+
+/** Returns the optional chaining equivalent of `typeof <name> !== 'undefined' && <name>.<chain>`, if any. */
+function optionalChainText(name: string, node: ts.Expression) {
+  let root = node;
+  while (ts.isPropertyAccessExpression(root) || ts.isElementAccessExpression(root) || ts.isCallExpression(root)) {
+    root = root.expression;
+  }
+  const rest = node.getText().slice(name.length);
+  const isChain = root !== node && ts.isIdentifier(root) && root.text === name && /^[.[(]/.test(rest);
+  return isChain ? `${name}?${rest.startsWith('.') ? '' : '.'}${rest}` : void 0;
+}
+
+/** Returns the replacement of a node rewriting its `typeof` check, if it can be rewritten. */
+function rewrite(node: ts.Node, helpers: Helpers): string | undefined {
+  if (ts.isIfStatement(node)) {
+    const check = typeofCheck(node.expression);
+    const [browserNode, serverNode] = check?.defined
+      ? [node.thenStatement, node.elseStatement]
+      : [node.elseStatement, node.thenStatement];
+    if (
+      !check ||
+      unkeyedNames.has(check.name) ||
+      !browserNode ||
+      !canMove(node.thenStatement) ||
+      (node.elseStatement && !canMove(node.elseStatement))
+    ) {
+      return void 0;
+    }
+    const browserText = statementBodyText(browserNode);
+    return serverNode
+      ? `${definedFnText(check.name, browserText, statementBodyText(serverNode), helpers)}();`
+      : `${onDefinedText(check.name, browserText, void 0, helpers)};`;
+  } else if (ts.isConditionalExpression(node)) {
+    const check = typeofCheck(node.condition);
+    if (!check || unkeyedNames.has(check.name) || !canMove(node.whenTrue) || !canMove(node.whenFalse)) {
+      return void 0;
+    }
+    const [browserNode, serverNode] = check.defined ? [node.whenTrue, node.whenFalse] : [node.whenFalse, node.whenTrue];
+    // Fallbacks are evaluated before the call, so only literals can be, other ones are wrapped in a function.
+    return isLiteral(serverNode)
+      ? onDefinedText(check.name, bodyText(browserNode), serverNode.getText(), helpers)
+      : `${definedFnText(check.name, bodyText(browserNode), bodyText(serverNode), helpers)}()`;
+  } else if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken) {
+    const check = typeofCheck(node.left);
+    if (!check?.defined || unkeyedNames.has(check.name) || !canMove(node.right)) {
+      return void 0;
+    }
+    // The check evaluates to `false` when the variable is not defined, `undefined` only does as a condition.
+    const isConditionNode = isCondition(node);
+    const optionalChain = isConditionNode ? optionalChainText(check.name, node.right) : void 0;
+    return (
+      optionalChain ?? onDefinedText(check.name, bodyText(node.right), isConditionNode ? void 0 : 'false', helpers)
+    );
+  } else {
+    return void 0;
+  }
+}
+
+/** Collects the edits rewriting the outermost `typeof` checks which can be. */
+function collectEdits(node: ts.Node, helpers: Helpers, edits: Edit[] = []) {
+  const text = rewrite(node, helpers);
+  if (text === void 0) {
+    ts.forEachChild(node, (child) => void collectEdits(child, helpers, edits));
+  } else {
+    edits.push({ end: node.getEnd(), start: node.getStart(), text });
+  }
+  return edits;
+}
+
+/** Applies edits which don't overlap each other. */
+function applyEdits(text: string, edits: Edit[]) {
+  return edits.reduceRight((result, { end, start, text }) => result.slice(0, start) + text + result.slice(end), text);
+}
+
+/** Returns the import declaration of the utilities, if any, not `import type` ones which can't import values. */
+function utilsImport(sourceFile: ts.SourceFile) {
+  return sourceFile.statements.find(
+    (statement): statement is ts.ImportDeclaration =>
+      ts.isImportDeclaration(statement) &&
+      !statement.importClause?.isTypeOnly &&
+      ts.isStringLiteral(statement.moduleSpecifier) &&
+      statement.moduleSpecifier.text === utilsModule,
+  );
+}
+
+/** Returns the names the utilities are imported as, by name, leaving out the type-only ones. */
+function importedNames(sourceFile: ts.SourceFile) {
+  const names = new Map<string, string>();
+  const namedBindings = utilsImport(sourceFile)?.importClause?.namedBindings;
+  if (namedBindings && ts.isNamedImports(namedBindings)) {
+    for (const { isTypeOnly, name, propertyName } of namedBindings.elements) {
+      if (!isTypeOnly) {
+        names.set((propertyName ?? name).text, name.text);
+      }
+    }
+  }
+  return names;
+}
+
+/** Returns the edit importing the used utilities which are not imported yet, if any. */
+function importEdit(sourceFile: ts.SourceFile, helpers: Helpers): Edit | undefined {
+  const names = importedNames(sourceFile);
+  const missingNames = Array.from(helpers.used)
+    .filter((name) => !names.has(name))
+    .sort();
+  const namedBindings = utilsImport(sourceFile)?.importClause?.namedBindings;
+  const lastImport = sourceFile.statements.filter(ts.isImportDeclaration).pop();
+  const firstStatement = sourceFile.statements.find(
+    // Skips prologue directives, like `'use client'`.
+    (statement) => !ts.isExpressionStatement(statement) || !ts.isStringLiteral(statement.expression),
+  );
+  const declaration = `import { ${missingNames.join(', ')} } from '${utilsModule}';`;
+  if (!missingNames.length) {
+    return void 0;
+  } else if (namedBindings && ts.isNamedImports(namedBindings) && namedBindings.elements.length) {
+    const position = namedBindings.elements.end;
+    return { end: position, start: position, text: missingNames.map((name) => `, ${name}`).join('') };
+  } else if (lastImport) {
+    return { end: lastImport.end, start: lastImport.end, text: `\n${declaration}` };
+  } else {
+    const position = (firstStatement as ts.Statement).getStart();
+    return { end: position, start: position, text: `${declaration}\n` };
+  }
+}
+
+/** Returns the locations of the `typeof` checks of browser global variables. */
+function typeofChecks(sourceFile: ts.SourceFile) {
+  const locations: MigrationLocation[] = [];
+  const visit = (node: ts.Node) => {
+    if (ts.isBinaryExpression(node) && typeofCheck(node)) {
+      const { character, line } = sourceFile.getLineAndCharacterOfPosition(node.getStart());
+      locations.push({ column: character + 1, fileName: sourceFile.fileName, line: line + 1 });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return locations;
+}
+
+/** Returns the trace of Myers' algorithm, the furthest reaching path of each diagonal for each number of edits. */
+function diffTrace(oldLines: string[], newLines: string[]) {
+  const trace: Map<number, number>[] = [];
+  const furthest = new Map([[1, 0]]);
+  const at = (k: number) => furthest.get(k) as number;
+  for (let d = 0; ; d++) {
+    trace.push(new Map(furthest));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? at(k + 1) : at(k - 1) + 1;
+      let y = x - k;
+      while (x < oldLines.length && y < newLines.length && oldLines[x] === newLines[y]) {
+        x++;
+        y++;
+      }
+      furthest.set(k, x);
+      if (x >= oldLines.length && y >= newLines.length) {
+        return trace;
+      }
+    }
+  }
+}
+
+/** Returns a shortest line diff, with Myers' algorithm. */
+function diffLines(oldLines: string[], newLines: string[]) {
+  const trace = diffTrace(oldLines, newLines);
+  const lines: DiffLine[] = [];
+  let x = oldLines.length;
+  let y = newLines.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const furthest = trace[d] as Map<number, number>;
+    const at = (k: number) => furthest.get(k) as number;
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = at(previousK);
+    const previousY = previousX - previousK;
+    while (x > previousX && y > previousY) {
+      lines.unshift([' ', oldLines[--x] as string]);
+      y--;
+    }
+    if (d) {
+      lines.unshift(x === previousX ? ['+', newLines[--y] as string] : ['-', oldLines[--x] as string]);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Returns the unified diff between two versions of a file, empty when they are the same.
+ *
+ * @param fileName Name of the file, in the header of the diff.
+ * @param oldText Original text.
+ * @param newText Modified text.
+ * @param context Number of unchanged lines around the changes, 3 by default.
+ * @returns The unified diff.
+ */
+export function createDiff(fileName: string, oldText: string, newText: string, context = 3) {
+  const lines = diffLines(oldText.split('\n'), newText.split('\n'));
+  const hunks: [number, number][] = [];
+  lines.forEach(([sign], index) => {
+    const lastHunk = hunks[hunks.length - 1];
+    if (sign === ' ') {
+      return;
+    } else if (lastHunk && lastHunk[1] >= index - context) {
+      lastHunk[1] = Math.min(index + context + 1, lines.length);
+    } else {
+      hunks.push([Math.max(index - context, 0), Math.min(index + context + 1, lines.length)]);
+    }
+  });
+  const count = (start: number, end: number, ignoredSign: string) =>
+    lines.slice(start, end).filter(([sign]) => sign !== ignoredSign).length;
+  const output = hunks.map(([start, end]) => {
+    const header = `@@ -${count(0, start, '+') + 1},${count(start, end, '+')} +${count(0, start, '-') + 1},${count(start, end, '-')} @@`;
+    return [header, ...lines.slice(start, end).map(([sign, line]) => sign + line)].join('\n');
+  });
+  return hunks.length ? [`--- a/${fileName}`, `+++ b/${fileName}`, ...output].join('\n') : '';
+}
+
+/**
+ * Rewrites the `typeof` checks of browser global variables of a source text with the utilities of the library:
+ * - `if (typeof window !== 'undefined') { ... }` becomes `onBrowser((window) => { ... });`,
+ *   and `browserFn((window) => { ... }, () => { ... })();` with an `else` clause.
+ * - `typeof document === 'undefined' ? null : y` becomes `onGlobals(['document'], ({ document }) => y, null)`, as
+ *   browser globals other than `window` may be missing even on a browser, with `globalsFn` instead of `browserFn`
+ *   likewise. Fallbacks other than literals become functions, to be evaluated only when needed:
+ *   `typeof window === 'undefined' ? x : y` becomes `browserFn((window) => y, () => x)()`.
+ * - `typeof window !== 'undefined' && window.scrollY > 0` becomes `onBrowser((window) => window.scrollY > 0, false)`,
+ *   and `window?.scrollY` for property accesses and calls used as conditions, where `undefined` is alike `false`.
+ *
+ * The utilities are imported from `@typescript/lib-dom/utils` when needed. The checks guarding code which can't be moved
+ * into a function, because it returns, awaits or yields for instance, and the checks of `self`, which `onGlobals`
+ * can't take, are left as is. Checks of local variables named like browser globals are not rewritten.
+ * The formatting is left untouched outside of the rewritten nodes.
+ *
+ * @param fileName Name of the file, which tells whether it is a JSX file.
+ * @param text Source text.
+ * @returns The result of the migration.
+ */
+export function migrateSource(fileName: string, text: string): MigrationResult {
+  const originalNames = importedNames(parse(fileName, text));
+  const helpers: Helpers = {
+    names: {
+      browserFn: originalNames.get('browserFn') ?? 'browserFn',
+      globalsFn: originalNames.get('globalsFn') ?? 'globalsFn',
+      onBrowser: originalNames.get('onBrowser') ?? 'onBrowser',
+      onGlobals: originalNames.get('onGlobals') ?? 'onGlobals',
+    },
+    used: new Set(),
+  };
+  let changes = 0;
+  let newText = text;
+  let sourceFile = parse(fileName, newText);
+  let edits = collectEdits(sourceFile, helpers);
+  // Nested checks are rewritten in the following passes.
+  while (edits.length) {
+    changes += edits.length;
+    newText = applyEdits(newText, edits);
+    sourceFile = parse(fileName, newText);
+    edits = collectEdits(sourceFile, helpers);
+  }
+  const edit = importEdit(sourceFile, helpers);
+  newText = edit ? applyEdits(newText, [edit]) : newText;
+  const skipped = typeofChecks(edit ? parse(fileName, newText) : sourceFile);
+  return { changes, diff: createDiff(fileName, text, newText), fileName, skipped, text: newText };
+}
+
+/**
+ * Migrates the files matching glob patterns, skipping `node_modules` directories (see `migrateSource`).
+ *
+ * @param patterns Glob patterns, as in the `include` option of `tsconfig.json`.
+ * @param options Directory the patterns are relative to and whether to leave the files untouched.
+ * @returns The results of the migration of the matching files, with their names relative to the directory.
+ */
+export function migrate(patterns: readonly string[], options: MigrateOptions = {}) {
+  const { cwd = process.cwd(), dryRun = false } = options;
+  const fileNames = ts.sys.readDirectory(cwd, extensions, ['**/node_modules'], patterns);
+  return fileNames.map((fileName) => {
+    const text = fs.readFileSync(fileName, 'utf-8');
+    const result = migrateSource(path.relative(cwd, fileName).split(path.sep).join('/'), text);
+    if (result.changes && !dryRun) {
+      fs.writeFileSync(fileName, result.text, 'utf-8');
+    }
+    return result;
+  });
+}
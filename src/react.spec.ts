@@ -1,25 +1,57 @@
 import type { AnyFn } from './types';
 
 import './globals';
+import { browserStorage } from './browserStorage';
 import * as _ from './react';
+import { runWithRequestContext } from './server';
 
 const fn0 = () => 0;
 const windowMock = {} as typeof window;
 const windowMockFn = () => windowMock;
 const throwingFn = _.EnvironmentError.throwingFn.bind(null);
 const warningFn = _.EnvironmentError.warningFn.bind(null);
+const mockSetState = jest.fn();
+const mockUseSyncExternalStore = jest.fn();
+const mockUseMemoDeps = jest.fn();
+const getStoreArgs = () =>
+  mockUseSyncExternalStore.mock.lastCall as [(listener: () => void) => () => void, () => unknown, () => unknown];
+const asMockElement = (element: unknown) =>
+  element as { children: unknown[]; props: _.BrowserOnly.Props; type: unknown };
 let consoleErrorSpy: jest.SpyInstance<void, Parameters<Console['error']>, unknown>;
 
 jest.mock('react', () => {
+  function createElement(type: unknown, props: unknown, ...children: unknown[]) {
+    return { children, props, type };
+  }
+
   function useEffect(effect: React.EffectCallback) {
     effect()?.();
   }
 
-  function useMemo(fn: AnyFn) {
+  function useMemo(fn: AnyFn, deps: unknown) {
+    mockUseMemoDeps(deps);
     return fn();
   }
 
-  return { useEffect, useInsertionEffect: useEffect, useLayoutEffect: useEffect, useMemo };
+  function useRef(initialValue: unknown) {
+    return { current: initialValue };
+  }
+
+  function useState(initialState: unknown) {
+    return [initialState, mockSetState];
+  }
+
+  return {
+    Fragment: 'Fragment',
+    createElement,
+    useEffect,
+    useInsertionEffect: useEffect,
+    useLayoutEffect: useEffect,
+    useMemo,
+    useRef,
+    useState,
+    useSyncExternalStore: (...args: unknown[]) => mockUseSyncExternalStore(...args) as unknown,
+  };
 });
 
 beforeAll(() => {
@@ -105,4 +137,283 @@ describe('Check React utils', () => {
     expect(mockLayoutDestructor).toHaveBeenCalledTimes(1);
     expect(mockLayoutDestructor).toHaveBeenLastCalledWith(windowMock);
   });
+
+  it('useIsHydrated returns false until a component has been mounted', () => {
+    expect(_.useIsHydrated()).toBe(false);
+    expect(mockSetState).toHaveBeenCalledTimes(1);
+    expect(mockSetState).toHaveBeenLastCalledWith(true);
+    expect(_.useIsHydrated()).toBe(true);
+    expect(mockSetState).toHaveBeenCalledTimes(1);
+  });
+
+  it('useOnBrowser returns function result after hydration', () => {
+    jest.replaceProperty(global, 'window', windowMock);
+    expect(_.useOnBrowser((window) => window)).toBe(windowMock);
+    expect(_.useOnBrowser((window) => window, null)).toBe(windowMock);
+  });
+
+  it('useOnBrowser returns fallback value on server', () => {
+    jest.replaceProperty(global, 'window', void 0);
+    expect(_.useOnBrowser(fn0)).toBe(void 0);
+    expect(_.useOnBrowser(fn0, windowMock)).toBe(windowMock);
+  });
+
+  it('BrowserOnly renders children with window after hydration', () => {
+    jest.replaceProperty(global, 'window', windowMock);
+    const children = jest.fn(() => 'content');
+    expect(_.BrowserOnly({ children, fallback: 'fallback' })).toEqual({
+      children: ['content'],
+      props: null,
+      type: 'Fragment',
+    });
+    expect(children).toHaveBeenLastCalledWith(windowMock);
+  });
+
+  it('BrowserOnly renders fallback on server', () => {
+    jest.replaceProperty(global, 'window', void 0);
+    expect(asMockElement(_.BrowserOnly({ children: () => 'content', fallback: 'fallback' })).children).toEqual([
+      'fallback',
+    ]);
+    expect(asMockElement(_.BrowserOnly({ children: () => 'content' })).children).toEqual([null]);
+  });
+
+  it('BrowserOnly renders fallback when a required global is missing', () => {
+    const requires = ['IntersectionObserver'] as const;
+    jest.replaceProperty(global, 'window', windowMock);
+    expect(
+      asMockElement(_.BrowserOnly({ children: () => 'content', fallback: 'fallback', requires })).children,
+    ).toEqual(['fallback']);
+    const replacedProperty = jest.replaceProperty(
+      global,
+      'IntersectionObserver',
+      fn0 as unknown as typeof IntersectionObserver,
+    );
+    expect(
+      asMockElement(_.BrowserOnly({ children: () => 'content', fallback: 'fallback', requires })).children,
+    ).toEqual(['content']);
+    replacedProperty.restore();
+  });
+
+  it('withBrowser wraps component into BrowserOnly', () => {
+    function Component() {
+      return null;
+    }
+    function Fallback() {
+      return null;
+    }
+    const props = { value: 42 };
+    const requires = ['IntersectionObserver'] as const;
+    const element = asMockElement(_.withBrowser(Component, Fallback, requires)(props));
+    expect(element.type).toBe(_.BrowserOnly);
+    expect(element.props.fallback).toEqual({ children: [], props, type: Fallback });
+    expect(element.props.requires).toBe(requires);
+    expect(element.props.children(windowMock as NonNullable<typeof window>)).toEqual({
+      children: [],
+      props,
+      type: Component,
+    });
+    expect(_.withBrowser(Component)(props).props).toHaveProperty('fallback', null);
+  });
+
+  it('withBrowser names the wrapped component', () => {
+    function Component() {
+      return null;
+    }
+    expect(_.withBrowser(Component).displayName).toBe('withBrowser(Component)');
+    expect(_.withBrowser(Object.assign(Component, { displayName: 'Named' })).displayName).toBe('withBrowser(Named)');
+    expect(_.withBrowser([() => null][0] as () => null).displayName).toBe('withBrowser(Component)');
+  });
+
+  it('createBrowserStore shares browser listeners between components', () => {
+    const mockUnsubscribe = jest.fn();
+    const mockSubscribe = jest.fn(() => mockUnsubscribe);
+    const listener1 = jest.fn();
+    const listener2 = jest.fn();
+    jest.replaceProperty(global, 'window', windowMock);
+    _.createBrowserStore(mockSubscribe, fn0, fn0)();
+    const [subscribe] = getStoreArgs();
+    const unsubscribe1 = subscribe(listener1);
+    const unsubscribe2 = subscribe(listener2);
+    expect(mockSubscribe).toHaveBeenCalledTimes(1);
+    expect(mockSubscribe).toHaveBeenLastCalledWith(windowMock, expect.any(Function));
+    (mockSubscribe.mock.lastCall as unknown as [Window, () => void])[1]();
+    expect(listener1).toHaveBeenCalledTimes(1);
+    expect(listener2).toHaveBeenCalledTimes(1);
+    unsubscribe1();
+    expect(mockUnsubscribe).not.toHaveBeenCalled();
+    unsubscribe2();
+    expect(mockUnsubscribe).toHaveBeenCalledTimes(1);
+    subscribe(listener1)();
+    expect(mockSubscribe).toHaveBeenCalledTimes(2);
+    expect(mockUnsubscribe).toHaveBeenCalledTimes(2);
+  });
+
+  it('createBrowserStore and useBrowserStorage hooks throw before React 18', () => {
+    const react = jest.requireMock<{ useSyncExternalStore?: unknown }>('react');
+    const { useSyncExternalStore } = react;
+    delete react.useSyncExternalStore;
+    try {
+      expect(() => _.createBrowserStore(() => fn0, fn0, fn0)()).toThrow('React 18 or later is required');
+      expect(() => _.useBrowserStorage('theme', 'light')).toThrow('React 18 or later is required');
+    } finally {
+      react.useSyncExternalStore = useSyncExternalStore;
+    }
+  });
+
+  it('createBrowserStore does not subscribe on server', () => {
+    const mockSubscribe = jest.fn(() => fn0);
+    const getServerSnapshot = () => 'server';
+    jest.replaceProperty(global, 'window', void 0);
+    _.createBrowserStore(mockSubscribe, () => 'browser', getServerSnapshot)();
+    const [subscribe, getSnapshot, getStoreServerSnapshot] = getStoreArgs();
+    subscribe(fn0)();
+    expect(mockSubscribe).not.toHaveBeenCalled();
+    expect(getSnapshot).toBe(getServerSnapshot);
+    expect(getStoreServerSnapshot).toBe(getServerSnapshot);
+  });
+
+  it('createBrowserStore hooks use given server snapshot', () => {
+    jest.replaceProperty(global, 'window', void 0);
+    _.createBrowserStore(
+      () => fn0,
+      () => 'browser',
+      () => 'server',
+    )('given');
+    const [, getSnapshot, getServerSnapshot] = getStoreArgs();
+    expect(getSnapshot()).toBe('given');
+    expect(getServerSnapshot()).toBe('given');
+  });
+
+  it('createBrowserStore keeps shallowly equal snapshots', () => {
+    const mockGetSnapshot = jest.fn();
+    jest.replaceProperty(global, 'window', windowMock);
+    _.createBrowserStore(() => fn0, mockGetSnapshot, fn0)();
+    const [, getSnapshot] = getStoreArgs();
+    mockGetSnapshot.mockReturnValue({ x: 1 });
+    const snapshot = getSnapshot();
+    expect(snapshot).toEqual({ x: 1 });
+    expect(mockGetSnapshot).toHaveBeenLastCalledWith(windowMock);
+    expect(getSnapshot()).toBe(snapshot);
+    mockGetSnapshot.mockReturnValue({ x: 2 });
+    expect(getSnapshot()).toEqual({ x: 2 });
+    mockGetSnapshot.mockReturnValue({ x: 2, y: 0 });
+    expect(getSnapshot()).toEqual({ x: 2, y: 0 });
+    mockGetSnapshot.mockReturnValue(NaN);
+    expect(getSnapshot()).toBe(NaN);
+    mockGetSnapshot.mockReturnValue(0);
+    expect(getSnapshot()).toBe(0);
+  });
+
+  it('browser state hooks read and subscribe to browser state', () => {
+    const mockAddEventListener = jest.fn();
+    const mockRemoveEventListener = jest.fn();
+    const eventTarget = { addEventListener: mockAddEventListener, removeEventListener: mockRemoveEventListener };
+    const mockMatchMedia = jest.fn(() => ({ ...eventTarget, matches: true }));
+    jest.replaceProperty(global, 'window', {
+      ...eventTarget,
+      document: { ...eventTarget, visibilityState: 'hidden' },
+      innerHeight: 768,
+      innerWidth: 1024,
+      matchMedia: mockMatchMedia,
+      navigator: { onLine: false },
+      scrollX: 0,
+      scrollY: 42,
+    } as unknown as typeof window);
+    const hooks = [
+      [() => _.useWindowSize({ height: 0, width: 0 }), { height: 768, width: 1024 }, ['resize']],
+      [() => _.useScrollPosition({ x: 0, y: 0 }), { x: 0, y: 42 }, ['scroll']],
+      [() => _.useMediaQuery('(min-width: 1024px)', false), true, ['change']],
+      [() => _.useOnlineStatus(true), false, ['offline', 'online']],
+      [() => _.useDocumentVisibility('visible'), 'hidden', ['visibilitychange']],
+      [() => _.usePreferredColorScheme('light'), true, ['change']],
+    ] as const;
+    for (const [hook, snapshot, types] of hooks) {
+      mockAddEventListener.mockClear();
+      mockRemoveEventListener.mockClear();
+      hook();
+      const [subscribe, getSnapshot] = getStoreArgs();
+      expect(getSnapshot()).toEqual(snapshot);
+      const unsubscribe = subscribe(fn0);
+      for (const type of types) {
+        expect(mockAddEventListener).toHaveBeenCalledWith(type, expect.any(Function), { passive: true });
+      }
+      unsubscribe();
+      for (const type of types) {
+        expect(mockRemoveEventListener).toHaveBeenCalledWith(type, expect.any(Function));
+      }
+    }
+    expect(mockMatchMedia).toHaveBeenCalledWith('(prefers-color-scheme: dark)');
+  });
+
+  it('browser state hooks use server snapshots', () => {
+    jest.replaceProperty(global, 'window', void 0);
+    expect(_.useWindowSize(undefined as unknown as _.WindowSize)).toBe(void 0);
+    expect(getStoreArgs()[2]()).toEqual({ height: 0, width: 0 });
+    _.useScrollPosition(undefined as unknown as _.ScrollPosition);
+    expect(getStoreArgs()[2]()).toEqual({ x: 0, y: 0 });
+    _.useMediaQuery('(min-width: 1024px)', undefined as unknown as boolean);
+    expect(getStoreArgs()[2]()).toBe(false);
+    _.useOnlineStatus(undefined as unknown as boolean);
+    expect(getStoreArgs()[2]()).toBe(true);
+    _.useDocumentVisibility(undefined as unknown as DocumentVisibilityState);
+    expect(getStoreArgs()[2]()).toBe('visible');
+    mockUseSyncExternalStore.mockReturnValue(false);
+    expect(_.usePreferredColorScheme('dark')).toBe('light');
+    expect(getStoreArgs()[2]()).toBe(true);
+    mockUseSyncExternalStore.mockReturnValue(true);
+    expect(_.usePreferredColorScheme('light')).toBe('dark');
+    expect(getStoreArgs()[2]()).toBe(false);
+  });
+
+  it('useBrowserStorage returns stored value and setters', () => {
+    runWithRequestContext({ headers: {}, url: 'http://localhost/' }, () => {
+      const isString = (value: unknown): value is string => typeof value === 'string';
+      const storage = browserStorage('session');
+      const listener = jest.fn();
+      jest.replaceProperty(global, 'window', void 0);
+      mockUseSyncExternalStore.mockReturnValue('"dark"');
+      const [value, setValue, removeValue] = _.useBrowserStorage('theme', 'light', { type: 'session' });
+      expect(value).toBe('dark');
+      expect(mockUseMemoDeps).toHaveBeenLastCalledWith(['"dark"']);
+      const [subscribe, getSnapshot, getServerSnapshot] = getStoreArgs();
+      const unsubscribe = subscribe(listener);
+      expect(setValue('dark')).toBe(true);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(getSnapshot()).toBe('"dark"');
+      expect(getServerSnapshot()).toBe(null);
+      removeValue();
+      expect(storage.get('theme')).toBe(void 0);
+      unsubscribe();
+      mockUseSyncExternalStore.mockReturnValue('42');
+      expect(_.useBrowserStorage('theme', 'light', { validator: isString })[0]).toBe('light');
+      mockUseSyncExternalStore.mockReturnValue(null);
+      expect(_.useBrowserStorage('theme', 'light')[0]).toBe('light');
+    });
+  });
+
+  it('useEventListener listens with latest handler', () => {
+    const handler = jest.fn();
+    const signal = {} as AbortSignal;
+    const mockAddEventListener = jest.fn();
+    const mockRemoveEventListener = jest.fn();
+    const target = { addEventListener: mockAddEventListener, removeEventListener: mockRemoveEventListener };
+    jest.replaceProperty(global, 'window', target as unknown as typeof window);
+    _.useEventListener((window) => window, 'resize', handler, { capture: true, signal });
+    const [type, listener, options] = mockAddEventListener.mock.lastCall as [string, EventListener, unknown];
+    expect(type).toBe('resize');
+    expect(options).toEqual({ capture: true, once: void 0, passive: void 0, signal });
+    expect(mockRemoveEventListener).toHaveBeenLastCalledWith('resize', listener, options);
+    const event = {} as UIEvent;
+    listener.call(target, event);
+    expect(handler).toHaveBeenLastCalledWith(event);
+    expect(handler.mock.contexts[0]).toBe(target);
+    _.useEventListener((window) => window, 'resize', fn0, true);
+    expect(mockAddEventListener.mock.lastCall).toEqual(['resize', expect.any(Function), { capture: true }]);
+    _.useEventListener((window) => window, 'resize', fn0);
+    expect(mockAddEventListener.mock.lastCall).toEqual(['resize', expect.any(Function), {}]);
+  });
+
+  it('exports errors', () => {
+    expect(new _.MissingGlobalError(fn0, ['ResizeObserver'])).toBeInstanceOf(_.EnvironmentError);
+  });
 });
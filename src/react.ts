@@ -1,10 +1,31 @@
 /* eslint-disable @typescript-eslint/no-invalid-void-type */
-import type { AnyBrowserFn, AnyFn, BrowserFn, MergeReturnTypes, Shift, VoidOrUnionUndefined } from './types';
+import type { BrowserGlobalName } from './browserGlobals';
+import type { BrowserStorageType, StorageValidator } from './browserStorage';
+import type {
+  AnyBrowserFn,
+  AnyFn,
+  BrowserFn,
+  DefinedWindow,
+  EventHandler,
+  EventType,
+  IfVoid,
+  MergeReturnTypes,
+  ScrollPosition,
+  Shift,
+  VoidOrUnionUndefined,
+  WindowSize,
+} from './types';
 
 import React from 'react';
+import { browserStorage, parseItem } from './browserStorage';
 import { EnvironmentError } from './EnvironmentError';
+import { listen } from './utils';
 
-export { EnvironmentError } from './EnvironmentError';
+export { EnvironmentError, MissingGlobalError } from './EnvironmentError';
+export type { ScrollPosition, WindowSize } from './types';
+
+/** Whether the hydration is over, meaning a component has been mounted on the browser. */
+let hydrated = false;
 
 /** Does nothing and returns `undefined` (return type `void`). */
 function voidFn() {}
@@ -103,7 +124,7 @@ export function useBrowserCallbackOrThrow(fn: BrowserFn<unknown>, deps: React.De
  *
  * This callback will be only executed on a browser (more accurately when `window` is defined).
  *
- * Sends a warning to the console when the resulting callback is called outside of a browser.
+ * Reports a warning (see `setEnvironmentReporter`) when the resulting callback is called outside of a browser.
  *
  * @param fn A callback to execute with `window` as its first parameter.
  * @param deps List of dependencies which will trigger a new memoization on change.
@@ -130,7 +151,7 @@ export function useBrowserCallbackOrWarn<Fn extends AnyBrowserFn>(
  *
  * This callback will be only executed on a browser (more accurately when `window` is defined).
  *
- * Sends a warning to the console when the resulting callback is called outside of a browser.
+ * Reports a warning (see `setEnvironmentReporter`) when the resulting callback is called outside of a browser.
  *
  * @param fn A callback to execute with `window` as its first parameter.
  * @param fallbackFn Callback to use when not on browser.
@@ -181,7 +202,7 @@ export function useBrowserCallbackOrWarn(
  *
  */
 export function useEffect(effect: EffectCallback, deps?: React.DependencyList) {
-  React.useEffect(() => effect(window as Window)?.bind(window, window as Window), deps);
+  React.useEffect(() => effect(window as DefinedWindow)?.bind(window, window as DefinedWindow), deps);
 }
 
 /**
@@ -200,7 +221,7 @@ export function useEffect(effect: EffectCallback, deps?: React.DependencyList) {
  *
  */
 export function useInsertionEffect(effect: EffectCallback, deps?: React.DependencyList) {
-  React.useInsertionEffect(() => effect(window as Window)?.bind(window, window as Window), deps);
+  React.useInsertionEffect(() => effect(window as DefinedWindow)?.bind(window, window as DefinedWindow), deps);
 }
 
 /**
@@ -219,15 +240,445 @@ export function useInsertionEffect(effect: EffectCallback, deps?: React.Dependen
  *
  */
 export function useLayoutEffect(effect: EffectCallback, deps?: React.DependencyList) {
-  React.useLayoutEffect(() => effect(window as Window)?.bind(window, window as Window), deps);
+  React.useLayoutEffect(() => effect(window as DefinedWindow)?.bind(window, window as DefinedWindow), deps);
+}
+
+/**
+ * `useIsHydrated` tells whether the component is rendered on a browser after the hydration.
+ *
+ * It returns `false` on the server and during the hydration render, then triggers a new render returning `true`.
+ * Components mounted after the hydration get `true` right away, with no extra render.
+ *
+ * @returns Whether the hydration is over.
+ * @example
+ * ```
+ *   const isHydrated = useIsHydrated();
+ *   return isHydrated ? <Map /> : <Placeholder />;
+ * ```
+ */
+export function useIsHydrated() {
+  const [isHydrated, setIsHydrated] = React.useState(hydrated);
+  React.useEffect(() => {
+    hydrated = true;
+    if (!isHydrated) {
+      setIsHydrated(true);
+    }
+  }, []);
+  return isHydrated;
+}
+
+/**
+ * `useOnBrowser` executes a function on a browser after the hydration, avoiding hydration mismatches.
+ *
+ * The fallback value is returned on the server and during the hydration render,
+ * then the component renders again with the function result.
+ * Components mounted after the hydration get the function result right away.
+ *
+ * @param fn Function to execute, with `window` as parameter.
+ * @param serverFallback Value to return on the server and during the hydration render, undefined by default.
+ * @returns After the hydration, the function result, otherwise the fallback value.
+ * @example
+ * ```
+ *   // Number after the hydration, `0` on the server and during the hydration render.
+ *   const innerWidth = useOnBrowser(({ innerWidth }) => innerWidth, 0);
+ * ```
+ */
+export function useOnBrowser<ReturnType>(fn: BrowserFn<ReturnType>): VoidOrUnionUndefined<ReturnType>;
+export function useOnBrowser<ReturnType, FallbackValue>(
+  fn: BrowserFn<ReturnType>,
+  serverFallback: FallbackValue,
+): IfVoid<ReturnType, FallbackValue, ReturnType | FallbackValue>;
+export function useOnBrowser(fn: BrowserFn<unknown>, serverFallback?: unknown) {
+  return useIsHydrated() && window ? fn(window) : serverFallback;
+}
+
+/**
+ * `BrowserOnly` renders its children only on a browser after the hydration, avoiding hydration mismatches.
+ *
+ * The fallback is rendered on the server, during the hydration render and when a required global is missing.
+ *
+ * @example
+ * ```
+ *   <BrowserOnly fallback={<Placeholder />} requires={['IntersectionObserver']}>
+ *     {(window) => <Map width={window.innerWidth} />}
+ *   </BrowserOnly>
+ * ```
+ */
+export function BrowserOnly({ children, fallback = null, requires = [] }: BrowserOnly.Props) {
+  const isHydrated = useIsHydrated();
+  const isReady = isHydrated && window && requires.every((key) => globalThis[key] !== void 0);
+  return React.createElement(React.Fragment, null, isReady ? children(window as DefinedWindow) : fallback);
+}
+
+export namespace BrowserOnly {
+  export interface Props {
+    /** Function rendering the browser-only content, with `window` as parameter. */
+    children: (window: DefinedWindow) => React.ReactNode;
+    /** Content to render on the server, during the hydration render and when a required global is missing. */
+    fallback?: React.ReactNode;
+    /** Browser globals that must be defined to render the browser-only content. */
+    requires?: readonly BrowserGlobalName[];
+  }
+}
+
+/**
+ * `withBrowser` wraps a component so it is rendered only on a browser after the hydration, like with `BrowserOnly`.
+ *
+ * @param Component Component to render on a browser.
+ * @param Fallback Component to render on the server, during the hydration render and when a required global is missing.
+ * @param requires Browser globals that must be defined to render the component.
+ * @returns The wrapped component.
+ * @example
+ * ```
+ *   const BrowserMap = withBrowser(Map, MapPlaceholder, ['IntersectionObserver']);
+ * ```
+ */
+export function withBrowser<Props extends object>(
+  Component: React.ComponentType<Props>,
+  Fallback?: React.ComponentType<Props> | null,
+  requires?: readonly BrowserGlobalName[],
+) {
+  function WithBrowser(props: Props) {
+    return React.createElement(BrowserOnly, {
+      children: () => React.createElement(Component, props),
+      fallback: Fallback ? React.createElement(Fallback, props) : null,
+      requires,
+    });
+  }
+  WithBrowser.displayName = `withBrowser(${Component.displayName ?? (Component.name || 'Component')})`;
+  return WithBrowser;
+}
+
+/** Calls `React.useSyncExternalStore`, throwing a clear error on React 16.8 and 17, which don't implement it. */
+function useSyncExternalStore<Snapshot>(
+  subscribe: (onStoreChange: () => void) => () => void,
+  getSnapshot: () => Snapshot,
+  getServerSnapshot: () => Snapshot,
+) {
+  const { useSyncExternalStore } = React as Partial<typeof React>;
+  if (!useSyncExternalStore) {
+    throw new Error('React 18 or later is required, as it implements useSyncExternalStore');
+  }
+  return useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+}
+
+/**
+ * `createBrowserStore` creates a hook reading live browser state with `React.useSyncExternalStore` (React 18+).
+ *
+ * The browser is subscribed to once, when the first component using the hook mounts,
+ * and unsubscribed from when the last one unmounts, so all components share the same listeners.
+ *
+ * Snapshots shallowly equal to the previous one are replaced by it, so `getSnapshot` may return new objects.
+ *
+ * @param subscribe Subscribes to the browser state changes, with `window` as parameter, and returns an unsubscribe function.
+ * @param getSnapshot Reads the browser state, with `window` as parameter.
+ * @param getServerSnapshot Returns the state to use on the server and during the hydration render.
+ * @returns A hook returning the browser state, optionally taking a server snapshot overriding `getServerSnapshot`.
+ * @example
+ * ```
+ *   const useDevicePixelRatio = createBrowserStore(
+ *     (window, onChange) => {
+ *       window.addEventListener('resize', onChange);
+ *       return () => window.removeEventListener('resize', onChange);
+ *     },
+ *     ({ devicePixelRatio }) => devicePixelRatio,
+ *     () => 1,
+ *   );
+ * ```
+ *
+ * @see {@link https://react.dev/reference/react/useSyncExternalStore}
+ */
+export function createBrowserStore<Snapshot>(
+  subscribe: (window: DefinedWindow, onStoreChange: () => void) => () => void,
+  getSnapshot: BrowserFn<Snapshot>,
+  getServerSnapshot: () => Snapshot,
+): BrowserStore<Snapshot> {
+  const listeners = new Set<() => void>();
+  let unsubscribe: (() => void) | undefined;
+  let snapshot: Snapshot | undefined;
+  const onStoreChange = () => {
+    for (const listener of listeners) {
+      listener();
+    }
+  };
+  const subscribeStore = (listener: () => void) => {
+    listeners.add(listener);
+    if (listeners.size === 1 && window) {
+      unsubscribe = subscribe(window, onStoreChange);
+    }
+    return () => {
+      listeners.delete(listener);
+      if (!listeners.size) {
+        unsubscribe?.();
+        unsubscribe = void 0;
+      }
+    };
+  };
+  const getStoreSnapshot = () => {
+    const nextSnapshot = getSnapshot(window as DefinedWindow);
+    if (!isShallowEqual(snapshot, nextSnapshot)) {
+      snapshot = nextSnapshot;
+    }
+    return snapshot as Snapshot;
+  };
+  return function useBrowserStore(serverSnapshot?: Snapshot) {
+    const getStoreServerSnapshot = serverSnapshot === void 0 ? getServerSnapshot : () => serverSnapshot;
+    return useSyncExternalStore(
+      subscribeStore,
+      window ? getStoreSnapshot : getStoreServerSnapshot,
+      getStoreServerSnapshot,
+    );
+  };
+}
+
+/** Hook returning live browser state, created by `createBrowserStore`. */
+export type BrowserStore<Snapshot> = (serverSnapshot?: Snapshot) => Snapshot;
+
+/** Preferred color scheme of the user. */
+export type ColorScheme = 'dark' | 'light';
+
+/** Stores of `useMediaQuery`, by query. */
+const mediaQueryStores = new Map<string, BrowserStore<boolean>>();
+
+/** Adds a listener for several event types, and returns a function removing it. */
+function addListeners(target: EventTarget, types: readonly string[], listener: () => void) {
+  for (const type of types) {
+    target.addEventListener(type, listener, { passive: true });
+  }
+  return () => {
+    for (const type of types) {
+      target.removeEventListener(type, listener);
+    }
+  };
+}
+
+/** Whether two values are equal, or objects with equal members. */
+function isShallowEqual(value1: unknown, value2: unknown) {
+  if (Object.is(value1, value2)) {
+    return true;
+  } else if (value1 instanceof Object && value2 instanceof Object) {
+    const keys = Object.keys(value1);
+    return (
+      keys.length === Object.keys(value2).length &&
+      keys.every((key) => Object.is(Reflect.get(value1, key), Reflect.get(value2, key)))
+    );
+  } else {
+    return false;
+  }
+}
+
+const useWindowSizeStore = createBrowserStore<WindowSize>(
+  (window, onStoreChange) => addListeners(window, ['resize'], onStoreChange),
+  ({ innerHeight, innerWidth }) => ({ height: innerHeight, width: innerWidth }),
+  () => ({ height: 0, width: 0 }),
+);
+
+const useScrollPositionStore = createBrowserStore<ScrollPosition>(
+  (window, onStoreChange) => addListeners(window, ['scroll'], onStoreChange),
+  ({ scrollX, scrollY }) => ({ x: scrollX, y: scrollY }),
+  () => ({ x: 0, y: 0 }),
+);
+
+const useOnlineStatusStore = createBrowserStore(
+  (window, onStoreChange) => addListeners(window, ['offline', 'online'], onStoreChange),
+  ({ navigator }) => navigator.onLine,
+  () => true,
+);
+
+const useDocumentVisibilityStore = createBrowserStore<DocumentVisibilityState>(
+  ({ document }, onStoreChange) => addListeners(document, ['visibilitychange'], onStoreChange),
+  ({ document }) => document.visibilityState,
+  () => 'visible',
+);
+
+/**
+ * `useWindowSize` returns the live size of the window viewport.
+ *
+ * @param serverSize Size to use on the server and during the hydration render.
+ * @returns The `innerWidth` and `innerHeight` of the window.
+ * @example
+ * ```
+ *   const { width } = useWindowSize({ height: 768, width: 1024 });
+ * ```
+ */
+export function useWindowSize(serverSize: WindowSize) {
+  return useWindowSizeStore(serverSize);
+}
+
+/**
+ * `useScrollPosition` returns the live scroll position of the window.
+ *
+ * @param serverPosition Position to use on the server and during the hydration render.
+ * @returns The `scrollX` and `scrollY` of the window.
+ * @example
+ * ```
+ *   const { y } = useScrollPosition({ x: 0, y: 0 });
+ * ```
+ */
+export function useScrollPosition(serverPosition: ScrollPosition) {
+  return useScrollPositionStore(serverPosition);
+}
+
+/**
+ * `useMediaQuery` returns whether the document live matches a media query.
+ *
+ * @param query Media query to match.
+ * @param serverMatches Whether the media query matches on the server and during the hydration render.
+ * @returns Whether the media query matches.
+ * @example
+ * ```
+ *   const isWide = useMediaQuery('(min-width: 1024px)', true);
+ * ```
+ */
+export function useMediaQuery(query: string, serverMatches: boolean) {
+  let useMediaQueryStore = mediaQueryStores.get(query);
+  if (!useMediaQueryStore) {
+    useMediaQueryStore = createBrowserStore(
+      (window, onStoreChange) => addListeners(window.matchMedia(query), ['change'], onStoreChange),
+      (window) => window.matchMedia(query).matches,
+      () => false,
+    );
+    mediaQueryStores.set(query, useMediaQueryStore);
+  }
+  return useMediaQueryStore(serverMatches);
+}
+
+/**
+ * `useOnlineStatus` returns whether the browser is live online.
+ *
+ * @param serverOnline Whether to consider the browser online on the server and during the hydration render.
+ * @returns The `navigator.onLine` value.
+ * @example
+ * ```
+ *   const isOnline = useOnlineStatus(true);
+ * ```
+ */
+export function useOnlineStatus(serverOnline: boolean) {
+  return useOnlineStatusStore(serverOnline);
+}
+
+/**
+ * `useDocumentVisibility` returns the live visibility of the document.
+ *
+ * @param serverVisibility Visibility to use on the server and during the hydration render.
+ * @returns The `document.visibilityState` value.
+ * @example
+ * ```
+ *   const isVisible = useDocumentVisibility('visible') === 'visible';
+ * ```
+ */
+export function useDocumentVisibility(serverVisibility: DocumentVisibilityState) {
+  return useDocumentVisibilityStore(serverVisibility);
+}
+
+/**
+ * `usePreferredColorScheme` returns the live color scheme preferred by the user.
+ *
+ * @param serverScheme Color scheme to use on the server and during the hydration render.
+ * @returns `'dark'` when the user prefers a dark color scheme, `'light'` otherwise.
+ * @example
+ * ```
+ *   const colorScheme = usePreferredColorScheme('light');
+ * ```
+ */
+export function usePreferredColorScheme(serverScheme: ColorScheme): ColorScheme {
+  return useMediaQuery('(prefers-color-scheme: dark)', serverScheme === 'dark') ? 'dark' : 'light';
+}
+
+/**
+ * `useBrowserStorage` returns the value of a `localStorage` or `sessionStorage` item, stored as JSON, and its setters.
+ *
+ * The default value is returned on the server and during the hydration render.
+ * The value is kept in sync with the changes made through `browserStorage`, and from other browser tabs.
+ * It is parsed once per stored item, so objects keep their identity between renders.
+ *
+ * @param key Key of the storage item.
+ * @param defaultValue Value to return when the item is missing or not valid.
+ * @param options Type of storage, `'local'` by default, and validator of the parsed value.
+ * @returns The value, a function to store a new one, and a function to remove the item.
+ * @example
+ * ```
+ *   const [theme, setTheme, removeTheme] = useBrowserStorage('theme', 'light', { validator: isTheme });
+ * ```
+ */
+export function useBrowserStorage<Value>(
+  key: string,
+  defaultValue: Value,
+  options: useBrowserStorage.Options<Value> = {},
+): [value: Value, setValue: (value: Value) => boolean, removeValue: () => void] {
+  const { type, validator } = options;
+  const storage = React.useMemo(() => browserStorage(type), [type]);
+  const [subscribe, setValue, removeValue] = React.useMemo(
+    () => [
+      (onStoreChange: () => void) => storage.subscribe(key, onStoreChange),
+      (newValue: Value) => storage.set(key, newValue),
+      () => storage.remove(key),
+    ],
+    [storage, key],
+  );
+  const item = useSyncExternalStore(
+    subscribe,
+    () => storage.storage.getItem(key),
+    () => null,
+  );
+  // Parsed once per item, so that object values keep their identity between renders.
+  const value = React.useMemo(() => parseItem(item, validator), [item]);
+  return [value === void 0 ? defaultValue : value, setValue, removeValue];
+}
+
+export namespace useBrowserStorage {
+  export interface Options<Value> {
+    /** Type of storage, `'local'` by default. */
+    type?: BrowserStorageType;
+    /** Checks the parsed value is of the expected type, the default value is returned otherwise. */
+    validator?: StorageValidator<Value>;
+  }
+}
+
+/**
+ * `useEventListener` listens to events on a browser target, like `listen`, while the component is mounted.
+ *
+ * The latest handler is always called, without listening again on every render.
+ * The target is read when the component mounts, and when the type or the options change.
+ *
+ * @param getTarget Function returning the target, with `window` as parameter.
+ * @param type Type of events to listen to.
+ * @param handler Event listener.
+ * @param options Options of `addEventListener`.
+ * @example
+ * ```
+ *   useEventListener(({ document }) => document, 'keydown', (event) => event.key === 'Escape' && onClose());
+ * ```
+ */
+export function useEventListener<Target extends EventTarget, Type extends EventType<Target>>(
+  getTarget: (window: DefinedWindow) => Target | null | undefined,
+  type: Type,
+  handler: EventHandler<Target, Type>,
+  options?: boolean | AddEventListenerOptions,
+) {
+  const handlerRef = React.useRef(handler);
+  handlerRef.current = handler;
+  const { capture, once, passive, signal } = typeof options === 'boolean' ? { capture: options } : (options ?? {});
+  React.useEffect(
+    () =>
+      listen(
+        getTarget,
+        type,
+        function (event) {
+          handlerRef.current.call(this, event);
+        },
+        { capture, once, passive, signal },
+      ),
+    [type, capture, once, passive, signal],
+  );
 }
 
 export type Destructor = EffectCallback.Destructor;
 
-export type EffectCallback = (window: Window) => void | Destructor;
+export type EffectCallback = (window: DefinedWindow) => void | Destructor;
 
 export namespace EffectCallback {
-  export type Destructor = (window: Window) => void | Destructor.VoidObject;
+  export type Destructor = (window: DefinedWindow) => void | Destructor.VoidObject;
 
   export namespace Destructor {
     export type VoidObject = Extract<ReturnType<Extract<ReturnType<React.EffectCallback>, object>>, object>;
@@ -0,0 +1,12 @@
+import { browserGlobals } from './register';
+
+describe('Check register entry point', () => {
+  it('defaults window, document and all other browser globals', () => {
+    expect(window).toBe(void 0);
+    expect(document).toBe(void 0);
+    for (const name of browserGlobals) {
+      expect(name in global).toBe(true);
+      expect(global[name]).toBe(void 0);
+    }
+  });
+});
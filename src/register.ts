@@ -0,0 +1,2 @@
+// Preloaded with `node -r @typescript/lib-dom/register` or `node --import @typescript/lib-dom/register`.
+export { browserGlobals } from './globals';
@@ -0,0 +1,109 @@
+import { EnvironmentError } from './EnvironmentError';
+import * as _ from './reporter';
+
+const anonFn = ((fn) => fn)(() => 0);
+const namedFn = () => 0;
+const globalRecord = global as { [key: string]: unknown };
+
+describe('Check environment reporters', () => {
+  afterEach(() => {
+    _.setEnvironmentReporter(_.consoleReporter);
+    _.resetEnvironmentReport();
+  });
+
+  it('reports to the console by default', () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+    const error = new EnvironmentError(namedFn);
+    _.reportEnvironmentError(error);
+    expect(consoleErrorSpy).toHaveBeenLastCalledWith(error);
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('sets reporters and counts errors by function name', () => {
+    const reporter = jest.fn();
+    expect(_.setEnvironmentReporter(reporter)).toBe(_.consoleReporter);
+    const error = new EnvironmentError(namedFn);
+    _.reportEnvironmentError(error);
+    _.reportEnvironmentError(error);
+    _.reportEnvironmentError(new EnvironmentError(anonFn));
+    expect(reporter).toHaveBeenCalledTimes(3);
+    expect(reporter).toHaveBeenCalledWith(error);
+    expect(_.getEnvironmentReport()).toEqual({ anonymous: 1, namedFn: 2 });
+    expect(_.setEnvironmentReporter(_.silentReporter)).toBe(reporter);
+    _.reportEnvironmentError(error);
+    expect(reporter).toHaveBeenCalledTimes(3);
+    expect(_.getEnvironmentReport()).toEqual({ anonymous: 1, namedFn: 3 });
+    _.resetEnvironmentReport();
+    expect(_.getEnvironmentReport()).toEqual({});
+    _.reportEnvironmentError(new EnvironmentError(function constructor() {}));
+    _.reportEnvironmentError(new EnvironmentError(function toString() {}));
+    expect(_.getEnvironmentReport()).toEqual({ constructor: 1, toString: 1 });
+    _.resetEnvironmentReport();
+  });
+
+  it('dedupes errors by function', () => {
+    const reporter = jest.fn();
+    const report = _.dedupeByFunction(reporter);
+    report(new EnvironmentError(() => 0));
+    report(new EnvironmentError(() => 0));
+    report(new EnvironmentError(() => 1));
+    expect(reporter).toHaveBeenCalledTimes(2);
+  });
+
+  it('dedupes errors by call site', () => {
+    const reporter = jest.fn();
+    const report = _.dedupeByCallSite(reporter);
+    for (const error of [0, 1].map(() => new EnvironmentError(namedFn))) {
+      report(error);
+    }
+    report(new EnvironmentError(namedFn));
+    expect(reporter).toHaveBeenCalledTimes(2);
+    const error = new EnvironmentError(namedFn);
+    Object.defineProperty(error, 'stack', { value: void 0 });
+    report(error);
+    report(new EnvironmentError(anonFn, { missingGlobals: ['ResizeObserver'] }));
+    expect(reporter).toHaveBeenCalledTimes(4);
+  });
+
+  it('rate limits errors', () => {
+    const reporter = jest.fn();
+    const dateNowSpy = jest.spyOn(Date, 'now').mockReturnValue(0);
+    const report = _.rateLimit(reporter, { interval: 1000, limit: 2 });
+    const error = new EnvironmentError(namedFn);
+    report(error);
+    report(error);
+    report(error);
+    expect(reporter).toHaveBeenCalledTimes(2);
+    dateNowSpy.mockReturnValue(1000);
+    report(error);
+    expect(reporter).toHaveBeenCalledTimes(3);
+    dateNowSpy.mockRestore();
+  });
+
+  it('throws errors in development', () => {
+    const reporter = jest.fn();
+    const report = _.throwInDevelopment(reporter);
+    const error = new EnvironmentError(namedFn);
+    const replacedProperty = jest.replaceProperty(process.env, 'NODE_ENV', 'development');
+    expect(() => report(error)).toThrow(error);
+    replacedProperty.replaceValue('production');
+    report(error);
+    expect(reporter).toHaveBeenLastCalledWith(error);
+    replacedProperty.restore();
+    const replacedProcess = jest.replaceProperty(globalRecord, 'process', void 0);
+    report(error);
+    expect(reporter).toHaveBeenCalledTimes(2);
+    replacedProcess.restore();
+  });
+
+  it('uses the console reporter by default', () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+    const error = new EnvironmentError(namedFn);
+    _.dedupeByFunction()(error);
+    _.dedupeByCallSite()(error);
+    _.rateLimit()(error);
+    _.throwInDevelopment()(error);
+    expect(consoleErrorSpy).toHaveBeenCalledTimes(4);
+    consoleErrorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,157 @@
+import type { EnvironmentError } from './EnvironmentError';
+
+/** Reports the environment errors of the "OrWarn" utilities. */
+export type EnvironmentReporter = (error: EnvironmentError) => void;
+
+/** Options of `rateLimit`. */
+export interface RateLimitOptions {
+  /** Maximum number of errors reported per interval, 10 by default. */
+  limit?: number;
+  /** Duration of the interval, in milliseconds, 1 minute by default. */
+  interval?: number;
+}
+
+/** Returns an object without prototype to count by function name, so names like `constructor` count from 0. */
+function createCounts() {
+  return Object.create(null) as { [name: string]: number };
+}
+
+/** Numbers of environment errors reported, by function name. */
+let counts = createCounts();
+
+/** Sends environment errors to the error output. */
+export const consoleReporter: EnvironmentReporter = (error) => {
+  // eslint-disable-next-line no-console
+  console.error(error);
+};
+
+/** Ignores environment errors, they are still counted in the environment report. */
+export const silentReporter: EnvironmentReporter = () => {};
+
+let reporter = consoleReporter;
+
+/** Whether `NODE_ENV` is `development`, reading it the way bundlers replace it. */
+function isDevelopment() {
+  try {
+    return process.env.NODE_ENV === 'development';
+  } catch (_error) {
+    return false;
+  }
+}
+
+/** Returns a reporter forwarding each error to `report` only the first time `keyOf` returns its key. */
+function dedupe(report: EnvironmentReporter, keyOf: (error: EnvironmentError) => string): EnvironmentReporter {
+  const keys = new Set<string>();
+  return (error) => {
+    const key = keyOf(error);
+    if (!keys.has(key)) {
+      keys.add(key);
+      report(error);
+    }
+  };
+}
+
+/**
+ * Reports environment errors once per function, telling functions apart by their source code,
+ * so the inline functions of components rendered many times are reported once.
+ *
+ * @param report Reporter to forward errors to, the console one by default.
+ * @returns The deduplicating reporter.
+ */
+export function dedupeByFunction(report = consoleReporter) {
+  return dedupe(report, ({ fn }) => String(fn));
+}
+
+/**
+ * Reports environment errors once per call site, telling call sites apart by their stack trace.
+ *
+ * @param report Reporter to forward errors to, the console one by default.
+ * @returns The deduplicating reporter.
+ */
+export function dedupeByCallSite(report = consoleReporter) {
+  return dedupe(report, ({ message, stack = '' }) =>
+    stack.includes('\n') ? stack.slice(stack.indexOf('\n')) : message,
+  );
+}
+
+/**
+ * Reports at most `limit` environment errors per `interval`.
+ *
+ * @param report Reporter to forward errors to, the console one by default.
+ * @param options Maximum number of errors, 10 by default, and duration of the interval, 1 minute by default.
+ * @returns The rate limiting reporter.
+ */
+export function rateLimit(report = consoleReporter, options: RateLimitOptions = {}): EnvironmentReporter {
+  const { interval = 60_000, limit = 10 } = options;
+  let intervalStart = -Infinity;
+  let intervalCount = 0;
+  return (error) => {
+    const now = Date.now();
+    if (now - intervalStart >= interval) {
+      intervalStart = now;
+      intervalCount = 0;
+    }
+    if (intervalCount < limit) {
+      intervalCount++;
+      report(error);
+    }
+  };
+}
+
+/**
+ * Throws environment errors when `NODE_ENV` is `development`, so they can't be missed, otherwise reports them.
+ *
+ * @param report Reporter to forward errors to when not in development, the console one by default.
+ * @returns The throwing reporter.
+ */
+export function throwInDevelopment(report = consoleReporter): EnvironmentReporter {
+  return (error) => {
+    if (isDevelopment()) {
+      throw error;
+    } else {
+      report(error);
+    }
+  };
+}
+
+/**
+ * Sets the reporter of the environment errors of the "OrWarn" utilities, which send them to the console by default.
+ *
+ * @param newReporter Reporter, custom or built with `consoleReporter`, `silentReporter`, `dedupeByFunction`,
+ * `dedupeByCallSite`, `rateLimit` and `throwInDevelopment`.
+ * @returns The previous reporter.
+ * @example
+ * ```
+ *   setEnvironmentReporter(rateLimit(dedupeByCallSite((error) => logger.warn(error.toJSON()))));
+ * ```
+ */
+export function setEnvironmentReporter(newReporter: EnvironmentReporter) {
+  const previousReporter = reporter;
+  reporter = newReporter;
+  return previousReporter;
+}
+
+/**
+ * Counts the environment errors reported by the "OrWarn" utilities, whatever the reporter.
+ *
+ * @returns The numbers of environment errors, by function name.
+ * @example
+ * ```
+ *   getEnvironmentReport(); // { getScrollY: 12, anonymous: 1 }
+ * ```
+ */
+export function getEnvironmentReport(): { readonly [name: string]: number } {
+  return { ...counts };
+}
+
+/** Resets the counts of the environment report. */
+export function resetEnvironmentReport() {
+  counts = createCounts();
+}
+
+/** Counts an environment error and reports it with the current reporter. */
+export function reportEnvironmentError(error: EnvironmentError) {
+  const name = error.fn.name || 'anonymous';
+  counts[name] = (counts[name] ?? 0) + 1;
+  reporter(error);
+}
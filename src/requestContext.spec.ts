@@ -0,0 +1,64 @@
+import * as _ from './requestContext';
+
+describe('Check request context', () => {
+  it('parses cookies', () => {
+    expect(_.parseCookies()).toEqual({});
+    expect(_.parseCookies('toString=abc; constructor=1; toString=def')).toEqual({ constructor: '1', toString: 'abc' });
+    expect('hasOwnProperty' in _.parseCookies('a=1')).toBe(false);
+    expect(_.parseCookies('a=1; b = two%20words ;c=%E0%A4%A; a=2; =3; d')).toEqual({
+      a: '1',
+      b: 'two words',
+      c: '%E0%A4%A',
+    });
+  });
+
+  it('returns first header value', () => {
+    expect(_.firstHeader(void 0)).toBe(void 0);
+    expect(_.firstHeader('a')).toBe('a');
+    expect(_.firstHeader(['a', 'b'])).toBe('a');
+  });
+
+  it('creates server context', () => {
+    const context = _.createServerContext({
+      headers: {
+        'accept-language': 'fr;q=0.5, en-US, *;q=0.1, de;q=0, es;q=0.5',
+        'cookie': 'a=1',
+        'user-agent': 'Agent',
+      },
+      url: 'https://example.com:8080/path?query#hash',
+    });
+    expect(context.cookies).toEqual({ a: '1' });
+    expect(context.location).toEqual({
+      hash: '#hash',
+      host: 'example.com:8080',
+      hostname: 'example.com',
+      href: 'https://example.com:8080/path?query#hash',
+      origin: 'https://example.com:8080',
+      pathname: '/path',
+      port: '8080',
+      protocol: 'https:',
+      search: '?query',
+    });
+    expect(context.navigator).toEqual({ language: 'en-US', languages: ['en-US', 'fr', 'es'], userAgent: 'Agent' });
+    expect(Object.isFrozen(context.location)).toBe(true);
+  });
+
+  it('creates server context without headers', () => {
+    const { cookies, navigator } = _.createServerContext({ headers: {}, url: new URL('http://localhost') });
+    expect(cookies).toEqual({});
+    expect(navigator).toEqual({ language: '', languages: [], userAgent: '' });
+  });
+
+  it('creates server context of invalid URL', () => {
+    const { location } = _.createServerContext({ headers: {}, url: 'http://exa mple.com/path' });
+    expect(location.href).toBe('http://localhost/');
+    expect(location.pathname).toBe('/');
+  });
+
+  it('gets server context from storage', () => {
+    const context = _.createServerContext({ headers: {}, url: 'http://localhost' });
+    expect(_.getServerContext()).toBe(void 0);
+    _.setServerContextStorage({ getStore: () => context });
+    expect(_.getServerContext()).toBe(context);
+  });
+});
@@ -0,0 +1,111 @@
+/** Request handled by the server, as needed to build its `ServerContext`. */
+export interface RequestContext {
+  /** Absolute URL of the request. */
+  url: string | URL;
+  /** Request headers, with lower-case names. */
+  headers: { [name: string]: string | string[] | undefined };
+}
+
+/** Server stand-ins for the browser globals, built from the request being handled. */
+export interface ServerContext {
+  /** Cookies sent with the request, by name. */
+  readonly cookies: { readonly [name: string]: string | undefined };
+  /** Location of the requested page. */
+  readonly location: ServerLocation;
+  /** Navigator information, as sent with the request. */
+  readonly navigator: ServerNavigator;
+}
+
+/** Server stand-in for `location`. */
+export type ServerLocation = Readonly<
+  Pick<Location, 'hash' | 'host' | 'hostname' | 'href' | 'origin' | 'pathname' | 'port' | 'protocol' | 'search'>
+>;
+
+/** Server stand-in for `navigator`. */
+export type ServerNavigator = Readonly<Pick<Navigator, 'language' | 'languages' | 'userAgent'>>;
+
+/** Function executed with the server context, as parameter. */
+export type ServerContextFn<ReturnType> = (context: ServerContext) => ReturnType;
+
+/** Storage of the server context for the ongoing request. */
+export interface ServerContextStorage {
+  getStore(): ServerContext | undefined;
+}
+
+/** Set by the `server` entry point, so other entry points can read the context without depending on Node. */
+let storage: ServerContextStorage | undefined;
+
+/** Returns the first value of a header, if any. */
+export function firstHeader(value: string | string[] | undefined) {
+  return value instanceof Array ? value[0] : value;
+}
+
+/** Parses a `cookie` header, or `document.cookie`, into an object without prototype, to read only the cookies from. */
+export function parseCookies(header = '') {
+  const cookies = Object.create(null) as { [name: string]: string };
+  for (const pair of header.split(';')) {
+    const index = pair.indexOf('=');
+    const name = pair.slice(0, index).trim();
+    if (index > 0 && name && !Object.prototype.hasOwnProperty.call(cookies, name)) {
+      const value = pair.slice(index + 1).trim();
+      try {
+        cookies[name] = decodeURIComponent(value);
+      } catch (_error) {
+        cookies[name] = value;
+      }
+    }
+  }
+  return cookies;
+}
+
+/** Parses an `accept-language` header into languages, by order of preference. */
+function parseLanguages(header = '') {
+  return header
+    .split(',')
+    .map((entry, index) => {
+      // Splitting always returns at least one part.
+      const [language, ...params] = entry.split(';').map((part) => part.trim()) as [string, ...string[]];
+      const quality = params.find((param) => param.startsWith('q='));
+      return { index, language, quality: quality ? Number(quality.slice(2)) : 1 };
+    })
+    .filter(({ language, quality }) => language && language !== '*' && quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(({ language }) => language);
+}
+
+/** URL of the requests whose URL is invalid, like one built from a malformed `host` header. */
+const fallbackUrl = 'http://localhost/';
+
+/** Parses the URL of a request, falling back to `fallbackUrl` when it is invalid. */
+function parseUrl(url: string | URL) {
+  try {
+    return new URL(String(url));
+  } catch (_error) {
+    return new URL(fallbackUrl);
+  }
+}
+
+/** Builds the server context of a request, with the location of `fallbackUrl` when its URL is invalid. */
+export function createServerContext({ headers, url }: RequestContext): ServerContext {
+  const { hash, host, hostname, href, origin, pathname, port, protocol, search } = parseUrl(url);
+  const languages = Object.freeze(parseLanguages(firstHeader(headers['accept-language'])));
+  return Object.freeze({
+    cookies: Object.freeze(parseCookies(firstHeader(headers.cookie))),
+    location: Object.freeze({ hash, host, hostname, href, origin, pathname, port, protocol, search }),
+    navigator: Object.freeze({
+      language: languages[0] ?? '',
+      languages,
+      userAgent: firstHeader(headers['user-agent']) ?? '',
+    }),
+  });
+}
+
+/** Returns the server context of the ongoing request, if any. */
+export function getServerContext() {
+  return storage?.getStore();
+}
+
+/** Sets the storage of the server context, done by the `server` entry point. */
+export function setServerContextStorage(contextStorage: ServerContextStorage) {
+  storage = contextStorage;
+}
@@ -0,0 +1,51 @@
+import './globals';
+import './workerGlobals';
+import * as _ from './runtime';
+
+const globalRecord = global as { [key: string]: unknown };
+const workerScopeMock = Object.defineProperty(function () {}, Symbol.hasInstance, {
+  value: (instance: unknown) => instance === globalThis,
+});
+
+describe('Check runtime detection', () => {
+  it('detects Node', () => {
+    expect(_.detectRuntime()).toBe('node');
+  });
+
+  it('detects Deno and Bun', () => {
+    globalRecord.Deno = {};
+    expect(_.detectRuntime()).toBe('deno');
+    delete globalRecord.Deno;
+    globalRecord.Bun = {};
+    expect(_.detectRuntime()).toBe('bun');
+    delete globalRecord.Bun;
+  });
+
+  it('detects browsers and JSDOM', () => {
+    const replacedProperty = jest.replaceProperty(global, 'window', {
+      navigator: { userAgent: 'Mozilla/5.0 (linux) AppleWebKit/537.36 (KHTML, like Gecko) jsdom/25.0.1' },
+    } as typeof window);
+    expect(_.detectRuntime()).toBe('jsdom');
+    replacedProperty.replaceValue({ navigator: { userAgent: 'Mozilla/5.0' } } as typeof window);
+    expect(_.detectRuntime()).toBe('browser');
+    replacedProperty.replaceValue({} as typeof window);
+    expect(_.detectRuntime()).toBe('browser');
+    replacedProperty.restore();
+  });
+
+  it('detects workers', () => {
+    const replacedProperty = jest.replaceProperty(globalRecord, 'WorkerGlobalScope', workerScopeMock);
+    expect(_.detectRuntime()).toBe('worker');
+    expect(_.globalScopeOf('WorkerGlobalScope')).toBe(globalThis);
+    expect(_.globalScopeOf('ServiceWorkerGlobalScope')).toBe(void 0);
+    replacedProperty.restore();
+  });
+
+  it('detects unknown runtimes', () => {
+    const replacedProperty = jest.replaceProperty(globalRecord, 'process', {});
+    expect(_.detectRuntime()).toBe('unknown');
+    replacedProperty.replaceValue(void 0);
+    expect(_.detectRuntime()).toBe('unknown');
+    replacedProperty.restore();
+  });
+});
@@ -0,0 +1,36 @@
+/** Runtime the code is executed on. */
+export type Runtime = 'browser' | 'bun' | 'deno' | 'jsdom' | 'node' | 'unknown' | 'worker';
+
+/** Returns `globalThis` when it is an instance of the global constructor `name`, otherwise `undefined`. */
+export function globalScopeOf<Scope>(name: 'ServiceWorkerGlobalScope' | 'WorkerGlobalScope') {
+  const constructor = (globalThis as { [key: string]: unknown })[name];
+  return constructor instanceof Function && globalThis instanceof constructor ? (globalThis as Scope) : undefined;
+}
+
+/**
+ * Detects the runtime the code is executed on.
+ *
+ * @returns `'deno'`, `'bun'`, `'jsdom'`, `'browser'`, `'worker'` (including service workers), `'node'` or `'unknown'`.
+ * @example
+ * ```
+ *   const runtime = detectRuntime(); // 'node' on a Node server.
+ * ```
+ */
+export function detectRuntime(): Runtime {
+  const globals = globalThis as { Bun?: unknown; Deno?: unknown; process?: { versions?: { node?: string } } };
+  if (globals.Deno !== void 0) {
+    return 'deno';
+  } else if (globals.Bun !== void 0) {
+    return 'bun';
+  } else if (globalThis.window) {
+    // Read from `globalThis`, so the detection works even when browser globals are not installed.
+    const navigator = globalThis.window.navigator as Navigator | undefined;
+    return navigator?.userAgent.includes('jsdom') ? 'jsdom' : 'browser';
+  } else if (globalScopeOf('WorkerGlobalScope')) {
+    return 'worker';
+  } else if (globals.process?.versions?.node) {
+    return 'node';
+  } else {
+    return 'unknown';
+  }
+}
@@ -0,0 +1,47 @@
+import type { IncomingMessage } from 'http';
+
+import { getServerContext } from './requestContext';
+import * as _ from './server';
+
+function incomingMessage(headers: IncomingMessage['headers'], url?: string, encrypted?: boolean) {
+  return { headers, socket: encrypted === void 0 ? {} : { encrypted }, url } as IncomingMessage;
+}
+
+describe('Check server utils', () => {
+  it('builds request context from incoming message', () => {
+    const headers = { host: 'example.com' };
+    expect(_.fromIncomingMessage(incomingMessage(headers, '/path'))).toEqual({
+      headers,
+      url: 'http://example.com/path',
+    });
+    expect(_.fromIncomingMessage(incomingMessage({}, void 0, true)).url).toBe('https://localhost/');
+    expect(_.fromIncomingMessage(incomingMessage({}, void 0, false)).url).toBe('http://localhost/');
+  });
+
+  it('builds request context from forwarded headers of trusted proxies', () => {
+    const headers = { 'host': 'proxy', 'x-forwarded-host': 'example.com, proxy', 'x-forwarded-proto': 'https' };
+    expect(_.fromIncomingMessage(incomingMessage(headers, '/'), { trustProxy: true }).url).toBe('https://example.com/');
+    expect(_.fromIncomingMessage(incomingMessage(headers, '/')).url).toBe('http://proxy/');
+  });
+
+  it('ignores invalid forwarded protocols', () => {
+    const headers = { 'host': 'example.com', 'x-forwarded-proto': 'javascript' };
+    expect(_.fromIncomingMessage(incomingMessage(headers, '/'), { trustProxy: true }).url).toBe('http://example.com/');
+  });
+
+  it('runs with request context of malformed requests', () => {
+    const request = _.fromIncomingMessage(incomingMessage({ host: 'exa mple.com' }, '/path'));
+    expect(_.runWithRequestContext(request, () => getServerContext()?.location.href)).toBe('http://localhost/');
+  });
+
+  it('runs with request context', async () => {
+    const request = { headers: { cookie: 'a=1' }, url: 'http://localhost/' };
+    expect(getServerContext()).toBe(void 0);
+    const result = _.runWithRequestContext(request, async () => {
+      await Promise.resolve();
+      return getServerContext()?.cookies.a;
+    });
+    expect(getServerContext()).toBe(void 0);
+    await expect(result).resolves.toBe('1');
+  });
+});
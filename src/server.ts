@@ -0,0 +1,71 @@
+import type { IncomingMessage } from 'http';
+import type { RequestContext, ServerContext } from './requestContext';
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { createServerContext, firstHeader, setServerContextStorage } from './requestContext';
+
+export { RequestContext, ServerContext, ServerContextFn, ServerLocation, ServerNavigator } from './requestContext';
+
+const storage = new AsyncLocalStorage<ServerContext>();
+
+setServerContextStorage(storage);
+
+/** Options of `fromIncomingMessage`. */
+export interface FromIncomingMessageOptions {
+  /**
+   * Whether to take the protocol and host from the `x-forwarded-proto` and `x-forwarded-host` headers, `false` by
+   * default. Only to be enabled behind a proxy setting them, as clients can send any value.
+   */
+  trustProxy?: boolean;
+}
+
+/** Returns the first value of a `x-forwarded-*` header, if any. */
+function firstForwarded(value: string | string[] | undefined) {
+  return firstHeader(value)?.split(',')[0]?.trim();
+}
+
+/**
+ * Builds the request context of a Node HTTP request.
+ *
+ * The protocol and host are taken from the `x-forwarded-proto` and `x-forwarded-host` headers only when the proxy is
+ * trusted. When the resulting URL is invalid, the request context has the location of `http://localhost/`.
+ *
+ * @param request Incoming message of a Node HTTP server.
+ * @param options Whether to trust the `x-forwarded-*` headers.
+ * @returns The request context.
+ * @example
+ * ```
+ *   http.createServer((req, res) => runWithRequestContext(fromIncomingMessage(req), () => handle(req, res)));
+ * ```
+ */
+export function fromIncomingMessage(
+  request: IncomingMessage,
+  options: FromIncomingMessageOptions = {},
+): RequestContext {
+  const { headers } = request;
+  const encrypted = 'encrypted' in request.socket && Boolean(request.socket.encrypted);
+  const forwardedProtocol = options.trustProxy ? firstForwarded(headers['x-forwarded-proto']) : void 0;
+  const forwardedHost = options.trustProxy ? firstForwarded(headers['x-forwarded-host']) : void 0;
+  const protocol =
+    forwardedProtocol === 'http' || forwardedProtocol === 'https' ? forwardedProtocol : encrypted ? 'https' : 'http';
+  const host = forwardedHost || headers.host || 'localhost';
+  return { headers, url: `${protocol}://${host}${request.url ?? '/'}` };
+}
+
+/**
+ * Executes a function within the context of a request.
+ *
+ * Within it and any asynchronous code it starts, `onServerContext`, `getLocation` and `getCookie`
+ * use stand-ins for `location`, `navigator` and the cookies built from the request.
+ *
+ * @param request URL and headers of the request.
+ * @param fn Function to execute.
+ * @returns The function result.
+ * @example
+ * ```
+ *   const html = await runWithRequestContext({ url, headers }, () => renderToString(<App />));
+ * ```
+ */
+export function runWithRequestContext<ReturnType>(request: RequestContext, fn: () => ReturnType): ReturnType {
+  return storage.run(createServerContext(request), fn);
+}
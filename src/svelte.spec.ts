@@ -0,0 +1,113 @@
+import './globals';
+import * as _ from './svelte';
+
+const windowMock = {} as typeof window;
+
+afterEach(() => {
+  jest.resetAllMocks();
+});
+
+describe('Check Svelte utils', () => {
+  it('browserReadable holds the server value on server', () => {
+    const start = jest.fn();
+    const run = jest.fn();
+    const store = _.browserReadable(start, 'server');
+    store.subscribe(run)();
+    expect(run).toHaveBeenLastCalledWith('server');
+    expect(start).not.toHaveBeenCalled();
+  });
+
+  it('browserReadable shares the browser subscription between subscribers', () => {
+    const stop = jest.fn();
+    let set: _.Subscriber<object> = () => {};
+    const start = jest.fn((_window: Window, setValue: _.Subscriber<object>) => ((set = setValue), stop));
+    const run1 = jest.fn();
+    const run2 = jest.fn();
+    const value = { x: 1 };
+    jest.replaceProperty(global, 'window', windowMock);
+    const store = _.browserReadable(start, {});
+    const unsubscribe1 = store.subscribe(run1);
+    const unsubscribe2 = store.subscribe(run2);
+    expect(start).toHaveBeenCalledTimes(1);
+    expect(start).toHaveBeenLastCalledWith(windowMock, set);
+    set(value);
+    set(value);
+    expect(run1).toHaveBeenCalledTimes(3);
+    expect(run2).toHaveBeenLastCalledWith(value);
+    unsubscribe1();
+    unsubscribe1();
+    expect(stop).not.toHaveBeenCalled();
+    unsubscribe2();
+    expect(stop).toHaveBeenCalledTimes(1);
+    store.subscribe(run1)();
+    expect(run1).toHaveBeenLastCalledWith(value);
+  });
+
+  it('browserReadable notifies only changed primitive values', () => {
+    let set: _.Subscriber<number> = () => {};
+    const run = jest.fn();
+    jest.replaceProperty(global, 'window', windowMock);
+    const unsubscribe = _.browserReadable((_window, setValue) => {
+      set = setValue;
+      setValue(1);
+    }, 0).subscribe(run);
+    set(1);
+    set(NaN);
+    set(NaN);
+    unsubscribe();
+    set(2);
+    expect(run.mock.calls).toEqual([[1], [NaN]]);
+  });
+
+  it('browser state stores listen to the browser', () => {
+    const mockAddEventListener = jest.fn();
+    const mockRemoveEventListener = jest.fn();
+    const eventTarget = { addEventListener: mockAddEventListener, removeEventListener: mockRemoveEventListener };
+    const mockMatchMedia = jest.fn(() => ({ ...eventTarget, matches: true }));
+    jest.replaceProperty(global, 'window', {
+      ...eventTarget,
+      innerHeight: 768,
+      innerWidth: 1024,
+      matchMedia: mockMatchMedia,
+      navigator: { onLine: false },
+      scrollX: 0,
+      scrollY: 42,
+    } as unknown as typeof window);
+    const stores = [
+      [_.windowSize({ height: 0, width: 0 }), { height: 768, width: 1024 }, ['resize']],
+      [_.scrollPosition({ x: 0, y: 0 }), { x: 0, y: 42 }, ['scroll']],
+      [_.mediaQuery('(min-width: 1024px)', false), true, ['change']],
+      [_.onlineStatus(true), false, ['offline', 'online']],
+    ] as const;
+    for (const [store, value, types] of stores) {
+      const run = jest.fn();
+      mockAddEventListener.mockClear();
+      mockRemoveEventListener.mockClear();
+      const unsubscribe = store.subscribe(run);
+      expect(run).toHaveBeenLastCalledWith(value);
+      for (const type of types) {
+        expect(mockAddEventListener).toHaveBeenCalledWith(type, expect.any(Function), { passive: true });
+      }
+      (mockAddEventListener.mock.lastCall as [string, () => void])[1]();
+      expect(run).toHaveBeenCalledTimes(typeof value === 'object' ? 2 : 1);
+      unsubscribe();
+      for (const type of types) {
+        expect(mockRemoveEventListener).toHaveBeenCalledWith(type, expect.any(Function), { passive: true });
+      }
+    }
+    expect(mockMatchMedia).toHaveBeenCalledWith('(min-width: 1024px)');
+  });
+
+  it('browser state stores hold server values on server', () => {
+    const run = jest.fn();
+    jest.replaceProperty(global, 'window', void 0);
+    _.windowSize({ height: 768, width: 1024 }).subscribe(run)();
+    expect(run).toHaveBeenLastCalledWith({ height: 768, width: 1024 });
+    _.scrollPosition({ x: 0, y: 0 }).subscribe(run)();
+    expect(run).toHaveBeenLastCalledWith({ x: 0, y: 0 });
+    _.mediaQuery('(min-width: 1024px)', true).subscribe(run)();
+    expect(run).toHaveBeenLastCalledWith(true);
+    _.onlineStatus(true).subscribe(run)();
+    expect(run).toHaveBeenLastCalledWith(true);
+  });
+});
@@ -0,0 +1,164 @@
+/* eslint-disable @typescript-eslint/no-invalid-void-type */
+import type { DefinedWindow, ScrollPosition, WindowSize } from './types';
+
+import { listen } from './utils';
+
+export type { ScrollPosition, WindowSize } from './types';
+
+/**
+ * `browserReadable` creates a readable store following the Svelte store contract, thus usable with the `$store` syntax.
+ *
+ * The store holds the server value until subscribed to on a browser (more accurately when `window` is defined).
+ * The browser is subscribed to once, when the first subscriber subscribes,
+ * and unsubscribed from when the last one unsubscribes, so all subscribers share the same listeners.
+ *
+ * @param start Function called with `window` and a function setting the value when the first subscriber subscribes,
+ *   which can return a function called when the last one unsubscribes.
+ * @param serverValue Value held on the server and until subscribed to on a browser.
+ * @returns A readable store.
+ * @example
+ * ```
+ *   const devicePixelRatio = browserReadable((window, set) => {
+ *     const update = () => set(window.devicePixelRatio);
+ *     update();
+ *     window.addEventListener('resize', update);
+ *     return () => window.removeEventListener('resize', update);
+ *   }, 1);
+ * ```
+ *
+ * @see {@link https://svelte.dev/docs/svelte/stores#Store-contract}
+ */
+export function browserReadable<Value>(start: StartStopNotifier<Value>, serverValue: Value): Readable<Value> {
+  const subscribers = new Set<Subscriber<Value>>();
+  let started = false;
+  let stop: void | Unsubscriber;
+  let value = serverValue;
+  const set = (newValue: Value) => {
+    if (!Object.is(value, newValue) || newValue instanceof Object) {
+      value = newValue;
+      // Subscribers are called with the value set by `start` once it returns.
+      if (started) {
+        for (const subscriber of subscribers) {
+          subscriber(value);
+        }
+      }
+    }
+  };
+  return {
+    subscribe(run: Subscriber<Value>) {
+      subscribers.add(run);
+      if (subscribers.size === 1 && window) {
+        stop = start(window, set);
+        started = true;
+      }
+      run(value);
+      return () => {
+        if (subscribers.delete(run) && !subscribers.size) {
+          started = false;
+          stop?.();
+          stop = void 0;
+        }
+      };
+    },
+  };
+}
+
+/**
+ * `windowSize` creates a readable store of the live size of the window viewport.
+ *
+ * @param serverSize Size held on the server and until subscribed to on a browser.
+ * @returns A readable store of the `innerWidth` and `innerHeight` of the window.
+ * @example
+ * ```
+ *   const size = windowSize({ height: 768, width: 1024 });
+ *   // <p>{$size.width}</p>
+ * ```
+ */
+export function windowSize(serverSize: WindowSize) {
+  return browserReadable<WindowSize>((window, set) => {
+    const update = () => set({ height: window.innerHeight, width: window.innerWidth });
+    update();
+    return listen(() => window, 'resize', update, { passive: true });
+  }, serverSize);
+}
+
+/**
+ * `scrollPosition` creates a readable store of the live scroll position of the window.
+ *
+ * @param serverPosition Position held on the server and until subscribed to on a browser.
+ * @returns A readable store of the `scrollX` and `scrollY` of the window.
+ * @example
+ * ```
+ *   const position = scrollPosition({ x: 0, y: 0 });
+ * ```
+ */
+export function scrollPosition(serverPosition: ScrollPosition) {
+  return browserReadable<ScrollPosition>((window, set) => {
+    const update = () => set({ x: window.scrollX, y: window.scrollY });
+    update();
+    return listen(() => window, 'scroll', update, { passive: true });
+  }, serverPosition);
+}
+
+/**
+ * `mediaQuery` creates a readable store of whether the document live matches a media query.
+ *
+ * @param query Media query to match.
+ * @param serverMatches Whether the media query matches on the server and until subscribed to on a browser.
+ * @returns A readable store of whether the media query matches.
+ * @example
+ * ```
+ *   const isWide = mediaQuery('(min-width: 1024px)', true);
+ * ```
+ */
+export function mediaQuery(query: string, serverMatches: boolean) {
+  return browserReadable((window, set) => {
+    const mediaQueryList = window.matchMedia(query);
+    const update = () => set(mediaQueryList.matches);
+    update();
+    return listen(() => mediaQueryList, 'change', update, { passive: true });
+  }, serverMatches);
+}
+
+/**
+ * `onlineStatus` creates a readable store of whether the browser is live online.
+ *
+ * @param serverOnline Whether to consider the browser online on the server and until subscribed to on a browser.
+ * @returns A readable store of the `navigator.onLine` value.
+ * @example
+ * ```
+ *   const isOnline = onlineStatus(true);
+ * ```
+ */
+export function onlineStatus(serverOnline: boolean) {
+  return browserReadable((window, set) => {
+    const update = () => set(window.navigator.onLine);
+    update();
+    const disposeOffline = listen(() => window, 'offline', update, { passive: true });
+    const disposeOnline = listen(() => window, 'online', update, { passive: true });
+    return () => {
+      disposeOffline();
+      disposeOnline();
+    };
+  }, serverOnline);
+}
+
+/** Readable store, following the Svelte store contract. */
+export interface Readable<Value> {
+  /**
+   * Subscribes to the store value.
+   *
+   * @param run Function called with the current value, then each time it changes.
+   * @returns A function unsubscribing from the store.
+   */
+  subscribe(run: Subscriber<Value>): Unsubscriber;
+}
+
+/** Function called with `window` and a function setting the value, when a store gets its first subscriber. */
+export type StartStopNotifier<Value> = (window: DefinedWindow, set: Subscriber<Value>) => void | Unsubscriber;
+
+/** Function called with the value of a store. */
+export type Subscriber<Value> = (value: Value) => void;
+
+/** Function unsubscribing from a store. */
+export type Unsubscriber = () => void;
@@ -0,0 +1,185 @@
+import './globals';
+import * as _ from './testing';
+import { onBrowser } from './utils';
+
+const document = {} as Document;
+
+describe('Check testing utils', () => {
+  it('createWindowStub references itself as window and self', () => {
+    const windowStub = _.createWindowStub({ scrollY: 42 });
+    expect(windowStub.scrollY).toBe(42);
+    expect(windowStub.window).toBe(windowStub);
+    expect(windowStub.self).toBe(windowStub);
+    expect(_.createWindowStub({}).constructor).toBe(Object);
+  });
+
+  it('createWindowStub throws on members it does not implement', () => {
+    const windowStub = _.createWindowStub();
+    expect(() => windowStub.scrollY).toThrow(ReferenceError);
+    expect(() => windowStub.scrollY).toThrow('Window stub does not implement scrollY');
+  });
+
+  it('withBrowser sets browser globals from the stub', () => {
+    const windowStub = _.createWindowStub({ document, scrollY: 42 });
+    const result = _.withBrowser(windowStub, (window) => {
+      expect(window).toBe(windowStub);
+      expect(global.window).toBe(windowStub);
+      expect(global.self).toBe(windowStub);
+      expect(global.document).toBe(document);
+      expect(() => global.scrollX).toThrow(ReferenceError);
+      global.scrollX = 1;
+      expect(global.scrollX).toBe(1);
+      return onBrowser(({ scrollY }) => scrollY, NaN);
+    });
+    expect(result).toBe(42);
+    expect(window).toBe(void 0);
+    expect(global.document).toBe(void 0);
+    expect(global.scrollX).toBe(void 0);
+  });
+
+  it('withoutBrowser sets browser globals to undefined', () => {
+    const windowStub = _.createWindowStub();
+    _.withBrowser(windowStub, () => {
+      expect(_.withoutBrowser(() => onBrowser(() => 0, NaN))).toBe(NaN);
+      expect(global.window).toBe(windowStub);
+    });
+    expect(_.withoutBrowser(() => window)).toBe(void 0);
+  });
+
+  it('withBrowser alikes restore browser globals on errors', () => {
+    const error = new Error();
+    expect(() =>
+      _.withBrowser(_.createWindowStub(), () => {
+        throw error;
+      }),
+    ).toThrow(error);
+    expect(window).toBe(void 0);
+  });
+
+  it('withBrowser alikes restore browser globals once promises settle', async () => {
+    const windowStub = _.createWindowStub();
+    const promise = _.withBrowser(windowStub, () => Promise.resolve(window));
+    expect(window).toBe(windowStub);
+    await expect(promise).resolves.toBe(windowStub);
+    expect(window).toBe(void 0);
+    const rejection = _.withBrowser(windowStub, () => Promise.reject(new Error('rejected')));
+    await expect(rejection).rejects.toThrow('rejected');
+    expect(window).toBe(void 0);
+  });
+
+  it('withBrowser alikes restore browser globals when one cannot be replaced', () => {
+    const defineProperty = Object.defineProperty;
+    jest.spyOn(Object, 'defineProperty').mockImplementation((target, key, attributes) => {
+      if (key === 'document') {
+        throw new TypeError('Cannot redefine property: document');
+      }
+      return defineProperty(target as object, key, attributes);
+    });
+    const fn = jest.fn();
+    try {
+      expect(() => {
+        _.withBrowser(_.createWindowStub(), fn);
+      }).toThrow('Cannot redefine property: document');
+    } finally {
+      jest.restoreAllMocks();
+    }
+    expect(fn).not.toHaveBeenCalled();
+    expect(global.AbstractRange).toBe(void 0);
+    expect(window).toBe(void 0);
+  });
+
+  it('withBrowser alikes remove browser globals which were not installed', () => {
+    Reflect.deleteProperty(global, 'scrollY');
+    _.withoutBrowser(() => expect('scrollY' in global).toBe(true));
+    expect('scrollY' in global).toBe(false);
+  });
+});
+
+describe('Check isomorphic testing utils', () => {
+  const runs: string[] = [];
+
+  _.describeIsomorphic('describeIsomorphic', (env) => {
+    it('sets browser globals according to the run', () => {
+      expect(window).toBe(env.window);
+      expect(onBrowser(() => true, false)).toBe(env.isBrowser);
+      runs.push(`describe ${env.isBrowser ? 'browser' : 'server'}`);
+    });
+  });
+
+  _.describeIsomorphic(
+    'describeIsomorphic with window stub',
+    (env) => {
+      it('sets browser globals from the window stub', () => {
+        expect(onBrowser(({ scrollY }) => scrollY, NaN)).toBe(env.isBrowser ? 42 : NaN);
+        if (env.isBrowser) {
+          runs.push('describe stub browser');
+        }
+      });
+    },
+    () => _.createWindowStub({ scrollY: 42 }),
+  );
+
+  it('describeIsomorphic does not restore browser globals it could not replace', () => {
+    type Hook = () => void;
+    const hooks: Hook[] = [];
+    const addHook = (hook: jest.ProvidesHookCallback) => hooks.push(hook as Hook);
+    jest.spyOn(global, 'describe').mockImplementation((_name, fn) => fn());
+    jest.spyOn(global, 'beforeEach').mockImplementation(addHook);
+    jest.spyOn(global, 'afterEach').mockImplementation(addHook);
+    try {
+      _.describeIsomorphic('describeIsomorphic', () => void 0);
+    } finally {
+      jest.restoreAllMocks();
+    }
+    const [beforeServer, afterServer, beforeBrowser, afterBrowser] = hooks as [Hook, Hook, Hook, Hook];
+    beforeServer();
+    afterServer();
+    const defineProperty = Object.defineProperty;
+    jest.spyOn(Object, 'defineProperty').mockImplementation((target, key, attributes) => {
+      if (key === 'document') {
+        throw new TypeError('Cannot redefine property: document');
+      }
+      return defineProperty(target as object, key, attributes);
+    });
+    try {
+      expect(beforeBrowser).toThrow('Cannot redefine property: document');
+      const { length } = jest.mocked(Object.defineProperty).mock.calls;
+      afterBrowser();
+      expect(Object.defineProperty).toHaveBeenCalledTimes(length);
+    } finally {
+      jest.restoreAllMocks();
+    }
+    expect(window).toBe(void 0);
+  });
+
+  _.itIsomorphic('itIsomorphic', (env) => {
+    expect(window).toBe(env.window);
+    expect(onBrowser(() => true, false)).toBe(env.isBrowser);
+    runs.push(`it ${env.isBrowser ? 'browser' : 'server'}`);
+  });
+
+  _.itIsomorphic(
+    'itIsomorphic with async test',
+    async (env) => {
+      await Promise.resolve();
+      expect(onBrowser(({ scrollY }) => scrollY, NaN)).toBe(env.isBrowser ? 42 : NaN);
+      runs.push(`it async ${env.isBrowser ? 'browser' : 'server'}`);
+    },
+    () => _.createWindowStub({ scrollY: 42 }),
+  );
+
+  describe('isomorphic tests', () => {
+    it('ran once as if on a server and once as if on a browser', () => {
+      expect(runs).toEqual([
+        'describe server',
+        'describe browser',
+        'describe stub browser',
+        'it server',
+        'it browser',
+        'it async server',
+        'it async browser',
+      ]);
+      expect(window).toBe(void 0);
+    });
+  });
+});
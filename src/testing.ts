@@ -0,0 +1,265 @@
+import type { BrowserGlobalName } from './browserGlobals';
+
+import { browserGlobals } from './browserGlobals';
+
+/** Stand-in for `window`, with all browser globals typed as defined. */
+export type WindowStub = Window & BrowserGlobals;
+
+/** Browser globals referencing `window` itself. */
+const scopeGlobals: readonly PropertyKey[] = ['self', 'window'];
+
+function isBrowserGlobal(key: PropertyKey): key is BrowserGlobalName {
+  return (browserGlobals as readonly PropertyKey[]).includes(key);
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return value instanceof Object && 'then' in value && value.then instanceof Function;
+}
+
+function notImplemented(key: string): never {
+  throw new ReferenceError(`Window stub does not implement ${key}, it should be provided to createWindowStub`);
+}
+
+/**
+ * Replaces all browser globals according to `descriptorOf`.
+ *
+ * When one of them cannot be replaced, like a non-configurable one, the ones already replaced are restored before
+ * throwing.
+ *
+ * @returns A function restoring browser globals as they were.
+ */
+function replaceGlobals(descriptorOf: (key: BrowserGlobalName) => PropertyDescriptor) {
+  const descriptors: (readonly [BrowserGlobalName, PropertyDescriptor | undefined])[] = [];
+  const restore = () => {
+    for (const [key, descriptor] of descriptors) {
+      if (descriptor) {
+        Object.defineProperty(globalThis, key, descriptor);
+      } else {
+        Reflect.deleteProperty(globalThis, key);
+      }
+    }
+  };
+  try {
+    for (const key of browserGlobals) {
+      const descriptor = Object.getOwnPropertyDescriptor(globalThis, key);
+      Object.defineProperty(globalThis, key, { configurable: true, enumerable: true, ...descriptorOf(key) });
+      descriptors.push([key, descriptor]);
+    }
+  } catch (error) {
+    restore();
+    throw error;
+  }
+  return restore;
+}
+
+/**
+ * Replaces all browser globals according to `descriptorOf`, executes `fn` and then restores them as they were.
+ *
+ * When `fn` returns a promise, browser globals are restored once it settles.
+ */
+function withGlobals<ReturnType>(descriptorOf: (key: BrowserGlobalName) => PropertyDescriptor, fn: () => ReturnType) {
+  const restore = replaceGlobals(descriptorOf);
+  let result: ReturnType;
+  try {
+    result = fn();
+  } catch (error) {
+    restore();
+    throw error;
+  }
+  if (isPromiseLike(result)) {
+    return result.then(
+      (value) => {
+        restore();
+        return value;
+      },
+      (error: unknown) => {
+        restore();
+        throw error;
+      },
+    ) as ReturnType;
+  } else {
+    restore();
+    return result;
+  }
+}
+
+/** Describes browser globals taken from `windowStub`. */
+function stubDescriptorOf(windowStub: WindowStub) {
+  return (key: BrowserGlobalName): PropertyDescriptor => {
+    if (scopeGlobals.includes(key)) {
+      return { value: windowStub, writable: true };
+    } else if (key in windowStub) {
+      return { value: Reflect.get(windowStub, key) as unknown, writable: true };
+    } else {
+      return {
+        get: () => notImplemented(key),
+        set: (value: unknown) => Object.defineProperty(globalThis, key, { value, writable: true }),
+      };
+    }
+  };
+}
+
+/** Describes browser globals set to `undefined`. */
+function undefinedDescriptorOf(): PropertyDescriptor {
+  return { value: void 0, writable: true };
+}
+
+/**
+ * Creates a stand-in for `window`, implementing only the given members.
+ *
+ * Its `window` and `self` members reference the stub itself, unless provided.
+ *
+ * Accessing any other browser global it does not implement throws a `ReferenceError`.
+ *
+ * @param partial Members of `window` implemented by the stub.
+ * @returns The window stub.
+ * @example
+ * ```
+ *   const windowStub = createWindowStub({ scrollY: 42 });
+ *   windowStub.scrollY; // 42
+ *   windowStub.window.scrollY; // 42
+ *   windowStub.scrollX; // Throws.
+ * ```
+ */
+export function createWindowStub(partial: Partial<WindowStub> = {}): WindowStub {
+  return new Proxy(partial, {
+    get(target, key, receiver) {
+      if (key in target || !isBrowserGlobal(key)) {
+        return Reflect.get(target, key, receiver) as unknown;
+      } else {
+        return scopeGlobals.includes(key) ? (receiver as WindowStub) : notImplemented(key);
+      }
+    },
+  }) as WindowStub;
+}
+
+/**
+ * Executes a function as if on a browser, with browser globals taken from `windowStub`.
+ *
+ * The `window` and `self` globals are set to the stub, other browser globals to its members.
+ * Browser globals the stub does not implement throw a `ReferenceError` when accessed.
+ *
+ * Browser globals are restored once the function returns, throws, or once its returned promise settles.
+ *
+ * @param windowStub Stand-in for `window`, from `createWindowStub` or a `window` implementation like JSDOM's.
+ * @param fn Function to execute, with `windowStub` as parameter.
+ * @returns The function result.
+ * @example
+ * ```
+ *   const scrollY = withBrowser(createWindowStub({ scrollY: 42 }), () => onBrowser(({ scrollY }) => scrollY));
+ *   expect(scrollY).toBe(42);
+ * ```
+ */
+export function withBrowser<ReturnType>(windowStub: WindowStub, fn: (window: WindowStub) => ReturnType): ReturnType {
+  return withGlobals(stubDescriptorOf(windowStub), () => fn(windowStub));
+}
+
+/**
+ * Executes a function as if on a server, with all browser globals set to `undefined`.
+ *
+ * Browser globals are restored once the function returns, throws, or once its returned promise settles.
+ *
+ * @param fn Function to execute.
+ * @returns The function result.
+ * @example
+ * ```
+ *   const scrollY = withoutBrowser(() => onBrowser(({ scrollY }) => scrollY, NaN));
+ *   expect(scrollY).toBe(NaN);
+ * ```
+ */
+export function withoutBrowser<ReturnType>(fn: () => ReturnType): ReturnType {
+  return withGlobals(undefinedDescriptorOf, fn);
+}
+
+/** Environment of a run of an isomorphic test. */
+export interface IsomorphicEnvironment {
+  /** Whether the test runs as if on a browser, or as if on a server. */
+  readonly isBrowser: boolean;
+  /** Stand-in for `window` when the test runs as if on a browser, `undefined` otherwise. */
+  readonly window: WindowStub | undefined;
+}
+
+/** Runs of an isomorphic test, with the suffix of their names. */
+const isomorphicRuns = [
+  ['server', false],
+  ['browser', true],
+] as const;
+
+/**
+ * Describes a test suite twice, with its tests running once as if on a server and once as if on a browser.
+ *
+ * Before each test, browser globals are set to `undefined` or taken from a new window stub, as `withoutBrowser` and
+ * `withBrowser` do, and they are restored after it. The suites are named after `name` with a `[server]` or `[browser]`
+ * suffix.
+ *
+ * Relies on the `describe`, `beforeEach` and `afterEach` globals of Jest, or Vitest with `globals` enabled.
+ *
+ * @param name Name of the test suite.
+ * @param fn Function declaring the tests, with the environment of the run as parameter.
+ * @param createStub Function creating the stand-in for `window` of each test, `createWindowStub` by default.
+ * @example
+ * ```
+ *   describeIsomorphic('scroll', (env) => {
+ *     it('gets scroll', () => {
+ *       expect(onBrowser(({ scrollY }) => scrollY, NaN)).toBe(env.isBrowser ? 42 : NaN);
+ *     });
+ *   }, () => createWindowStub({ scrollY: 42 }));
+ * ```
+ */
+export function describeIsomorphic(
+  name: string,
+  fn: (env: IsomorphicEnvironment) => void,
+  createStub: () => WindowStub = createWindowStub,
+): void {
+  for (const [suffix, isBrowser] of isomorphicRuns) {
+    describe(`${name} [${suffix}]`, () => {
+      const env: { isBrowser: boolean; window: WindowStub | undefined } = { isBrowser, window: void 0 };
+      let restore: (() => void) | undefined;
+      beforeEach(() => {
+        env.window = isBrowser ? createStub() : void 0;
+        restore = replaceGlobals(env.window ? stubDescriptorOf(env.window) : undefinedDescriptorOf);
+      });
+      afterEach(() => {
+        restore?.();
+        restore = void 0;
+        env.window = void 0;
+      });
+      fn(env);
+    });
+  }
+}
+
+/**
+ * Declares a test twice, running once as if on a server and once as if on a browser.
+ *
+ * Browser globals are set to `undefined` or taken from a new window stub, as `withoutBrowser` and `withBrowser` do,
+ * and they are restored once the test returns, throws, or once its returned promise settles. The tests are named after
+ * `name` with a `[server]` or `[browser]` suffix.
+ *
+ * Relies on the `it` global of Jest, or Vitest with `globals` enabled.
+ *
+ * @param name Name of the test.
+ * @param fn Test function, with the environment of the run as parameter.
+ * @param createStub Function creating the stand-in for `window` of the browser run, `createWindowStub` by default.
+ * @example
+ * ```
+ *   itIsomorphic('gets scroll', (env) => {
+ *     expect(onBrowser(({ scrollY }) => scrollY, NaN)).toBe(env.isBrowser ? 42 : NaN);
+ *   }, () => createWindowStub({ scrollY: 42 }));
+ * ```
+ */
+export function itIsomorphic(
+  name: string,
+  fn: (env: IsomorphicEnvironment) => unknown,
+  createStub: () => WindowStub = createWindowStub,
+): void {
+  for (const [suffix, isBrowser] of isomorphicRuns) {
+    it(`${name} [${suffix}]`, async () => {
+      if (isBrowser) {
+        await withBrowser(createStub(), (window) => fn({ isBrowser, window }));
+      } else {
+        await withoutBrowser(() => fn({ isBrowser, window: void 0 }));
+      }
+    });
+  }
+}
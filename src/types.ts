@@ -1,11 +1,69 @@
 /** Any browser function. */
-export type AnyBrowserFn = (window: Window, ...args: any[]) => unknown;
+export type AnyBrowserFn = (window: DefinedWindow, ...args: any[]) => unknown;
+
+/** Any worker function. */
+export type AnyWorkerFn = (scope: WorkerScope, ...args: any[]) => unknown;
+
+/** Any function taking defined browser globals as first parameter. */
+export type AnyGlobalsFn<Key extends BrowserGlobalKeys = BrowserGlobalKeys> = (
+  globals: DefinedGlobals<Key>,
+  ...args: any[]
+) => unknown;
 
 /** Any function. */
 export type AnyFn = (...args: unknown[]) => unknown;
 
 /** Broswer function, takes `window` as parameter. */
-export type BrowserFn<ReturnType> = (window: Window) => ReturnType;
+export type BrowserFn<ReturnType> = (window: DefinedWindow) => ReturnType;
+
+/** Names of the browser globals declared as eventually undefined by the library. */
+export type BrowserGlobalKeys = globalThis.BrowserGlobalKeys;
+
+/** Global variables, browser globals typed as defined. */
+export type BrowserGlobals = globalThis.BrowserGlobals;
+
+/** Browser global `Key`, typed as defined. */
+export type DefinedGlobal<Key extends BrowserGlobalKeys> = BrowserGlobals[Key];
+
+/** Browser globals `Key`, typed as defined. */
+export type DefinedGlobals<Key extends BrowserGlobalKeys> = Pick<BrowserGlobals, Key>;
+
+/** `window` on a browser, with the browser globals typed as defined. */
+export type DefinedWindow = Window & BrowserGlobals;
+
+/** Type of `Symbol.dispose`, when declared by the TypeScript libraries (`esnext.disposable`) or `@types/node`. */
+type DisposeSymbol = SymbolConstructor extends { readonly dispose: infer Dispose } ? Extract<Dispose, symbol> : never;
+
+/** Function removing what it was returned for, also disposable with `using` where `Symbol.dispose` is declared. */
+export type Disposer = (() => void) & { [Key in DisposeSymbol]: () => void };
+
+/** Listener of `Type` events on `Target`. */
+export type EventHandler<Target, Type extends EventType<Target>> = (
+  this: Target,
+  event: EventMap<Target>[Type],
+) => void;
+
+/** Event map of `Target`: `WindowEventMap`, `DocumentEventMap` or `HTMLElementEventMap`, otherwise any event. */
+export type EventMap<Target> = Target extends Window
+  ? WindowEventMap
+  : Target extends Document
+    ? DocumentEventMap
+    : Target extends HTMLElement
+      ? HTMLElementEventMap
+      : { [type: string]: Event };
+
+/** Type of events on `Target`. */
+export type EventType<Target> = keyof EventMap<Target> & string;
+
+/** Globals function, takes the browser globals `Key` as parameter, typed as defined. */
+export type GlobalsFn<Key extends BrowserGlobalKeys, ReturnType> = (globals: DefinedGlobals<Key>) => ReturnType;
+
+/** Instance type of the global constructor `Name` when it is declared, otherwise `Fallback`. */
+export type GlobalInstance<Name extends string, Fallback> = Name extends keyof typeof globalThis
+  ? Exclude<(typeof globalThis)[Name], undefined> extends { prototype: infer Instance }
+    ? Instance
+    : Fallback
+  : Fallback;
 
 /** If `Type` is `void`, returns `Then`, otherwise returns `Else`. */
 // eslint-disable-next-line @typescript-eslint/no-invalid-void-type
@@ -18,9 +76,39 @@ export type MergeReturnTypes<Value1, Value2> = IfVoid<
   Value1 | IfVoid<Value2, undefined, Value2>
 >;
 
+/** Scroll position of the window, in pixels. */
+export interface ScrollPosition {
+  x: number;
+  y: number;
+}
+
+/** Service worker function, takes `self` as parameter. */
+export type ServiceWorkerFn<ReturnType> = (scope: ServiceWorkerScope) => ReturnType;
+
+/**
+ * Global scope of a service worker: `ServiceWorkerGlobalScope` when the webworker library is used,
+ * otherwise `WorkerScope`.
+ */
+export type ServiceWorkerScope = GlobalInstance<'ServiceWorkerGlobalScope', WorkerScope>;
+
 /** Returns `Input` array type without it first element. */
-export type Shift<Input extends [Window, ...unknown[]]> = Input extends [Window, ...infer Rest] ? Rest : [];
+export type Shift<Input extends [unknown, ...unknown[]]> = Input extends [unknown, ...infer Rest] ? Rest : [];
 
 /** If `Type` is `void`, returns `void`, otherwise returns `Type | undefined` union. */
 export type VoidOrUnionUndefined<Type> = IfVoid<Type, void, Type | undefined>;
+
+/** Size of the window viewport, in pixels. */
+export interface WindowSize {
+  height: number;
+  width: number;
+}
+
+/** Worker function, takes `self` as parameter. */
+export type WorkerFn<ReturnType> = (scope: WorkerScope) => ReturnType;
+
+/**
+ * Global scope of a worker: `WorkerGlobalScope` when the webworker library is used,
+ * otherwise the members it shares with `Window`.
+ */
+export type WorkerScope = GlobalInstance<'WorkerGlobalScope', WindowOrWorkerGlobalScope & EventTarget>;
 // eslint-disable-next-line @typescript-eslint/no-unused-expressions
@@ -1,4 +1,6 @@
 import './globals';
+import './workerGlobals';
+import { runWithRequestContext } from './server';
 import * as _ from './utils';
 
 const fn0 = () => 0;
@@ -6,6 +8,11 @@ const windowMock = {} as typeof window;
 const windowMockFn = () => windowMock;
 const throwingFn = _.EnvironmentError.throwingFn.bind(null);
 const warningFn = _.EnvironmentError.warningFn.bind(null);
+const globalRecord = global as { [key: string]: unknown };
+const otherScopeMock = function () {};
+const workerScopeMock = Object.defineProperty(function () {}, Symbol.hasInstance, {
+  value: (instance: unknown) => instance === globalThis,
+});
 let consoleErrorSpy: jest.SpyInstance<void, Parameters<Console['error']>, unknown>;
 
 beforeAll(() => {
@@ -16,6 +23,16 @@ afterEach(() => {
   jest.resetAllMocks();
 });
 
+/** Executes a function with `Symbol.dispose` defined, as it is not in Jest sandboxes. */
+function withDisposeSymbol(fn: () => void) {
+  Object.defineProperty(Symbol, 'dispose', { configurable: true, value: Symbol('Symbol.dispose') });
+  try {
+    fn();
+  } finally {
+    Reflect.deleteProperty(Symbol, 'dispose');
+  }
+}
+
 describe('Check utils', () => {
   it('onBrowser alikes provide window and return function result', () => {
     jest.replaceProperty(global, 'window', windowMock);
@@ -24,6 +41,14 @@ describe('Check utils', () => {
     expect(_.onBrowserOrThrow((window) => window)).toBe(windowMock);
   });
 
+  it('onBrowser alikes provide browser globals typed as defined', () => {
+    const IntersectionObserver = jest.fn();
+    jest.replaceProperty(global, 'window', { IntersectionObserver } as unknown as typeof window);
+    const observe = ({ IntersectionObserver }: _.DefinedWindow) => new IntersectionObserver(fn0);
+    expect(_.onBrowser(observe)).toBeInstanceOf(IntersectionObserver);
+    expect(IntersectionObserver).toHaveBeenLastCalledWith(fn0);
+  });
+
   it('onBrowser alikes return fallback value', () => {
     jest.replaceProperty(global, 'window', void 0);
     consoleErrorSpy.mockImplementation();
@@ -88,4 +113,258 @@ describe('Check utils', () => {
     jest.replaceProperty(global, 'window', void 0);
     expect(_.browserFnOrThrow(fn0)).toThrow(_.EnvironmentError);
   });
+
+  it('onWorker alikes provide self and return function result', () => {
+    const workerScope = jest.replaceProperty(globalRecord, 'WorkerGlobalScope', workerScopeMock);
+    const serviceWorkerScope = jest.replaceProperty(globalRecord, 'ServiceWorkerGlobalScope', workerScopeMock);
+    expect(_.onWorker((self) => self)).toBe(globalThis);
+    expect(_.onServiceWorker((self) => self)).toBe(globalThis);
+    workerScope.restore();
+    serviceWorkerScope.restore();
+  });
+
+  it('onWorker alikes return fallback value', () => {
+    expect(_.onWorker(fn0)).toBe(void 0);
+    expect(_.onWorker(fn0, windowMock)).toBe(windowMock);
+    expect(_.onServiceWorker(fn0)).toBe(void 0);
+    expect(_.onServiceWorker(fn0, windowMock)).toBe(windowMock);
+  });
+
+  it('onServiceWorker returns fallback value in other workers', () => {
+    const workerScope = jest.replaceProperty(globalRecord, 'WorkerGlobalScope', workerScopeMock);
+    const serviceWorkerScope = jest.replaceProperty(globalRecord, 'ServiceWorkerGlobalScope', otherScopeMock);
+    expect(_.onWorker(fn0)).toBe(0);
+    expect(_.onServiceWorker(fn0, windowMock)).toBe(windowMock);
+    workerScope.restore();
+    serviceWorkerScope.restore();
+  });
+
+  it('workerFn provides self and returns provided function', () => {
+    const workerScope = jest.replaceProperty(globalRecord, 'WorkerGlobalScope', workerScopeMock);
+    const fn = (self: unknown) => self;
+    expect(typeof _.workerFn(fn)).toBe('function');
+    expect(_.workerFn(fn)()).toBe(globalThis);
+    workerScope.restore();
+  });
+
+  it('workerFn returns fallback function', () => {
+    expect(_.workerFn(fn0).name).toBe('voidFn');
+    expect(_.workerFn(fn0, windowMockFn)).toBe(windowMockFn);
+  });
+
+  it('onServerContext provides server context and returns function result', () => {
+    jest.replaceProperty(global, 'window', void 0);
+    const request = { headers: { 'user-agent': 'Agent' }, url: 'http://localhost/' };
+    expect(runWithRequestContext(request, () => _.onServerContext(({ navigator }) => navigator.userAgent))).toBe(
+      'Agent',
+    );
+  });
+
+  it('onServerContext returns fallback value', () => {
+    expect(_.onServerContext(fn0)).toBe(void 0);
+    expect(_.onServerContext(fn0, windowMock)).toBe(windowMock);
+  });
+
+  it('getLocation and getCookie read browser globals', () => {
+    const location = {} as Location;
+    const document = { cookie: 'a=1' } as Document;
+    jest.replaceProperty(global, 'window', { document, location } as typeof window);
+    expect(_.getLocation()).toBe(location);
+    expect(_.getCookie('a')).toBe('1');
+    expect(_.getCookie('b')).toBe(void 0);
+    expect(_.getCookie('toString')).toBe(void 0);
+    document.cookie = 'toString=abc';
+    expect(_.getCookie('toString')).toBe('abc');
+  });
+
+  it('getLocation and getCookie read server context', () => {
+    jest.replaceProperty(global, 'window', void 0);
+    const request = { headers: { cookie: 'a=1' }, url: 'http://localhost/path' };
+    expect(runWithRequestContext(request, () => _.getLocation()?.pathname)).toBe('/path');
+    expect(runWithRequestContext(request, () => _.getCookie('a'))).toBe('1');
+    expect(_.getLocation()).toBe(void 0);
+    expect(_.getCookie('a')).toBe(void 0);
+  });
+
+  it('browserStorage falls back to in-memory storage on server', () => {
+    jest.replaceProperty(global, 'window', void 0);
+    expect(_.browserStorage().isMemory).toBe(true);
+  });
+
+  it('listen adds and removes event listeners on browser', () => {
+    const handler = jest.fn();
+    const document = { addEventListener: jest.fn(), removeEventListener: jest.fn() };
+    jest.replaceProperty(global, 'window', { document } as unknown as typeof window);
+    const dispose = _.listen((window) => window.document, 'keydown', handler, { passive: true });
+    expect(document.addEventListener).toHaveBeenLastCalledWith('keydown', handler, { passive: true });
+    dispose();
+    expect(document.removeEventListener).toHaveBeenLastCalledWith('keydown', handler, { passive: true });
+    withDisposeSymbol(() => _.listen((window) => window.document, 'click', handler, true)[Symbol.dispose]());
+    expect(document.removeEventListener).toHaveBeenLastCalledWith('click', handler, true);
+  });
+
+  it('listen returns a function only where Symbol.dispose is not defined', () => {
+    // Jest sandboxes have their own `Symbol`, without `dispose`.
+    expect(typeof Symbol.dispose).toBe('undefined');
+    jest.replaceProperty(global, 'window', void 0);
+    const dispose = _.listen(() => null, 'click', fn0);
+    expect(Object.getOwnPropertySymbols(dispose)).toEqual([]);
+    expect(Object.keys(dispose)).toEqual([]);
+  });
+
+  it('listen does nothing without target', () => {
+    const getTarget = jest.fn(() => null);
+    jest.replaceProperty(global, 'window', void 0);
+    expect(() => _.listen(getTarget, 'click', fn0)()).not.toThrow();
+    expect(getTarget).not.toHaveBeenCalled();
+    jest.replaceProperty(global, 'window', windowMock);
+    expect(() => withDisposeSymbol(() => _.listen(getTarget, 'click', fn0)[Symbol.dispose]())).not.toThrow();
+    expect(getTarget).toHaveBeenLastCalledWith(windowMock);
+  });
+
+  it('onBrowserAsync alikes resolve with function result', async () => {
+    jest.replaceProperty(global, 'window', windowMock);
+    await expect(_.onBrowserAsync((window) => Promise.resolve(window))).resolves.toBe(windowMock);
+    await expect(_.onBrowserAsync(windowMockFn, null)).resolves.toBe(windowMock);
+    await expect(_.onBrowserAsyncOrThrow(windowMockFn)).resolves.toBe(windowMock);
+    await expect(_.browserFnAsync((window, value: number) => [window, value])(1)).resolves.toEqual([windowMock, 1]);
+    await expect(_.browserFnAsyncOrThrow((window) => Promise.resolve(window))()).resolves.toBe(windowMock);
+  });
+
+  it('onBrowserAsync alikes resolve with fallback or reject', async () => {
+    const error = new Error();
+    jest.replaceProperty(global, 'window', void 0);
+    await expect(_.onBrowserAsync(fn0)).resolves.toBe(void 0);
+    await expect(_.onBrowserAsync(fn0, null)).resolves.toBe(null);
+    await expect(_.onBrowserAsyncOrThrow(fn0)).rejects.toThrow(_.EnvironmentError);
+    await expect(_.browserFnAsync(fn0)()).resolves.toBe(void 0);
+    await expect(
+      _.browserFnAsync(
+        (_window, value: number) => value,
+        (value) => -value,
+      )(1),
+    ).resolves.toBe(-1);
+    await expect(_.browserFnAsync(fn0, () => Promise.reject(error))()).rejects.toBe(error);
+    await expect(_.browserFnAsyncOrThrow(fn0)()).rejects.toThrow(_.EnvironmentError);
+  });
+
+  it('whenDocumentReady and whenWindowLoaded resolve with window once ready', async () => {
+    const document = { addEventListener: jest.fn(), readyState: 'loading' };
+    const mockAddEventListener = jest.fn();
+    const window = { addEventListener: mockAddEventListener, document } as unknown as typeof windowMock;
+    jest.replaceProperty(global, 'window', window);
+    const documentReady = _.whenDocumentReady();
+    const windowLoaded = _.whenWindowLoaded();
+    expect(document.addEventListener).toHaveBeenLastCalledWith('DOMContentLoaded', expect.any(Function), {
+      once: true,
+    });
+    expect(mockAddEventListener).toHaveBeenLastCalledWith('load', expect.any(Function), { once: true });
+    (document.addEventListener.mock.lastCall as [string, () => void])[1]();
+    (mockAddEventListener.mock.lastCall as [string, () => void])[1]();
+    await expect(documentReady).resolves.toBe(window);
+    await expect(windowLoaded).resolves.toBe(window);
+    document.readyState = 'complete';
+    await expect(_.whenDocumentReady()).resolves.toBe(window);
+    await expect(_.whenWindowLoaded()).resolves.toBe(window);
+    expect(document.addEventListener).toHaveBeenCalledTimes(1);
+    expect(mockAddEventListener).toHaveBeenCalledTimes(1);
+  });
+
+  it('whenIdle resolves with window once idle', async () => {
+    const requestIdleCallback = jest.fn((callback: () => void) => callback());
+    const setTimeout = jest.fn((callback: () => void) => callback());
+    jest.replaceProperty(global, 'window', { requestIdleCallback } as unknown as typeof windowMock);
+    await expect(_.whenIdle({ timeout: 100 })).resolves.toBe(window);
+    expect(requestIdleCallback).toHaveBeenLastCalledWith(expect.any(Function), { timeout: 100 });
+    jest.replaceProperty(global, 'window', { setTimeout } as unknown as typeof windowMock);
+    await expect(_.whenIdle()).resolves.toBe(window);
+    expect(setTimeout).toHaveBeenLastCalledWith(expect.any(Function), 1);
+  });
+
+  it('when alikes resolve with fallback or never settle on server', async () => {
+    const onSettled = jest.fn();
+    jest.replaceProperty(global, 'window', void 0);
+    await expect(_.whenDocumentReady(null)).resolves.toBe(null);
+    await expect(_.whenWindowLoaded(void 0)).resolves.toBe(void 0);
+    await expect(_.whenIdle(void 0, null)).resolves.toBe(null);
+    void Promise.race([_.whenDocumentReady(), _.whenWindowLoaded(), _.whenIdle()]).then(onSettled, onSettled);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(onSettled).not.toHaveBeenCalled();
+  });
+
+  it('onGlobals alikes provide defined globals and return function result', () => {
+    const replacedProperty = jest.replaceProperty(global, 'speechSynthesis', {} as SpeechSynthesis);
+    const keys = ['speechSynthesis'] as const;
+    const fn = jest.fn((globals: object, value?: number) => [globals, value]);
+    const expected = [{ speechSynthesis }, void 0];
+    expect(_.onGlobals(keys, fn)).toEqual(expected);
+    expect(_.onGlobals(keys, fn, null)).toEqual(expected);
+    expect(_.onGlobalsOrThrow(keys, fn)).toEqual(expected);
+    expect(_.onGlobalsOrWarn(keys, fn)).toEqual(expected);
+    expect(_.onGlobalsOrWarn(keys, fn, null)).toEqual(expected);
+    expect(_.globalsFn(keys, fn)(1)).toEqual([{ speechSynthesis }, 1]);
+    expect(_.globalsFn(keys, fn, fn0)(1)).toEqual([{ speechSynthesis }, 1]);
+    expect(_.globalsFnOrThrow(keys, fn)(1)).toEqual([{ speechSynthesis }, 1]);
+    expect(_.globalsFnOrWarn(keys, fn)(1)).toEqual([{ speechSynthesis }, 1]);
+    expect(Object.keys(fn.mock.calls[0]?.[0] ?? {})).toEqual(['speechSynthesis']);
+    replacedProperty.restore();
+  });
+
+  it('onGlobals alikes report missing globals', () => {
+    const replacedProperty = jest.replaceProperty(global, 'speechSynthesis', {} as SpeechSynthesis);
+    const keys = ['IntersectionObserver', 'speechSynthesis', 'ResizeObserver'] as const;
+    const missingGlobals = ['IntersectionObserver', 'ResizeObserver'];
+    consoleErrorSpy.mockImplementation();
+    expect(_.onGlobals(keys, fn0)).toBe(void 0);
+    expect(_.onGlobals(keys, fn0, null)).toBe(null);
+    expect(() => _.onGlobalsOrThrow(keys, fn0)).toThrow('missing browser globals IntersectionObserver, ResizeObserver');
+    expect(_.onGlobalsOrWarn(keys, fn0)).toBe(void 0);
+    expect(_.onGlobalsOrWarn(keys, fn0, null)).toBe(null);
+    expect(consoleErrorSpy).toHaveBeenCalledTimes(2);
+    expect(consoleErrorSpy).toHaveBeenLastCalledWith(expect.objectContaining({ missingGlobals }));
+    expect(_.globalsFn(keys, fn0)()).toBe(void 0);
+    expect(_.globalsFn(keys, fn0, windowMockFn)).toBe(windowMockFn);
+    expect(_.globalsFnOrThrow(keys, fn0)).toThrow('missing browser globals IntersectionObserver, ResizeObserver');
+    expect(_.globalsFnOrWarn(keys, fn0)()).toBe(void 0);
+    expect(consoleErrorSpy).toHaveBeenCalledTimes(3);
+    expect(consoleErrorSpy).toHaveBeenLastCalledWith(expect.objectContaining({ missingGlobals }));
+    replacedProperty.restore();
+  });
+
+  it('isBrowser and assertBrowser check window', () => {
+    expect(_.isBrowser(windowMock)).toBe(true);
+    expect(_.isBrowser(void 0)).toBe(false);
+    expect(() => _.assertBrowser(windowMock)).not.toThrow();
+    expect(() => _.assertBrowser(void 0)).toThrow(_.EnvironmentError);
+    expect(() => _.assertBrowser(void 0)).toThrow('Function assertBrowser executed on wrong environment');
+  });
+
+  it('assertGlobals returns defined globals or throws', () => {
+    const replacedProperty = jest.replaceProperty(global, 'speechSynthesis', {} as SpeechSynthesis);
+    expect(_.assertGlobals('speechSynthesis')).toEqual({ speechSynthesis });
+    expect(() => _.assertGlobals('speechSynthesis', 'ResizeObserver')).toThrow(
+      'Function assertGlobals executed on wrong environment, missing browser globals ResizeObserver',
+    );
+    replacedProperty.restore();
+  });
+
+  it('exports errors and runtime detection', () => {
+    expect(new _.MissingGlobalError(fn0, ['ResizeObserver'])).toBeInstanceOf(_.EnvironmentError);
+    expect(_.detectRuntime()).toBe('node');
+  });
+
+  it('reports warnings through the environment reporter', () => {
+    const reporter = jest.fn();
+    const previousReporter = _.setEnvironmentReporter(_.throwInDevelopment(_.rateLimit(_.dedupeByCallSite(reporter))));
+    _.resetEnvironmentReport();
+    expect(_.onBrowserOrWarn(fn0, 'fallback')).toBe('fallback');
+    expect(_.onGlobalsOrWarn(['ResizeObserver'], fn0, 'fallback')).toBe('fallback');
+    expect(reporter).toHaveBeenCalledTimes(2);
+    expect(reporter).toHaveBeenLastCalledWith(expect.any(_.MissingGlobalError));
+    expect(_.getEnvironmentReport()).toEqual({ fn0: 2 });
+    _.setEnvironmentReporter(_.dedupeByFunction(_.silentReporter));
+    expect(_.browserFnOrWarn(fn0, () => 'fallback')()).toBe('fallback');
+    expect(reporter).toHaveBeenCalledTimes(2);
+    expect(_.setEnvironmentReporter(previousReporter)).not.toBe(_.consoleReporter);
+  });
 });
@@ -1,13 +1,88 @@
-import type { AnyBrowserFn, BrowserFn, IfVoid, MergeReturnTypes, Shift, VoidOrUnionUndefined } from './types';
+import type {
+  AnyBrowserFn,
+  AnyFn,
+  AnyGlobalsFn,
+  AnyWorkerFn,
+  BrowserFn,
+  DefinedGlobals,
+  DefinedWindow,
+  Disposer,
+  EventHandler,
+  EventType,
+  GlobalsFn,
+  IfVoid,
+  MergeReturnTypes,
+  ServiceWorkerFn,
+  ServiceWorkerScope,
+  Shift,
+  VoidOrUnionUndefined,
+  WorkerFn,
+  WorkerScope,
+} from './types';
+import type { ServerContextFn, ServerLocation } from './requestContext';
 
-import { EnvironmentError } from './EnvironmentError';
+import { EnvironmentError, MissingGlobalError } from './EnvironmentError';
+import { reportEnvironmentError } from './reporter';
+import { getServerContext, parseCookies } from './requestContext';
+import { globalScopeOf } from './runtime';
 
-export { EnvironmentError } from './EnvironmentError';
-export { AnyBrowserFn, BrowserFn } from './types';
+export {
+  BrowserStorage,
+  BrowserStorageType,
+  StorageListener,
+  StorageValidator,
+  browserStorage,
+} from './browserStorage';
+export { EnvironmentError, MissingGlobalError } from './EnvironmentError';
+export {
+  EnvironmentReporter,
+  RateLimitOptions,
+  consoleReporter,
+  dedupeByCallSite,
+  dedupeByFunction,
+  getEnvironmentReport,
+  rateLimit,
+  resetEnvironmentReport,
+  setEnvironmentReporter,
+  silentReporter,
+  throwInDevelopment,
+} from './reporter';
+export { Runtime, detectRuntime } from './runtime';
+export {
+  AnyBrowserFn,
+  AnyGlobalsFn,
+  AnyWorkerFn,
+  BrowserFn,
+  DefinedGlobal,
+  DefinedGlobals,
+  DefinedWindow,
+  Disposer,
+  EventHandler,
+  EventMap,
+  EventType,
+  GlobalsFn,
+  ServiceWorkerFn,
+  WorkerFn,
+} from './types';
+export { ServerContext, ServerContextFn, ServerLocation, ServerNavigator } from './requestContext';
 
 /** Does nothing and returns `undefined` (return type `void`). */
 function voidFn() {}
 
+/** Returns `value` when it is a defined `window`, otherwise throws an `EnvironmentError`. */
+function browserOrThrow(value: typeof window, fn: EnvironmentError['fn']) {
+  if (isBrowser(value)) {
+    return value;
+  } else {
+    throw new EnvironmentError(fn);
+  }
+}
+
+/** Returns a promise resolving with the result of `fn`, or rejecting with what it throws. */
+function asyncResult(fn: () => unknown) {
+  return new Promise((resolve) => resolve(fn()));
+}
+
 /**
  * Executes a function when on a browser (more accurately when `window` is defined).
  *
@@ -50,11 +125,7 @@ export function onBrowser(fn: BrowserFn<unknown>, fallbackValue?: unknown) {
  * ```
  */
 export function onBrowserOrThrow<ReturnType>(fn: BrowserFn<ReturnType>): ReturnType {
-  if (window) {
-    return fn(window);
-  } else {
-    throw new EnvironmentError(fn);
-  }
+  return fn(browserOrThrow(window, fn));
 }
 
 /**
@@ -80,8 +151,7 @@ export function onBrowserOrWarn<ReturnType, FallbackValue>(
 ): IfVoid<ReturnType, FallbackValue, ReturnType | FallbackValue>;
 export function onBrowserOrWarn(fn: BrowserFn<unknown>, fallbackValue?: unknown) {
   if (!window) {
-    // eslint-disable-next-line no-console
-    console.error(new EnvironmentError(fn));
+    reportEnvironmentError(new EnvironmentError(fn));
   }
   return window ? fn(window) : fallbackValue;
 }
@@ -141,7 +211,7 @@ export function browserFnOrThrow(fn: BrowserFn<unknown>) {
 /**
  * Allows a function to be executed only on a browser (more accurately when `window` is defined).
  *
- * Sends a warning to the console when the resulting function is called outside of a browser.
+ * Reports a warning (see `setEnvironmentReporter`) when the resulting function is called outside of a browser.
  *
  * @param fn A function to execute with `window` as its first parameter.
  * @param fallbackFn Function to use when not on browser, void function by default.
@@ -168,3 +238,587 @@ export function browserFnOrWarn<Fn extends AnyBrowserFn, FallbackReturnType>(
 export function browserFnOrWarn(fn: BrowserFn<unknown>, fallbackFn = voidFn) {
   return window ? fn.bind(null, window) : EnvironmentError.warningFn(fn, fallbackFn);
 }
+
+/**
+ * Executes a function when on a browser (more accurately when `window` is defined), asynchronously.
+ *
+ * @param fn Function to execute, with `window` as parameter, may return a promise.
+ * @param fallbackValue Value to resolve with when not on a browser, undefined by default.
+ * @returns A promise resolving on a browser with the function result, otherwise with the fallback value.
+ * @example
+ * ```
+ *   // Response on browser, `null` otherwise.
+ *   const response = await onBrowserAsync(({ fetch, location }) => fetch(location.href), null);
+ * ```
+ */
+export function onBrowserAsync<ReturnType>(
+  fn: BrowserFn<ReturnType>,
+): Promise<VoidOrUnionUndefined<Awaited<ReturnType>>>;
+export function onBrowserAsync<ReturnType, FallbackValue>(
+  fn: BrowserFn<ReturnType>,
+  fallbackValue: FallbackValue,
+): Promise<IfVoid<Awaited<ReturnType>, FallbackValue, Awaited<ReturnType> | FallbackValue>>;
+export function onBrowserAsync(fn: BrowserFn<unknown>, fallbackValue?: unknown) {
+  return asyncResult(() => onBrowser(fn, fallbackValue));
+}
+
+/**
+ * Executes a function when on a browser, asynchronously, but otherwise rejects with an `EnvironmentError`.
+ *
+ * @param fn Function to execute, with `window` as parameter, may return a promise.
+ * @returns A promise resolving on a browser with the function result, otherwise rejecting.
+ * @example
+ * ```
+ *   // Response on browser, otherwise rejects.
+ *   const response = await onBrowserAsyncOrThrow(({ fetch, location }) => fetch(location.href));
+ * ```
+ */
+export function onBrowserAsyncOrThrow<ReturnType>(fn: BrowserFn<ReturnType>): Promise<Awaited<ReturnType>>;
+export function onBrowserAsyncOrThrow(fn: BrowserFn<unknown>) {
+  return asyncResult(() => onBrowserOrThrow(fn));
+}
+
+/**
+ * Allows a function to be executed only on a browser (more accurately when `window` is defined), asynchronously.
+ *
+ * @param fn A function to execute with `window` as its first parameter, may return a promise.
+ * @param fallbackFn Function to use when not on browser, void function by default.
+ * @returns A function returning a promise accordingly.
+ * @example
+ * ```
+ *   const load = browserFnAsync(({ fetch }, url: string) => fetch(url));
+ *   const response = await load('/data.json'); // Response on browser, undefined otherwise.
+ * ```
+ */
+export function browserFnAsync<Fn extends AnyBrowserFn>(
+  fn: Fn,
+): (...args: Shift<Parameters<Fn>>) => Promise<VoidOrUnionUndefined<Awaited<ReturnType<Fn>>>>;
+
+export function browserFnAsync<Fn extends AnyBrowserFn, FallbackReturnType>(
+  fn: Fn,
+  fallbackFn: (...args: Shift<Parameters<Fn>>) => FallbackReturnType,
+): (...args: Shift<Parameters<Fn>>) => Promise<MergeReturnTypes<Awaited<ReturnType<Fn>>, Awaited<FallbackReturnType>>>;
+
+export function browserFnAsync(fn: BrowserFn<unknown>, fallbackFn: AnyFn = voidFn) {
+  const syncFn: AnyFn = browserFn(fn, fallbackFn);
+  return (...args: unknown[]) => asyncResult(() => syncFn(...args));
+}
+
+/**
+ * Allows a function to be executed on a browser (more accurately when `window` is defined), asynchronously.
+ *
+ * The promises returned by the resulting function reject with an `EnvironmentError` outside of a browser.
+ *
+ * @param fn A function to execute with `window` as its first parameter, may return a promise.
+ * @returns A function returning a promise accordingly.
+ * @example
+ * ```
+ *   const load = browserFnAsyncOrThrow(({ fetch }, url: string) => fetch(url));
+ *   const response = await load('/data.json'); // Response on browser, rejects otherwise.
+ * ```
+ */
+export function browserFnAsyncOrThrow<Fn extends AnyBrowserFn>(
+  fn: Fn,
+): (...args: Shift<Parameters<Fn>>) => Promise<Awaited<ReturnType<Fn>>>;
+export function browserFnAsyncOrThrow(fn: BrowserFn<unknown>) {
+  const syncFn: AnyFn = browserFnOrThrow(fn);
+  return (...args: unknown[]) => asyncResult(() => syncFn(...args));
+}
+
+/**
+ * Returns a promise resolving with `window` once `wait` calls back on a browser.
+ *
+ * When not on a browser, it resolves with the server fallback if any, otherwise it never settles.
+ */
+function whenBrowser(serverFallback: [] | [unknown], wait: (window: DefinedWindow, resolve: () => void) => void) {
+  return new Promise<unknown>((resolve) => {
+    if (window) {
+      const currentWindow = window;
+      wait(currentWindow, () => resolve(currentWindow));
+    } else if (serverFallback.length) {
+      resolve(serverFallback[0]);
+    }
+  });
+}
+
+/**
+ * Waits for the document to be ready, meaning it has been parsed (`DOMContentLoaded` event).
+ *
+ * Resolves right away when the document is already ready. When not on a browser, resolves with the server fallback
+ * if provided, otherwise never settles.
+ *
+ * @param serverFallback Value to resolve with when not on a browser.
+ * @returns A promise resolving with `window` on a browser, otherwise with the server fallback.
+ * @example
+ * ```
+ *   const { document } = await whenDocumentReady();
+ * ```
+ */
+export function whenDocumentReady(): Promise<DefinedWindow>;
+export function whenDocumentReady<FallbackValue>(serverFallback: FallbackValue): Promise<DefinedWindow | FallbackValue>;
+export function whenDocumentReady(...serverFallback: [] | [unknown]) {
+  return whenBrowser(serverFallback, ({ document }, resolve) => {
+    if (document.readyState === 'loading') {
+      document.addEventListener('DOMContentLoaded', resolve, { once: true });
+    } else {
+      resolve();
+    }
+  });
+}
+
+/**
+ * Waits for the window to be loaded, meaning all its resources have been loaded (`load` event).
+ *
+ * Resolves right away when the window is already loaded. When not on a browser, resolves with the server fallback
+ * if provided, otherwise never settles.
+ *
+ * @param serverFallback Value to resolve with when not on a browser.
+ * @returns A promise resolving with `window` on a browser, otherwise with the server fallback.
+ * @example
+ * ```
+ *   const { performance } = await whenWindowLoaded();
+ * ```
+ */
+export function whenWindowLoaded(): Promise<DefinedWindow>;
+export function whenWindowLoaded<FallbackValue>(serverFallback: FallbackValue): Promise<DefinedWindow | FallbackValue>;
+export function whenWindowLoaded(...serverFallback: [] | [unknown]) {
+  return whenBrowser(serverFallback, (window, resolve) => {
+    if (window.document.readyState === 'complete') {
+      resolve();
+    } else {
+      window.addEventListener('load', resolve, { once: true });
+    }
+  });
+}
+
+/**
+ * Waits for the browser to be idle, with `requestIdleCallback`, or a timeout where it is not supported.
+ *
+ * When not on a browser, resolves with the server fallback if provided, otherwise never settles.
+ *
+ * @param options Options of `requestIdleCallback`, like the maximum time to wait.
+ * @param serverFallback Value to resolve with when not on a browser.
+ * @returns A promise resolving with `window` on a browser, otherwise with the server fallback.
+ * @example
+ * ```
+ *   await whenIdle({ timeout: 2000 });
+ *   prefetchNextPage();
+ * ```
+ */
+export function whenIdle(options?: IdleRequestOptions): Promise<DefinedWindow>;
+export function whenIdle<FallbackValue>(
+  options: IdleRequestOptions | undefined,
+  serverFallback: FallbackValue,
+): Promise<DefinedWindow | FallbackValue>;
+export function whenIdle(options?: IdleRequestOptions, ...serverFallback: [] | [unknown]) {
+  return whenBrowser(serverFallback, (window, resolve) => {
+    if ('requestIdleCallback' in window) {
+      window.requestIdleCallback(resolve, options);
+    } else {
+      (window as DefinedWindow).setTimeout(resolve, 1);
+    }
+  });
+}
+
+/** Returns the browser globals `keys` when all of them are defined, and the missing ones. */
+function definedGlobals<Key extends BrowserGlobalKeys>(keys: readonly Key[]) {
+  const globals = {} as DefinedGlobals<Key>;
+  const missingGlobals: Key[] = [];
+  for (const key of keys) {
+    const value = globalThis[key];
+    if (value === void 0) {
+      missingGlobals.push(key);
+    } else {
+      Object.assign(globals, { [key]: value });
+    }
+  }
+  return { globals: missingGlobals.length ? void 0 : globals, missingGlobals };
+}
+
+/** Returns the browser globals `keys` when all of them are defined, otherwise throws an `EnvironmentError`. */
+function globalsOrThrow<Key extends BrowserGlobalKeys>(keys: readonly Key[], fn: EnvironmentError['fn']) {
+  const { globals, missingGlobals } = definedGlobals(keys);
+  if (globals) {
+    return globals;
+  } else {
+    throw new MissingGlobalError(fn, missingGlobals);
+  }
+}
+
+/**
+ * Executes a function when the given browser globals are all defined, like `IntersectionObserver`,
+ * which may be missing even on a browser.
+ *
+ * @param keys Names of the browser globals the function needs.
+ * @param fn Function to execute, with an object holding the browser globals as parameter, typed as defined.
+ * @param fallbackValue Value to return when a browser global is missing, undefined by default.
+ * @returns When all the browser globals are defined, the function result, otherwise the fallback value.
+ * @example
+ * ```
+ *   // Observer when supported, `null` otherwise.
+ *   const observer = onGlobals(['IntersectionObserver'], ({ IntersectionObserver }) => new IntersectionObserver(onIntersect), null);
+ * ```
+ */
+export function onGlobals<Key extends BrowserGlobalKeys, ReturnType>(
+  keys: readonly Key[],
+  fn: GlobalsFn<Key, ReturnType>,
+): VoidOrUnionUndefined<ReturnType>;
+export function onGlobals<Key extends BrowserGlobalKeys, ReturnType, FallbackValue>(
+  keys: readonly Key[],
+  fn: GlobalsFn<Key, ReturnType>,
+  fallbackValue: FallbackValue,
+): IfVoid<ReturnType, FallbackValue, ReturnType | FallbackValue>;
+export function onGlobals(
+  keys: readonly BrowserGlobalKeys[],
+  fn: GlobalsFn<BrowserGlobalKeys, unknown>,
+  fallbackValue?: unknown,
+) {
+  const { globals } = definedGlobals(keys);
+  return globals ? fn(globals) : fallbackValue;
+}
+
+/**
+ * Executes a function when the given browser globals are all defined, but otherwise throws an `EnvironmentError`
+ * listing the missing ones.
+ *
+ * @param keys Names of the browser globals the function needs.
+ * @param fn Function to execute, with an object holding the browser globals as parameter, typed as defined.
+ * @returns When all the browser globals are defined, the function result, otherwise throws.
+ * @example
+ * ```
+ *   // Observer when supported, otherwise throws.
+ *   const observer = onGlobalsOrThrow(['ResizeObserver'], ({ ResizeObserver }) => new ResizeObserver(onResize));
+ * ```
+ */
+export function onGlobalsOrThrow<Key extends BrowserGlobalKeys, ReturnType>(
+  keys: readonly Key[],
+  fn: GlobalsFn<Key, ReturnType>,
+): ReturnType {
+  return fn(globalsOrThrow(keys, fn));
+}
+
+/**
+ * Executes a function when the given browser globals are all defined,
+ * otherwise issues a warning listing the missing ones.
+ *
+ * @param keys Names of the browser globals the function needs.
+ * @param fn Function to execute, with an object holding the browser globals as parameter, typed as defined.
+ * @param fallbackValue Value to return when a browser global is missing, undefined by default.
+ * @returns When all the browser globals are defined, the function result, otherwise the fallback value.
+ * @example
+ * ```
+ *   // Voices when supported, an empty array otherwise and issues a warning in the console.
+ *   const voices = onGlobalsOrWarn(['speechSynthesis'], ({ speechSynthesis }) => speechSynthesis.getVoices(), []);
+ * ```
+ */
+export function onGlobalsOrWarn<Key extends BrowserGlobalKeys, ReturnType>(
+  keys: readonly Key[],
+  fn: GlobalsFn<Key, ReturnType>,
+): VoidOrUnionUndefined<ReturnType>;
+export function onGlobalsOrWarn<Key extends BrowserGlobalKeys, ReturnType, FallbackValue>(
+  keys: readonly Key[],
+  fn: GlobalsFn<Key, ReturnType>,
+  fallbackValue: FallbackValue,
+): IfVoid<ReturnType, FallbackValue, ReturnType | FallbackValue>;
+export function onGlobalsOrWarn(
+  keys: readonly BrowserGlobalKeys[],
+  fn: GlobalsFn<BrowserGlobalKeys, unknown>,
+  fallbackValue?: unknown,
+) {
+  const { globals, missingGlobals } = definedGlobals(keys);
+  if (!globals) {
+    reportEnvironmentError(new MissingGlobalError(fn, missingGlobals));
+  }
+  return globals ? fn(globals) : fallbackValue;
+}
+
+/**
+ * Allows a function to be executed only when the given browser globals are all defined.
+ *
+ * @param keys Names of the browser globals the function needs.
+ * @param fn A function to execute with an object holding the browser globals as its first parameter.
+ * @param fallbackFn Function to use when a browser global is missing, void function by default.
+ * @returns A function accordingly.
+ * @example
+ * ```
+ *   const observe = globalsFn(['ResizeObserver'], ({ ResizeObserver }, element: Element) => {
+ *     new ResizeObserver(onResize).observe(element);
+ *   });
+ * ```
+ */
+export function globalsFn<Key extends BrowserGlobalKeys, Fn extends AnyGlobalsFn<Key>>(
+  keys: readonly Key[],
+  fn: Fn,
+): (...args: Shift<Parameters<Fn>>) => VoidOrUnionUndefined<ReturnType<Fn>>;
+
+export function globalsFn<Key extends BrowserGlobalKeys, Fn extends AnyGlobalsFn<Key>, FallbackReturnType>(
+  keys: readonly Key[],
+  fn: Fn,
+  fallbackFn: (...args: Shift<Parameters<Fn>>) => FallbackReturnType,
+): (...args: Shift<Parameters<Fn>>) => MergeReturnTypes<ReturnType<Fn>, FallbackReturnType>;
+
+export function globalsFn(keys: readonly BrowserGlobalKeys[], fn: AnyGlobalsFn, fallbackFn = voidFn) {
+  const { globals } = definedGlobals(keys);
+  return globals ? fn.bind(null, globals) : fallbackFn;
+}
+
+/**
+ * Allows a function to be executed when the given browser globals are all defined.
+ *
+ * Throws an `EnvironmentError` listing the missing browser globals when the resulting function is called otherwise.
+ *
+ * @param keys Names of the browser globals the function needs.
+ * @param fn A function to execute with an object holding the browser globals as its first parameter.
+ * @returns A function accordingly.
+ * @example
+ * ```
+ *   const speak = globalsFnOrThrow(['speechSynthesis', 'SpeechSynthesisUtterance'], (globals, text: string) => {
+ *     globals.speechSynthesis.speak(new globals.SpeechSynthesisUtterance(text));
+ *   });
+ * ```
+ */
+export function globalsFnOrThrow<Key extends BrowserGlobalKeys, Fn extends AnyGlobalsFn<Key>>(
+  keys: readonly Key[],
+  fn: Fn,
+): (...args: Shift<Parameters<Fn>>) => ReturnType<Fn>;
+export function globalsFnOrThrow(keys: readonly BrowserGlobalKeys[], fn: AnyGlobalsFn) {
+  const { globals, missingGlobals } = definedGlobals(keys);
+  return globals ? fn.bind(null, globals) : EnvironmentError.throwingFn(fn, missingGlobals);
+}
+
+/**
+ * Allows a function to be executed only when the given browser globals are all defined.
+ *
+ * Reports a warning listing the missing browser globals (see `setEnvironmentReporter`) when the resulting function is called otherwise.
+ *
+ * @param keys Names of the browser globals the function needs.
+ * @param fn A function to execute with an object holding the browser globals as its first parameter.
+ * @param fallbackFn Function to use when a browser global is missing, void function by default.
+ * @returns A function accordingly.
+ * @example
+ * ```
+ *   const observe = globalsFnOrWarn(['ResizeObserver'], ({ ResizeObserver }, element: Element) => {
+ *     new ResizeObserver(onResize).observe(element);
+ *   });
+ * ```
+ */
+export function globalsFnOrWarn<Key extends BrowserGlobalKeys, Fn extends AnyGlobalsFn<Key>>(
+  keys: readonly Key[],
+  fn: Fn,
+): (...args: Shift<Parameters<Fn>>) => VoidOrUnionUndefined<ReturnType<Fn>>;
+
+export function globalsFnOrWarn<Key extends BrowserGlobalKeys, Fn extends AnyGlobalsFn<Key>, FallbackReturnType>(
+  keys: readonly Key[],
+  fn: Fn,
+  fallbackFn: (...args: Shift<Parameters<Fn>>) => FallbackReturnType,
+): (...args: Shift<Parameters<Fn>>) => MergeReturnTypes<ReturnType<Fn>, FallbackReturnType>;
+
+export function globalsFnOrWarn(keys: readonly BrowserGlobalKeys[], fn: AnyGlobalsFn, fallbackFn = voidFn) {
+  const { globals, missingGlobals } = definedGlobals(keys);
+  return globals ? fn.bind(null, globals) : EnvironmentError.warningFn(fn, fallbackFn, missingGlobals);
+}
+
+/**
+ * Checks whether `window` is defined, meaning the code runs on a browser.
+ *
+ * Narrows the type of the given binding, for early returns or in class methods, where callbacks are awkward.
+ *
+ * @param window Value of `window`, or of a local binding referencing it.
+ * @returns Whether `window` is defined.
+ * @example
+ * ```
+ *   if (!isBrowser(window)) {
+ *     return;
+ *   }
+ *   // Here `window` is always defined.
+ *   window.scrollTo(0, 0);
+ * ```
+ */
+export function isBrowser(window: typeof globalThis.window): window is Window & BrowserGlobals {
+  return window !== void 0;
+}
+
+/**
+ * Asserts that `window` is defined, meaning the code runs on a browser, otherwise throws an `EnvironmentError`.
+ *
+ * Narrows the type of the given binding for the rest of the block.
+ *
+ * @param window Value of `window`, or of a local binding referencing it.
+ * @example
+ * ```
+ *   const currentWindow = window;
+ *   assertBrowser(currentWindow);
+ *   // Here `currentWindow` is always defined.
+ *   currentWindow.scrollTo(0, 0);
+ * ```
+ */
+export function assertBrowser(window: typeof globalThis.window): asserts window is Window & BrowserGlobals {
+  browserOrThrow(window, assertBrowser as AnyBrowserFn);
+}
+
+/**
+ * Asserts that the given browser globals are all defined, otherwise throws an `EnvironmentError` listing the missing ones.
+ *
+ * @param keys Names of the browser globals.
+ * @returns An object holding the browser globals, typed as defined.
+ * @example
+ * ```
+ *   const { document, navigator } = assertGlobals('document', 'navigator');
+ * ```
+ */
+export function assertGlobals<Key extends BrowserGlobalKeys>(...keys: Key[]): DefinedGlobals<Key> {
+  return globalsOrThrow(keys, assertGlobals);
+}
+
+/**
+ * Executes a function when in a worker (more accurately when the global scope is a `WorkerGlobalScope`).
+ *
+ * @param fn Function to execute, with `self` as parameter.
+ * @param fallbackValue Value to return when not in a worker, undefined by default.
+ * @returns In a worker, the function result, otherwise the fallback value.
+ * @example
+ * ```
+ *   // Worker location on worker, `null` otherwise.
+ *   const href = onWorker(({ location }) => location.href, null);
+ * ```
+ */
+export function onWorker<ReturnType>(fn: WorkerFn<ReturnType>): VoidOrUnionUndefined<ReturnType>;
+export function onWorker<ReturnType, FallbackValue>(
+  fn: WorkerFn<ReturnType>,
+  fallbackValue: FallbackValue,
+): IfVoid<ReturnType, FallbackValue, ReturnType | FallbackValue>;
+export function onWorker(fn: WorkerFn<unknown>, fallbackValue?: unknown) {
+  const scope = globalScopeOf<WorkerScope>('WorkerGlobalScope');
+  return scope ? fn(scope) : fallbackValue;
+}
+
+/**
+ * Executes a function when in a service worker (more accurately when the global scope is a `ServiceWorkerGlobalScope`).
+ *
+ * @param fn Function to execute, with `self` as parameter.
+ * @param fallbackValue Value to return when not in a service worker, undefined by default.
+ * @returns In a service worker, the function result, otherwise the fallback value.
+ * @example
+ * ```
+ *   onServiceWorker(({ clients }) => clients.claim());
+ * ```
+ */
+export function onServiceWorker<ReturnType>(fn: ServiceWorkerFn<ReturnType>): VoidOrUnionUndefined<ReturnType>;
+export function onServiceWorker<ReturnType, FallbackValue>(
+  fn: ServiceWorkerFn<ReturnType>,
+  fallbackValue: FallbackValue,
+): IfVoid<ReturnType, FallbackValue, ReturnType | FallbackValue>;
+export function onServiceWorker(fn: ServiceWorkerFn<unknown>, fallbackValue?: unknown) {
+  const scope = globalScopeOf<ServiceWorkerScope>('ServiceWorkerGlobalScope');
+  return scope ? fn(scope) : fallbackValue;
+}
+
+/**
+ * Allows a function to be executed only in a worker (more accurately when the global scope is a `WorkerGlobalScope`).
+ *
+ * Ideal to make callbacks.
+ *
+ * @param fn A function to execute with `self` as its first parameter.
+ * @param fallbackFn Function to use when not in a worker, void function by default.
+ * @returns A function accordingly.
+ * @example
+ * ```
+ *   const loadScripts = workerFn((self, ...urls: string[]) => self.importScripts(...urls));
+ *   loadScripts('a.js', 'b.js'); // Only loads the scripts in a worker.
+ * ```
+ */
+export function workerFn<Fn extends AnyWorkerFn>(
+  fn: Fn,
+): (...args: Shift<Parameters<Fn>>) => VoidOrUnionUndefined<ReturnType<Fn>>;
+
+export function workerFn<Fn extends AnyWorkerFn, FallbackReturnType>(
+  fn: Fn,
+  fallbackFn: (...args: Shift<Parameters<Fn>>) => FallbackReturnType,
+): (...args: Shift<Parameters<Fn>>) => MergeReturnTypes<ReturnType<Fn>, FallbackReturnType>;
+
+export function workerFn(fn: WorkerFn<unknown>, fallbackFn = voidFn) {
+  const scope = globalScopeOf<WorkerScope>('WorkerGlobalScope');
+  return scope ? fn.bind(null, scope) : fallbackFn;
+}
+
+/**
+ * Executes a function when on a server, within the context of a request (see `runWithRequestContext`).
+ *
+ * @param fn Function to execute, with server stand-ins for `location`, `navigator` and the cookies as parameter.
+ * @param fallbackValue Value to return when not in the context of a request, undefined by default.
+ * @returns In the context of a request, the function result, otherwise the fallback value.
+ * @example
+ * ```
+ *   // User agent of the request on server, `null` otherwise.
+ *   const userAgent = onServerContext(({ navigator }) => navigator.userAgent, null);
+ * ```
+ */
+export function onServerContext<ReturnType>(fn: ServerContextFn<ReturnType>): VoidOrUnionUndefined<ReturnType>;
+export function onServerContext<ReturnType, FallbackValue>(
+  fn: ServerContextFn<ReturnType>,
+  fallbackValue: FallbackValue,
+): IfVoid<ReturnType, FallbackValue, ReturnType | FallbackValue>;
+export function onServerContext(fn: ServerContextFn<unknown>, fallbackValue?: unknown) {
+  const context = getServerContext();
+  return context ? fn(context) : fallbackValue;
+}
+
+/**
+ * Gets the location of the page, on a browser as well as on a server within the context of a request.
+ *
+ * @returns On a browser, `window.location`, in the context of a request, its stand-in, otherwise `undefined`.
+ * @example
+ * ```
+ *   const pathname = getLocation()?.pathname ?? '/';
+ * ```
+ */
+export function getLocation(): Location | ServerLocation | undefined {
+  return window ? window.location : getServerContext()?.location;
+}
+
+/**
+ * Gets a cookie, on a browser as well as on a server within the context of a request.
+ *
+ * @param name Name of the cookie.
+ * @returns The decoded value of the cookie if set, otherwise `undefined`.
+ * @example
+ * ```
+ *   const theme = getCookie('theme') ?? 'light';
+ * ```
+ */
+export function getCookie(name: string): string | undefined {
+  return window ? parseCookies(window.document.cookie)[name] : getServerContext()?.cookies[name];
+}
+
+/**
+ * Listens to events on a browser target, typed from `WindowEventMap`, `DocumentEventMap` or `HTMLElementEventMap`.
+ *
+ * Does nothing when not on a browser, or when there is no target.
+ *
+ * @param getTarget Function returning the target, with `window` as parameter.
+ * @param type Type of events to listen to.
+ * @param handler Event listener.
+ * @param options Options of `addEventListener`.
+ * @returns A function removing the event listener, also disposable with `using` where `Symbol.dispose` is defined.
+ * @example
+ * ```
+ *   const dispose = listen(({ document }) => document, 'keydown', (event) => event.key === 'Escape' && close());
+ *   dispose();
+ *
+ *   using _ = listen((window) => window, 'resize', onResize);
+ * ```
+ */
+export function listen<Target extends EventTarget, Type extends EventType<Target>>(
+  getTarget: (window: DefinedWindow) => Target | null | undefined,
+  type: Type,
+  handler: EventHandler<Target, Type>,
+  options?: boolean | AddEventListenerOptions,
+): Disposer {
+  const target = window && getTarget(window);
+  const listener = handler as EventListener;
+  target?.addEventListener(type, listener, options);
+  const dispose = () => target?.removeEventListener(type, listener, options);
+  return typeof Symbol.dispose === 'symbol'
+    ? Object.assign(dispose, { [Symbol.dispose]: dispose })
+    : (dispose as Disposer);
+}
@@ -0,0 +1,18 @@
+import environment from './vitestEnvironment';
+
+describe('Check Vitest environment', () => {
+  it('runs tests on Node', () => {
+    expect(environment.transformMode).toBe('ssr');
+    expect(environment.viteEnvironment).toBe('ssr');
+  });
+
+  it('installs browser globals on the global object of the tests', () => {
+    const scope: { [key: string]: unknown } = {};
+    const result = environment.setup(scope);
+    expect('window' in scope).toBe(true);
+    expect(scope.window).toBe(void 0);
+    expect('window' in global).toBe(false);
+    result.teardown(scope);
+    expect('window' in scope).toBe(false);
+  });
+});
@@ -0,0 +1,46 @@
+import { installBrowserGlobals } from './install';
+
+/** Vitest environment, structurally typed so Vitest is not needed to import it. */
+export interface VitestEnvironment {
+  /** Name of the environment. */
+  name: string;
+  /** Vite transformation of the test files, `ssr` like Vitest's `node` environment (Vitest 1 and 2). */
+  transformMode: 'ssr' | 'web';
+  /** Vite environment transforming the test files, `ssr` like Vitest's `node` environment (Vitest 3+). */
+  viteEnvironment: 'client' | 'ssr';
+  /**
+   * Sets the environment up.
+   *
+   * @param global Global object of the tests.
+   * @returns An object whose `teardown` method is called after the tests.
+   */
+  setup(global: object): { teardown(global: object): void };
+}
+
+/**
+ * Vitest environment running the tests on Node, with the browser globals defaulted to `undefined`
+ * as `@typescript/lib-dom/globals` does, so the test files do not have to import it.
+ *
+ * @example
+ * ```
+ *   // vitest.config.ts
+ *   export default defineConfig({
+ *     test: { environment: fileURLToPath(import.meta.resolve('@typescript/lib-dom/vitest-environment')) },
+ *   });
+ * ```
+ */
+const environment: VitestEnvironment = {
+  name: 'typescript-partial-lib-dom',
+  transformMode: 'ssr',
+  viteEnvironment: 'ssr',
+  setup(global) {
+    const installation = installBrowserGlobals({ scope: global });
+    return {
+      teardown() {
+        installation.uninstall();
+      },
+    };
+  },
+};
+
+export default environment;
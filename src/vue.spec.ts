@@ -0,0 +1,53 @@
+import './globals';
+import * as _ from './vue';
+
+const windowMock = {} as typeof window;
+const mockOnMounted = jest.fn();
+const mockOnUnmounted = jest.fn();
+const mounted = () => (mockOnMounted.mock.lastCall as [() => void])[0]();
+const unmounted = () => (mockOnUnmounted.mock.lastCall as [() => void])[0]();
+
+jest.mock('vue', () => ({
+  onMounted: (hook: () => void) => mockOnMounted(hook) as unknown,
+  onUnmounted: (hook: () => void) => mockOnUnmounted(hook) as unknown,
+  shallowRef: (value: unknown) => ({ value }),
+}));
+
+afterEach(() => {
+  jest.resetAllMocks();
+});
+
+describe('Check Vue utils', () => {
+  it('useBrowserFn returns a function executed only on browser', () => {
+    const fn = jest.fn((window: Window, y: number) => [window, y]);
+    expect(_.useBrowserFn(fn)(1)).toBe(void 0);
+    expect(_.useBrowserFn(fn, () => null)(1)).toBe(null);
+    expect(fn).not.toHaveBeenCalled();
+    jest.replaceProperty(global, 'window', windowMock);
+    expect(_.useBrowserFn(fn)(1)).toEqual([windowMock, 1]);
+    expect(_.useBrowserFn(fn, () => null)(2)).toEqual([windowMock, 2]);
+  });
+
+  it('onBrowserMounted executes the effect and its cleanup with window', () => {
+    const destructor = jest.fn();
+    const effect = jest.fn(() => destructor);
+    jest.replaceProperty(global, 'window', windowMock);
+    _.onBrowserMounted(effect);
+    expect(effect).not.toHaveBeenCalled();
+    mounted();
+    expect(effect).toHaveBeenLastCalledWith(windowMock);
+    unmounted();
+    expect(destructor).toHaveBeenLastCalledWith(windowMock);
+    _.onBrowserMounted(() => {});
+    mounted();
+    expect(unmounted).not.toThrow();
+  });
+
+  it('useBrowserRef holds the server value until mounted', () => {
+    jest.replaceProperty(global, 'window', windowMock);
+    const ref = _.useBrowserRef((window) => window, null);
+    expect(ref.value).toBe(null);
+    mounted();
+    expect(ref.value).toBe(windowMock);
+  });
+});
@@ -0,0 +1,106 @@
+/* eslint-disable @typescript-eslint/no-invalid-void-type */
+import type { Ref } from 'vue';
+import type { AnyBrowserFn, BrowserFn, DefinedWindow, MergeReturnTypes, Shift, VoidOrUnionUndefined } from './types';
+
+import { onMounted, onUnmounted, shallowRef } from 'vue';
+import { browserFn } from './utils';
+
+/**
+ * `useBrowserFn` returns a function only executed on a browser (more accurately when `window` is defined).
+ *
+ * Components being set up once, the function is bound to `window` once, when the component is set up.
+ *
+ * @param fn A function to execute with `window` as its first parameter.
+ * @returns A function executing `fn` on a browser, doing nothing otherwise.
+ * @example
+ * ```
+ *   const scrollToTop = useBrowserFn((window) => window.scrollTo(0, 0));
+ *   // <button @click="scrollToTop">Top</button>
+ * ```
+ */
+export function useBrowserFn<Fn extends AnyBrowserFn>(
+  fn: Fn,
+): (...args: Shift<Parameters<Fn>>) => VoidOrUnionUndefined<ReturnType<Fn>>;
+
+/**
+ * `useBrowserFn` returns a function only executed on a browser (more accurately when `window` is defined).
+ *
+ * Components being set up once, the function is bound to `window` once, when the component is set up.
+ *
+ * @param fn A function to execute with `window` as its first parameter.
+ * @param fallbackFn Function to use when not on browser.
+ * @returns A function accordingly.
+ * @example
+ * ```
+ *   const getScrollY = useBrowserFn((window, y: number) => window.scrollY + y, () => null);
+ *   const scrollYPlusOne = getScrollY(1); // Number on browser, `null` otherwise.
+ * ```
+ */
+export function useBrowserFn<Fn extends AnyBrowserFn, FallbackReturnType>(
+  fn: Fn,
+  fallbackFn: (...args: Shift<Parameters<Fn>>) => FallbackReturnType,
+): (...args: Shift<Parameters<Fn>>) => MergeReturnTypes<ReturnType<Fn>, FallbackReturnType>;
+
+export function useBrowserFn(fn: BrowserFn<unknown>, fallbackFn?: (...args: unknown[]) => unknown) {
+  return fallbackFn ? browserFn(fn, fallbackFn) : browserFn(fn);
+}
+
+/**
+ * `onBrowserMounted` registers an effect executed once the component is mounted, thus only on a browser.
+ *
+ * @param effect Imperative function that can return a cleanup function, executed once the component is unmounted.
+ *
+ * @see {@link https://vuejs.org/api/composition-api-lifecycle.html#onmounted}
+ *
+ * This is a modified hook where the effect and cleanup callbacks are provided a defined `window` object.
+ *
+ * It helps using the browser global variables without TypeScript complaining they could be undefined.
+ *
+ * @example
+ * ```
+ *   onBrowserMounted((window) => {
+ *     const onResize = () => (width.value = window.innerWidth);
+ *     window.addEventListener('resize', onResize);
+ *     return (window) => window.removeEventListener('resize', onResize);
+ *   });
+ * ```
+ */
+export function onBrowserMounted(effect: EffectCallback) {
+  let destructor: void | Destructor;
+  onMounted(() => {
+    destructor = effect(window as DefinedWindow);
+  });
+  onUnmounted(() => destructor?.(window as DefinedWindow));
+}
+
+/**
+ * `useBrowserRef` returns a ref holding the server value until the component is mounted,
+ * then the result of a function executed with `window`, avoiding hydration mismatches.
+ *
+ * @param fn Function to execute once the component is mounted, with `window` as parameter.
+ * @param serverValue Value held on the server and until the component is mounted.
+ * @returns A shallow ref holding the server value, then the function result.
+ * @example
+ * ```
+ *   // Number once mounted, `0` on the server and during the hydration.
+ *   const innerWidth = useBrowserRef(({ innerWidth }) => innerWidth, 0);
+ * ```
+ */
+export function useBrowserRef<ReturnType, ServerValue>(
+  fn: BrowserFn<ReturnType>,
+  serverValue: ServerValue,
+): Readonly<Ref<ReturnType | ServerValue>> {
+  const value = shallowRef<ReturnType | ServerValue>(serverValue);
+  onMounted(() => {
+    value.value = fn(window as DefinedWindow);
+  });
+  return value;
+}
+
+export type Destructor = EffectCallback.Destructor;
+
+export type EffectCallback = (window: DefinedWindow) => void | Destructor;
+
+export namespace EffectCallback {
+  export type Destructor = (window: DefinedWindow) => void;
+}
@@ -0,0 +1,19 @@
+import { workerGlobals } from './workerGlobals';
+
+describe('Check worker globals', () => {
+  it('is an array of strings', () => {
+    expect(workerGlobals).toBeInstanceOf(Array);
+    for (const workerGlobal of workerGlobals) {
+      expect(typeof workerGlobal).toBe('string');
+    }
+  });
+
+  it('defaults self, importScripts and all other worker globals', () => {
+    expect(self).toBe(void 0);
+    expect('importScripts' in global).toBe(true);
+    for (const name of workerGlobals) {
+      expect(name in global).toBe(true);
+      expect((global as { [key: string]: unknown })[name]).toBe(void 0);
+    }
+  });
+});
@@ -0,0 +1,190 @@
+import { defineGlobals } from './defineGlobals';
+
+export const workerGlobals = [
+  'CSSImageValue',
+  'CSSKeywordValue',
+  'CSSMathClamp',
+  'CSSMathInvert',
+  'CSSMathMax',
+  'CSSMathMin',
+  'CSSMathNegate',
+  'CSSMathProduct',
+  'CSSMathSum',
+  'CSSMathValue',
+  'CSSMatrixComponent',
+  'CSSNumericArray',
+  'CSSNumericValue',
+  'CSSPerspective',
+  'CSSRotate',
+  'CSSScale',
+  'CSSSkew',
+  'CSSSkewX',
+  'CSSSkewY',
+  'CSSStyleValue',
+  'CSSTransformComponent',
+  'CSSTransformValue',
+  'CSSTranslate',
+  'CSSUnitValue',
+  'CSSUnparsedValue',
+  'CSSVariableReferenceValue',
+  'Cache',
+  'CacheStorage',
+  'CanvasGradient',
+  'CanvasPattern',
+  'Client',
+  'Clients',
+  'CloseEvent',
+  'DOMMatrix',
+  'DOMMatrixReadOnly',
+  'DOMPoint',
+  'DOMPointReadOnly',
+  'DOMQuad',
+  'DOMRect',
+  'DOMRectReadOnly',
+  'DOMStringList',
+  'DedicatedWorkerGlobalScope',
+  'EncodedVideoChunk',
+  'ErrorEvent',
+  'EventSource',
+  'ExtendableEvent',
+  'ExtendableMessageEvent',
+  'FetchEvent',
+  'FileList',
+  'FileReader',
+  'FileReaderSync',
+  'FileSystemDirectoryHandle',
+  'FileSystemFileHandle',
+  'FileSystemHandle',
+  'FileSystemSyncAccessHandle',
+  'FileSystemWritableFileStream',
+  'FontFace',
+  'FontFaceSet',
+  'FontFaceSetLoadEvent',
+  'IDBCursor',
+  'IDBCursorWithValue',
+  'IDBDatabase',
+  'IDBFactory',
+  'IDBIndex',
+  'IDBKeyRange',
+  'IDBObjectStore',
+  'IDBOpenDBRequest',
+  'IDBRequest',
+  'IDBTransaction',
+  'IDBVersionChangeEvent',
+  'ImageBitmap',
+  'ImageBitmapRenderingContext',
+  'ImageData',
+  'Lock',
+  'LockManager',
+  'MediaCapabilities',
+  'MediaSourceHandle',
+  'MediaStreamTrackProcessor',
+  'NavigationPreloadManager',
+  'Notification',
+  'NotificationEvent',
+  'OffscreenCanvas',
+  'OffscreenCanvasRenderingContext2D',
+  'Path2D',
+  'PerformanceServerTiming',
+  'PermissionStatus',
+  'Permissions',
+  'ProgressEvent',
+  'PromiseRejectionEvent',
+  'PushEvent',
+  'PushManager',
+  'PushMessageData',
+  'PushSubscription',
+  'PushSubscriptionOptions',
+  'RTCEncodedAudioFrame',
+  'RTCEncodedVideoFrame',
+  'RTCRtpScriptTransformer',
+  'RTCTransformEvent',
+  'Report',
+  'ReportBody',
+  'ReportingObserver',
+  'SecurityPolicyViolationEvent',
+  'ServiceWorker',
+  'ServiceWorkerContainer',
+  'ServiceWorkerGlobalScope',
+  'ServiceWorkerRegistration',
+  'SharedWorkerGlobalScope',
+  'StorageManager',
+  'StylePropertyMapReadOnly',
+  'TextMetrics',
+  'VideoColorSpace',
+  'VideoDecoder',
+  'VideoEncoder',
+  'VideoFrame',
+  'WebGL2RenderingContext',
+  'WebGLActiveInfo',
+  'WebGLBuffer',
+  'WebGLContextEvent',
+  'WebGLFramebuffer',
+  'WebGLProgram',
+  'WebGLQuery',
+  'WebGLRenderbuffer',
+  'WebGLRenderingContext',
+  'WebGLSampler',
+  'WebGLShader',
+  'WebGLShaderPrecisionFormat',
+  'WebGLSync',
+  'WebGLTexture',
+  'WebGLTransformFeedback',
+  'WebGLUniformLocation',
+  'WebGLVertexArrayObject',
+  'WebSocket',
+  'WebTransport',
+  'WebTransportBidirectionalStream',
+  'WebTransportDatagramDuplexStream',
+  'WebTransportError',
+  'WindowClient',
+  'Worker',
+  'WorkerGlobalScope',
+  'WorkerLocation',
+  'WorkerNavigator',
+  'XMLHttpRequest',
+  'XMLHttpRequestEventTarget',
+  'XMLHttpRequestUpload',
+  'addEventListener',
+  'caches',
+  'cancelAnimationFrame',
+  'clients',
+  'close',
+  'createImageBitmap',
+  'crossOriginIsolated',
+  'dispatchEvent',
+  'fonts',
+  'importScripts',
+  'indexedDB',
+  'isSecureContext',
+  'location',
+  'name',
+  'navigator',
+  'onactivate',
+  'onerror',
+  'onfetch',
+  'oninstall',
+  'onlanguagechange',
+  'onmessage',
+  'onmessageerror',
+  'onnotificationclick',
+  'onnotificationclose',
+  'onoffline',
+  'ononline',
+  'onpush',
+  'onpushsubscriptionchange',
+  'onrejectionhandled',
+  'onrtctransform',
+  'onunhandledrejection',
+  'origin',
+  'postMessage',
+  'registration',
+  'removeEventListener',
+  'reportError',
+  'requestAnimationFrame',
+  'self',
+  'serviceWorker',
+  'skipWaiting',
+] as const;
+
+defineGlobals(workerGlobals, globalThis);